@@ -8,12 +8,12 @@ import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
 import { BODY_ATTRIBUTES, BODY_NODE_NAME } from "../constants/body";
 import { isBodyNode } from "../utils/nodes/body/body";
 import { parseHTMLNode } from "../utils/nodes/node";
-import { calculateShorthandMargins, calculateBodyMargins } from "../utils/nodes/body/attributes/pageMargins";
-import { mm } from "../utils/units";
-import { calculateBodyDimensions } from "../utils/pageRegion/dimensions";
+import { getBodyColumnStyles } from "../utils/nodes/body/attributes/columns";
+import { applyInlineStyles, getBodyStyles } from "../utils/pageStyles";
 import { constructChildOnlyClipboardPlugin } from "../utils/clipboard";
 import { addNodeAttributes } from "../utils/attributes/addAttributes";
 import { getPageNodeAndPosition } from "../utils/nodes/page/pagePosition";
+import { getPaginationExtensionOptions } from "../utils/options";
 
 const baseElement = "div" as const;
 const bodyAttribute = "data-page-body" as const;
@@ -51,19 +51,10 @@ export const BodyNode = Node.create({
             dom.setAttribute(bodyAttribute, String(true));
             dom.classList.add(BODY_NODE_NAME);
 
-            const { width, height } = calculateBodyDimensions(pageNode, node);
-            const calculatedMargins = calculateBodyMargins(node);
-
-            dom.style.height = mm(height);
-            dom.style.width = mm(width);
-            dom.style.margin = calculateShorthandMargins(calculatedMargins);
-
-            dom.style.border = "1px solid #ccc";
-
-            dom.style.overflow = "hidden";
-            dom.style.position = "relative";
+            applyInlineStyles(dom, getBodyStyles(pageNode, node, getPaginationExtensionOptions(editor).customPaperSizes));
 
             const contentDOM = document.createElement(baseElement);
+            applyInlineStyles(contentDOM, getBodyColumnStyles(node));
             dom.appendChild(contentDOM);
 
             return {
@@ -0,0 +1,82 @@
+/**
+ * @file /src/Nodes/ColumnBreak.ts
+ * @name ColumnBreak
+ * @description A manual column break. Content after it starts in the next column, or on
+ * a new page if it is in the last column.
+ */
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import { COLUMN_BREAK_NODE_NAME } from "../constants/columnBreak";
+import { parseHTMLNode } from "../utils/nodes/node";
+import { insertPageBreakAtSelection } from "../utils/nodes/pageBreak";
+
+const baseElement = "div" as const;
+const columnBreakAttribute = "data-column-break" as const;
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        columnBreak: {
+            /**
+             * Insert a column break at the selection.
+             *
+             * @example editor.commands.insertColumnBreak()
+             */
+            insertColumnBreak: () => ReturnType;
+        };
+    }
+}
+
+export const ColumnBreakNode = Node.create({
+    name: COLUMN_BREAK_NODE_NAME,
+    group: "block",
+    atom: true,
+    selectable: true,
+    draggable: false,
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, columnBreakAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [columnBreakAttribute]: true, class: COLUMN_BREAK_NODE_NAME })];
+    },
+
+    addNodeView() {
+        return () => {
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(columnBreakAttribute, String(true));
+            dom.classList.add(COLUMN_BREAK_NODE_NAME);
+            dom.contentEditable = "false";
+
+            dom.style.borderTop = "1px dotted #ccc";
+            dom.style.color = "#999";
+            dom.style.fontSize = "10px";
+            dom.style.textAlign = "center";
+            dom.style.userSelect = "none";
+            dom.style.breakAfter = "column";
+            dom.textContent = "Column break";
+
+            return {
+                dom,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertColumnBreak:
+                () =>
+                ({ tr, dispatch }) => {
+                    if (!insertPageBreakAtSelection(tr, this.type.create())) {
+                        return false;
+                    }
+
+                    if (dispatch) {
+                        dispatch(tr);
+                    }
+
+                    return true;
+                },
+        };
+    },
+});
@@ -0,0 +1,184 @@
+/**
+ * @file /src/Nodes/CrossReference.ts
+ * @name CrossReference
+ * @description An inline cross-reference to a heading, figure or table, displayed as the
+ * target's label and the page it is on.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import {
+    BLOCK_ID_ATTR,
+    BROKEN_CROSS_REFERENCE_COLOUR,
+    CROSS_REFERENCE_DISPLAY_ATTR,
+    CROSS_REFERENCE_DISPLAY_HTML_ATTR,
+    CROSS_REFERENCE_NODE_NAME,
+    CROSS_REFERENCE_TARGET_ATTR,
+    CROSS_REFERENCE_TARGET_HTML_ATTR,
+    DEFAULT_CROSS_REFERENCE_DISPLAY,
+    DEFAULT_CROSS_REFERENCE_LABELS,
+} from "../constants/crossReference";
+import { CrossReferenceDisplay, CrossReferenceResolution } from "../types/crossReference";
+import { NodePosArray } from "../types/node";
+import { Nullable } from "../types/record";
+import {
+    collectBrokenCrossReferences,
+    createBlockIdAttribute,
+    getDecoratedCrossReferenceResolution,
+    insertCrossReferenceAtSelection,
+} from "../utils/nodes/crossReference";
+import { parseHTMLNode } from "../utils/nodes/node";
+import CrossReferencesPlugin from "../Plugins/CrossReferences";
+
+const baseElement = "span" as const;
+const crossReferenceAttribute = "data-cross-reference" as const;
+const brokenAttribute = "data-broken" as const;
+
+type CrossReferenceNodeOptions = {
+    /**
+     * The labels of the blocks which can be cross-referenced, keyed by node type name.
+     * Each of these node types is given a stable block id attribute.
+     *
+     * @default { heading: "Section", image: "Figure", table: "Table" }
+     * @example { heading: "Chapter", table: "Table" }
+     */
+    labels: Record<string, string>;
+};
+
+type CrossReferenceNodeStorage = {
+    /**
+     * Get the cross-references in the document whose target has been deleted.
+     *
+     * @returns {NodePosArray} The broken cross-reference nodes and their positions.
+     */
+    getBrokenCrossReferences: () => NodePosArray;
+};
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        crossReference: {
+            /**
+             * Insert a cross-reference to the block at the given position at the selection.
+             *
+             * @param targetPos - The position of the heading, figure or table to reference.
+             * @param display - What to display about the target. Defaults to its label and page number.
+             * @example editor.commands.insertCrossReference(42, "page")
+             */
+            insertCrossReference: (targetPos: number, display?: CrossReferenceDisplay) => ReturnType;
+        };
+    }
+}
+
+/**
+ * Display the resolution of a cross-reference, styling broken cross-references as errors.
+ *
+ * @param dom - The cross-reference element.
+ * @param resolution - The resolution of the cross-reference, if it has been resolved.
+ */
+const renderCrossReferenceResolution = (dom: HTMLElement, resolution: Nullable<CrossReferenceResolution>): void => {
+    const isBroken = resolution?.isBroken ?? false;
+    dom.textContent = resolution?.text ?? "";
+    dom.toggleAttribute(brokenAttribute, isBroken);
+    dom.style.color = isBroken ? BROKEN_CROSS_REFERENCE_COLOUR : "";
+    dom.style.textDecoration = isBroken ? `wavy underline ${BROKEN_CROSS_REFERENCE_COLOUR}` : "";
+};
+
+export const CrossReferenceNode = Node.create<CrossReferenceNodeOptions, CrossReferenceNodeStorage>({
+    name: CROSS_REFERENCE_NODE_NAME,
+    group: "inline",
+    inline: true,
+    atom: true,
+    selectable: true,
+    draggable: true,
+
+    addOptions() {
+        return {
+            labels: DEFAULT_CROSS_REFERENCE_LABELS,
+        };
+    },
+
+    addStorage() {
+        return {
+            getBrokenCrossReferences: () => [],
+        };
+    },
+
+    onBeforeCreate() {
+        this.storage.getBrokenCrossReferences = () => collectBrokenCrossReferences(this.editor.state.doc, this.options.labels);
+    },
+
+    addGlobalAttributes() {
+        return [
+            {
+                types: Object.keys(this.options.labels),
+                attributes: {
+                    [BLOCK_ID_ATTR]: createBlockIdAttribute(),
+                },
+            },
+        ];
+    },
+
+    addAttributes() {
+        return {
+            [CROSS_REFERENCE_TARGET_ATTR]: {
+                default: null,
+                parseHTML: (element) => element.getAttribute(CROSS_REFERENCE_TARGET_HTML_ATTR),
+                renderHTML: (attributes) =>
+                    attributes[CROSS_REFERENCE_TARGET_ATTR]
+                        ? { [CROSS_REFERENCE_TARGET_HTML_ATTR]: attributes[CROSS_REFERENCE_TARGET_ATTR] }
+                        : {},
+            },
+            [CROSS_REFERENCE_DISPLAY_ATTR]: {
+                default: DEFAULT_CROSS_REFERENCE_DISPLAY,
+                parseHTML: (element) => element.getAttribute(CROSS_REFERENCE_DISPLAY_HTML_ATTR) ?? DEFAULT_CROSS_REFERENCE_DISPLAY,
+                renderHTML: (attributes) => ({ [CROSS_REFERENCE_DISPLAY_HTML_ATTR]: attributes[CROSS_REFERENCE_DISPLAY_ATTR] }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, crossReferenceAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [crossReferenceAttribute]: true })];
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { node, decorations } = props;
+            const crossReferenceNodeType = node.type;
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(crossReferenceAttribute, String(true));
+            dom.contentEditable = "false";
+            renderCrossReferenceResolution(dom, getDecoratedCrossReferenceResolution(decorations));
+
+            return {
+                dom,
+                update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                    if (updatedNode.type !== crossReferenceNodeType) {
+                        return false;
+                    }
+
+                    renderCrossReferenceResolution(dom, getDecoratedCrossReferenceResolution(updatedDecorations));
+                    return true;
+                },
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertCrossReference:
+                (targetPos: number, display: CrossReferenceDisplay = DEFAULT_CROSS_REFERENCE_DISPLAY) =>
+                ({ tr, dispatch }) =>
+                    insertCrossReferenceAtSelection(tr, dispatch, targetPos, display),
+        };
+    },
+
+    addProseMirrorPlugins() {
+        return [CrossReferencesPlugin(this.options.labels)];
+    },
+});
@@ -0,0 +1,86 @@
+/**
+ * @file /src/Nodes/Endnote.ts
+ * @name Endnote
+ * @description The text of a single endnote, gathered into the endnotes at the end of the
+ * document or section its reference is in.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import { ENDNOTE_ID_ATTR, ENDNOTE_NODE_NAME } from "../constants/endnote";
+import { createEndnoteIdAttribute, getDecoratedEndnoteNumber, getEndnoteId, getEndnoteReferencePos } from "../utils/nodes/endnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+
+const baseElement = "div" as const;
+const endnoteAttribute = "data-endnote" as const;
+
+export const EndnoteNode = Node.create({
+    name: ENDNOTE_NODE_NAME,
+    content: "block+",
+    defining: true,
+    isolating: true,
+
+    addAttributes() {
+        return {
+            [ENDNOTE_ID_ATTR]: createEndnoteIdAttribute(),
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, endnoteAttribute, true)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [endnoteAttribute]: true, class: ENDNOTE_NODE_NAME }), 0];
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { editor, node, decorations } = props;
+            const endnoteNodeType = node.type;
+            let endnoteId = getEndnoteId(node);
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(endnoteAttribute, String(true));
+            dom.classList.add(ENDNOTE_NODE_NAME);
+            dom.style.display = "flex";
+            dom.style.gap = "4px";
+
+            // The number links back to the reference
+            const numberDOM = document.createElement("sup");
+            numberDOM.contentEditable = "false";
+            numberDOM.style.userSelect = "none";
+            numberDOM.style.cursor = "pointer";
+            numberDOM.title = "Go to reference";
+            numberDOM.textContent = getDecoratedEndnoteNumber(decorations) ?? "*";
+            numberDOM.addEventListener("mousedown", (event) => {
+                event.preventDefault();
+
+                const referencePos = endnoteId ? getEndnoteReferencePos(editor.state.doc, endnoteId) : null;
+                if (referencePos !== null) {
+                    editor.chain().focus().setNodeSelection(referencePos).scrollIntoView().run();
+                }
+            });
+            dom.appendChild(numberDOM);
+
+            const contentDOM = document.createElement(baseElement);
+            contentDOM.style.flex = "1";
+            dom.appendChild(contentDOM);
+
+            return {
+                dom,
+                contentDOM,
+                update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                    if (updatedNode.type !== endnoteNodeType) {
+                        return false;
+                    }
+
+                    endnoteId = getEndnoteId(updatedNode);
+                    numberDOM.textContent = getDecoratedEndnoteNumber(updatedDecorations) ?? "*";
+                    return true;
+                },
+            };
+        };
+    },
+});
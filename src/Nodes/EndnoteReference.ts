@@ -0,0 +1,130 @@
+/**
+ * @file /src/Nodes/EndnoteReference.ts
+ * @name EndnoteReference
+ * @description An inline reference to an endnote, displayed as the endnote's number.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import {
+    DEFAULT_ENDNOTE_NUMBER_FORMAT,
+    DEFAULT_ENDNOTE_PLACEMENT,
+    ENDNOTE_ID_ATTR,
+    ENDNOTE_ID_HTML_ATTR,
+    ENDNOTE_REFERENCE_NODE_NAME,
+} from "../constants/endnote";
+import { EndnotePlacement } from "../types/endnote";
+import { PageNumberFormat } from "../types/page";
+import { createEndnoteIdAttribute, getDecoratedEndnoteNumber, insertEndnoteAtSelection } from "../utils/nodes/endnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+import EndnoteNumbersPlugin from "../Plugins/EndnoteNumbers";
+import EndnotesPlugin from "../Plugins/Endnotes";
+
+const baseElement = "sup" as const;
+const endnoteReferenceAttribute = "data-endnote-reference" as const;
+
+type EndnoteReferenceNodeOptions = {
+    /**
+     * The format of the endnote numbers.
+     *
+     * @default "lowerRoman"
+     * @example "arabic"
+     */
+    numberFormat: PageNumberFormat;
+
+    /**
+     * Whether endnotes are gathered at the end of the document or at the end of each section.
+     *
+     * @default "document"
+     * @example "section"
+     */
+    placement: EndnotePlacement;
+};
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        endnote: {
+            /**
+             * Insert an endnote reference at the selection and move the cursor into its endnote.
+             *
+             * @example editor.commands.insertEndnote()
+             */
+            insertEndnote: () => ReturnType;
+        };
+    }
+}
+
+export const EndnoteReferenceNode = Node.create<EndnoteReferenceNodeOptions>({
+    name: ENDNOTE_REFERENCE_NODE_NAME,
+    group: "inline",
+    inline: true,
+    atom: true,
+    selectable: true,
+    draggable: true,
+
+    addOptions() {
+        return {
+            numberFormat: DEFAULT_ENDNOTE_NUMBER_FORMAT,
+            placement: DEFAULT_ENDNOTE_PLACEMENT,
+        };
+    },
+
+    addAttributes() {
+        return {
+            [ENDNOTE_ID_ATTR]: createEndnoteIdAttribute(),
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, endnoteReferenceAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [endnoteReferenceAttribute]: true })];
+    },
+
+    renderText() {
+        return "";
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { node, decorations } = props;
+            const referenceNodeType = node.type;
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(endnoteReferenceAttribute, String(true));
+            dom.setAttribute(ENDNOTE_ID_HTML_ATTR, String(node.attrs[ENDNOTE_ID_ATTR]));
+            dom.contentEditable = "false";
+            dom.textContent = getDecoratedEndnoteNumber(decorations) ?? "*";
+
+            return {
+                dom,
+                update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                    if (updatedNode.type !== referenceNodeType) {
+                        return false;
+                    }
+
+                    dom.setAttribute(ENDNOTE_ID_HTML_ATTR, String(updatedNode.attrs[ENDNOTE_ID_ATTR]));
+                    dom.textContent = getDecoratedEndnoteNumber(updatedDecorations) ?? "*";
+                    return true;
+                },
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertEndnote:
+                () =>
+                ({ tr, dispatch }) =>
+                    insertEndnoteAtSelection(tr, dispatch, this.options.placement),
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const { numberFormat, placement } = this.options;
+        return [EndnoteNumbersPlugin(placement, numberFormat), EndnotesPlugin(placement)];
+    },
+});
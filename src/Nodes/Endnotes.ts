@@ -0,0 +1,46 @@
+/**
+ * @file /src/Nodes/Endnotes.ts
+ * @name Endnotes
+ * @description The endnotes of the document or of a section, gathered at its end. The block
+ * is kept in step with the endnote references automatically and should not be inserted by hand.
+ */
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import { ENDNOTE_NODE_NAME, ENDNOTES_NODE_NAME } from "../constants/endnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+
+const baseElement = "div" as const;
+const endnotesAttribute = "data-endnotes" as const;
+
+export const EndnotesNode = Node.create({
+    name: ENDNOTES_NODE_NAME,
+    group: "block",
+    content: `${ENDNOTE_NODE_NAME}+`,
+    defining: true,
+    isolating: true,
+    selectable: false,
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, endnotesAttribute, true)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [endnotesAttribute]: true, class: ENDNOTES_NODE_NAME }), 0];
+    },
+
+    addNodeView() {
+        return () => {
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(endnotesAttribute, String(true));
+            dom.classList.add(ENDNOTES_NODE_NAME);
+            dom.style.borderTop = "1px solid #ccc";
+            dom.style.paddingTop = "8px";
+            dom.style.fontSize = "0.9em";
+
+            return {
+                dom,
+                contentDOM: dom,
+            };
+        };
+    },
+});
@@ -0,0 +1,76 @@
+/**
+ * @file /src/Nodes/Footnote.ts
+ * @name Footnote
+ * @description The text of a single footnote, held in the footnotes of the page its
+ * reference is on.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import { FOOTNOTE_ID_ATTR, FOOTNOTE_NODE_NAME } from "../constants/footnote";
+import { createFootnoteIdAttribute, getDecoratedFootnoteNumber } from "../utils/nodes/footnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+
+const baseElement = "div" as const;
+const footnoteAttribute = "data-footnote" as const;
+
+export const FootnoteNode = Node.create({
+    name: FOOTNOTE_NODE_NAME,
+    content: "block+",
+    defining: true,
+    isolating: true,
+
+    addAttributes() {
+        return {
+            [FOOTNOTE_ID_ATTR]: createFootnoteIdAttribute(),
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, footnoteAttribute, true)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [footnoteAttribute]: true, class: FOOTNOTE_NODE_NAME }), 0];
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { node, decorations } = props;
+            const footnoteNodeType = node.type;
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(footnoteAttribute, String(true));
+            dom.classList.add(FOOTNOTE_NODE_NAME);
+
+            // Flex layout also stops the margins of the content collapsing through the footnote,
+            // so its measured height includes them
+            dom.style.display = "flex";
+            dom.style.gap = "4px";
+
+            const numberDOM = document.createElement("sup");
+            numberDOM.contentEditable = "false";
+            numberDOM.style.userSelect = "none";
+            numberDOM.textContent = getDecoratedFootnoteNumber(decorations) ?? "*";
+            dom.appendChild(numberDOM);
+
+            const contentDOM = document.createElement(baseElement);
+            contentDOM.style.flex = "1";
+            dom.appendChild(contentDOM);
+
+            return {
+                dom,
+                contentDOM,
+                update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                    if (updatedNode.type !== footnoteNodeType) {
+                        return false;
+                    }
+
+                    numberDOM.textContent = getDecoratedFootnoteNumber(updatedDecorations) ?? "*";
+                    return true;
+                },
+            };
+        };
+    },
+});
@@ -0,0 +1,112 @@
+/**
+ * @file /src/Nodes/FootnoteReference.ts
+ * @name FootnoteReference
+ * @description An inline reference to a footnote, displayed as the footnote's number.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import { DEFAULT_FOOTNOTE_NUMBERING, FOOTNOTE_ID_ATTR, FOOTNOTE_ID_HTML_ATTR, FOOTNOTE_REFERENCE_NODE_NAME } from "../constants/footnote";
+import { FootnoteNumbering } from "../types/footnote";
+import { createFootnoteIdAttribute, getDecoratedFootnoteNumber, insertFootnoteAtSelection } from "../utils/nodes/footnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+import FootnoteNumbersPlugin from "../Plugins/FootnoteNumbers";
+
+const baseElement = "sup" as const;
+const footnoteReferenceAttribute = "data-footnote-reference" as const;
+
+type FootnoteReferenceNodeOptions = {
+    /**
+     * Whether footnotes are numbered through the whole document or restart at 1 in each section.
+     *
+     * @default "document"
+     * @example "section"
+     */
+    numbering: FootnoteNumbering;
+};
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        footnote: {
+            /**
+             * Insert a footnote reference at the selection and move the cursor into its footnote.
+             *
+             * @example editor.commands.insertFootnote()
+             */
+            insertFootnote: () => ReturnType;
+        };
+    }
+}
+
+export const FootnoteReferenceNode = Node.create<FootnoteReferenceNodeOptions>({
+    name: FOOTNOTE_REFERENCE_NODE_NAME,
+    group: "inline",
+    inline: true,
+    atom: true,
+    selectable: true,
+    draggable: false,
+
+    addOptions() {
+        return {
+            numbering: DEFAULT_FOOTNOTE_NUMBERING,
+        };
+    },
+
+    addAttributes() {
+        return {
+            [FOOTNOTE_ID_ATTR]: createFootnoteIdAttribute(),
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, footnoteReferenceAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [footnoteReferenceAttribute]: true })];
+    },
+
+    renderText() {
+        return "";
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { node, decorations } = props;
+            const referenceNodeType = node.type;
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(footnoteReferenceAttribute, String(true));
+            dom.setAttribute(FOOTNOTE_ID_HTML_ATTR, String(node.attrs[FOOTNOTE_ID_ATTR]));
+            dom.contentEditable = "false";
+            dom.textContent = getDecoratedFootnoteNumber(decorations) ?? "*";
+
+            return {
+                dom,
+                update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                    if (updatedNode.type !== referenceNodeType) {
+                        return false;
+                    }
+
+                    dom.setAttribute(FOOTNOTE_ID_HTML_ATTR, String(updatedNode.attrs[FOOTNOTE_ID_ATTR]));
+                    dom.textContent = getDecoratedFootnoteNumber(updatedDecorations) ?? "*";
+                    return true;
+                },
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertFootnote:
+                () =>
+                ({ tr, dispatch }) =>
+                    insertFootnoteAtSelection(tr, dispatch),
+        };
+    },
+
+    addProseMirrorPlugins() {
+        return [FootnoteNumbersPlugin(this.options.numbering)];
+    },
+});
@@ -0,0 +1,60 @@
+/**
+ * @file /src/Nodes/Footnotes.ts
+ * @name Footnotes
+ * @description The footnotes of a page, displayed at the bottom of its body. Footnotes are
+ * placed on the page their reference is on when the document is paginated.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { FOOTNOTE_NODE_NAME, FOOTNOTES_NODE_NAME } from "../constants/footnote";
+import { parseHTMLNode } from "../utils/nodes/node";
+import { getPageNodeAndPosition } from "../utils/nodes/page/pagePosition";
+import { getPaginationExtensionOptions } from "../utils/options";
+import { getPageRegionNode } from "../utils/pageRegion/getAttributes";
+import { applyInlineStyles, getFootnotesStyles } from "../utils/pageStyles";
+
+const baseElement = "div" as const;
+const footnotesAttribute = "data-footnotes" as const;
+
+export const FootnotesNode = Node.create({
+    name: FOOTNOTES_NODE_NAME,
+    group: "block",
+    content: `${FOOTNOTE_NODE_NAME}+`,
+    defining: true,
+    isolating: true,
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, footnotesAttribute, true)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [footnotesAttribute]: true, class: FOOTNOTES_NODE_NAME }), 0];
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { editor, getPos } = props;
+            const pos = getPos();
+
+            const { node: pageNode } = getPageNodeAndPosition(editor.state.doc, pos);
+            const bodyNode = pageNode ? getPageRegionNode(pageNode, "body") : null;
+            if (!pageNode || !bodyNode) {
+                throw new Error(`Page body not found from footnotes node at position ${pos}`);
+            }
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(footnotesAttribute, String(true));
+            dom.classList.add(FOOTNOTES_NODE_NAME);
+
+            applyInlineStyles(dom, getFootnotesStyles(pageNode, bodyNode, getPaginationExtensionOptions(editor).customPaperSizes));
+
+            const contentDOM = document.createElement(baseElement);
+            dom.appendChild(contentDOM);
+
+            return {
+                dom,
+                contentDOM,
+            };
+        };
+    },
+});
@@ -4,24 +4,68 @@
  * @description The Header/Footer node for the editor.
  */
 
-import { HEADER_FOOTER_NODE_NAME, HEADER_FOOTER_ATTRIBUTES, FOOTER_DEFAULT_ATTRIBUTES } from "../constants/pageRegions";
+import { HEADER_FOOTER_NODE_NAME, HEADER_FOOTER_ATTRIBUTES, HEADER_FOOTER_NODE_ATTR_KEYS } from "../constants/pageRegions";
 import { constructChildOnlyClipboardPlugin } from "../utils/clipboard";
 import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
-import { mm } from "../utils/units";
-import { calculateHeaderFooterDimensions } from "../utils/pageRegion/dimensions";
-import {
-    getHeaderFooterNodePageEndOffset,
-    getHeaderFooterNodeType,
-    getHeaderFooterNodeXMargins,
-    isHeaderFooterNode,
-} from "../utils/nodes/headerFooter/headerFooter";
+import { getHeaderFooterNodeType, isHeaderFooterNode } from "../utils/nodes/headerFooter/headerFooter";
+import { applyInlineStyles, getHeaderFooterStyles } from "../utils/pageStyles";
 import { addNodeAttributes } from "../utils/attributes/addAttributes";
 import { parseHTMLNode } from "../utils/nodes/node";
 import { getPageNodeAndPosition } from "../utils/nodes/page/pagePosition";
+import { getPaginationExtensionOptions } from "../utils/options";
+import { setHeaderFooterLinked } from "../utils/nodes/headerFooter/linkedHeaderFooter";
+import { setHeaderFooterDimension } from "../utils/nodes/headerFooter/headerFooterDimensions";
+import { HeaderFooter } from "../types/pageRegions";
+import { Length } from "../types/units";
+import LinkedHeaderFooterPlugin from "../Plugins/LinkedHeaderFooter";
 
 const baseElement = "div" as const;
 const headerFooterAttribute = "data-page-header-footer" as const;
 
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        headerFooter: {
+            /**
+             * Link the header or footer of a page to the other linked headers or footers,
+             * replacing its content with their shared content.
+             *
+             * @param pageNum The page number (0-indexed)
+             * @param headerFooterType The page region ("header" or "footer")
+             * @example editor.commands.linkHeaderFooter(0, "header")
+             */
+            linkHeaderFooter: (pageNum: number, headerFooterType: HeaderFooter) => ReturnType;
+
+            /**
+             * Unlink the header or footer of a page so its content can differ from the other pages.
+             *
+             * @param pageNum The page number (0-indexed)
+             * @param headerFooterType The page region ("header" or "footer")
+             * @example editor.commands.unlinkHeaderFooter(0, "footer")
+             */
+            unlinkHeaderFooter: (pageNum: number, headerFooterType: HeaderFooter) => ReturnType;
+
+            /**
+             * Set the height of all the headers or footers in the document.
+             *
+             * @param headerFooterType The page region ("header" or "footer")
+             * @param height The height. Plain numbers are in millimetres.
+             * @example editor.commands.setHeaderFooterHeight("header", 12) | editor.commands.setHeaderFooterHeight("header", "0.5in")
+             */
+            setHeaderFooterHeight: (headerFooterType: HeaderFooter, height: Length) => ReturnType;
+
+            /**
+             * Set the distance of all the headers or footers in the document from the top
+             * (headers) or bottom (footers) edge of the page.
+             *
+             * @param headerFooterType The page region ("header" or "footer")
+             * @param pageEndOffset The offset. Plain numbers are in millimetres.
+             * @example editor.commands.setHeaderFooterPageEndOffset("footer", "36pt")
+             */
+            setHeaderFooterPageEndOffset: (headerFooterType: HeaderFooter, pageEndOffset: Length) => ReturnType;
+        };
+    }
+}
+
 export const HeaderFooterNode = Node.create({
     name: HEADER_FOOTER_NODE_NAME,
     group: "block",
@@ -56,27 +100,7 @@ export const HeaderFooterNode = Node.create({
             dom.setAttribute(headerFooterAttribute, String(true));
             dom.classList.add(HEADER_FOOTER_NODE_NAME);
 
-            const { width, height } = calculateHeaderFooterDimensions(pageNode, node);
-            const endOffset = getHeaderFooterNodePageEndOffset(node) ?? FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset;
-            const xMargins = getHeaderFooterNodeXMargins(node) ?? FOOTER_DEFAULT_ATTRIBUTES.xMargins;
-
-            dom.style.height = mm(height);
-            dom.style.width = mm(width);
-            dom.style.left = mm(xMargins.left);
-            switch (pageRegionType) {
-                case "header":
-                    dom.style.top = mm(endOffset);
-                    break;
-                case "footer":
-                    dom.style.bottom = mm(endOffset);
-                    break;
-            }
-
-            dom.style.border = "1px solid #ccc";
-
-            dom.style.overflow = "hidden";
-            dom.style.position = "absolute";
-            dom.style.boxSizing = "border-box";
+            applyInlineStyles(dom, getHeaderFooterStyles(pageNode, node, getPaginationExtensionOptions(editor).customPaperSizes));
 
             const contentDOM = document.createElement(baseElement);
             dom.appendChild(contentDOM);
@@ -89,6 +113,33 @@ export const HeaderFooterNode = Node.create({
     },
 
     addProseMirrorPlugins() {
-        return [constructChildOnlyClipboardPlugin("headerChildOnlyClipboardPlugin", this.editor.schema, isHeaderFooterNode)];
+        return [
+            constructChildOnlyClipboardPlugin("headerChildOnlyClipboardPlugin", this.editor.schema, isHeaderFooterNode),
+            LinkedHeaderFooterPlugin,
+        ];
+    },
+
+    addCommands() {
+        return {
+            linkHeaderFooter:
+                (pageNum: number, headerFooterType: HeaderFooter) =>
+                ({ tr, dispatch }) =>
+                    setHeaderFooterLinked(tr, dispatch, pageNum, headerFooterType, true),
+
+            unlinkHeaderFooter:
+                (pageNum: number, headerFooterType: HeaderFooter) =>
+                ({ tr, dispatch }) =>
+                    setHeaderFooterLinked(tr, dispatch, pageNum, headerFooterType, false),
+
+            setHeaderFooterHeight:
+                (headerFooterType: HeaderFooter, height: Length) =>
+                ({ tr, dispatch }) =>
+                    setHeaderFooterDimension(tr, dispatch, headerFooterType, HEADER_FOOTER_NODE_ATTR_KEYS.height, height),
+
+            setHeaderFooterPageEndOffset:
+                (headerFooterType: HeaderFooter, pageEndOffset: Length) =>
+                ({ tr, dispatch }) =>
+                    setHeaderFooterDimension(tr, dispatch, headerFooterType, HEADER_FOOTER_NODE_ATTR_KEYS.pageEndOffset, pageEndOffset),
+        };
     },
 });
@@ -0,0 +1,80 @@
+/**
+ * @file /src/Nodes/PageBreak.ts
+ * @name PageBreak
+ * @description A manual page break. Content after it always starts on a new page.
+ */
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import { PAGE_BREAK_NODE_NAME } from "../constants/pageBreak";
+import { parseHTMLNode } from "../utils/nodes/node";
+import { insertPageBreakAtSelection } from "../utils/nodes/pageBreak";
+
+const baseElement = "div" as const;
+const pageBreakAttribute = "data-page-break" as const;
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        pageBreak: {
+            /**
+             * Insert a page break at the selection.
+             *
+             * @example editor.commands.insertPageBreak()
+             */
+            insertPageBreak: () => ReturnType;
+        };
+    }
+}
+
+export const PageBreakNode = Node.create({
+    name: PAGE_BREAK_NODE_NAME,
+    group: "block",
+    atom: true,
+    selectable: true,
+    draggable: false,
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, pageBreakAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [pageBreakAttribute]: true, class: PAGE_BREAK_NODE_NAME })];
+    },
+
+    addNodeView() {
+        return () => {
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(pageBreakAttribute, String(true));
+            dom.classList.add(PAGE_BREAK_NODE_NAME);
+            dom.contentEditable = "false";
+
+            dom.style.borderTop = "1px dashed #ccc";
+            dom.style.color = "#999";
+            dom.style.fontSize = "10px";
+            dom.style.textAlign = "center";
+            dom.style.userSelect = "none";
+            dom.textContent = "Page break";
+
+            return {
+                dom,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertPageBreak:
+                () =>
+                ({ tr, dispatch }) => {
+                    if (!insertPageBreakAtSelection(tr, this.type.create())) {
+                        return false;
+                    }
+
+                    if (dispatch) {
+                        dispatch(tr);
+                    }
+
+                    return true;
+                },
+        };
+    },
+});
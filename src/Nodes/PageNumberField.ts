@@ -0,0 +1,93 @@
+/**
+ * @file /src/Nodes/PageNumberField.ts
+ * @name PageNumberField
+ * @description Inline fields which display the page number, total page count or
+ * section page number of the page they sit on.
+ */
+
+import { Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Decoration } from "@tiptap/pm/view";
+import { PAGE_NUMBER_FIELD_HTML_ATTRS, PAGE_NUMBER_FIELD_NODE_NAMES, PAGE_NUMBER_FIELD_VALUE_KEY } from "../constants/pageNumberField";
+import { PageNumberFieldType } from "../types/pageNumberField";
+import { Nullable } from "../types/record";
+import { parseHTMLNode } from "../utils/nodes/node";
+
+const baseElement = "span" as const;
+
+/**
+ * Get the live value of a page number field from its decorations.
+ *
+ * @param decorations - The decorations applied to the field node.
+ * @returns {Nullable<string>} The value of the field or null if it has not been decorated.
+ */
+const getDecoratedFieldValue = (decorations: readonly Decoration[]): Nullable<string> => {
+    for (const decoration of decorations) {
+        const value = decoration.spec[PAGE_NUMBER_FIELD_VALUE_KEY];
+        if (typeof value === "string") {
+            return value;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Create an inline atom node for a page number field. The live value is only
+ * rendered in the editor, so the serialised HTML does not change on repagination.
+ *
+ * @param fieldType - The type of the field.
+ * @returns {Node} The page number field node.
+ */
+const createPageNumberFieldNode = (fieldType: PageNumberFieldType): Node => {
+    const fieldAttribute = PAGE_NUMBER_FIELD_HTML_ATTRS[fieldType];
+
+    return Node.create({
+        name: PAGE_NUMBER_FIELD_NODE_NAMES[fieldType],
+        group: "inline",
+        inline: true,
+        atom: true,
+        selectable: true,
+        draggable: false,
+
+        parseHTML() {
+            return [parseHTMLNode(baseElement, fieldAttribute, false)];
+        },
+
+        renderHTML({ HTMLAttributes }) {
+            return [baseElement, mergeAttributes(HTMLAttributes, { [fieldAttribute]: true })];
+        },
+
+        renderText() {
+            return "#";
+        },
+
+        addNodeView() {
+            return (props: NodeViewRendererProps) => {
+                const { node, decorations } = props;
+                const fieldNodeType = node.type;
+
+                const dom = document.createElement(baseElement);
+                dom.setAttribute(fieldAttribute, String(true));
+                dom.contentEditable = "false";
+                dom.textContent = getDecoratedFieldValue(decorations) ?? "#";
+
+                return {
+                    dom,
+                    update(updatedNode: PMNode, updatedDecorations: readonly Decoration[]): boolean {
+                        if (updatedNode.type !== fieldNodeType) {
+                            return false;
+                        }
+
+                        dom.textContent = getDecoratedFieldValue(updatedDecorations) ?? "#";
+                        return true;
+                    },
+                };
+            };
+        },
+    });
+};
+
+export const PageNumberNode = createPageNumberFieldNode("pageNumber");
+export const TotalPagesNode = createPageNumberFieldNode("totalPages");
+export const SectionPageNumberNode = createPageNumberFieldNode("sectionPageNumber");
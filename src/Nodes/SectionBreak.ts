@@ -0,0 +1,121 @@
+/**
+ * @file /src/Nodes/SectionBreak.ts
+ * @name SectionBreak
+ * @description A section break. Content after it starts a new section on a new page,
+ * with the page setup held by the section break.
+ */
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import { SECTION_BREAK_ATTRIBUTES, SECTION_BREAK_NODE_NAME } from "../constants/sectionBreak";
+import { SectionAttributesInput } from "../types/section";
+import { addNodeAttributes } from "../utils/attributes/addAttributes";
+import { parseHTMLNode } from "../utils/nodes/node";
+import { insertPageBreakAtSelection } from "../utils/nodes/pageBreak";
+import { resolveSectionAttributes, setSectionAttributes } from "../utils/nodes/sectionBreak";
+import { getPaginationExtensionOptions } from "../utils/options";
+
+const baseElement = "div" as const;
+const sectionBreakAttribute = "data-section-break" as const;
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        sectionBreak: {
+            /**
+             * Insert a section break at the selection, starting a new section on a new page.
+             *
+             * @param sectionAttributes The page setup of the new section. Settings which are not
+             * given are carried over from the section before. Plain numbers are in millimetres,
+             * except for borders which are in pixels.
+             * @example editor.commands.insertSectionBreak({ paperOrientation: "landscape" })
+             */
+            insertSectionBreak: (sectionAttributes?: Partial<SectionAttributesInput>) => ReturnType;
+
+            /**
+             * Set the page setup of a section.
+             *
+             * @param sectionNum The section number (0-indexed)
+             * @param sectionAttributes The settings to set. Plain numbers are in millimetres, except
+             * for borders which are in pixels.
+             * @example editor.commands.setSectionAttributes(1, { paperSize: "A3", pageMargins: { top: "1in", right: "1in", bottom: "1in", left: "1in" } })
+             */
+            setSectionAttributes: (sectionNum: number, sectionAttributes: Partial<SectionAttributesInput>) => ReturnType;
+        };
+    }
+}
+
+export const SectionBreakNode = Node.create({
+    name: SECTION_BREAK_NODE_NAME,
+    group: "block",
+    atom: true,
+    selectable: true,
+    draggable: false,
+
+    addAttributes() {
+        return addNodeAttributes(SECTION_BREAK_ATTRIBUTES);
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, sectionBreakAttribute, false)];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [baseElement, mergeAttributes(HTMLAttributes, { [sectionBreakAttribute]: true, class: SECTION_BREAK_NODE_NAME })];
+    },
+
+    addNodeView() {
+        return () => {
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(sectionBreakAttribute, String(true));
+            dom.classList.add(SECTION_BREAK_NODE_NAME);
+            dom.contentEditable = "false";
+
+            dom.style.borderTop = "3px double #ccc";
+            dom.style.color = "#999";
+            dom.style.fontSize = "10px";
+            dom.style.textAlign = "center";
+            dom.style.userSelect = "none";
+            dom.textContent = "Section break (next page)";
+
+            return {
+                dom,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertSectionBreak:
+                (sectionAttributesInput: Partial<SectionAttributesInput> = {}) =>
+                ({ tr, dispatch }) => {
+                    const sectionAttributes = resolveSectionAttributes(
+                        sectionAttributesInput,
+                        getPaginationExtensionOptions(this.editor).customPaperSizes
+                    );
+                    if (!sectionAttributes) {
+                        return false;
+                    }
+
+                    if (!insertPageBreakAtSelection(tr, this.type.create(sectionAttributes))) {
+                        return false;
+                    }
+
+                    if (dispatch) {
+                        dispatch(tr);
+                    }
+
+                    return true;
+                },
+
+            setSectionAttributes:
+                (sectionNum: number, sectionAttributes: Partial<SectionAttributesInput>) =>
+                ({ tr, dispatch }) =>
+                    setSectionAttributes(
+                        tr,
+                        dispatch,
+                        sectionNum,
+                        sectionAttributes,
+                        getPaginationExtensionOptions(this.editor).customPaperSizes
+                    ),
+        };
+    },
+});
@@ -0,0 +1,212 @@
+/**
+ * @file /src/Nodes/TableOfContents.ts
+ * @name TableOfContents
+ * @description A table of contents listing the headings of the document and the pages
+ * they are on.
+ */
+
+import { DOMOutputSpec, Node as PMNode } from "@tiptap/pm/model";
+import { Editor, Node, NodeViewRendererProps, mergeAttributes } from "@tiptap/core";
+import {
+    DEFAULT_TABLE_OF_CONTENTS_LEVELS,
+    TABLE_OF_CONTENTS_ENTRIES_ATTR,
+    TABLE_OF_CONTENTS_LEVEL_INDENT,
+    TABLE_OF_CONTENTS_NODE_NAME,
+} from "../constants/tableOfContents";
+import { TableOfContentsEntry } from "../types/tableOfContents";
+import {
+    collectTableOfContentsHeadings,
+    createTableOfContentsEntriesAttribute,
+    getTableOfContentsEntries,
+    insertTableOfContentsAtSelection,
+    syncTableOfContents,
+} from "../utils/nodes/tableOfContents";
+import { parseHTMLNode } from "../utils/nodes/node";
+import { px } from "../utils/units";
+import TableOfContentsPlugin from "../Plugins/TableOfContents";
+
+const baseElement = "nav" as const;
+const tableOfContentsAttribute = "data-table-of-contents" as const;
+
+type TableOfContentsNodeOptions = {
+    /**
+     * The heading levels listed in the table of contents.
+     *
+     * @default [1, 2, 3]
+     * @example [1, 2]
+     */
+    levels: number[];
+
+    /**
+     * Whether tables of contents are updated automatically whenever the headings change
+     * or move to another page. If false, they are only updated by the `updateTableOfContents`
+     * command.
+     *
+     * @default true
+     * @example false
+     */
+    autoUpdate: boolean;
+};
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        tableOfContents: {
+            /**
+             * Insert a table of contents at the selection.
+             *
+             * @example editor.commands.insertTableOfContents()
+             */
+            insertTableOfContents: () => ReturnType;
+
+            /**
+             * Update the entries and page numbers of every table of contents in the document.
+             *
+             * @example editor.commands.updateTableOfContents()
+             */
+            updateTableOfContents: () => ReturnType;
+        };
+    }
+}
+
+/**
+ * Render the entries of a table of contents, with dot leaders between each heading and
+ * its page number. Clicking an entry scrolls to its heading.
+ *
+ * @param dom - The element to render the entries into.
+ * @param entries - The table of contents entries.
+ * @param editor - The editor instance.
+ * @param levels - The heading levels listed in the table of contents.
+ */
+const renderTableOfContentsEntries = (dom: HTMLElement, entries: TableOfContentsEntry[], editor: Editor, levels: number[]): void => {
+    const rows = entries.map(({ text, level, pageNumber }, index) => {
+        const row = document.createElement("div");
+        row.style.display = "flex";
+        row.style.alignItems = "baseline";
+        row.style.cursor = "pointer";
+        row.style.paddingLeft = px(Math.max(levels.indexOf(level), 0) * TABLE_OF_CONTENTS_LEVEL_INDENT);
+
+        const textDOM = document.createElement("span");
+        textDOM.textContent = text;
+
+        const leaderDOM = document.createElement("span");
+        leaderDOM.style.flex = "1";
+        leaderDOM.style.margin = "0 4px";
+        leaderDOM.style.borderBottom = "1px dotted currentColor";
+
+        const pageNumberDOM = document.createElement("span");
+        pageNumberDOM.textContent = pageNumber;
+
+        row.append(textDOM, leaderDOM, pageNumberDOM);
+        row.addEventListener("mousedown", (event) => {
+            event.preventDefault();
+
+            // Entries are in the order of the headings they list
+            const heading = collectTableOfContentsHeadings(editor.state.doc, levels)[index];
+            if (heading) {
+                editor
+                    .chain()
+                    .focus()
+                    .setTextSelection(heading.pos + 1)
+                    .scrollIntoView()
+                    .run();
+            }
+        });
+
+        return row;
+    });
+
+    dom.replaceChildren(...rows);
+};
+
+export const TableOfContentsNode = Node.create<TableOfContentsNodeOptions>({
+    name: TABLE_OF_CONTENTS_NODE_NAME,
+    group: "block",
+    atom: true,
+    selectable: true,
+    draggable: false,
+
+    addOptions() {
+        return {
+            levels: DEFAULT_TABLE_OF_CONTENTS_LEVELS,
+            autoUpdate: true,
+        };
+    },
+
+    addAttributes() {
+        return {
+            [TABLE_OF_CONTENTS_ENTRIES_ATTR]: createTableOfContentsEntriesAttribute(),
+        };
+    },
+
+    parseHTML() {
+        return [parseHTMLNode(baseElement, tableOfContentsAttribute, true)];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        // The entries are rendered too so the table of contents reads correctly outside the editor
+        const entries: DOMOutputSpec[] = getTableOfContentsEntries(node).map(({ text, level, pageNumber }) => [
+            "div",
+            { "data-level": level },
+            ["span", text],
+            " ",
+            ["span", pageNumber],
+        ]);
+
+        return [baseElement, mergeAttributes(HTMLAttributes, { [tableOfContentsAttribute]: true }), ...entries];
+    },
+
+    addNodeView() {
+        return (props: NodeViewRendererProps) => {
+            const { editor, node } = props;
+            const { levels } = this.options;
+            const tableOfContentsNodeType = node.type;
+            let entries = getTableOfContentsEntries(node);
+
+            const dom = document.createElement(baseElement);
+            dom.setAttribute(tableOfContentsAttribute, String(true));
+            dom.contentEditable = "false";
+            dom.style.userSelect = "none";
+            renderTableOfContentsEntries(dom, entries, editor, levels);
+
+            return {
+                dom,
+                update(updatedNode: PMNode): boolean {
+                    if (updatedNode.type !== tableOfContentsNodeType) {
+                        return false;
+                    }
+
+                    const updatedEntries = getTableOfContentsEntries(updatedNode);
+                    if (updatedEntries !== entries) {
+                        entries = updatedEntries;
+                        renderTableOfContentsEntries(dom, entries, editor, levels);
+                    }
+
+                    return true;
+                },
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertTableOfContents:
+                () =>
+                ({ tr, dispatch }) =>
+                    insertTableOfContentsAtSelection(tr, dispatch, this.options.levels),
+            updateTableOfContents:
+                () =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    syncTableOfContents(tr, this.options.levels);
+                    dispatch(tr);
+                    return true;
+                },
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const { autoUpdate, levels } = this.options;
+        return autoUpdate ? [TableOfContentsPlugin(levels)] : [];
+    },
+});
@@ -5,29 +5,69 @@
  */
 
 import { Extension } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
 import { DEFAULT_PAPER_SIZE } from "./constants/paperSize";
 import { DEFAULT_PAPER_COLOUR } from "./constants/paperColours";
 import { DEFAULT_PAGE_MARGIN_CONFIG } from "./constants/pageMargins";
 import { DEFAULT_PAPER_ORIENTATION } from "./constants/paperOrientation";
-import { PAGE_NODE_ATTR_KEYS } from "./constants/page";
+import { DEFAULT_PAGE_GAP, PAGE_NODE_ATTR_KEYS, PAGE_NODE_NAME } from "./constants/page";
 import { PAGINATION_EXTENSION_NAME } from "./constants/pagination";
-import { DEFAULT_PAGE_BORDER_CONFIG } from "./constants/pageBorders";
 import { DEFAULT_PAGE_AMENDMENT_CONFIG } from "./constants/pageAmendment";
 import { BODY_NODE_ATTR_KEYS } from "./constants/body";
-import { PaperOrientation, PaperSize } from "./types/paper";
+import { FOOTNOTE_REFERENCE_NODE_NAME } from "./constants/footnote";
+import { ENDNOTE_REFERENCE_NODE_NAME } from "./constants/endnote";
+import { CROSS_REFERENCE_NODE_NAME } from "./constants/crossReference";
+import {
+    DEFAULT_WIDOW_ORPHAN_CONFIG,
+    SPLIT_CONTINUATION_ATTR,
+    SPLIT_CONTINUATION_HTML_ATTR,
+    SPLIT_REPEATED_CHILDREN_ATTR,
+    SPLIT_REPEATED_CHILDREN_HTML_ATTR,
+} from "./constants/split";
+import { CustomPaperSizes, PaperOrientation, PaperSizeOrDimensions } from "./types/paper";
 import { PageAmendmentOptions } from "./types/pageAmendment";
-import { BorderConfig, MultiSide, MarginConfig } from "./types/page";
+import { BorderConfig, MultiSide, MarginConfig, PageNumberFormat } from "./types/page";
+import { Nullable } from "./types/record";
+import { NodeSplitters, WidowOrphanOptions } from "./types/split";
+import { ColumnConfig } from "./types/body";
+import { NodeHeightCache } from "./types/heightCache";
+import { MeasurementBackend } from "./types/measurement";
+import { PagedHTMLExportOptions } from "./types/pagedHTML";
+import { PDFExportOptions } from "./types/pdf";
+import { DocxExportOptions } from "./types/docx";
+import { DEFAULT_PAGE_BREAK_PROPERTY_TYPES, PAGE_BREAK_PROPERTY_ATTR_KEYS } from "./constants/pageBreak";
+import { createPageBreakPropertyAttribute, togglePageBreakProperty } from "./utils/nodes/pageBreakProperties";
 import KeymapPlugin from "./Plugins/Keymap";
-import PaginationPlugin from "./Plugins/Pagination";
+import PaginationPlugin, { paginationPluginKey } from "./Plugins/Pagination";
+import PageNumberFieldsPlugin from "./Plugins/PageNumberFields";
 import { isPageNode } from "./utils/nodes/page/page";
-import { getPageNodePosByPageNum } from "./utils/nodes/page/pageNumber";
-import { isValidPaperSize, pageNodeHasPageSize, setPageNodePosPaperSize, setPagePaperSize } from "./utils/nodes/page/attributes/paperSize";
+import { getPageNodePosWithOwnSettings } from "./utils/nodes/page/attributes/section";
+import {
+    checkCustomPaperSizes,
+    isValidPaperSize,
+    pageNodeHasPageSize,
+    setPageNodePosPaperSize,
+    setPagePaperSize,
+} from "./utils/nodes/page/attributes/paperSize";
 import { getDefaultPaperColour, setPageNodePosPaperColour } from "./utils/nodes/page/attributes/paperColour";
 import { setBodyNodesAttribute, setPageNodesAttribute } from "./utils/nodes/page/attributes/setPageAttributes";
 import { setPageNodePosPaperOrientation } from "./utils/nodes/page/attributes/paperOrientation";
+import { setPageNodePosPageNumberFormat, setPageNodePosPageNumberStart } from "./utils/nodes/page/attributes/pageNumberFormat";
+import { isValidPageNumberFormat } from "./utils/pageNumberFormat";
 import { isMarginValid, isValidPageMargins, setBodyNodePosPageMargins, updateBodyMargin } from "./utils/nodes/body/attributes/pageMargins";
+import { isValidColumnConfig, setBodyNodePosColumns } from "./utils/nodes/body/attributes/columns";
 import { isBorderValid, isValidPageBorders, setPageNodePosPageBorders, updatePageBorder } from "./utils/nodes/page/attributes/pageBorders";
 import { setDocumentSideConfig, setDocumentSideValue, setPageSideConfig, setPageSideValue } from "./utils/setSideConfig";
+import { getNodeSplitters } from "./utils/split/registry";
+import { createNodeHeightCache } from "./utils/heightCache";
+import { printEditor } from "./utils/print";
+import { exportPagedHTML } from "./utils/pagedHTML";
+import { exportPDF } from "./utils/pdf/exportPDF";
+import { exportDocx } from "./utils/docx/exportDocx";
+import { importDocx } from "./utils/docx/importDocx";
+import { getExtensionOptions } from "./utils/options";
+import { Length, LengthConfig, LengthUnit } from "./types/units";
+import { BORDER_STORAGE_UNIT, MARGIN_STORAGE_UNIT } from "./constants/units";
 
 export interface PaginationOptions {
     /**
@@ -36,9 +76,18 @@ export interface PaginationOptions {
      * This is only the setting for new documents.
      *
      * @default "A4"
-     * @example "A3"
+     * @example "A3" | "Receipt" | { width: 80, height: 200 }
      */
-    defaultPaperSize: PaperSize;
+    defaultPaperSize: PaperSizeOrDimensions;
+
+    /**
+     * Named custom paper sizes, e.g. labels or receipt rolls, which can be used wherever
+     * a built-in paper size can. Dimensions are in millimetres in portrait orientation.
+     *
+     * @default {}
+     * @example { Receipt: { width: 80, height: 200 } }
+     */
+    customPaperSizes: CustomPaperSizes;
 
     /**
      * The default paper colour for the document. Note this is only the default
@@ -83,20 +132,120 @@ export interface PaginationOptions {
      * The default border configuration for the document. This controls the thickness
      * of the borders on the page. Note this is only the default so you can have
      * settings in your editor which change the border configuration. This is only
-     * the setting for new documents.
+     * the setting for new documents. When null, pages have no borders of their own and
+     * show the default 1px outline, which is not exported as a printed border.
      *
-     * @default { top: 1, right: 1, bottom: 1, left: 1 }
+     * @default null
      * @example { top: 2, right: 2, bottom: 2, left: 2 }
      */
-    defaultPageBorders: BorderConfig;
+    defaultPageBorders: Nullable<BorderConfig>;
 
     /**
      * Options for page amendments (header and footer).
      *
      * @see {@link PageAmendmentOptions}
-     * @example { enableHeader: true, enableFooter: false }
+     * @example { enableHeader: true, enableFooter: false, differentFirstPage: true }
      */
     pageAmendmentOptions: PageAmendmentOptions;
+
+    /**
+     * Splitters used to split nodes which do not fit at the end of a page, keyed by
+     * node type name. These are merged with the built-in splitters for paragraphs,
+     * tables, lists and blockquotes. Set a node type to null to stop it being split.
+     *
+     * @default {}
+     * @example { callout: createChildrenSplitter() }
+     */
+    nodeSplitters: NodeSplitters;
+
+    /**
+     * Whether to repeat the header rows of a table at the top of each page it is
+     * split across. Repeated rows are dropped when the table is rejoined, so edits
+     * should be made to the original header rows.
+     *
+     * @default true
+     * @example true | false
+     */
+    repeatTableHeaderRows: boolean;
+
+    /**
+     * The node types which the block page break properties (keep with next,
+     * keep together and page break before) can be added to.
+     *
+     * @default ["paragraph", "heading", "blockquote", "bulletList", "orderedList", "taskList", "codeBlock", "table"]
+     * @example ["paragraph", "heading"]
+     */
+    pageBreakPropertyTypes: string[];
+
+    /**
+     * Widow and orphan control for paragraphs split across pages: the minimum number
+     * of lines left at the bottom of a page and carried over to the top of the next.
+     *
+     * @see {@link WidowOrphanOptions}
+     * @default { orphans: 2, widows: 2 }
+     * @example { orphans: 1, widows: 1 }
+     */
+    widowOrphanOptions: WidowOrphanOptions;
+
+    /**
+     * The backend measuring nodes for pagination. If null, nodes are measured as
+     * rendered in the editor's DOM. Use `createTextMetricsMeasurementBackend` to
+     * paginate from font metrics instead, e.g. for previews matching a server.
+     *
+     * @see {@link MeasurementBackend}
+     * @default null
+     * @example createTextMetricsMeasurementBackend({ fontSize: 14 })
+     */
+    measurementBackend: Nullable<MeasurementBackend>;
+
+    /**
+     * The unit the length getters (e.g. `getPageNumPageMargins`) return values in. If null,
+     * values are returned in the unit they are stored in: millimetres for margins and
+     * header/footer dimensions, and pixels for borders. Commands accept lengths in any unit.
+     *
+     * @see {@link LengthUnit}
+     * @default null
+     * @example "in" | "pt" | "mm"
+     */
+    displayUnit: Nullable<LengthUnit>;
+}
+
+export interface PaginationStorage {
+    /**
+     * Cache of measured node heights. Call `getStats()` to see how effective it is.
+     *
+     * @example editor.storage.pagination.heightCache.getStats()
+     */
+    heightCache: NodeHeightCache;
+
+    /**
+     * Export the document as standalone HTML in which every page carries its geometry as CSS.
+     *
+     * @param options The export options
+     * @returns The HTML document
+     * @example editor.storage.pagination.exportPagedHTML({ title: "Report" })
+     */
+    exportPagedHTML: (options?: PagedHTMLExportOptions) => string;
+
+    /**
+     * Export the document as a vector PDF with one page for every page of the document.
+     * Notes and cross-references are numbered with the options of their extensions.
+     *
+     * @param options The export options
+     * @returns The bytes of the PDF file
+     * @example editor.storage.pagination.exportPDF({ title: "Report" })
+     */
+    exportPDF: (options?: PDFExportOptions) => Uint8Array;
+
+    /**
+     * Export the document as a Word (DOCX) document with one Word section for every section
+     * of the document, keeping its page setup and headers and footers.
+     *
+     * @param options The export options
+     * @returns The bytes of the DOCX file
+     * @example editor.storage.pagination.exportDocx({ title: "Report" })
+     */
+    exportDocx: (options?: DocxExportOptions) => Uint8Array;
 }
 
 declare module "@tiptap/core" {
@@ -105,10 +254,10 @@ declare module "@tiptap/core" {
             /**
              * Set the paper size.
              *
-             * @param paperSize The paper size
-             * @example editor.commands.setDocumentPaperSize("A4")
+             * @param paperSize The paper size, or custom dimensions in millimetres
+             * @example editor.commands.setDocumentPaperSize("A4") | editor.commands.setDocumentPaperSize({ width: 80, height: 200 })
              */
-            setDocumentPaperSize: (paperSize: PaperSize) => ReturnType;
+            setDocumentPaperSize: (paperSize: PaperSizeOrDimensions) => ReturnType;
 
             /**
              * Set the default paper size.
@@ -121,10 +270,10 @@ declare module "@tiptap/core" {
              * Set the paper size for a specific page.
              *
              * @param pageNum The page number (0-indexed)
-             * @param paperSize The paper size
-             * @example editor.commands.setPagePaperSize(0, "A4")
+             * @param paperSize The paper size, or custom dimensions in millimetres
+             * @example editor.commands.setPagePaperSize(0, "A4") | editor.commands.setPagePaperSize(0, { width: 80, height: 200 })
              */
-            setPagePaperSize: (pageNum: number, paperSize: PaperSize) => ReturnType;
+            setPagePaperSize: (pageNum: number, paperSize: PaperSizeOrDimensions) => ReturnType;
 
             /**
              * Checks the paper sizes are set for each page in the document.
@@ -185,10 +334,11 @@ declare module "@tiptap/core" {
             /**
              * Set the page margins for the document.
              *
-             * @param pageMargins The page margins (top, right, bottom, left)
+             * @param pageMargins The page margins (top, right, bottom, left). Plain numbers are in millimetres.
              * @example editor.commands.setDocumentPageMargins({ top: 10, right: 15, bottom: 10, left: 15 })
+             * @example editor.commands.setDocumentPageMargins({ top: "1in", right: "1in", bottom: "1in", left: "1in" })
              */
-            setDocumentPageMargins: (pageMargins: MarginConfig) => ReturnType;
+            setDocumentPageMargins: (pageMargins: LengthConfig) => ReturnType;
 
             /**
              * Set the default page margins.
@@ -201,37 +351,37 @@ declare module "@tiptap/core" {
              * Set the page margins for a specific page.
              *
              * @param pageNum The page number (0-indexed)
-             * @param pageMargins The page margins
+             * @param pageMargins The page margins. Plain numbers are in millimetres.
              * @example editor.commands.setPagePageMargins(0, { top: 10, right: 15, bottom: 10, left: 15 })
              */
-            setPagePageMargins: (pageNum: number, pageMargins: MarginConfig) => ReturnType;
+            setPagePageMargins: (pageNum: number, pageMargins: LengthConfig) => ReturnType;
 
             /**
              * Set a margin for the document on a specific side.
              *
              * @param margin The margin to set (top, right, bottom, left, x, y, all)
-             * @param value The value to set the margin to
-             * @example editor.commands.setDocumentPageMargin("top", 10)
+             * @param value The value to set the margin to. Plain numbers are in millimetres.
+             * @example editor.commands.setDocumentPageMargin("top", 10) | editor.commands.setDocumentPageMargin("top", "0.5in")
              */
-            setDocumentPageMargin: (margin: MultiSide, value: number) => ReturnType;
+            setDocumentPageMargin: (margin: MultiSide, value: Length) => ReturnType;
 
             /**
              * Set a margin for a specific page on a specific side.
              *
              * @param pageNum The page number (0-indexed)
              * @param margin The margin to set (top, right, bottom, left, x, y, all)
-             * @param value The value to set the margin to
+             * @param value The value to set the margin to. Plain numbers are in millimetres.
              * @example editor.commands.setPagePageMargin(0, "top", 10)
              */
-            setPagePageMargin: (pageNum: number, margin: MultiSide, value: number) => ReturnType;
+            setPagePageMargin: (pageNum: number, margin: MultiSide, value: Length) => ReturnType;
 
             /**
              * Set the page borders for the document.
              *
-             * @param pageBorders The page borders (top, right, bottom, left)
+             * @param pageBorders The page borders (top, right, bottom, left). Plain numbers are in pixels.
              * @example editor.commands.setDocumentPageBorders({ top: 2, right: 2, bottom: 2, left: 2 })
              */
-            setDocumentPageBorders: (pageBorders: BorderConfig) => ReturnType;
+            setDocumentPageBorders: (pageBorders: LengthConfig) => ReturnType;
 
             /**
              * Set the default page borders.
@@ -244,64 +394,261 @@ declare module "@tiptap/core" {
              * Set the page borders for a specific page.
              *
              * @param pageNum The page number (0-indexed)
-             * @param pageBorders The page borders
+             * @param pageBorders The page borders. Plain numbers are in pixels.
              * @example editor.commands.setPageBorders(0, { top: 2, right: 2, bottom: 2, left: 2 })
              */
-            setPageBorders: (pageNum: number, pageBorders: BorderConfig) => ReturnType;
+            setPageBorders: (pageNum: number, pageBorders: LengthConfig) => ReturnType;
 
             /**
              * Set a border for the document on a specific side.
              *
              * @param border The border to set (top, right, bottom, left, all)
-             * @param value The value to set the border to
+             * @param value The value to set the border to. Plain numbers are in pixels.
+             * @example editor.commands.setDocumentPageBorder("all", "1pt")
              */
-            setDocumentPageBorder: (border: MultiSide, value: number) => ReturnType;
+            setDocumentPageBorder: (border: MultiSide, value: Length) => ReturnType;
 
             /**
              * Set a border for a specific page on a specific side.
              *
              * @param pageNum The page number (0-indexed)
              * @param border The border to set (top, right, bottom, left, all)
-             * @param value The value to set the border to
+             * @param value The value to set the border to. Plain numbers are in pixels.
+             * @example editor.commands.setPagePageBorder(0, "top", 2)
              */
-            setPagePageBorder: (pageNum: number, border: MultiSide, value: number) => ReturnType;
+            setPagePageBorder: (pageNum: number, border: MultiSide, value: Length) => ReturnType;
+        };
+        pageBreakProperties: {
+            /**
+             * Toggle keeping the selected blocks on the same page as the start of the block after them.
+             *
+             * @example editor.commands.toggleKeepWithNext()
+             */
+            toggleKeepWithNext: () => ReturnType;
+
+            /**
+             * Toggle keeping the selected blocks from being split across pages.
+             *
+             * @example editor.commands.toggleKeepTogether()
+             */
+            toggleKeepTogether: () => ReturnType;
+
+            /**
+             * Toggle starting the selected blocks on a new page.
+             *
+             * @example editor.commands.togglePageBreakBefore()
+             */
+            togglePageBreakBefore: () => ReturnType;
+        };
+        pageAmendments: {
+            /**
+             * Set whether the first page has its own header and footer. The setting is stored
+             * on the pages of the document, overriding the page amendment options.
+             *
+             * @param differentFirstPage Whether the first page has a different header and footer
+             * @example editor.commands.setDifferentFirstPage(true)
+             */
+            setDifferentFirstPage: (differentFirstPage: boolean) => ReturnType;
+
+            /**
+             * Set whether even pages have their own header and footer. The setting is stored
+             * on the pages of the document, overriding the page amendment options.
+             *
+             * @param differentOddEven Whether odd and even pages have different headers and footers
+             * @example editor.commands.setDifferentOddEven(true)
+             */
+            setDifferentOddEven: (differentOddEven: boolean) => ReturnType;
+        };
+        pageNumbering: {
+            /**
+             * Set the page number format for all pages in the document.
+             *
+             * @param pageNumberFormat The page number format
+             * @example editor.commands.setDocumentPageNumberFormat("lowerRoman")
+             */
+            setDocumentPageNumberFormat: (pageNumberFormat: PageNumberFormat) => ReturnType;
+
+            /**
+             * Set the page number format for a specific page.
+             *
+             * @param pageNum The page number (0-indexed)
+             * @param pageNumberFormat The page number format
+             * @example editor.commands.setPageNumberFormat(0, "upperRoman")
+             */
+            setPageNumberFormat: (pageNum: number, pageNumberFormat: PageNumberFormat) => ReturnType;
+
+            /**
+             * Restart page numbering at a specific page. The first page starts at 1 unless set.
+             *
+             * @param pageNum The page number (0-indexed)
+             * @param pageNumberStart The number to restart at, or null to continue from the previous page
+             * @example editor.commands.setPageNumberStart(2, 1)
+             */
+            setPageNumberStart: (pageNum: number, pageNumberStart: Nullable<number>) => ReturnType;
+        };
+        columns: {
+            /**
+             * Set the column layout for all pages in the document.
+             *
+             * @param columns The column config
+             * @example editor.commands.setDocumentColumns({ count: 2, gap: 12.7, rule: true })
+             */
+            setDocumentColumns: (columns: ColumnConfig) => ReturnType;
+
+            /**
+             * Set the column layout for a specific page.
+             *
+             * @param pageNum The page number (0-indexed)
+             * @param columns The column config
+             * @example editor.commands.setPageColumns(0, { count: 3, gap: 10, rule: false })
+             */
+            setPageColumns: (pageNum: number, columns: ColumnConfig) => ReturnType;
+        };
+        print: {
+            /**
+             * Print the document with the browser, one printed sheet per page.
+             *
+             * @example editor.commands.printDocument()
+             */
+            printDocument: () => ReturnType;
+        };
+        docx: {
+            /**
+             * Replace the document with a Word (DOCX) document, keeping the page setup and
+             * headers and footers of its sections.
+             *
+             * @param data The bytes of the DOCX file
+             * @example editor.commands.importDocx(new Uint8Array(await file.arrayBuffer()))
+             */
+            importDocx: (data: Uint8Array) => ReturnType;
         };
     }
 }
 
-const PaginationExtension = Extension.create<PaginationOptions>({
+const PaginationExtension = Extension.create<PaginationOptions, PaginationStorage>({
     name: PAGINATION_EXTENSION_NAME,
 
     addOptions() {
         return {
             defaultPaperSize: DEFAULT_PAPER_SIZE,
+            customPaperSizes: {},
             defaultPaperColour: DEFAULT_PAPER_COLOUR,
             useDeviceThemeForPaperColour: false,
             defaultPaperOrientation: DEFAULT_PAPER_ORIENTATION,
             defaultMarginConfig: DEFAULT_PAGE_MARGIN_CONFIG,
-            defaultPageBorders: DEFAULT_PAGE_BORDER_CONFIG,
+            defaultPageBorders: null,
             pageAmendmentOptions: DEFAULT_PAGE_AMENDMENT_CONFIG,
+            nodeSplitters: {},
+            repeatTableHeaderRows: true,
+            pageBreakPropertyTypes: DEFAULT_PAGE_BREAK_PROPERTY_TYPES,
+            widowOrphanOptions: DEFAULT_WIDOW_ORPHAN_CONFIG,
+            measurementBackend: null,
+            displayUnit: null,
+        };
+    },
+
+    addGlobalAttributes() {
+        return [
+            {
+                // Marks the continuation of a node split across a page boundary so that
+                // the fragments can be rejoined when the document is repaginated.
+                types: Object.keys(getNodeSplitters(this.options)),
+                attributes: {
+                    [SPLIT_CONTINUATION_ATTR]: {
+                        default: false,
+                        keepOnSplit: false,
+                        parseHTML: (element) => element.hasAttribute(SPLIT_CONTINUATION_HTML_ATTR),
+                        renderHTML: (attributes) =>
+                            attributes[SPLIT_CONTINUATION_ATTR] ? { [SPLIT_CONTINUATION_HTML_ATTR]: String(true) } : {},
+                    },
+                    [SPLIT_REPEATED_CHILDREN_ATTR]: {
+                        default: 0,
+                        keepOnSplit: false,
+                        parseHTML: (element) => parseInt(element.getAttribute(SPLIT_REPEATED_CHILDREN_HTML_ATTR) ?? "0", 10) || 0,
+                        renderHTML: (attributes) =>
+                            attributes[SPLIT_REPEATED_CHILDREN_ATTR]
+                                ? { [SPLIT_REPEATED_CHILDREN_HTML_ATTR]: String(attributes[SPLIT_REPEATED_CHILDREN_ATTR]) }
+                                : {},
+                    },
+                },
+            },
+            {
+                // Block properties controlling where pages may break around a block. The
+                // equivalent CSS properties are also parsed so pasted content keeps them.
+                types: this.options.pageBreakPropertyTypes,
+                attributes: {
+                    [PAGE_BREAK_PROPERTY_ATTR_KEYS.keepWithNext]: createPageBreakPropertyAttribute(
+                        PAGE_BREAK_PROPERTY_ATTR_KEYS.keepWithNext,
+                        () => false
+                    ),
+                    [PAGE_BREAK_PROPERTY_ATTR_KEYS.keepTogether]: createPageBreakPropertyAttribute(
+                        PAGE_BREAK_PROPERTY_ATTR_KEYS.keepTogether,
+                        ({ style }) => style.pageBreakInside === "avoid" || style.breakInside === "avoid"
+                    ),
+                    [PAGE_BREAK_PROPERTY_ATTR_KEYS.pageBreakBefore]: createPageBreakPropertyAttribute(
+                        PAGE_BREAK_PROPERTY_ATTR_KEYS.pageBreakBefore,
+                        ({ style }) => style.pageBreakBefore === "always" || style.breakBefore === "page"
+                    ),
+                },
+            },
+        ];
+    },
+
+    addStorage() {
+        return {
+            heightCache: createNodeHeightCache(),
+            exportPagedHTML: () => "",
+            exportPDF: () => new Uint8Array(),
+            exportDocx: () => new Uint8Array(),
         };
     },
 
+    onBeforeCreate() {
+        const { customPaperSizes } = this.options;
+        checkCustomPaperSizes(customPaperSizes);
+
+        this.storage.exportPagedHTML = (options) => {
+            const pageGap = getExtensionOptions(this.editor, PAGE_NODE_NAME)?.pageGap ?? DEFAULT_PAGE_GAP;
+            return exportPagedHTML(this.editor.state.doc, { pageGap, customPaperSizes, ...options });
+        };
+
+        this.storage.exportPDF = (options) => {
+            const footnoteOptions = getExtensionOptions(this.editor, FOOTNOTE_REFERENCE_NODE_NAME);
+            const endnoteOptions = getExtensionOptions(this.editor, ENDNOTE_REFERENCE_NODE_NAME);
+            const crossReferenceOptions = getExtensionOptions(this.editor, CROSS_REFERENCE_NODE_NAME);
+
+            return exportPDF(this.editor.state.doc, {
+                footnoteNumbering: footnoteOptions?.numbering,
+                endnotePlacement: endnoteOptions?.placement,
+                endnoteNumberFormat: endnoteOptions?.numberFormat,
+                crossReferenceLabels: crossReferenceOptions?.labels,
+                customPaperSizes,
+                ...options,
+            });
+        };
+
+        this.storage.exportDocx = (options) =>
+            exportDocx(this.editor.state.doc, { customPaperSizes, pageAmendmentOptions: this.options.pageAmendmentOptions, ...options });
+    },
+
     onCreate() {
         this.editor.commands.checkPaperSizes();
     },
 
     addProseMirrorPlugins() {
-        const { editor, options } = this;
-        return [KeymapPlugin, PaginationPlugin({ editor, options })];
+        const { options, storage } = this;
+        return [KeymapPlugin, PaginationPlugin({ options, heightCache: storage.heightCache }), PageNumberFieldsPlugin];
     },
 
     addCommands() {
         return {
             setDocumentPaperSize:
-                (paperSize: PaperSize) =>
+                (paperSize: PaperSizeOrDimensions) =>
                 ({ tr, dispatch }) => {
                     if (!dispatch) return false;
 
-                    if (!isValidPaperSize(paperSize)) {
-                        console.warn(`Invalid paper size: ${paperSize}`);
+                    if (!isValidPaperSize(paperSize, this.options.customPaperSizes)) {
+                        console.warn("Invalid paper size:", paperSize);
                         return false;
                     }
 
@@ -317,18 +664,18 @@ const PaginationExtension = Extension.create<PaginationOptions>({
                     commands.setDocumentPaperSize(this.options.defaultPaperSize),
 
             setPagePaperSize:
-                (pageNum: number, paperSize: PaperSize) =>
+                (pageNum: number, paperSize: PaperSizeOrDimensions) =>
                 ({ tr, dispatch }) => {
                     const { doc } = tr;
 
-                    const pageNodePos = getPageNodePosByPageNum(doc, pageNum);
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
                     if (!pageNodePos) {
                         return false;
                     }
 
                     const { pos: pagePos, node: pageNode } = pageNodePos;
 
-                    return setPageNodePosPaperSize(tr, dispatch, pagePos, pageNode, paperSize);
+                    return setPageNodePosPaperSize(tr, dispatch, pagePos, pageNode, paperSize, this.options.customPaperSizes);
                 },
 
             checkPaperSizes:
@@ -339,7 +686,9 @@ const PaginationExtension = Extension.create<PaginationOptions>({
                     doc.forEach((node, pos) => {
                         if (isPageNode(node)) {
                             if (!pageNodeHasPageSize(node)) {
-                                paperSizeUpdates.push(setPagePaperSize(tr, dispatch, pos, this.options.defaultPaperSize));
+                                paperSizeUpdates.push(
+                                    setPagePaperSize(tr, dispatch, pos, this.options.defaultPaperSize, this.options.customPaperSizes)
+                                );
                             }
                         }
                     });
@@ -371,7 +720,7 @@ const PaginationExtension = Extension.create<PaginationOptions>({
                 ({ tr, dispatch }) => {
                     const { doc } = tr;
 
-                    const pageNodePos = getPageNodePosByPageNum(doc, pageNum);
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
                     if (!pageNodePos) {
                         return false;
                     }
@@ -402,7 +751,7 @@ const PaginationExtension = Extension.create<PaginationOptions>({
                 ({ tr, dispatch }) => {
                     const { doc } = tr;
 
-                    const pageNodePos = getPageNodePosByPageNum(doc, pageNum);
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
                     if (!pageNodePos) {
                         return false;
                     }
@@ -412,55 +761,246 @@ const PaginationExtension = Extension.create<PaginationOptions>({
                     return setPageNodePosPaperOrientation(tr, dispatch, pagePos, pageNode, paperOrientation);
                 },
 
-            setDocumentPageMargins: setDocumentSideConfig(BODY_NODE_ATTR_KEYS.pageMargins, isValidPageMargins, setBodyNodesAttribute),
+            setDocumentPageMargins: setDocumentSideConfig(
+                BODY_NODE_ATTR_KEYS.pageMargins,
+                isValidPageMargins,
+                setBodyNodesAttribute,
+                MARGIN_STORAGE_UNIT
+            ),
 
             setDocumentDefaultPageMargins:
                 () =>
                 ({ commands }) =>
                     commands.setDocumentPageMargins(this.options.defaultMarginConfig),
 
-            setPagePageMargins: setPageSideConfig(getPageNodePosByPageNum, setBodyNodePosPageMargins),
+            setPagePageMargins: setPageSideConfig(getPageNodePosWithOwnSettings, setBodyNodePosPageMargins, MARGIN_STORAGE_UNIT),
 
             setDocumentPageMargin:
-                (margin: MultiSide, value: number) =>
+                (margin: MultiSide, value: Length) =>
                 ({ tr, dispatch, commands }) =>
-                    setDocumentSideValue(commands.setDocumentPageMargins, isMarginValid, updateBodyMargin)(margin, value)({
+                    setDocumentSideValue(
+                        commands.setDocumentPageMargins,
+                        isMarginValid,
+                        updateBodyMargin,
+                        MARGIN_STORAGE_UNIT
+                    )(
+                        margin,
+                        value
+                    )({
                         tr,
                         dispatch,
                     }),
 
             setPagePageMargin:
-                (pageNum: number, margin: MultiSide, value: number) =>
+                (pageNum: number, margin: MultiSide, value: Length) =>
                 ({ tr, dispatch, commands }) =>
-                    setPageSideValue(commands.setPagePageMargins, isMarginValid, updateBodyMargin)(pageNum, margin, value)({
+                    setPageSideValue(
+                        commands.setPagePageMargins,
+                        isMarginValid,
+                        updateBodyMargin,
+                        MARGIN_STORAGE_UNIT
+                    )(
+                        pageNum,
+                        margin,
+                        value
+                    )({
                         tr,
                         dispatch,
                     }),
 
-            setDocumentPageBorders: setDocumentSideConfig(PAGE_NODE_ATTR_KEYS.pageBorders, isValidPageBorders, setPageNodesAttribute),
+            setDocumentPageBorders: setDocumentSideConfig(
+                PAGE_NODE_ATTR_KEYS.pageBorders,
+                isValidPageBorders,
+                setPageNodesAttribute,
+                BORDER_STORAGE_UNIT
+            ),
 
             setDocumentDefaultPageBorders:
                 () =>
-                ({ commands }) =>
-                    commands.setDocumentPageBorders(this.options.defaultPageBorders),
+                ({ tr, dispatch, commands }) => {
+                    const { defaultPageBorders } = this.options;
+                    if (defaultPageBorders) {
+                        return commands.setDocumentPageBorders(defaultPageBorders);
+                    }
+
+                    if (!dispatch) return false;
+
+                    // Pages without borders of their own show the default outline
+                    setPageNodesAttribute(tr, PAGE_NODE_ATTR_KEYS.pageBorders, null);
+                    dispatch(tr);
+                    return true;
+                },
 
-            setPageBorders: setPageSideConfig(getPageNodePosByPageNum, setPageNodePosPageBorders),
+            setPageBorders: setPageSideConfig(getPageNodePosWithOwnSettings, setPageNodePosPageBorders, BORDER_STORAGE_UNIT),
 
             setDocumentPageBorder:
-                (border: MultiSide, value: number) =>
+                (border: MultiSide, value: Length) =>
                 ({ tr, dispatch, commands }) =>
-                    setDocumentSideValue(commands.setDocumentPageBorders, isBorderValid, updatePageBorder)(border, value)({
+                    setDocumentSideValue(
+                        commands.setDocumentPageBorders,
+                        isBorderValid,
+                        updatePageBorder,
+                        BORDER_STORAGE_UNIT
+                    )(
+                        border,
+                        value
+                    )({
                         tr,
                         dispatch,
                     }),
 
             setPagePageBorder:
-                (pageNum: number, border: MultiSide, value: number) =>
+                (pageNum: number, border: MultiSide, value: Length) =>
                 ({ tr, dispatch, commands }) =>
-                    setPageSideValue(commands.setPageBorders, isBorderValid, updatePageBorder)(pageNum, border, value)({
+                    setPageSideValue(commands.setPageBorders, isBorderValid, updatePageBorder, BORDER_STORAGE_UNIT)(pageNum, border, value)(
+                        {
+                            tr,
+                            dispatch,
+                        }
+                    ),
+
+            toggleKeepWithNext:
+                () =>
+                ({ tr, dispatch }) =>
+                    togglePageBreakProperty(tr, dispatch, PAGE_BREAK_PROPERTY_ATTR_KEYS.keepWithNext, this.options.pageBreakPropertyTypes),
+
+            toggleKeepTogether:
+                () =>
+                ({ tr, dispatch }) =>
+                    togglePageBreakProperty(tr, dispatch, PAGE_BREAK_PROPERTY_ATTR_KEYS.keepTogether, this.options.pageBreakPropertyTypes),
+
+            togglePageBreakBefore:
+                () =>
+                ({ tr, dispatch }) =>
+                    togglePageBreakProperty(
                         tr,
                         dispatch,
-                    }),
+                        PAGE_BREAK_PROPERTY_ATTR_KEYS.pageBreakBefore,
+                        this.options.pageBreakPropertyTypes
+                    ),
+
+            setDifferentFirstPage:
+                (differentFirstPage: boolean) =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    setPageNodesAttribute(tr, PAGE_NODE_ATTR_KEYS.differentFirstPage, differentFirstPage);
+
+                    dispatch(tr.setMeta(paginationPluginKey, true));
+                    return true;
+                },
+
+            setDifferentOddEven:
+                (differentOddEven: boolean) =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    setPageNodesAttribute(tr, PAGE_NODE_ATTR_KEYS.differentOddEven, differentOddEven);
+
+                    dispatch(tr.setMeta(paginationPluginKey, true));
+                    return true;
+                },
+
+            setDocumentPageNumberFormat:
+                (pageNumberFormat: PageNumberFormat) =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    if (!isValidPageNumberFormat(pageNumberFormat)) {
+                        console.warn("Invalid page number format:", pageNumberFormat);
+                        return false;
+                    }
+
+                    setPageNodesAttribute(tr, PAGE_NODE_ATTR_KEYS.pageNumberFormat, pageNumberFormat);
+
+                    dispatch(tr);
+                    return true;
+                },
+
+            setPageNumberFormat:
+                (pageNum: number, pageNumberFormat: PageNumberFormat) =>
+                ({ tr, dispatch }) => {
+                    const { doc } = tr;
+
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
+                    if (!pageNodePos) {
+                        return false;
+                    }
+
+                    const { pos: pagePos, node: pageNode } = pageNodePos;
+
+                    return setPageNodePosPageNumberFormat(tr, dispatch, pagePos, pageNode, pageNumberFormat);
+                },
+
+            setPageNumberStart:
+                (pageNum: number, pageNumberStart: Nullable<number>) =>
+                ({ tr, dispatch }) => {
+                    const { doc } = tr;
+
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
+                    if (!pageNodePos) {
+                        return false;
+                    }
+
+                    const { pos: pagePos, node: pageNode } = pageNodePos;
+
+                    return setPageNodePosPageNumberStart(tr, dispatch, pagePos, pageNode, pageNumberStart);
+                },
+
+            setDocumentColumns:
+                (columns: ColumnConfig) =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    if (!isValidColumnConfig(columns)) {
+                        console.warn("Invalid column config:", columns);
+                        return false;
+                    }
+
+                    setBodyNodesAttribute(tr, BODY_NODE_ATTR_KEYS.columns, columns);
+
+                    dispatch(tr);
+                    return true;
+                },
+
+            setPageColumns:
+                (pageNum: number, columns: ColumnConfig) =>
+                ({ tr, dispatch }) => {
+                    const { doc } = tr;
+
+                    const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
+                    if (!pageNodePos) {
+                        return false;
+                    }
+
+                    const { pos: pagePos, node: pageNode } = pageNodePos;
+
+                    return setBodyNodePosColumns(tr, dispatch, pagePos, pageNode, columns);
+                },
+            printDocument:
+                () =>
+                ({ editor, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    return printEditor(editor);
+                },
+            importDocx:
+                (data: Uint8Array) =>
+                ({ tr, dispatch }) => {
+                    if (!dispatch) return false;
+
+                    let doc: PMNode;
+                    try {
+                        doc = importDocx(data, tr.doc.type.schema);
+                    } catch (error) {
+                        console.warn("Invalid DOCX document:", error);
+                        return false;
+                    }
+
+                    tr.replaceWith(0, tr.doc.content.size, doc.content);
+                    dispatch(tr.setMeta(paginationPluginKey, true));
+                    return true;
+                },
         };
     },
 });
@@ -0,0 +1,64 @@
+/**
+ * @file /src/Plugins/CrossReferences.ts
+ * @name CrossReferences
+ * @description Custom plugin for keeping the text of cross-references up to date.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { CROSS_REFERENCE_RESOLUTION_KEY } from "../constants/crossReference";
+import {
+    collectCrossReferenceTargets,
+    collectCrossReferences,
+    getCrossReferenceDisplay,
+    getCrossReferenceTargetId,
+    resolveCrossReference,
+} from "../utils/nodes/crossReference";
+
+/**
+ * Decorate every cross-reference in the document with the label and page number of its
+ * target, or mark it as broken if its target no longer exists. The targets are resolved
+ * again on every change to the document, including repagination.
+ *
+ * @param doc - The document node.
+ * @param labels - The labels of the blocks which can be targeted, keyed by node type name.
+ * @returns {DecorationSet} The cross-reference decorations.
+ */
+const buildCrossReferenceDecorations = (doc: PMNode, labels: Record<string, string>): DecorationSet => {
+    const crossReferences = collectCrossReferences(doc);
+    if (crossReferences.length === 0) {
+        return DecorationSet.empty;
+    }
+
+    const targets = collectCrossReferenceTargets(doc, labels);
+    const decorations = crossReferences.map(({ node, pos }) => {
+        const targetId = getCrossReferenceTargetId(node);
+        const target = targetId ? targets.get(targetId) : undefined;
+        const resolution = resolveCrossReference(target ?? null, getCrossReferenceDisplay(node));
+        return Decoration.node(pos, pos + node.nodeSize, {}, { [CROSS_REFERENCE_RESOLUTION_KEY]: resolution });
+    });
+
+    return DecorationSet.create(doc, decorations);
+};
+
+const CrossReferencesPlugin = (labels: Record<string, string>) => {
+    return new Plugin<DecorationSet>({
+        key: new PluginKey("crossReferences"),
+        state: {
+            init(_, state) {
+                return buildCrossReferenceDecorations(state.doc, labels);
+            },
+            apply(tr, decorations) {
+                return tr.docChanged ? buildCrossReferenceDecorations(tr.doc, labels) : decorations;
+            },
+        },
+        props: {
+            decorations(state) {
+                return this.getState(state);
+            },
+        },
+    });
+};
+
+export default CrossReferencesPlugin;
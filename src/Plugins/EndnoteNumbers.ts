@@ -0,0 +1,66 @@
+/**
+ * @file /src/Plugins/EndnoteNumbers.ts
+ * @name EndnoteNumbers
+ * @description Custom plugin for numbering endnote references and their endnotes.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { ENDNOTE_NUMBER_KEY } from "../constants/endnote";
+import { EndnotePlacement } from "../types/endnote";
+import { PageNumberFormat } from "../types/page";
+import { getEndnoteId, getEndnoteNumbers, isEndnoteNode, isEndnoteReferenceNode } from "../utils/nodes/endnote";
+import { formatPageNumber } from "../utils/pageNumberFormat";
+
+/**
+ * Decorate every endnote reference and endnote in the document with its formatted number.
+ * Endnotes are renumbered on every change to the document, including repagination.
+ *
+ * @param doc - The document node.
+ * @param placement - Whether endnotes are gathered at the end of the document or of each section.
+ * @param numberFormat - The format of the endnote numbers.
+ * @returns {DecorationSet} The endnote number decorations.
+ */
+const buildEndnoteNumberDecorations = (doc: PMNode, placement: EndnotePlacement, numberFormat: PageNumberFormat): DecorationSet => {
+    const endnoteNumbers = getEndnoteNumbers(doc, placement);
+    const decorations: Decoration[] = [];
+
+    doc.descendants((node, pos) => {
+        if (!isEndnoteReferenceNode(node) && !isEndnoteNode(node)) {
+            return !node.isLeaf;
+        }
+
+        const id = getEndnoteId(node);
+        const endnoteNumber = id ? endnoteNumbers.get(id) : undefined;
+        if (endnoteNumber !== undefined) {
+            const formattedNumber = formatPageNumber(endnoteNumber, numberFormat);
+            decorations.push(Decoration.node(pos, pos + node.nodeSize, {}, { [ENDNOTE_NUMBER_KEY]: formattedNumber }));
+        }
+
+        return false;
+    });
+
+    return DecorationSet.create(doc, decorations);
+};
+
+const EndnoteNumbersPlugin = (placement: EndnotePlacement, numberFormat: PageNumberFormat) => {
+    return new Plugin<DecorationSet>({
+        key: new PluginKey("endnoteNumbers"),
+        state: {
+            init(_, state) {
+                return buildEndnoteNumberDecorations(state.doc, placement, numberFormat);
+            },
+            apply(tr, decorations) {
+                return tr.docChanged ? buildEndnoteNumberDecorations(tr.doc, placement, numberFormat) : decorations;
+            },
+        },
+        props: {
+            decorations(state) {
+                return this.getState(state);
+            },
+        },
+    });
+};
+
+export default EndnoteNumbersPlugin;
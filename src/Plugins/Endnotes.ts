@@ -0,0 +1,26 @@
+/**
+ * @file /src/Plugins/Endnotes.ts
+ * @name Endnotes
+ * @description Custom plugin for keeping the endnotes blocks in step with their references.
+ */
+
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { EndnotePlacement } from "../types/endnote";
+import { syncEndnotes } from "../utils/nodes/endnote";
+
+const EndnotesPlugin = (placement: EndnotePlacement) => {
+    return new Plugin({
+        key: new PluginKey("endnotes"),
+        appendTransaction(transactions, _, newState) {
+            if (!transactions.some((transaction) => transaction.docChanged)) {
+                return null;
+            }
+
+            // Gather the endnotes of any references which were added, removed or moved
+            const { tr } = newState;
+            return syncEndnotes(tr, placement) ? tr : null;
+        },
+    });
+};
+
+export default EndnotesPlugin;
@@ -0,0 +1,63 @@
+/**
+ * @file /src/Plugins/FootnoteNumbers.ts
+ * @name FootnoteNumbers
+ * @description Custom plugin for numbering footnote references and their footnotes.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { FOOTNOTE_NUMBER_KEY } from "../constants/footnote";
+import { FootnoteNumbering } from "../types/footnote";
+import { getFootnoteId, getFootnoteNumbers, isFootnoteNode, isFootnoteReferenceNode } from "../utils/nodes/footnote";
+
+/**
+ * Decorate every footnote reference and footnote in the document with its number. The
+ * node views read the number from the decoration spec, so footnotes are renumbered
+ * whenever references are added, removed or moved without the numbers being stored.
+ *
+ * @param doc - The document node.
+ * @param numbering - Whether footnotes are numbered through the document or by section.
+ * @returns {DecorationSet} The footnote number decorations.
+ */
+const buildFootnoteNumberDecorations = (doc: PMNode, numbering: FootnoteNumbering): DecorationSet => {
+    const footnoteNumbers = getFootnoteNumbers(doc, numbering);
+    const decorations: Decoration[] = [];
+
+    doc.descendants((node, pos) => {
+        if (!isFootnoteReferenceNode(node) && !isFootnoteNode(node)) {
+            return !node.isLeaf;
+        }
+
+        const id = getFootnoteId(node);
+        const footnoteNumber = id ? footnoteNumbers.get(id) : undefined;
+        if (footnoteNumber !== undefined) {
+            decorations.push(Decoration.node(pos, pos + node.nodeSize, {}, { [FOOTNOTE_NUMBER_KEY]: String(footnoteNumber) }));
+        }
+
+        return false;
+    });
+
+    return DecorationSet.create(doc, decorations);
+};
+
+const FootnoteNumbersPlugin = (numbering: FootnoteNumbering) => {
+    return new Plugin<DecorationSet>({
+        key: new PluginKey("footnoteNumbers"),
+        state: {
+            init(_, state) {
+                return buildFootnoteNumberDecorations(state.doc, numbering);
+            },
+            apply(tr, decorations) {
+                return tr.docChanged ? buildFootnoteNumberDecorations(tr.doc, numbering) : decorations;
+            },
+        },
+        props: {
+            decorations(state) {
+                return this.getState(state);
+            },
+        },
+    });
+};
+
+export default FootnoteNumbersPlugin;
@@ -44,6 +44,10 @@ import {
     isPosAtLastChildOfPageAmendment,
     isPosAtStartOfPageAmendment,
 } from "../utils/nodes/headerFooter/headerFooterCondition";
+import { getPageBreakAfterPos, getPageBreakBeforePos, insertPageBreakAtSelection } from "../utils/nodes/pageBreak";
+import { PAGE_BREAK_NODE_NAME } from "../constants/pageBreak";
+import { COLUMN_BREAK_NODE_NAME } from "../constants/columnBreak";
+import { deleteAfterSplitFragment, deleteBeforeSplitContinuation } from "../utils/split/continuation";
 
 const KeymapPlugin = keymap({
     ArrowLeft: (state, dispatch) => {
@@ -350,6 +354,44 @@ const KeymapPlugin = keymap({
         dispatch(tr);
         return true;
     },
+    "Mod-Enter": (state, dispatch) => {
+        if (!dispatch) {
+            console.warn("No dispatch function provided");
+            return false;
+        }
+
+        const pageBreakType = state.schema.nodes[PAGE_BREAK_NODE_NAME];
+        if (!pageBreakType) {
+            return false;
+        }
+
+        const { tr } = state;
+        if (!insertPageBreakAtSelection(tr, pageBreakType.create())) {
+            return false;
+        }
+
+        dispatch(tr);
+        return true;
+    },
+    "Mod-Shift-Enter": (state, dispatch) => {
+        if (!dispatch) {
+            console.warn("No dispatch function provided");
+            return false;
+        }
+
+        const columnBreakType = state.schema.nodes[COLUMN_BREAK_NODE_NAME];
+        if (!columnBreakType) {
+            return false;
+        }
+
+        const { tr } = state;
+        if (!insertPageBreakAtSelection(tr, columnBreakType.create())) {
+            return false;
+        }
+
+        dispatch(tr);
+        return true;
+    },
     Backspace: (state, dispatch) => {
         if (!dispatch) {
             console.warn("No dispatch function provided");
@@ -360,7 +402,7 @@ const KeymapPlugin = keymap({
             return false;
         }
 
-        const { doc, tr, schema } = state;
+        const { doc, tr } = state;
         const $pos = getResolvedPosition(state);
 
         if (isPosAtStartOfPageAmendment(doc, $pos)) {
@@ -368,11 +410,25 @@ const KeymapPlugin = keymap({
             return true;
         }
 
+        const { pos: pageBreakPos, node: pageBreakNode } = getPageBreakBeforePos(doc, $pos);
+        if (pageBreakNode) {
+            // Removing the page break lets pagination merge the pages back together
+            deleteNode(tr, pageBreakPos, pageBreakNode);
+            dispatch(tr);
+            return true;
+        }
+
         // Ensure that the position is within a valid block (paragraph)
         if (!isPositionWithinParagraph($pos)) {
             return false;
         }
 
+        if (deleteBeforeSplitContinuation(tr, $pos)) {
+            // Delete across the split rather than merging the fragments, which pagination would split again
+            dispatch(tr);
+            return true;
+        }
+
         const thisPos = $pos.pos;
 
         if (isPosAtEndOfBody(doc, $pos)) {
@@ -387,9 +443,9 @@ const KeymapPlugin = keymap({
                 const selection = moveToPreviousTextBlock(tr, paragraphPos);
                 setSelection(tr, selection);
             } else {
-                // Remove the last character from the current paragraph
+                // Remove the last character from the current paragraph, keeping its attributes (e.g. split continuation)
                 const newContent = paragraphNode.content.cut(0, paragraphNode.content.size - 1);
-                const newParagraph = schema.nodes.paragraph.create({}, newContent);
+                const newParagraph = paragraphNode.copy(newContent);
                 tr.replaceWith(paragraphPos, paragraphPos + paragraphNode.nodeSize, newParagraph);
                 setSelectionAtPos(tr, thisPos - 1);
             }
@@ -471,12 +527,26 @@ const KeymapPlugin = keymap({
             return true;
         }
 
+        const { pos: pageBreakPos, node: pageBreakNode } = getPageBreakAfterPos(doc, $pos);
+        if (pageBreakNode) {
+            // Removing the page break lets pagination merge the pages back together
+            deleteNode(tr, pageBreakPos, pageBreakNode);
+            dispatch(tr);
+            return true;
+        }
+
         // Ensure that the position is within a valid block (paragraph)
         if (!isPositionWithinParagraph($pos)) {
             console.warn("Not inside a paragraph node");
             return false;
         }
 
+        if (deleteAfterSplitFragment(tr, $pos)) {
+            // Delete across the split rather than merging the fragments, which pagination would split again
+            dispatch(tr);
+            return true;
+        }
+
         if (!isPosAtEndOfBody(doc, $pos)) {
             return false;
         }
@@ -0,0 +1,22 @@
+/**
+ * @file /src/Plugins/LinkedHeaderFooter.ts
+ * @name LinkedHeaderFooter
+ * @description Custom plugin for keeping the content of linked headers and footers in sync.
+ */
+
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { collectHeaderFooterLinkGroups, syncLinkedHeaderFooters } from "../utils/nodes/headerFooter/linkedHeaderFooter";
+
+const LinkedHeaderFooterPlugin = new Plugin({
+    key: new PluginKey("linkedHeaderFooter"),
+    appendTransaction(transactions, oldState, newState) {
+        if (!transactions.some((transaction) => transaction.docChanged)) return null;
+
+        const { tr } = newState;
+        const synced = collectHeaderFooterLinkGroups(newState.doc).map((linkGroup) => syncLinkedHeaderFooters(oldState.doc, tr, linkGroup));
+
+        return synced.some((updated) => updated) ? tr : null;
+    },
+});
+
+export default LinkedHeaderFooterPlugin;
@@ -0,0 +1,134 @@
+/**
+ * @file /src/Plugins/PageNumberFields.ts
+ * @name PageNumberFields
+ * @description Custom plugin for keeping the values of page number fields up to date.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { PAGE_NUMBER_FIELD_VALUE_KEY } from "../constants/pageNumberField";
+import { FormattedPageNumbers } from "../types/page";
+import { Nullable } from "../types/record";
+import { getChangedRange } from "../utils/nodes/document";
+import { buildFormattedPageNumbers } from "../utils/nodes/page/pageNumber";
+import { getPageNumberFieldType, getPageNumberFieldValue } from "../utils/nodes/pageNumberField";
+
+type PageNumberFieldsState = {
+    decorations: DecorationSet;
+    formattedPageNumbers: Nullable<FormattedPageNumbers>[];
+};
+
+/**
+ * Decorate the page number fields in a range of the document with their live values.
+ * The field node views read the value from the decoration spec, so they are redrawn
+ * whenever the value changes without the value ever being stored in the document.
+ *
+ * @param doc - The document node.
+ * @param from - The start of the range.
+ * @param to - The end of the range.
+ * @param formattedPageNumbers - The numbers of each page of the document.
+ * @returns {Decoration[]} The page number field decorations.
+ */
+const decoratePageNumberFields = (
+    doc: PMNode,
+    from: number,
+    to: number,
+    formattedPageNumbers: Nullable<FormattedPageNumbers>[]
+): Decoration[] => {
+    const decorations: Decoration[] = [];
+    doc.nodesBetween(from, to, (node, pos) => {
+        const fieldType = getPageNumberFieldType(node);
+        if (!fieldType) {
+            return !node.isLeaf;
+        }
+
+        const value = getPageNumberFieldValue(doc, pos, fieldType, formattedPageNumbers);
+        decorations.push(Decoration.node(pos, pos + node.nodeSize, {}, { [PAGE_NUMBER_FIELD_VALUE_KEY]: value }));
+        return false;
+    });
+
+    return decorations;
+};
+
+/**
+ * Decorate every page number field in the document with its live value.
+ *
+ * @param doc - The document node.
+ * @returns {PageNumberFieldsState} The page number field decorations and the page numbers they were built from.
+ */
+const buildPageNumberFieldsState = (doc: PMNode): PageNumberFieldsState => {
+    const formattedPageNumbers = buildFormattedPageNumbers(doc);
+    const decorations = decoratePageNumberFields(doc, 0, doc.content.size, formattedPageNumbers);
+    return { decorations: DecorationSet.create(doc, decorations), formattedPageNumbers };
+};
+
+/**
+ * Check if the pages of two documents are numbered the same, in which case the fields
+ * which have not changed keep their values.
+ *
+ * @param formattedPageNumbers - The numbers of the pages of the first document.
+ * @param otherFormattedPageNumbers - The numbers of the pages of the second document.
+ * @returns {boolean} True if the pages are numbered the same, false otherwise.
+ */
+const areFormattedPageNumbersEqual = (
+    formattedPageNumbers: Nullable<FormattedPageNumbers>[],
+    otherFormattedPageNumbers: Nullable<FormattedPageNumbers>[]
+): boolean => {
+    if (formattedPageNumbers.length !== otherFormattedPageNumbers.length) {
+        return false;
+    }
+
+    return formattedPageNumbers.every((pageNumbers, index) => {
+        const otherPageNumbers = otherFormattedPageNumbers[index];
+        if (!pageNumbers || !otherPageNumbers) {
+            return pageNumbers === otherPageNumbers;
+        }
+
+        return (
+            pageNumbers.pageNumber === otherPageNumbers.pageNumber && pageNumbers.sectionPageNumber === otherPageNumbers.sectionPageNumber
+        );
+    });
+};
+
+const PageNumberFieldsPlugin = new Plugin<PageNumberFieldsState>({
+    key: new PluginKey("pageNumberFields"),
+    state: {
+        init(_, state) {
+            return buildPageNumberFieldsState(state.doc);
+        },
+        apply(tr, fieldsState, oldState) {
+            if (!tr.docChanged) {
+                return fieldsState;
+            }
+
+            // Fields only change value when a page boundary or page numbering setting moves,
+            // e.g. after repagination, so otherwise only the changed fields are decorated
+            const formattedPageNumbers = buildFormattedPageNumbers(tr.doc);
+            if (!areFormattedPageNumbersEqual(fieldsState.formattedPageNumbers, formattedPageNumbers)) {
+                return buildPageNumberFieldsState(tr.doc);
+            }
+
+            let decorations = fieldsState.decorations.map(tr.mapping, tr.doc);
+            const changedRange = getChangedRange(oldState.doc, tr.doc);
+            if (changedRange) {
+                // Fields touching the changed range are decorated again along with those inside it
+                const changedDecorations = decorations.find(changedRange.from, changedRange.to);
+                const from = Math.min(changedRange.from, ...changedDecorations.map((decoration) => decoration.from));
+                const to = Math.max(changedRange.to, ...changedDecorations.map((decoration) => decoration.to));
+                decorations = decorations
+                    .remove(changedDecorations)
+                    .add(tr.doc, decoratePageNumberFields(tr.doc, from, to, formattedPageNumbers));
+            }
+
+            return { decorations, formattedPageNumbers };
+        },
+    },
+    props: {
+        decorations(state) {
+            return this.getState(state)?.decorations;
+        },
+    },
+});
+
+export default PageNumberFieldsPlugin;
@@ -4,25 +4,54 @@
  * @description Custom plugin for paginating the editor content.
  */
 
-import { Editor } from "@tiptap/core";
 import { Plugin, PluginKey, EditorState } from "@tiptap/pm/state";
 import { EditorView } from "@tiptap/pm/view";
 import { buildPageView } from "../utils/buildPageView";
 import { isNodeEmpty } from "../utils/nodes/node";
+import { getChangedRange } from "../utils/nodes/document";
 import { doesDocHavePageNodes } from "../utils/nodes/page/page";
 import { PaginationOptions } from "../PaginationExtension";
+import { NodeHeightCache } from "../types/heightCache";
 
 type PaginationPluginProps = {
-    editor: Editor;
     options: PaginationOptions;
+    heightCache: NodeHeightCache;
 };
 
-const PaginationPlugin = ({ editor, options }: PaginationPluginProps) => {
-    return new Plugin({
-        key: new PluginKey("pagination"),
-        view() {
+/**
+ * Key of the pagination plugin. Setting it as transaction meta requests a full
+ * repagination, e.g. after an option affecting the layout of every page changes.
+ * The plugin state counts these requests.
+ */
+export const paginationPluginKey = new PluginKey<number>("pagination");
+
+const PaginationPlugin = ({ options, heightCache }: PaginationPluginProps) => {
+    return new Plugin<number>({
+        key: paginationPluginKey,
+        state: {
+            init() {
+                return 0;
+            },
+            apply(tr, repaginateRequests) {
+                return tr.getMeta(paginationPluginKey) ? repaginateRequests + 1 : repaginateRequests;
+            },
+        },
+        view(view: EditorView) {
             let isPaginating = false;
 
+            // Text reflows once web fonts load, so every cached height is stale
+            const fonts = typeof document !== "undefined" ? document.fonts : undefined;
+            const onFontsLoaded = (): void => {
+                heightCache.clear();
+                if (isPaginating) return;
+
+                isPaginating = true;
+                buildPageView(view, options, heightCache);
+                isPaginating = false;
+            };
+
+            fonts?.addEventListener("loadingdone", onFontsLoaded);
+
             return {
                 update(view: EditorView, prevState: EditorState) {
                     if (isPaginating) return;
@@ -36,17 +65,25 @@ const PaginationPlugin = ({ editor, options }: PaginationPluginProps) => {
                     const docChanged = !doc.eq(prevState.doc);
                     const initialLoad = isNodeEmpty(prevState.doc) && !isNodeEmpty(doc);
                     const hasPageNodes = doesDocHavePageNodes(state);
+                    const repaginateRequested = paginationPluginKey.getState(state) !== paginationPluginKey.getState(prevState);
 
-                    if (!docChanged && hasPageNodes && !initialLoad) return;
+                    if (!docChanged && hasPageNodes && !initialLoad && !repaginateRequested) return;
 
                     isPaginating = true;
 
-                    buildPageView(editor, view, options);
+                    // Only repaginate from the changed range once the document has been paginated
+                    const isIncremental = hasPageNodes && !initialLoad && !repaginateRequested;
+                    const changedRange = isIncremental ? getChangedRange(prevState.doc, doc) : null;
+                    buildPageView(view, options, heightCache, changedRange);
 
                     // Reset paginating flag regardless of success or failure because we do not want to get
                     // stuck out of this loop.
                     isPaginating = false;
                 },
+
+                destroy() {
+                    fonts?.removeEventListener("loadingdone", onFontsLoaded);
+                },
             };
         },
     });
@@ -0,0 +1,25 @@
+/**
+ * @file /src/Plugins/TableOfContents.ts
+ * @name TableOfContents
+ * @description Custom plugin for keeping tables of contents up to date.
+ */
+
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { syncTableOfContents } from "../utils/nodes/tableOfContents";
+
+const TableOfContentsPlugin = (levels: number[]) => {
+    return new Plugin({
+        key: new PluginKey("tableOfContents"),
+        appendTransaction(transactions, _, newState) {
+            if (!transactions.some((transaction) => transaction.docChanged)) {
+                return null;
+            }
+
+            // Headings may have been edited, or moved to another page by repagination
+            const { tr } = newState;
+            return syncTableOfContents(tr, levels) ? tr : null;
+        },
+    });
+};
+
+export default TableOfContentsPlugin;
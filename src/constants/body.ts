@@ -5,7 +5,7 @@
  */
 
 import { NodeAttributes } from "../types/node";
-import { BodyNodeAttributes } from "../types/body";
+import { BodyNodeAttributes, ColumnConfig } from "../types/body";
 import { DEFAULT_PAGE_MARGIN_CONFIG } from "./pageMargins";
 
 export const BODY_NODE_NAME = "body" as const;
@@ -15,13 +15,25 @@ export const BODY_NODE_NAME = "body" as const;
  */
 export const BODY_NODE_ATTR_KEYS = {
     pageMargins: "pageMargins",
+    columns: "columns",
 } as const;
 
+/**
+ * A single column, with the gap matching the default used by most word processors (0.5 inch).
+ */
+export const DEFAULT_COLUMN_CONFIG: ColumnConfig = { count: 1, gap: 12.7, rule: false };
+
+/**
+ * The colour of the rule line drawn between columns.
+ */
+export const COLUMN_RULE_COLOUR = "#ccc" as const;
+
 /**
  * The default body node attributes.
  */
 export const BODY_DEFAULT_ATTRIBUTES: BodyNodeAttributes = {
     pageMargins: DEFAULT_PAGE_MARGIN_CONFIG,
+    columns: DEFAULT_COLUMN_CONFIG,
 };
 
 /**
@@ -29,4 +41,5 @@ export const BODY_DEFAULT_ATTRIBUTES: BodyNodeAttributes = {
  */
 export const BODY_ATTRIBUTES: NodeAttributes<BodyNodeAttributes> = {
     pageMargins: { default: DEFAULT_PAGE_MARGIN_CONFIG },
+    columns: { default: DEFAULT_COLUMN_CONFIG },
 };
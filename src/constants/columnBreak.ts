@@ -0,0 +1,7 @@
+/**
+ * @file /src/constants/columnBreak.ts
+ * @name ColumnBreak
+ * @description Constants for column breaks in the editor.
+ */
+
+export const COLUMN_BREAK_NODE_NAME = "columnBreak" as const;
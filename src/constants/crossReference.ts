@@ -0,0 +1,64 @@
+/**
+ * @file /src/constants/crossReference.ts
+ * @name CrossReference
+ * @description Constants for cross-references in the editor.
+ */
+
+import { CrossReferenceDisplay } from "../types/crossReference";
+
+export const CROSS_REFERENCE_NODE_NAME = "crossReference" as const;
+
+/**
+ * The attribute holding the id of the block a cross-reference targets.
+ */
+export const CROSS_REFERENCE_TARGET_ATTR = "targetId" as const;
+
+/**
+ * The HTML attribute used to serialise the target id of a cross-reference.
+ */
+export const CROSS_REFERENCE_TARGET_HTML_ATTR = "data-target-id" as const;
+
+/**
+ * The attribute holding what a cross-reference displays about its target.
+ */
+export const CROSS_REFERENCE_DISPLAY_ATTR = "display" as const;
+
+/**
+ * The HTML attribute used to serialise what a cross-reference displays.
+ */
+export const CROSS_REFERENCE_DISPLAY_HTML_ATTR = "data-display" as const;
+
+/**
+ * The key of the decoration spec holding the resolution of a cross-reference.
+ */
+export const CROSS_REFERENCE_RESOLUTION_KEY = "crossReferenceResolution" as const;
+
+/**
+ * The attribute giving a block a stable id, so cross-references can target it.
+ */
+export const BLOCK_ID_ATTR = "blockId" as const;
+
+/**
+ * The HTML attribute used to serialise the block id.
+ */
+export const BLOCK_ID_HTML_ATTR = "data-block-id" as const;
+
+export const DEFAULT_CROSS_REFERENCE_DISPLAY: CrossReferenceDisplay = "labelAndPage";
+
+/**
+ * The labels of the blocks which can be cross-referenced, keyed by node type name.
+ * Headings are numbered by level (e.g. "Section 3.2"), other blocks in order of
+ * appearance (e.g. "Figure 2").
+ */
+export const DEFAULT_CROSS_REFERENCE_LABELS: Record<string, string> = {
+    heading: "Section",
+    image: "Figure",
+    table: "Table",
+};
+
+/**
+ * The text displayed by a cross-reference whose target has been deleted.
+ */
+export const BROKEN_CROSS_REFERENCE_TEXT = "Reference not found" as const;
+
+export const BROKEN_CROSS_REFERENCE_COLOUR = "#d32f2f" as const;
@@ -0,0 +1,107 @@
+/**
+ * @file /src/constants/docx.ts
+ * @name Docx
+ * @description Constants for importing and exporting Word (DOCX) documents.
+ */
+
+import { PageNumberFormat } from "../types/page";
+import { HeaderFooterVariant } from "../types/pageRegions";
+import { PageNumberFieldType } from "../types/pageNumberField";
+
+/**
+ * Word measures page setup in twentieths of a point.
+ */
+export const TWIPS_PER_INCH = 1440 as const;
+
+/**
+ * Word measures border widths in eighths of a point.
+ */
+export const BORDER_EIGHTHS_PER_POINT = 8 as const;
+
+/**
+ * The largest difference in millimetres between the paper size of a Word document and
+ * a named paper size for them to be treated as the same. Word rounds sizes to whole
+ * twips, and US sizes are defined here to the nearest millimetre.
+ */
+export const DOCX_PAPER_SIZE_TOLERANCE = 1 as const;
+
+/**
+ * The XML namespaces of the parts of a DOCX package.
+ */
+export const DOCX_NAMESPACES = {
+    main: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+    relationships: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+    packageRelationships: "http://schemas.openxmlformats.org/package/2006/relationships",
+    contentTypes: "http://schemas.openxmlformats.org/package/2006/content-types",
+    coreProperties: "http://schemas.openxmlformats.org/package/2006/metadata/core-properties",
+    dublinCore: "http://purl.org/dc/elements/1.1/",
+} as const;
+
+/**
+ * The relationship types of the parts of a DOCX package.
+ */
+export const DOCX_RELATIONSHIP_TYPES = {
+    officeDocument: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument",
+    coreProperties: "http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties",
+    settings: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings",
+    header: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/header",
+    footer: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer",
+} as const;
+
+/**
+ * The content types of the parts of a DOCX package.
+ */
+export const DOCX_CONTENT_TYPES = {
+    relationships: "application/vnd.openxmlformats-package.relationships+xml",
+    xml: "application/xml",
+    document: "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml",
+    settings: "application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml",
+    header: "application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml",
+    footer: "application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml",
+    coreProperties: "application/vnd.openxmlformats-package.core-properties+xml",
+} as const;
+
+/**
+ * The path of the main document part, used when the package relationships do not name one.
+ */
+export const DOCX_DEFAULT_DOCUMENT_PATH = "word/document.xml" as const;
+
+/**
+ * The Word page number formats of each page number format.
+ */
+export const DOCX_PAGE_NUMBER_FORMATS: Record<PageNumberFormat, string> = {
+    arabic: "decimal",
+    lowerRoman: "lowerRoman",
+    upperRoman: "upperRoman",
+    lowerAlpha: "lowerLetter",
+    upperAlpha: "upperLetter",
+};
+
+/**
+ * The Word header and footer reference types of each header and footer variant.
+ */
+export const DOCX_HEADER_FOOTER_REFERENCE_TYPES: Record<HeaderFooterVariant, string> = {
+    default: "default",
+    first: "first",
+    even: "even",
+};
+
+/**
+ * The Word field instructions of the page number fields. Word has no field for the number
+ * of a page within its section, so section page numbers are exported as page numbers.
+ */
+export const DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS: Record<PageNumberFieldType, string> = {
+    pageNumber: "PAGE",
+    totalPages: "NUMPAGES",
+    sectionPageNumber: "PAGE",
+};
+
+/**
+ * The Word run properties of each mark, keyed by mark name.
+ */
+export const DOCX_MARK_RUN_PROPERTIES: Record<string, string> = {
+    bold: "w:b",
+    italic: "w:i",
+    underline: "w:u",
+    strike: "w:strike",
+};
@@ -0,0 +1,35 @@
+/**
+ * @file /src/constants/endnote.ts
+ * @name Endnote
+ * @description Constants for endnotes in the editor.
+ */
+
+import { EndnotePlacement } from "../types/endnote";
+import { PageNumberFormat } from "../types/page";
+
+export const ENDNOTE_REFERENCE_NODE_NAME = "endnoteReference" as const;
+export const ENDNOTE_NODE_NAME = "endnote" as const;
+export const ENDNOTES_NODE_NAME = "endnotes" as const;
+
+/**
+ * The attribute linking an endnote reference to its endnote.
+ */
+export const ENDNOTE_ID_ATTR = "endnoteId" as const;
+
+/**
+ * The HTML attribute used to serialise the endnote id.
+ */
+export const ENDNOTE_ID_HTML_ATTR = "data-endnote-id" as const;
+
+/**
+ * The key of the decoration spec holding the formatted number of an endnote.
+ */
+export const ENDNOTE_NUMBER_KEY = "endnoteNumber" as const;
+
+/**
+ * Endnotes are numbered in lower case roman numerals by default, keeping them
+ * apart from footnotes.
+ */
+export const DEFAULT_ENDNOTE_NUMBER_FORMAT: PageNumberFormat = "lowerRoman";
+
+export const DEFAULT_ENDNOTE_PLACEMENT: EndnotePlacement = "document";
@@ -0,0 +1,34 @@
+/**
+ * @file /src/constants/footnote.ts
+ * @name Footnote
+ * @description Constants for footnotes in the editor.
+ */
+
+import { FootnoteNumbering } from "../types/footnote";
+
+export const FOOTNOTE_REFERENCE_NODE_NAME = "footnoteReference" as const;
+export const FOOTNOTE_NODE_NAME = "footnote" as const;
+export const FOOTNOTES_NODE_NAME = "footnotes" as const;
+
+/**
+ * The attribute linking a footnote reference to its footnote.
+ */
+export const FOOTNOTE_ID_ATTR = "footnoteId" as const;
+
+/**
+ * The HTML attribute used to serialise the footnote id.
+ */
+export const FOOTNOTE_ID_HTML_ATTR = "data-footnote-id" as const;
+
+/**
+ * The key of the decoration spec holding the number of a footnote.
+ */
+export const FOOTNOTE_NUMBER_KEY = "footnoteNumber" as const;
+
+export const DEFAULT_FOOTNOTE_NUMBERING: FootnoteNumbering = "document";
+
+/**
+ * The height in pixels of the separator line above the footnotes of a page,
+ * including the space around it.
+ */
+export const FOOTNOTES_SEPARATOR_HEIGHT = 12;
@@ -7,9 +7,9 @@
 import { DEFAULT_PAPER_ORIENTATION } from "../constants/paperOrientation";
 import { PageNodeAttributes } from "../types/page";
 import { NodeAttributes } from "../types/node";
-import { DEFAULT_PAGE_BORDER_CONFIG } from "./pageBorders";
 import { DEFAULT_PAPER_SIZE } from "./paperSize";
 import { DEFAULT_PAPER_COLOUR } from "./paperColours";
+import { DEFAULT_PAGE_NUMBER_FORMAT } from "./pageNumber";
 
 export const PAGE_NODE_NAME = "page" as const;
 
@@ -18,13 +18,23 @@ export const PAGE_NODE_ATTR_KEYS = {
     paperColour: "paperColour",
     paperOrientation: "paperOrientation",
     pageBorders: "pageBorders",
+    pageNumberFormat: "pageNumberFormat",
+    pageNumberStart: "pageNumberStart",
+    differentFirstPage: "differentFirstPage",
+    differentOddEven: "differentOddEven",
+    section: "section",
 } as const;
 
 export const PAGE_ATTRIBUTES: NodeAttributes<PageNodeAttributes> = {
     paperSize: { default: DEFAULT_PAPER_SIZE },
     paperColour: { default: DEFAULT_PAPER_COLOUR },
     paperOrientation: { default: DEFAULT_PAPER_ORIENTATION },
-    pageBorders: { default: DEFAULT_PAGE_BORDER_CONFIG },
+    pageBorders: { default: null },
+    pageNumberFormat: { default: DEFAULT_PAGE_NUMBER_FORMAT },
+    pageNumberStart: { default: null },
+    differentFirstPage: { default: null },
+    differentOddEven: { default: null },
+    section: { default: 0 },
 };
 
 // ====== Page Gap ======
@@ -9,4 +9,6 @@ import { PageAmendmentOptions } from "../types/pageAmendment";
 export const DEFAULT_PAGE_AMENDMENT_CONFIG: PageAmendmentOptions = {
     enableFooter: true,
     enableHeader: true,
+    differentFirstPage: false,
+    differentOddEven: false,
 };
@@ -0,0 +1,41 @@
+/**
+ * @file /src/constants/pageBreak.ts
+ * @name PageBreak
+ * @description Constants for page breaks and block page break properties in the editor.
+ */
+
+import { PageBreakProperty } from "../types/pageBreak";
+
+export const PAGE_BREAK_NODE_NAME = "pageBreak" as const;
+
+/**
+ * Lookup keys for block page break property attributes.
+ */
+export const PAGE_BREAK_PROPERTY_ATTR_KEYS = {
+    keepWithNext: "keepWithNext",
+    keepTogether: "keepTogether",
+    pageBreakBefore: "pageBreakBefore",
+} as const;
+
+/**
+ * The HTML attributes used to serialise the block page break properties.
+ */
+export const PAGE_BREAK_PROPERTY_HTML_ATTRS: Record<PageBreakProperty, string> = {
+    keepWithNext: "data-keep-with-next",
+    keepTogether: "data-keep-together",
+    pageBreakBefore: "data-page-break-before",
+};
+
+/**
+ * The node types which page break properties can be added to by default.
+ */
+export const DEFAULT_PAGE_BREAK_PROPERTY_TYPES: string[] = [
+    "paragraph",
+    "heading",
+    "blockquote",
+    "bulletList",
+    "orderedList",
+    "taskList",
+    "codeBlock",
+    "table",
+];
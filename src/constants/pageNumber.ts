@@ -0,0 +1,33 @@
+/**
+ * @file /src/constants/pageNumber.ts
+ * @name PageNumber
+ * @description Constants for page numbering in the editor.
+ */
+
+import { PageNumberFormat } from "../types/page";
+
+export const DEFAULT_PAGE_NUMBER_FORMAT: PageNumberFormat = "arabic";
+
+/**
+ * The page number formats available for selection.
+ */
+export const pageNumberFormats: PageNumberFormat[] = ["arabic", "lowerRoman", "upperRoman", "lowerAlpha", "upperAlpha"];
+
+/**
+ * Roman numeral symbols and their values, in descending order of value.
+ */
+export const ROMAN_NUMERALS: [string, number][] = [
+    ["M", 1000],
+    ["CM", 900],
+    ["D", 500],
+    ["CD", 400],
+    ["C", 100],
+    ["XC", 90],
+    ["L", 50],
+    ["XL", 40],
+    ["X", 10],
+    ["IX", 9],
+    ["V", 5],
+    ["IV", 4],
+    ["I", 1],
+];
@@ -0,0 +1,30 @@
+/**
+ * @file /src/constants/pageNumberField.ts
+ * @name PageNumberField
+ * @description Constants for page number field nodes in the editor.
+ */
+
+import { PageNumberFieldType } from "../types/pageNumberField";
+
+/**
+ * The node names of the page number fields.
+ */
+export const PAGE_NUMBER_FIELD_NODE_NAMES = {
+    pageNumber: "pageNumber",
+    totalPages: "totalPages",
+    sectionPageNumber: "sectionPageNumber",
+} as const;
+
+/**
+ * The HTML attributes used to serialise the page number fields.
+ */
+export const PAGE_NUMBER_FIELD_HTML_ATTRS: Record<PageNumberFieldType, string> = {
+    pageNumber: "data-page-number",
+    totalPages: "data-total-pages",
+    sectionPageNumber: "data-section-page-number",
+};
+
+/**
+ * The key of the decoration spec holding the live value of a page number field.
+ */
+export const PAGE_NUMBER_FIELD_VALUE_KEY = "pageNumberFieldValue" as const;
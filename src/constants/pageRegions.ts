@@ -17,6 +17,8 @@ export const HEADER_FOOTER_NODE_ATTR_KEYS = {
     pageEndOffset: "pageEndOffset",
     height: "height",
     xMargins: "xMargins",
+    linked: "linked",
+    variant: "variant",
 } as const;
 
 /**
@@ -26,6 +28,8 @@ export const HEADER_FOOTER_DEFAULT_ATTRIBUTES: Omit<HeaderFooterNodeAttributes<u
     height: 10,
     xMargins: { left: 25.4, right: 25.4 },
     pageEndOffset: 10,
+    linked: true,
+    variant: "default",
 };
 
 /**
@@ -0,0 +1,10 @@
+/**
+ * @file /src/constants/pagedHTML.ts
+ * @name PagedHTML
+ * @description Constants for exporting the paginated document as HTML.
+ */
+
+/**
+ * The class of the element holding the pages in the exported HTML.
+ */
+export const PAGED_HTML_DOCUMENT_CLASS = "paged-document" as const;
@@ -4,9 +4,9 @@
  * @description Constants for the paper sizes
  */
 
-import { APaperSize, BPaperSize, CPaperSize, USPaperSize, PaperDimensions, PaperSize } from "../types/paper";
+import { APaperSize, BPaperSize, CPaperSize, USPaperSize, BuiltInPaperSize, PaperDimensions } from "../types/paper";
 
-export const DEFAULT_PAPER_SIZE: PaperSize = "A4";
+export const DEFAULT_PAPER_SIZE: BuiltInPaperSize = "A4";
 
 const aPaperSizes: Record<APaperSize, PaperDimensions> = {
     A0: { width: 841, height: 1189 },
@@ -88,11 +88,11 @@ export const usPaperSizes: Record<USPaperSize, PaperDimensions> = {
     "Arch E3": { width: 686, height: 991 },
 };
 
-export const paperDimensions: Record<PaperSize, PaperDimensions> = {
+export const paperDimensions: Readonly<Record<BuiltInPaperSize, PaperDimensions>> = Object.freeze({
     ...aPaperSizes,
     ...bPaperSizes,
     ...cPaperSizes,
     ...usPaperSizes,
-};
+});
 
-export const paperSizes: PaperSize[] = Object.keys(paperDimensions) as PaperSize[];
+export const paperSizes: readonly BuiltInPaperSize[] = Object.freeze(Object.keys(paperDimensions) as BuiltInPaperSize[]);
@@ -0,0 +1,62 @@
+/**
+ * @file /src/constants/pdf.ts
+ * @name PDF
+ * @description Constants for exporting the paginated document as a PDF.
+ */
+
+import { PDFFont } from "../types/pdf";
+
+/**
+ * The standard PDF fonts text is drawn in, keyed by variant. Standard fonts are not
+ * embedded, so every PDF reader can display them.
+ */
+export const PDF_FONTS: Record<PDFFont, { resourceName: string; baseFont: string }> = {
+    regular: { resourceName: "F1", baseFont: "Helvetica" },
+    bold: { resourceName: "F2", baseFont: "Helvetica-Bold" },
+    italic: { resourceName: "F3", baseFont: "Helvetica-Oblique" },
+    boldItalic: { resourceName: "F4", baseFont: "Helvetica-BoldOblique" },
+};
+
+/**
+ * The codes of the characters outside Latin-1 which the WinAnsi encoding of the
+ * standard fonts can draw.
+ */
+export const WIN_ANSI_EXTRA_CODES: Record<string, number> = {
+    "€": 0x80,
+    "‚": 0x82,
+    "„": 0x84,
+    "…": 0x85,
+    "‘": 0x91,
+    "’": 0x92,
+    "“": 0x93,
+    "”": 0x94,
+    "•": 0x95,
+    "–": 0x96,
+    "—": 0x97,
+    "™": 0x99,
+};
+
+/**
+ * The distance of the text baseline below the middle of a line, in ems.
+ */
+export const PDF_BASELINE_OFFSET = 0.35 as const;
+
+/**
+ * The colour of the page borders and the lines around tables and placeholders.
+ */
+export const PDF_LINE_COLOUR = "#ccc" as const;
+
+/**
+ * The space between a list item or note and its marker, in pixels.
+ */
+export const PDF_MARKER_GAP = 6 as const;
+
+/**
+ * The font size of footnotes relative to the body text.
+ */
+export const PDF_FOOTNOTES_FONT_SCALE = 0.8 as const;
+
+/**
+ * The font size of superscript note references relative to the surrounding text.
+ */
+export const PDF_SUPERSCRIPT_SCALE = 0.75 as const;
@@ -0,0 +1,15 @@
+/**
+ * @file /src/constants/print.ts
+ * @name Print
+ * @description Constants for printing the paginated document.
+ */
+
+/**
+ * The id of the style element holding the print stylesheet while the document is printed.
+ */
+export const PRINT_STYLE_ELEMENT_ID = "pagination-print-styles" as const;
+
+/**
+ * The attribute marking the editor being printed.
+ */
+export const PRINT_EDITOR_ATTRIBUTE = "data-pagination-print" as const;
@@ -0,0 +1,25 @@
+/**
+ * @file /src/constants/sectionBreak.ts
+ * @name SectionBreak
+ * @description Constants for section breaks in the editor.
+ */
+
+import { NodeAttributes } from "../types/node";
+import { SectionAttributes } from "../types/section";
+
+export const SECTION_BREAK_NODE_NAME = "sectionBreak" as const;
+
+/**
+ * The section break node attributes. Every setting defaults to null, i.e. the
+ * setting of the section before.
+ */
+export const SECTION_BREAK_ATTRIBUTES: NodeAttributes<SectionAttributes> = {
+    paperSize: { default: null },
+    paperColour: { default: null },
+    paperOrientation: { default: null },
+    pageBorders: { default: null },
+    pageMargins: { default: null },
+    columns: { default: null },
+    pageNumberFormat: { default: null },
+    pageNumberStart: { default: null },
+};
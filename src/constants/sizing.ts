@@ -6,3 +6,5 @@
 
 export const MM_PER_INCH = 25.4 as const;
 export const STANDARD_PIXELS_PER_INCH = 96 as const;
+export const POINTS_PER_INCH = 72 as const;
+export const STANDARD_PIXELS_PER_MM = STANDARD_PIXELS_PER_INCH / MM_PER_INCH;
@@ -0,0 +1,38 @@
+/**
+ * @file /src/constants/split.ts
+ * @name Split
+ * @description Constants for splitting content nodes across pages.
+ */
+
+import { WidowOrphanOptions } from "../types/split";
+
+/**
+ * Attribute set on the trailing fragment of a node that has been split across a page boundary.
+ * Fragments marked with this attribute are rejoined with the node before them on each pagination pass.
+ */
+export const SPLIT_CONTINUATION_ATTR = "splitContinuation" as const;
+
+/**
+ * The HTML attribute used to serialise the split continuation attribute.
+ */
+export const SPLIT_CONTINUATION_HTML_ATTR = "data-split-continuation" as const;
+
+/**
+ * Attribute set on the continuation of a split container node with the number of leading
+ * children repeated from the node it was split from (e.g. table header rows). These
+ * children are dropped when the fragments are rejoined.
+ */
+export const SPLIT_REPEATED_CHILDREN_ATTR = "splitRepeatedChildren" as const;
+
+/**
+ * The HTML attribute used to serialise the split repeated children attribute.
+ */
+export const SPLIT_REPEATED_CHILDREN_HTML_ATTR = "data-split-repeated-children" as const;
+
+/**
+ * The default widow and orphan control options.
+ */
+export const DEFAULT_WIDOW_ORPHAN_CONFIG: Required<WidowOrphanOptions> = {
+    orphans: 2,
+    widows: 2,
+};
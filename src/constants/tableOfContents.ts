@@ -0,0 +1,27 @@
+/**
+ * @file /src/constants/tableOfContents.ts
+ * @name TableOfContents
+ * @description Constants for tables of contents in the editor.
+ */
+
+export const TABLE_OF_CONTENTS_NODE_NAME = "tableOfContents" as const;
+
+/**
+ * The attribute holding the entries of a table of contents.
+ */
+export const TABLE_OF_CONTENTS_ENTRIES_ATTR = "entries" as const;
+
+/**
+ * The HTML attribute used to serialise the entries of a table of contents.
+ */
+export const TABLE_OF_CONTENTS_ENTRIES_HTML_ATTR = "data-entries" as const;
+
+/**
+ * The heading levels listed in a table of contents by default.
+ */
+export const DEFAULT_TABLE_OF_CONTENTS_LEVELS: number[] = [1, 2, 3];
+
+/**
+ * The indent of each level of a table of contents below the first, in pixels.
+ */
+export const TABLE_OF_CONTENTS_LEVEL_INDENT = 16;
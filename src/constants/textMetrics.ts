@@ -0,0 +1,53 @@
+/**
+ * @file /src/constants/textMetrics.ts
+ * @name TextMetrics
+ * @description Constants for estimating the size of text without a DOM.
+ */
+
+import { TextMetricsBlockStyle, TextMetricsOptions } from "../types/measurement";
+
+/**
+ * Helvetica/Arial advance widths of the printable ASCII characters, in thousandths of an
+ * em, starting from the space character.
+ */
+const HELVETICA_ASCII_WIDTHS: number[] = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278,
+    278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722,
+    667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556,
+    556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/**
+ * The widths of the printable ASCII characters in ems.
+ */
+export const DEFAULT_CHAR_WIDTHS: Record<string, number> = Object.fromEntries(
+    HELVETICA_ASCII_WIDTHS.map((width, index) => [String.fromCharCode(32 + index), width / 1000])
+);
+
+/**
+ * Browser default text styles of common blocks.
+ */
+export const DEFAULT_TEXT_METRICS_BLOCK_STYLES: Record<string, TextMetricsBlockStyle> = {
+    paragraph: { marginTop: 1 },
+    heading1: { fontSize: 2, marginTop: 0.67 },
+    heading2: { fontSize: 1.5, marginTop: 0.83 },
+    heading3: { fontSize: 1.17, marginTop: 1 },
+    heading4: { fontSize: 1, marginTop: 1.33 },
+    heading5: { fontSize: 0.83, marginTop: 1.67 },
+    heading6: { fontSize: 0.67, marginTop: 2.33 },
+    blockquote: { marginTop: 1, indent: 80 },
+    bulletList: { marginTop: 1, indent: 40 },
+    orderedList: { marginTop: 1, indent: 40 },
+    taskList: { marginTop: 1, indent: 40 },
+    listItem: { marginTop: 0 },
+    codeBlock: { fontSize: 0.8125, marginTop: 1 },
+};
+
+export const DEFAULT_TEXT_METRICS_OPTIONS: TextMetricsOptions = {
+    fontSize: 16,
+    lineHeight: 1.2,
+    charWidths: DEFAULT_CHAR_WIDTHS,
+    defaultCharWidth: 0.55,
+    blockStyles: DEFAULT_TEXT_METRICS_BLOCK_STYLES,
+    leafBlockHeight: 150,
+};
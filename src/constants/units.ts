@@ -0,0 +1,36 @@
+/**
+ * @file /src/constants/units.ts
+ * @name Units
+ * @description Constants for units of measurement.
+ */
+
+import { LengthUnit } from "../types/units";
+import { MM_PER_INCH, POINTS_PER_INCH, STANDARD_PIXELS_PER_INCH } from "./sizing";
+
+/**
+ * The number of each unit in an inch. Pixels are CSS pixels.
+ */
+export const UNITS_PER_INCH: Record<LengthUnit, number> = {
+    mm: MM_PER_INCH,
+    cm: MM_PER_INCH / 10,
+    in: 1,
+    pt: POINTS_PER_INCH,
+    px: STANDARD_PIXELS_PER_INCH,
+};
+
+export const lengthUnits = Object.keys(UNITS_PER_INCH) as LengthUnit[];
+
+/**
+ * The unit margins, header and footer heights and page end offsets are stored in.
+ */
+export const MARGIN_STORAGE_UNIT: LengthUnit = "mm";
+
+/**
+ * The unit page borders are stored in.
+ */
+export const BORDER_STORAGE_UNIT: LengthUnit = "px";
+
+/**
+ * The unit custom paper dimensions and column gaps are stored in.
+ */
+export const PAPER_STORAGE_UNIT: LengthUnit = "mm";
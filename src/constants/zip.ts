@@ -0,0 +1,74 @@
+/**
+ * @file /src/constants/zip.ts
+ * @name Zip
+ * @description Constants for reading and writing ZIP archives, such as DOCX packages.
+ */
+
+/**
+ * The signatures of the records of a ZIP archive.
+ */
+export const ZIP_SIGNATURES = {
+    localFileHeader: 0x04034b50,
+    centralDirectoryHeader: 0x02014b50,
+    endOfCentralDirectory: 0x06054b50,
+} as const;
+
+/**
+ * The compression methods of ZIP entries which can be read.
+ */
+export const ZIP_COMPRESSION_METHODS = {
+    stored: 0,
+    deflated: 8,
+} as const;
+
+/**
+ * The ZIP version needed to extract the entries written, i.e. 2.0.
+ */
+export const ZIP_VERSION = 20 as const;
+
+/**
+ * The general purpose flag marking entry names as UTF-8.
+ */
+export const ZIP_UTF8_FLAG = 0x0800 as const;
+
+/**
+ * The modification date of the entries written, 1 January 1980 in MS-DOS format.
+ */
+export const ZIP_DOS_DATE = 0x0021 as const;
+
+/**
+ * The base lengths of the deflate length codes 257 to 285.
+ */
+export const DEFLATE_LENGTH_BASES = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+] as const;
+
+/**
+ * The number of extra bits of the deflate length codes 257 to 285.
+ */
+export const DEFLATE_LENGTH_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0] as const;
+
+/**
+ * The base distances of the deflate distance codes 0 to 29.
+ */
+export const DEFLATE_DISTANCE_BASES = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385,
+    24577,
+] as const;
+
+/**
+ * The number of extra bits of the deflate distance codes 0 to 29.
+ */
+export const DEFLATE_DISTANCE_EXTRA_BITS = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+] as const;
+
+/**
+ * The order the code lengths of the code length alphabet are stored in a dynamic deflate block.
+ */
+export const DEFLATE_CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15] as const;
+
+/**
+ * The longest deflate Huffman code in bits.
+ */
+export const DEFLATE_MAX_CODE_LENGTH = 15 as const;
@@ -8,15 +8,29 @@
 import PaginationExtension from "./PaginationExtension";
 
 // === Types ===
-export type { PaginationOptions } from "./PaginationExtension";
+export type { PaginationOptions, PaginationStorage } from "./PaginationExtension";
 export type * from "./types/body";
+export type * from "./types/crossReference";
 export type * from "./types/cursor";
+export type * from "./types/endnote";
+export type * from "./types/footnote";
+export type * from "./types/heightCache";
+export type * from "./types/measurement";
 export type * from "./types/node";
 export type * from "./types/page";
+export type * from "./types/pagedHTML";
+export type * from "./types/pageBreak";
+export type * from "./types/pageNumberField";
 export type * from "./types/pageRegions";
 export type * from "./types/pagination";
 export type * from "./types/paper";
 export type * from "./types/paragraph";
+export type * from "./types/pdf";
+export type * from "./types/docx";
+export type * from "./types/section";
+export type * from "./types/split";
+export type * from "./types/tableOfContents";
+export type * from "./types/units";
 
 // === Constants ===
 export { DEFAULT_PAPER_SIZE, paperSizes, paperDimensions } from "./constants/paperSize";
@@ -25,24 +39,79 @@ export { DEFAULT_PAPER_ORIENTATION, paperOrientationsSelect } from "./constants/
 export { pageSides } from "./constants/pageSides";
 export { DEFAULT_PAGE_MARGIN_NAME, DEFAULT_PAGE_MARGIN_CONFIG, commonMarginConfigs } from "./constants/pageMargins";
 export { DEFAULT_PAGE_BORDER_CONFIG } from "./constants/pageBorders";
+export { UNITS_PER_INCH, lengthUnits } from "./constants/units";
 export { DEFAULT_PAGE_AMENDMENT_CONFIG } from "./constants/pageAmendment";
+export { DEFAULT_PAGE_NUMBER_FORMAT, pageNumberFormats } from "./constants/pageNumber";
 
 // === Nodes ===
 export { PageNode } from "./Nodes/Page";
 export { HeaderFooterNode } from "./Nodes/HeaderFooter";
 export { BodyNode } from "./Nodes/Body";
+export { PageBreakNode } from "./Nodes/PageBreak";
+export { SectionBreakNode } from "./Nodes/SectionBreak";
+export { ColumnBreakNode } from "./Nodes/ColumnBreak";
+export { FootnoteReferenceNode } from "./Nodes/FootnoteReference";
+export { FootnoteNode } from "./Nodes/Footnote";
+export { FootnotesNode } from "./Nodes/Footnotes";
+export { EndnoteReferenceNode } from "./Nodes/EndnoteReference";
+export { EndnoteNode } from "./Nodes/Endnote";
+export { EndnotesNode } from "./Nodes/Endnotes";
+export { CrossReferenceNode } from "./Nodes/CrossReference";
+export { TableOfContentsNode } from "./Nodes/TableOfContents";
+export { PageNumberNode, TotalPagesNode, SectionPageNumberNode } from "./Nodes/PageNumberField";
 
 // === Utils ===
 export { isPageNode } from "./utils/nodes/page/page";
 export { getThisPageNodePosition } from "./utils/nodes/page/pagePosition";
-export { getPageNumber } from "./utils/nodes/page/pageNumber";
-export { getPageNumPaperSize, getPageNodePaperSize } from "./utils/nodes/page/attributes/paperSize";
+export {
+    getPageNumber,
+    getFormattedPageNumber,
+    getDisplayedPageNumber,
+    getSectionPageNumber,
+    getFormattedSectionPageNumber,
+} from "./utils/nodes/page/pageNumber";
+export { getPageNumPageNumberFormat, getPageNumPageNumberStart } from "./utils/nodes/page/attributes/pageNumberFormat";
+export { formatPageNumber } from "./utils/pageNumberFormat";
+export {
+    getPageNumPaperSize,
+    getPageNodePaperSize,
+    getPaperDimensionsFromPageNode,
+    isValidPaperSize,
+    getPaperSizes,
+} from "./utils/nodes/page/attributes/paperSize";
 export { getPageNumPaperColour, getPageNodePaperColour } from "./utils/nodes/page/attributes/paperColour";
 export { getPageNumPaperOrientation, getPageNodePaperOrientation } from "./utils/nodes/page/attributes/paperOrientation";
 export { getPageNumPageMargins } from "./utils/nodes/body/attributes/pageMargins";
 export { getPageNumPageBorders, getPageNodePageBorders } from "./utils/nodes/page/attributes/pageBorders";
+export {
+    getPageNumDifferentFirstPage,
+    getPageNodeDifferentFirstPage,
+    getPageNumDifferentOddEven,
+    getPageNodeDifferentOddEven,
+} from "./utils/nodes/page/attributes/headerFooterVariants";
 export { getBodyNodeMargins } from "./utils/nodes/body/body";
+export { getPageNumHeaderFooterHeight, getPageNumHeaderFooterPageEndOffset } from "./utils/nodes/headerFooter/headerFooterDimensions";
+export { isLengthUnit, parseLength, convertLength, resolveLength, resolveLengthConfig } from "./utils/units";
+export { getBodyNodeColumns, getPageNumColumns } from "./utils/nodes/body/attributes/columns";
 export { doesDocHavePageNodes } from "./utils/nodes/page/page";
+export { createChildrenSplitter } from "./utils/split/children";
+export { isPageBreakNode } from "./utils/nodes/pageBreak";
+export { hasPageBreakProperty } from "./utils/nodes/pageBreakProperties";
+export { isSectionBreakNode } from "./utils/nodes/sectionBreak";
+export { isColumnBreakNode } from "./utils/nodes/columnBreak";
+export { isFootnoteReferenceNode, isFootnoteNode, getFootnoteNumbers } from "./utils/nodes/footnote";
+export { isEndnoteReferenceNode, isEndnoteNode, getEndnoteNumbers } from "./utils/nodes/endnote";
+export { isCrossReferenceNode, collectCrossReferenceTargets, collectBrokenCrossReferences } from "./utils/nodes/crossReference";
+export { isTableOfContentsNode, buildTableOfContentsEntries } from "./utils/nodes/tableOfContents";
+export { isPageNumberFieldNode } from "./utils/nodes/pageNumberField";
+export { buildPrintStyles } from "./utils/print";
+export { exportPagedHTML } from "./utils/pagedHTML";
+export { exportPDF } from "./utils/pdf/exportPDF";
+export { exportDocx } from "./utils/docx/exportDocx";
+export { importDocx } from "./utils/docx/importDocx";
+export { paginateDocument } from "./utils/buildPageView";
+export { createDOMMeasurementBackend } from "./utils/measurement/dom";
+export { createTextMetricsMeasurementBackend } from "./utils/measurement/textMetrics";
 
 // === Exports ===
 export default PaginationExtension;
@@ -5,10 +5,38 @@
  */
 
 import { MarginConfig } from "./page";
+import { PaperDimensions } from "./paper";
+
+/**
+ * The column layout of a body. Content fills each column in turn before
+ * moving on to the next page.
+ */
+export type ColumnConfig = {
+    /**
+     * The number of columns.
+     */
+    count: number;
+
+    /**
+     * The gap between columns in millimetres.
+     */
+    gap: number;
+
+    /**
+     * Whether to draw a rule line between columns.
+     */
+    rule: boolean;
+};
 
 /**
  * Attributes for a body node.
  */
 export type BodyNodeAttributes = {
     pageMargins: MarginConfig;
+    columns: ColumnConfig;
 };
+
+/**
+ * The dimensions of a body in millimetres, along with the width of each of its columns.
+ */
+export type BodyDimensions = PaperDimensions & { columnWidth: number };
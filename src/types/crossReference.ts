@@ -0,0 +1,41 @@
+/**
+ * @file /src/types/crossReference.ts
+ * @name CrossReference
+ * @description Type definitions for cross-references in the editor.
+ */
+
+/**
+ * What a cross-reference displays about its target: its label (e.g. "Section 3.2"),
+ * the number of the page it is on, or both (e.g. "Section 3.2 on page 14").
+ */
+export type CrossReferenceDisplay = "label" | "page" | "labelAndPage";
+
+/**
+ * A block which can be the target of cross-references.
+ */
+export type CrossReferenceTarget = {
+    /**
+     * The position of the target block.
+     */
+    pos: number;
+
+    /**
+     * The label of the target, e.g. "Section 3.2" or "Figure 2".
+     */
+    label: string;
+
+    /**
+     * The formatted number of the page the target is on. Empty if the document
+     * has not been paginated.
+     */
+    pageNumber: string;
+};
+
+/**
+ * How a cross-reference is displayed. A broken cross-reference is one whose
+ * target no longer exists.
+ */
+export type CrossReferenceResolution = {
+    text: string;
+    isBroken: boolean;
+};
@@ -4,4 +4,34 @@
  * @description Type definitions for cursor / selection in the editor.
  */
 
-export type CursorMap = Map<number, number>;
+/**
+ * A piece of a content node as placed in the new document. A node which is
+ * not split is placed as a single piece covering all of its content.
+ */
+export type ContentNodePiece = {
+    /**
+     * The position of the piece in the new document.
+     */
+    pos: number;
+
+    /**
+     * The offset into the content of the whole node at which this piece starts.
+     */
+    from: number;
+
+    /**
+     * The offset into the content of the whole node at which this piece ends.
+     */
+    to: number;
+
+    /**
+     * The size of the content at the start of the piece repeated from an earlier
+     * piece (e.g. table header rows), which is not part of the range above.
+     */
+    repeatedSize: number;
+};
+
+/**
+ * Maps the index of each content node to the pieces it was placed as in the new document.
+ */
+export type ContentPieceMap = Map<number, ContentNodePiece[]>;
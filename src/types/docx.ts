@@ -0,0 +1,97 @@
+/**
+ * @file /src/types/docx.ts
+ * @name Docx
+ * @description Type definitions for importing and exporting Word (DOCX) documents.
+ */
+
+import { ColumnConfig } from "./body";
+import { BorderConfig, MarginConfig, PageNumberFormat } from "./page";
+import { PageAmendmentOptions } from "./pageAmendment";
+import { HeaderFooter, HeaderFooterVariant } from "./pageRegions";
+import { CustomPaperSizes, PaperOrientation, PaperSizeOrDimensions } from "./paper";
+import { Nullable } from "./record";
+
+/**
+ * An element of an XML part of a DOCX package. Names keep their namespace prefix, e.g. "w:p".
+ */
+export type XMLElement = {
+    name: string;
+    attributes: Record<string, string>;
+    children: XMLNode[];
+};
+
+/**
+ * A node of an XML part: an element or text.
+ */
+export type XMLNode = XMLElement | string;
+
+/**
+ * A header or footer of a Word section, referenced by the id of its relationship to the document.
+ */
+export type DocxHeaderFooterReference = {
+    type: HeaderFooter;
+    variant: HeaderFooterVariant;
+    id: string;
+};
+
+/**
+ * The page setup of a Word section (`w:sectPr`), in the units of the page and body nodes.
+ */
+export type DocxSectionProperties = {
+    paperSize: PaperSizeOrDimensions;
+    paperOrientation: PaperOrientation;
+    pageBorders: Nullable<BorderConfig>;
+    pageMargins: MarginConfig;
+    columns: ColumnConfig;
+    pageNumberFormat: PageNumberFormat;
+    pageNumberStart: Nullable<number>;
+
+    /**
+     * Whether the first page of the section has its own header and footer (`w:titlePg`),
+     * or null to follow the page amendment options.
+     */
+    differentFirstPage: Nullable<boolean>;
+
+    /**
+     * The distance from the top of the page to the top of the header in millimetres.
+     */
+    headerOffset: number;
+
+    /**
+     * The distance from the bottom of the page to the bottom of the footer in millimetres.
+     */
+    footerOffset: number;
+
+    /**
+     * The headers and footers of the section. Those not given are carried over from the section before.
+     */
+    headerFooterReferences: DocxHeaderFooterReference[];
+};
+
+/**
+ * Options for exporting the paginated document as a DOCX file.
+ */
+export type DocxExportOptions = {
+    /**
+     * The title of the document.
+     *
+     * @default ""
+     */
+    title?: string;
+
+    /**
+     * The custom paper sizes the pages may use, as given in the `customPaperSizes`
+     * option of the pagination extension.
+     *
+     * @default {}
+     */
+    customPaperSizes?: CustomPaperSizes;
+
+    /**
+     * The page amendment options of the pagination extension, which pages without header
+     * and footer variant settings of their own follow.
+     *
+     * @default {}
+     */
+    pageAmendmentOptions?: PageAmendmentOptions;
+};
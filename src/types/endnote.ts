@@ -0,0 +1,39 @@
+/**
+ * @file /src/types/endnote.ts
+ * @name Endnote
+ * @description Type definitions for endnotes in the editor.
+ */
+
+import { NodePosArray } from "./node";
+
+/**
+ * Whether endnotes are gathered at the end of the document or at the end of each
+ * section. Endnotes are numbered from 1 at the start of each place they are gathered.
+ */
+export type EndnotePlacement = "document" | "section";
+
+/**
+ * The part of the document whose endnotes are gathered into one endnotes block.
+ */
+export type EndnoteScope = {
+    /**
+     * The ids of the endnotes referenced in the scope, in order.
+     */
+    referenceIds: string[];
+
+    /**
+     * The endnotes blocks in the scope. There is more than one if the endnotes
+     * are split across pages.
+     */
+    endnotesNodes: NodePosArray;
+
+    /**
+     * The position at which the endnotes block of the scope belongs.
+     */
+    endPos: number;
+
+    /**
+     * Whether any content follows the endnotes blocks in the scope.
+     */
+    hasContentAfterEndnotes: boolean;
+};
@@ -0,0 +1,17 @@
+/**
+ * @file /src/types/footnote.ts
+ * @name Footnote
+ * @description Type definitions for footnotes in the editor.
+ */
+
+import { NodePos } from "./node";
+
+/**
+ * Whether footnotes are numbered through the whole document or restart at 1 in each section.
+ */
+export type FootnoteNumbering = "document" | "section";
+
+/**
+ * The footnote nodes of a document and their positions, keyed by footnote id.
+ */
+export type FootnoteNodeMap = Map<string, NodePos>;
@@ -0,0 +1,71 @@
+/**
+ * @file /src/types/heightCache.ts
+ * @name HeightCache
+ * @description Type definitions for the cache of measured node heights.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Undefinable } from "./record";
+
+/**
+ * The measured size of a node in the DOM.
+ */
+export type NodeMeasurement = {
+    /**
+     * The height of the node in pixels, including its top margin.
+     */
+    height: number;
+
+    /**
+     * The top margin of the node in pixels.
+     */
+    marginTop: number;
+};
+
+/**
+ * Hit and miss counts of the height cache, for debugging.
+ */
+export type NodeHeightCacheStats = {
+    hits: number;
+    misses: number;
+};
+
+/**
+ * Cache of node measurements keyed by node identity and the pixel width of the body column
+ * the node was measured in. As nodes are immutable, a changed node is a new node
+ * and so is never served a stale measurement.
+ */
+export type NodeHeightCache = {
+    /**
+     * Get the cached measurement of a node.
+     *
+     * @param node - The node.
+     * @param columnWidth - The pixel width of the body column the node is in.
+     * @returns {Undefinable<NodeMeasurement>} The cached measurement or undefined if not cached.
+     */
+    get: (node: PMNode, columnWidth: number) => Undefinable<NodeMeasurement>;
+
+    /**
+     * Cache the measurement of a node.
+     *
+     * @param node - The node.
+     * @param columnWidth - The pixel width of the body column the node is in.
+     * @param measurement - The measurement of the node.
+     */
+    set: (node: PMNode, columnWidth: number, measurement: NodeMeasurement) => void;
+
+    /**
+     * Clear all cached measurements, e.g. once fonts have finished loading.
+     */
+    clear: () => void;
+
+    /**
+     * Get the hit and miss counts of the cache.
+     */
+    getStats: () => NodeHeightCacheStats;
+
+    /**
+     * Reset the hit and miss counts of the cache.
+     */
+    resetStats: () => void;
+};
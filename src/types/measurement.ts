@@ -0,0 +1,124 @@
+/**
+ * @file /src/types/measurement.ts
+ * @name Measurement
+ * @description Type definitions for measuring nodes during pagination.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { NodeMeasurement } from "./heightCache";
+import { Nullable } from "./record";
+
+/**
+ * The node to measure and where it is.
+ */
+export type NodeMeasureContext = {
+    node: PMNode;
+
+    /**
+     * The position of the node in the document being paginated.
+     */
+    pos: number;
+
+    /**
+     * The document being paginated.
+     */
+    doc: PMNode;
+
+    /**
+     * The width in pixels of the body column the node is placed in, or of the body for footnotes.
+     */
+    columnWidth: number;
+};
+
+/**
+ * Measures nodes for pagination. The browser backend measures the rendered editor;
+ * other backends allow the document to be paginated without a DOM, e.g. on a server.
+ */
+export type MeasurementBackend = {
+    /**
+     * Measure the height of a node, including its top margin.
+     *
+     * @param context - The node to measure and where it is.
+     * @returns {Nullable<NodeMeasurement>} The measurement or null if the node cannot be measured.
+     */
+    measureNode: (context: NodeMeasureContext) => Nullable<NodeMeasurement>;
+
+    /**
+     * Measure where the lines of a paragraph start, as character offsets. Text characters
+     * and inline atoms count as one character each and hard breaks as none. The first
+     * line starts at 0.
+     *
+     * @param context - The paragraph to measure and where it is.
+     * @returns {Nullable<number[]>} The offsets at which each line starts or null if the
+     * paragraph cannot be measured.
+     */
+    measureLineBreakOffsets: (context: NodeMeasureContext) => Nullable<number[]>;
+};
+
+/**
+ * The text style of a type of block, used to estimate its height.
+ */
+export type TextMetricsBlockStyle = {
+    /**
+     * The font size of the block relative to the base font size.
+     */
+    fontSize?: number;
+
+    /**
+     * The top margin of the block, in ems of its own font size.
+     */
+    marginTop?: number;
+
+    /**
+     * The horizontal space taken from the content of the block, in pixels
+     * (e.g. the indent of a list or blockquote).
+     */
+    indent?: number;
+};
+
+/**
+ * Options of the text metrics measurement backend.
+ */
+export type TextMetricsOptions = {
+    /**
+     * The base font size in pixels.
+     *
+     * @default 16
+     */
+    fontSize: number;
+
+    /**
+     * The line height as a multiple of the font size.
+     *
+     * @default 1.2
+     */
+    lineHeight: number;
+
+    /**
+     * The widths of characters in ems. Characters which are not listed are
+     * given the default character width.
+     *
+     * @default Helvetica/Arial widths of the printable ASCII characters
+     */
+    charWidths: Record<string, number>;
+
+    /**
+     * The width in ems of characters which are not in the character widths table.
+     *
+     * @default 0.55
+     */
+    defaultCharWidth: number;
+
+    /**
+     * The text styles of blocks keyed by node type name. Headings are keyed by
+     * level, i.e. "heading1" to "heading6".
+     */
+    blockStyles: Record<string, TextMetricsBlockStyle>;
+
+    /**
+     * The height in pixels of leaf blocks (e.g. images) without a numeric height attribute.
+     *
+     * @default 150
+     */
+    leafBlockHeight: number;
+};
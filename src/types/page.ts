@@ -4,22 +4,47 @@
  * @description This file contains type definitions for page sizes.
  */
 
-import { PaperOrientation, PaperSize } from "./paper";
+import { PaperOrientation, PaperSizeOrDimensions } from "./paper";
+import { Nullable } from "./record";
 
 /**
  * The dimensions of a page in pixels. Deliberately not using PaperDimensions
  * from /src/types/paper.ts to avoid mistakenly using the wrong units.
  */
-export type PageContentPixelDimensions = { bodyHeight: number; bodyWidth: number };
+export type PageContentPixelDimensions = { bodyHeight: number; bodyWidth: number; columnWidth: number };
 
 /**
  * Attributes for a page node.
  */
 export type PageNodeAttributes = {
-    paperSize: PaperSize;
+    paperSize: PaperSizeOrDimensions;
     paperColour: string;
     paperOrientation: PaperOrientation;
-    pageBorders: BorderConfig;
+
+    /**
+     * The borders of the page, or null if the page has none of its own and shows the
+     * default 1px outline of pages in the editor.
+     */
+    pageBorders: Nullable<BorderConfig>;
+    pageNumberFormat: PageNumberFormat;
+    pageNumberStart: Nullable<number>;
+
+    /**
+     * Whether the first page of each section has its own header and footer, or null to
+     * follow the `differentFirstPage` page amendment option.
+     */
+    differentFirstPage: Nullable<boolean>;
+
+    /**
+     * Whether even pages have their own header and footer, or null to follow the
+     * `differentOddEven` page amendment option.
+     */
+    differentOddEven: Nullable<boolean>;
+
+    /**
+     * The index of the section the page belongs to (0-indexed). Set by pagination.
+     */
+    section: number;
 };
 
 export type AttributeConfig<T> = {
@@ -60,8 +85,30 @@ export type YMarginConfig = {
 
 export type CommonMarginName = "normal" | "narrow" | "moderate" | "wide";
 
+// ====== Page Numbers ======
+
+/**
+ * The format page numbers are displayed in.
+ */
+export type PageNumberFormat = "arabic" | "lowerRoman" | "upperRoman" | "lowerAlpha" | "upperAlpha";
+
+/**
+ * The formatted numbers of a page, as displayed to the user.
+ */
+export type FormattedPageNumbers = {
+    pageNumber: string;
+    sectionPageNumber: string;
+};
+
 // ====== Page Borders ======
 
 export type BorderConfig = {
     [key in PageSide]: number;
 };
+
+// ====== Styles ======
+
+/**
+ * Inline CSS declarations keyed by (kebab-case) property name.
+ */
+export type InlineStyles = Record<string, string>;
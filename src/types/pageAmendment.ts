@@ -13,4 +13,16 @@ export type PageAmendmentOptions = {
      * @default true
      */
     enableFooter?: boolean;
+
+    /**
+     * Whether the first page has its own header and footer, e.g. for a title page
+     * @default false
+     */
+    differentFirstPage?: boolean;
+
+    /**
+     * Whether even pages have their own header and footer, separate from odd pages
+     * @default false
+     */
+    differentOddEven?: boolean;
 };
@@ -0,0 +1,27 @@
+/**
+ * @file /src/types/pageBreak.ts
+ * @name PageBreak
+ * @description Type definitions for page breaks and block page break properties.
+ */
+
+/**
+ * Block level properties controlling where pages may break around a block.
+ */
+export type PageBreakProperties = {
+    /**
+     * Keep the block on the same page as the start of the block after it.
+     */
+    keepWithNext: boolean;
+
+    /**
+     * Do not split the block across pages unless it is taller than a page.
+     */
+    keepTogether: boolean;
+
+    /**
+     * Always start the block on a new page.
+     */
+    pageBreakBefore: boolean;
+};
+
+export type PageBreakProperty = keyof PageBreakProperties;
@@ -0,0 +1,13 @@
+/**
+ * @file /src/types/pageNumberField.ts
+ * @name PageNumberField
+ * @description Type definitions for page number field nodes in the editor.
+ */
+
+import { PAGE_NUMBER_FIELD_NODE_NAMES } from "../constants/pageNumberField";
+
+/**
+ * The type of a page number field. Page number fields render a live value for
+ * the page they sit on.
+ */
+export type PageNumberFieldType = keyof typeof PAGE_NUMBER_FIELD_NODE_NAMES;
@@ -10,6 +10,22 @@ import { XMarginConfig } from "./page";
 export type HeaderFooter = "header" | "footer";
 export type PageRegion = "header" | "body" | "footer";
 
+/**
+ * The variant of a header or footer. The first page and even pages can have their
+ * own headers and footers, which are otherwise the default variant.
+ */
+export type HeaderFooterVariant = "default" | "first" | "even";
+
+/**
+ * Identifies the headers or footers which share their content when linked: those of
+ * the same type and variant within the same section.
+ */
+export type HeaderFooterLinkGroup = {
+    type: HeaderFooter;
+    variant: HeaderFooterVariant;
+    section: number;
+};
+
 /**
  * Attributes for header and footer nodes.
  */
@@ -37,6 +53,18 @@ export type HeaderFooterNodeAttributes<T extends HeaderFooter | unknown> = {
      * The x-axis margins of the header.
      */
     xMargins: XMarginConfig;
+
+    /**
+     * The variant of the header or footer, i.e. which pages it is shown on.
+     */
+    variant: HeaderFooterVariant;
+
+    /**
+     * Whether the content of the header or footer is shared with the other linked
+     * headers or footers in the document. Editing a linked header or footer updates
+     * all of them, while an unlinked one can diverge from the rest.
+     */
+    linked: boolean;
 };
 
 /**
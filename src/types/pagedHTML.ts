@@ -0,0 +1,47 @@
+/**
+ * @file /src/types/pagedHTML.ts
+ * @name PagedHTML
+ * @description Type definitions for exporting the paginated document as HTML.
+ */
+
+import { CustomPaperSizes } from "./paper";
+
+/**
+ * Options for exporting the paginated document as standalone HTML.
+ */
+export type PagedHTMLExportOptions = {
+    /**
+     * The title of the HTML document.
+     *
+     * @default ""
+     */
+    title?: string;
+
+    /**
+     * The gap between pages on screen in pixels. Pages are printed without gaps.
+     *
+     * @default 12
+     */
+    pageGap?: number;
+
+    /**
+     * Extra CSS added to the HTML document, e.g. the styles of the editor content.
+     *
+     * @default ""
+     */
+    styles?: string;
+
+    /**
+     * The custom paper sizes the pages may use, as given in the `customPaperSizes`
+     * option of the pagination extension.
+     *
+     * @default {}
+     */
+    customPaperSizes?: CustomPaperSizes;
+
+    /**
+     * The DOM document used to serialise the content. Defaults to the global document,
+     * so pass one (e.g. from a DOM implementation such as jsdom) to export without a browser.
+     */
+    document?: Document;
+};
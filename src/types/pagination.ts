@@ -5,6 +5,7 @@
  */
 
 import { NodeType } from "@tiptap/pm/model";
+import { NodePos, NodePosArray } from "./node";
 import { PageContentPixelDimensions, PageNodeAttributes } from "./page";
 import { PageRegionNodeAttributesObject } from "./pageRegions";
 import { Undefinable } from "./record";
@@ -32,3 +33,45 @@ export type PaginationNodeAttributes = {
     pageRegionNodeAttributes: PageRegionNodeAttributesObject;
     bodyPixelDimensions: PageContentPixelDimensions;
 };
+
+/**
+ * A content node collected from the page bodies. Nodes which were split across
+ * pages by a previous pagination pass are rejoined into a single node, keeping
+ * the original fragments so positions in the old document can still be mapped.
+ */
+export type ContentNode = NodePos & {
+    /**
+     * The fragments the node was made up of in the old document, in order.
+     */
+    fragments: NodePosArray;
+
+    /**
+     * The number of the page (0-indexed) whose body the node starts in the old
+     * document. Undefined if the node is not the first node in a page body.
+     */
+    startsPageNum?: number;
+};
+
+/**
+ * The range of the document changed since the last pagination pass, in positions
+ * of the current document.
+ */
+export type ChangedRange = {
+    from: number;
+    to: number;
+};
+
+/**
+ * The line layout of a text block, used to split it between lines.
+ */
+export type LineLayout = {
+    /**
+     * The character offset at which each line starts.
+     */
+    lineBreakOffsets: number[];
+
+    /**
+     * The height of a single line in pixels.
+     */
+    lineHeight: number;
+};
@@ -6,6 +6,11 @@
 
 export type PaperDimensions = { width: number; height: number };
 
+/**
+ * A colour as red, green and blue channels from 0 to 255.
+ */
+export type RGBColour = { red: number; green: number; blue: number };
+
 export type APaperSize =
     | "A0"
     | "A1"
@@ -71,7 +76,27 @@ export type USPaperSize =
     | "Arch E2"
     | "Arch E3";
 
-export type PaperSize = APaperSize | BPaperSize | CPaperSize | USPaperSize;
+export type BuiltInPaperSize = APaperSize | BPaperSize | CPaperSize | USPaperSize;
+
+/**
+ * The name of a custom paper size given in the `customPaperSizes` option.
+ * Intersected with an empty object so the built-in names are still suggested.
+ */
+export type CustomPaperSize = string & Record<never, never>;
+
+export type PaperSize = BuiltInPaperSize | CustomPaperSize;
+
+/**
+ * Named custom paper sizes, e.g. labels or receipt rolls, with their dimensions in
+ * millimetres in portrait orientation.
+ */
+export type CustomPaperSizes = Record<string, PaperDimensions>;
+
+/**
+ * The paper size of a page: a named paper size, or custom dimensions in millimetres
+ * (e.g. a label or receipt, or from an imported document) given in portrait orientation.
+ */
+export type PaperSizeOrDimensions = PaperSize | PaperDimensions;
 
 export type PaperOrientation = "portrait" | "landscape";
 export type PaperOrientationSelect = { orientation: PaperOrientation; label: string };
@@ -0,0 +1,79 @@
+/**
+ * @file /src/types/pdf.ts
+ * @name PDF
+ * @description Type definitions for exporting the paginated document as a PDF.
+ */
+
+import { PageNumberFormat } from "./page";
+import { EndnotePlacement } from "./endnote";
+import { FootnoteNumbering } from "./footnote";
+import { TextMetricsOptions } from "./measurement";
+import { CustomPaperSizes } from "./paper";
+
+/**
+ * The variants of the font text is drawn in.
+ */
+export type PDFFont = "regular" | "bold" | "italic" | "boldItalic";
+
+/**
+ * A page of a PDF, with its size in points and the operators drawing its content.
+ */
+export type PDFPage = {
+    width: number;
+    height: number;
+    content: string;
+};
+
+/**
+ * Options for exporting the paginated document as a PDF.
+ */
+export type PDFExportOptions = {
+    /**
+     * The title of the PDF document.
+     *
+     * @default ""
+     */
+    title?: string;
+
+    /**
+     * The metrics text is laid out with. Text is drawn in Helvetica, so the default
+     * metrics match it.
+     */
+    textMetrics?: Partial<TextMetricsOptions>;
+
+    /**
+     * Whether footnotes are numbered through the document or by section.
+     *
+     * @default "document"
+     */
+    footnoteNumbering?: FootnoteNumbering;
+
+    /**
+     * Whether endnotes are numbered through the document or by section.
+     *
+     * @default "document"
+     */
+    endnotePlacement?: EndnotePlacement;
+
+    /**
+     * The format endnote numbers are displayed in.
+     *
+     * @default "lowerRoman"
+     */
+    endnoteNumberFormat?: PageNumberFormat;
+
+    /**
+     * The labels of the blocks cross-references target, keyed by node type name.
+     *
+     * @default { heading: "Section", image: "Figure", table: "Table" }
+     */
+    crossReferenceLabels?: Record<string, string>;
+
+    /**
+     * The custom paper sizes the pages may use, as given in the `customPaperSizes`
+     * option of the pagination extension.
+     *
+     * @default {}
+     */
+    customPaperSizes?: CustomPaperSizes;
+};
@@ -0,0 +1,45 @@
+/**
+ * @file /src/types/section.ts
+ * @name Section
+ * @description Type definitions for document sections.
+ */
+
+import { BorderConfig, MarginConfig, PageNumberFormat } from "./page";
+import { ColumnConfig } from "./body";
+import { PaperOrientation, PaperSize, PaperSizeOrDimensions } from "./paper";
+import { Nullable } from "./record";
+import { Length, LengthConfig } from "./units";
+
+/**
+ * The page setup of a section, held by the section break which starts it. Settings
+ * which are null are carried over from the section before.
+ */
+export type SectionAttributes = {
+    paperSize: Nullable<PaperSizeOrDimensions>;
+    paperColour: Nullable<string>;
+    paperOrientation: Nullable<PaperOrientation>;
+    pageBorders: Nullable<BorderConfig>;
+    pageMargins: Nullable<MarginConfig>;
+    columns: Nullable<ColumnConfig>;
+    pageNumberFormat: Nullable<PageNumberFormat>;
+
+    /**
+     * The number to restart page numbering at on the first page of the section,
+     * or null to continue the numbering of the section before.
+     */
+    pageNumberStart: Nullable<number>;
+};
+
+/**
+ * The page setup accepted by the section commands. Lengths can carry their own unit, while
+ * plain numbers are in the unit the setting is stored in: millimetres for custom paper
+ * dimensions, margins and the column gap, and pixels for borders.
+ *
+ * @example { paperSize: { width: "8.5in", height: "11in" }, pageMargins: { top: "1in", right: 20, bottom: "1in", left: 20 } }
+ */
+export type SectionAttributesInput = Omit<SectionAttributes, "paperSize" | "pageBorders" | "pageMargins" | "columns"> & {
+    paperSize: Nullable<PaperSize | { width: Length; height: Length }>;
+    pageBorders: Nullable<LengthConfig>;
+    pageMargins: Nullable<LengthConfig>;
+    columns: Nullable<Omit<ColumnConfig, "gap"> & { gap: Length }>;
+};
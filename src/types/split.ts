@@ -0,0 +1,140 @@
+/**
+ * @file /src/types/split.ts
+ * @name Split
+ * @description Type definitions for splitting content nodes across pages.
+ */
+
+import { Attrs, Node as PMNode } from "@tiptap/pm/model";
+import { LineLayout } from "./pagination";
+import { Nullable } from "./record";
+
+/**
+ * The measured layout of a node, used to decide where it can be split.
+ */
+export type NodeLayout = {
+    /**
+     * The line layout of a text block.
+     */
+    lines?: LineLayout;
+
+    /**
+     * The heights in pixels of each direct child of a container node (e.g. the rows
+     * of a table or the items of a list).
+     */
+    childHeights?: number[];
+};
+
+/**
+ * Information passed to a node splitter when a node does not fit on the current page.
+ */
+export type NodeSplitContext = {
+    /**
+     * The node to split. This may itself be the remainder of an earlier split.
+     */
+    node: PMNode;
+
+    /**
+     * The height of the node in pixels.
+     */
+    height: number;
+
+    /**
+     * The height in pixels remaining on the current page.
+     */
+    remainingHeight: number;
+
+    /**
+     * Whether the current page has no content yet. If so, the splitter should always
+     * split off at least one unit (line, row, item...) so that pagination makes progress.
+     */
+    isPageEmpty: boolean;
+
+    /**
+     * Measures the layout of the node. Measurement is deferred until requested as it
+     * can be expensive.
+     */
+    getLayout: () => Nullable<NodeLayout>;
+};
+
+/**
+ * One of the two parts of a split node.
+ */
+export type NodeSplitPart = {
+    node: PMNode;
+
+    /**
+     * The height of the part in pixels.
+     */
+    height: number;
+
+    /**
+     * The layout of the part, used if the part needs to be split again.
+     */
+    layout: NodeLayout;
+};
+
+/**
+ * The result of splitting a node. The head is placed on the current page and the
+ * tail is carried over to the next.
+ */
+export type NodeSplitResult = {
+    head: NodeSplitPart;
+    tail: NodeSplitPart;
+};
+
+/**
+ * Splits a node which does not fit on the current page. Returns null if the node
+ * cannot (or should not) be split, in which case it is moved to the next page whole.
+ */
+export type NodeSplitter = (context: NodeSplitContext) => Nullable<NodeSplitResult>;
+
+/**
+ * Node splitters keyed by the name of the node type they split. A null splitter
+ * disables splitting for that node type.
+ */
+export type NodeSplitters = Record<string, Nullable<NodeSplitter>>;
+
+/**
+ * Configuration for a splitter which splits a container node between its children.
+ */
+export type ChildrenSplitterConfig = {
+    /**
+     * The number of leading children to repeat at the start of each continuation
+     * (e.g. table header rows).
+     *
+     * @default () => 0
+     */
+    getRepeatedChildCount?: (node: PMNode) => number;
+
+    /**
+     * Whether the node may be split before the child at the given index.
+     *
+     * @default () => true
+     */
+    canSplitBefore?: (node: PMNode, index: number) => boolean;
+
+    /**
+     * Attributes to override on the continuation, given the number of children
+     * kept in the first part (e.g. the start number of an ordered list).
+     *
+     * @default () => ({})
+     */
+    getContinuationAttrs?: (node: PMNode, headChildCount: number) => Attrs;
+};
+
+/**
+ * Options for widow and orphan control when splitting paragraphs across pages.
+ */
+export type WidowOrphanOptions = {
+    /**
+     * The minimum number of lines of a paragraph left at the bottom of a page.
+     * @default 2
+     */
+    orphans?: number;
+
+    /**
+     * The minimum number of lines of a paragraph carried over to the top of the next page.
+     * @default 2
+     */
+    widows?: number;
+};
@@ -0,0 +1,26 @@
+/**
+ * @file /src/types/tableOfContents.ts
+ * @name TableOfContents
+ * @description Type definitions for tables of contents in the editor.
+ */
+
+/**
+ * A single line of a table of contents, listing a heading and the page it is on.
+ */
+export type TableOfContentsEntry = {
+    /**
+     * The text of the heading.
+     */
+    text: string;
+
+    /**
+     * The level of the heading, e.g. 1 for a top level heading.
+     */
+    level: number;
+
+    /**
+     * The formatted number of the page the heading is on. Empty if the document
+     * has not been paginated.
+     */
+    pageNumber: string;
+};
@@ -0,0 +1,33 @@
+/**
+ * @file /src/types/units.ts
+ * @name Units
+ * @description Type definitions for units of measurement.
+ */
+
+import { PageSide } from "./page";
+
+/**
+ * The units lengths can be given in.
+ */
+export type LengthUnit = "mm" | "cm" | "in" | "pt" | "px";
+
+/**
+ * A length with an explicit unit.
+ */
+export type LengthValue = { value: number; unit: LengthUnit };
+
+/**
+ * A length accepted by the commands. Plain numbers are in the native unit of the
+ * attribute being set (millimetres for margins and header/footer dimensions, pixels
+ * for borders), while strings and objects carry their own unit.
+ *
+ * @example 25.4 | "1in" | "72pt" | { value: 2.54, unit: "cm" }
+ */
+export type Length = number | `${number}${LengthUnit}` | LengthValue;
+
+/**
+ * A length on each side of the page, e.g. for margins or borders.
+ */
+export type LengthConfig = {
+    [key in PageSide]: Length;
+};
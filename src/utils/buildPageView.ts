@@ -4,15 +4,19 @@
  * @description Utility functions for building the page view.
  */
 
-import { Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
-import { Transaction } from "@tiptap/pm/state";
+import { Fragment, Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
+import { EditorState, Transaction } from "@tiptap/pm/state";
 import { EditorView } from "@tiptap/pm/view";
 import { PaginationOptions } from "../PaginationExtension";
 import { MIN_PARAGRAPH_HEIGHT } from "../constants/pagination";
-import { NodePosArray } from "../types/node";
-import { CursorMap } from "../types/cursor";
+import { STANDARD_PIXELS_PER_MM } from "../constants/sizing";
+import { ContentNodePiece, ContentPieceMap } from "../types/cursor";
+import { ChangedRange, ContentNode, LineLayout, PaginationNodeAttributes } from "../types/pagination";
+import { NodeLayout, NodeSplitter } from "../types/split";
+import { NodeHeightCache, NodeMeasurement } from "../types/heightCache";
+import { NodePos } from "../types/node";
 import { Nullable, Undefinable } from "../types/record";
-import { MarginConfig } from "../types/page";
+import { MeasurementBackend } from "../types/measurement";
 import { moveToNearestValidCursorPosition, moveToThisTextBlock, setSelection, setSelectionAtEndOfDocument } from "./selection";
 import { inRange } from "./math";
 import { getPaginationNodeAttributes } from "./nodes/page/attributes/getPageAttributes";
@@ -20,43 +24,227 @@ import { isParagraphNode } from "./nodes/paragraph";
 import { isTextNode } from "./nodes/text";
 import { getPaginationNodeTypes } from "./pagination";
 import { isPageNumInRange } from "./nodes/page/pageRange";
-import { HeaderFooter, HeaderFooterNodeAttributes } from "../types/pageRegions";
+import { HeaderFooter, HeaderFooterNodeAttributes, HeaderFooterVariant } from "../types/pageRegions";
 import { getPageRegionNode } from "./pageRegion/getAttributes";
 import { getMaybeNodeSize } from "./nodes/node";
 import { isPageNode } from "./nodes/page/page";
-import { isHeaderFooterNode } from "./nodes/headerFooter/headerFooter";
+import { getHeaderFooterNodeVariant, getPageHeaderFooterVariant, isHeaderFooterNode } from "./nodes/headerFooter/headerFooter";
+import { getLinkedHeaderFooterContent } from "./nodes/headerFooter/linkedHeaderFooter";
 import { isBodyNode } from "./nodes/body/body";
-import { Editor } from "@tiptap/core";
+import { isPageEndingNode } from "./nodes/pageBreak";
+import { isColumnBreakNode } from "./nodes/columnBreak";
+import { collectFootnoteNodes, collectFootnoteReferenceIds, getFootnoteId, isFootnoteNode, isFootnotesNode } from "./nodes/footnote";
+import { FOOTNOTE_ID_ATTR, FOOTNOTE_NODE_NAME, FOOTNOTES_NODE_NAME, FOOTNOTES_SEPARATOR_HEIGHT } from "../constants/footnote";
+import { FootnoteNodeMap } from "../types/footnote";
+import {
+    applySectionAttributes,
+    cascadeSectionAttributes,
+    collectDocumentSectionBreaks,
+    doesPageEndSection,
+    doesRangeContainSectionBreak,
+    getSectionBreakBeforePage,
+    isSectionBreakNode,
+} from "./nodes/sectionBreak";
+import { getPageNodeSection } from "./nodes/page/attributes/section";
+import { getPageAmendmentOptions } from "./nodes/page/attributes/headerFooterVariants";
+import { hasPageBreakProperty } from "./nodes/pageBreakProperties";
+import { PAGE_BREAK_PROPERTY_ATTR_KEYS } from "../constants/pageBreak";
+import {
+    getSplitOwnContentSize,
+    getSplitRepeatedChildCount,
+    getSplitRepeatedSize,
+    isContinuationOf,
+    isSplitContinuationNode,
+    joinSplitNodes,
+    setSplitContinuation,
+} from "./split/continuation";
+import { getParagraphCharLength } from "./split/paragraph";
+import { getNodeSplitters } from "./split/registry";
+import { createDOMMeasurementBackend } from "./measurement/dom";
+import { getPixelsPerMM, updatePixelsPerMM } from "./window";
+import { createNodeHeightCache } from "./heightCache";
 
 /**
- * Builds a new document with paginated content.
+ * A content node, or the remainder of a split content node, waiting to be placed on a page.
+ */
+type PendingContentNode = {
+    /**
+     * The index of the content node this node belongs to.
+     */
+    index: number;
+    node: PMNode;
+    height: number;
+
+    /**
+     * The offset into the content of the whole content node at which this node starts.
+     */
+    from: number;
+
+    /**
+     * The layout of the node. Undefined until the node is measured for splitting.
+     */
+    layout?: Nullable<NodeLayout>;
+};
+
+/**
+ * Measures the height of a content node by its index, placed in a column of the given width.
+ */
+type MeasureContentHeight = (index: number, columnWidth: number) => number;
+
+/**
+ * Measures the layout of a content node by its index, placed in a column of the given width.
+ */
+type MeasureContentLayout = (index: number, columnWidth: number) => Nullable<NodeLayout>;
+
+/**
+ * The functions measuring the content of a document as it is paginated.
+ */
+type ContentMeasurers = {
+    measureHeight: MeasureContentHeight;
+    measureLayout: MeasureContentLayout;
+    footnoteNodes: FootnoteNodeMap;
+    measureFootnoteHeight: (id: string, width: number) => number;
+};
+
+/**
+ * Create the functions measuring the content nodes and footnotes of a document with the
+ * measurement backend. Heights are measured lazily so that only the nodes which are
+ * repaginated are measured, at the width of the column they are placed in.
+ *
+ * @param state - The editor state.
+ * @param options - The pagination options.
+ * @param backend - The measurement backend.
+ * @param heightCache - The cache of measured node heights.
+ * @param contentNodes - The content nodes to measure.
+ * @param isMeasuredInPlace - Whether the backend measures nodes where they are rendered
+ * rather than at the column width it is given, e.g. in the DOM.
+ * @param pixelsPerMM - The pixels per millimetre to convert page dimensions with.
+ * @returns {ContentMeasurers} The functions measuring the content.
+ */
+const createContentMeasurers = (
+    state: EditorState,
+    options: PaginationOptions,
+    backend: MeasurementBackend,
+    heightCache: NodeHeightCache,
+    contentNodes: ContentNode[],
+    isMeasuredInPlace: boolean,
+    pixelsPerMM: number
+): ContentMeasurers => {
+    const measureNodeIn = createNodeMeasurer(state, options, backend, heightCache, isMeasuredInPlace, pixelsPerMM);
+    const measureLineBreakOffsetsIn = createLineBreakMeasurer(state, backend);
+
+    const nodeHeights: Undefinable<{ columnWidth: number; height: number }>[] = [];
+    const measureHeight = (index: number, columnWidth: number): number => {
+        const nodeHeight = nodeHeights[index];
+        if (nodeHeight?.columnWidth === columnWidth) {
+            return nodeHeight.height;
+        }
+
+        const height = measureContentNodeHeight(measureNodeIn(columnWidth), contentNodes[index]);
+        nodeHeights[index] = { columnWidth, height };
+        return height;
+    };
+    const measureLayout = (index: number, columnWidth: number): Nullable<NodeLayout> =>
+        measureContentNodeLayout(
+            measureLineBreakOffsetsIn(columnWidth),
+            measureNodeIn(columnWidth),
+            contentNodes[index],
+            measureHeight(index, columnWidth)
+        );
+
+    // Footnotes are measured where they are now. New footnotes have not been drawn yet.
+    const footnoteNodes = collectFootnoteNodes(state.doc);
+    const measureFootnoteHeight = (id: string, width: number): number => {
+        const footnote = footnoteNodes.get(id);
+        return footnote ? measureNodeIn(width)(footnote.pos, footnote.node).height : MIN_PARAGRAPH_HEIGHT;
+    };
+
+    return { measureHeight, measureLayout, footnoteNodes, measureFootnoteHeight };
+};
+
+/**
+ * Builds a new document with paginated content. Pagination starts from the page
+ * before the first page affected by the changed range and stops as soon as a page
+ * starts with content after the changed range, i.e. the page breaks have stabilised.
+ * Only the pages which differ are replaced. Nodes are measured in the DOM unless a
+ * measurement backend is given in the options. When measuring in the DOM, page dimensions
+ * are converted to pixels as rendered in the editor, taking its zoom into account.
  *
  * @param view - The editor view.
  * @param options - The pagination options.
+ * @param heightCache - The cache of measured node heights.
+ * @param changedRange - The range of the document changed since the last pagination pass.
+ * If null, the whole document is paginated.
  * @returns {void}
  */
-export const buildPageView = (editor: Editor, view: EditorView, options: PaginationOptions): void => {
+export const buildPageView = (
+    view: EditorView,
+    options: PaginationOptions,
+    heightCache: NodeHeightCache,
+    changedRange: Nullable<ChangedRange> = null
+): void => {
     const { state, dispatch } = view;
     const { doc } = state;
 
     try {
-        const contentNodes = collectContentNodes(doc);
-        const nodeHeights = measureNodeHeights(view, contentNodes);
+        // Page dimensions are converted to pixels as rendered, so a change in zoom makes every measured height stale
+        const isMeasuredInPlace = !options.measurementBackend;
+        if (isMeasuredInPlace && updatePixelsPerMM(view)) {
+            heightCache.clear();
+            changedRange = null;
+        }
+
+        const pixelsPerMM = getPixelsPerMM(isMeasuredInPlace ? view : null);
+
+        const startPageNum = getRepaginationStartPageNum(doc, changedRange);
+        // Changing a section break changes the setup of every page in its section
+        const stableFromPos = changedRange && !doesRangeContainSectionBreak(doc, changedRange) ? changedRange.to : Infinity;
+        const contentNodes = collectContentNodes(doc, startPageNum);
+
+        const backend = options.measurementBackend ?? createDOMMeasurementBackend(view);
+        const { measureHeight, measureLayout, footnoteNodes, measureFootnoteHeight } = createContentMeasurers(
+            state,
+            options,
+            backend,
+            heightCache,
+            contentNodes,
+            isMeasuredInPlace,
+            pixelsPerMM
+        );
 
         // Record the cursor's old position
         const { tr, selection } = state;
         const oldCursorPos = selection.from;
 
-        const { newDoc, oldToNewPosMap } = buildNewDocument(editor, options, contentNodes, nodeHeights);
+        const { pages, endPageNum, contentPieceMap, footnotePosMap } = buildNewDocument(
+            state,
+            options,
+            contentNodes,
+            measureHeight,
+            measureLayout,
+            footnoteNodes,
+            measureFootnoteHeight,
+            startPageNum,
+            stableFromPos,
+            pixelsPerMM
+        );
 
-        // Compare the content of the documents
-        if (!newDoc.content.eq(doc.content)) {
-            tr.replaceWith(0, doc.content.size, newDoc.content);
+        // Compare the new pages with the pages they replace
+        const replacement = getPageReplacement(doc, pages, startPageNum, endPageNum);
+        if (replacement) {
+            const { from, to, pages: changedPages } = replacement;
+            tr.replaceWith(from, to, changedPages);
             tr.setMeta("pagination", true);
 
-            const newDocContentSize = newDoc.content.size;
-            const newCursorPos = mapCursorPosition(contentNodes, oldCursorPos, oldToNewPosMap, newDocContentSize);
-            paginationUpdateCursorPosition(tr, newCursorPos);
+            // A cursor outside the replaced pages is mapped by the transaction itself
+            if (inRange(oldCursorPos, from, to)) {
+                const newDocContentSize = tr.doc.content.size;
+                limitMappedCursorPositions(contentPieceMap, newDocContentSize);
+                const newCursorPos =
+                    mapFootnoteCursorPosition(doc, oldCursorPos, footnotePosMap) ??
+                    mapCursorPosition(contentNodes, oldCursorPos, contentPieceMap, newDocContentSize);
+                paginationUpdateCursorPosition(tr, newCursorPos);
+            }
         }
 
         dispatch(tr);
@@ -66,14 +254,186 @@ export const buildPageView = (editor: Editor, view: EditorView, options: Paginat
 };
 
 /**
- * Collect content nodes and their existing positions.
+ * Paginate a document without an editor, e.g. on a server where there is no DOM to
+ * measure. The whole document is paginated into the same page structure the editor
+ * builds, with nodes measured by the given measurement backend and page dimensions
+ * converted to pixels at 96 pixels per inch.
+ *
+ * @param doc - The document to paginate. It may already be paginated or be unpaginated content.
+ * @param options - The pagination options.
+ * @param backend - The measurement backend, e.g. a text metrics measurement backend.
+ * @param heightCache - The cache of measured node heights. Pass the same cache to
+ * paginate successive versions of a document faster.
+ * @returns {PMNode} The paginated document.
+ */
+export const paginateDocument = (
+    doc: PMNode,
+    options: PaginationOptions,
+    backend: MeasurementBackend,
+    heightCache: NodeHeightCache = createNodeHeightCache()
+): PMNode => {
+    const state = EditorState.create({ doc });
+    const contentNodes = collectContentNodes(doc, 0);
+    const { measureHeight, measureLayout, footnoteNodes, measureFootnoteHeight } = createContentMeasurers(
+        state,
+        options,
+        backend,
+        heightCache,
+        contentNodes,
+        false,
+        STANDARD_PIXELS_PER_MM
+    );
+
+    const { pages } = buildNewDocument(
+        state,
+        options,
+        contentNodes,
+        measureHeight,
+        measureLayout,
+        footnoteNodes,
+        measureFootnoteHeight,
+        0,
+        Infinity,
+        STANDARD_PIXELS_PER_MM
+    );
+
+    return doc.copy(Fragment.fromArray(pages));
+};
+
+/**
+ * Get the offset of the child of the document at the given index.
+ *
+ * @param doc - The document node.
+ * @param index - The index of the child. May be the child count to get the end of the document.
+ * @returns {number} The offset of the child in the document's content.
+ */
+const getDocChildOffset = (doc: PMNode, index: number): number => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+        offset += doc.child(i).nodeSize;
+    }
+
+    return offset;
+};
+
+/**
+ * Check if the body of a page starts with the continuation of a node split from the page before.
+ *
+ * @param pageNode - The page node.
+ * @returns {boolean} True if the page body starts with a split continuation, false otherwise.
+ */
+const doesPageStartWithContinuation = (pageNode: PMNode): boolean => {
+    const firstBodyChild = getPageRegionNode(pageNode, "body")?.firstChild;
+    return !!firstBodyChild && isSplitContinuationNode(firstBodyChild);
+};
+
+/**
+ * Get the number of the page (0-indexed) to start repaginating from. This is the page
+ * before the first changed page, as content at the start of the changed page may now
+ * fit on it, moved back to the page a split node begins on.
+ *
+ * @param doc - The document node.
+ * @param changedRange - The range of the document changed since the last pagination pass.
+ * @returns {number} The page number to start repaginating from.
+ */
+const getRepaginationStartPageNum = (doc: PMNode, changedRange: Nullable<ChangedRange>): number => {
+    if (!changedRange || doc.childCount === 0) {
+        return 0;
+    }
+
+    let isPaginated = true;
+    doc.forEach((node) => {
+        if (!isPageNode(node)) {
+            isPaginated = false;
+        }
+    });
+
+    if (!isPaginated) {
+        return 0;
+    }
+
+    const changedPageNum = Math.min(doc.resolve(Math.min(changedRange.from, doc.content.size)).index(0), doc.childCount - 1);
+    let startPageNum = Math.max(changedPageNum - 1, 0);
+    while (startPageNum > 0 && doesPageStartWithContinuation(doc.child(startPageNum))) {
+        startPageNum--;
+    }
+
+    return startPageNum;
+};
+
+/**
+ * Get the pages to replace in the document, ignoring new pages which are identical
+ * to the pages they replace at either end.
  *
  * @param doc - The document node.
- * @returns {NodePosArray} The content nodes and their positions.
+ * @param pages - The new pages.
+ * @param startPageNum - The number of the first page the new pages replace.
+ * @param endPageNum - The number of the page after the last page the new pages replace.
+ * @returns The range of the document to replace and the pages to replace it with, or null if
+ * the new pages are identical to the old pages.
  */
-const collectContentNodes = (doc: PMNode): NodePosArray => {
-    const contentNodes: NodePosArray = [];
-    doc.forEach((pageNode, pageOffset) => {
+const getPageReplacement = (
+    doc: PMNode,
+    pages: PMNode[],
+    startPageNum: number,
+    endPageNum: number
+): Nullable<{ from: number; to: number; pages: PMNode[] }> => {
+    const oldPageCount = endPageNum - startPageNum;
+
+    let leadingCount = 0;
+    while (leadingCount < pages.length && leadingCount < oldPageCount && pages[leadingCount].eq(doc.child(startPageNum + leadingCount))) {
+        leadingCount++;
+    }
+
+    if (leadingCount === pages.length && leadingCount === oldPageCount) {
+        return null;
+    }
+
+    let trailingCount = 0;
+    while (
+        trailingCount < pages.length - leadingCount &&
+        trailingCount < oldPageCount - leadingCount &&
+        pages[pages.length - 1 - trailingCount].eq(doc.child(endPageNum - 1 - trailingCount))
+    ) {
+        trailingCount++;
+    }
+
+    return {
+        from: getDocChildOffset(doc, startPageNum + leadingCount),
+        to: getDocChildOffset(doc, endPageNum - trailingCount),
+        pages: pages.slice(leadingCount, pages.length - trailingCount),
+    };
+};
+
+/**
+ * Collect content nodes and their existing positions from the given page onwards.
+ * Nodes split across a page or column boundary by a previous pass are rejoined so
+ * they can be split afresh.
+ *
+ * @param doc - The document node.
+ * @param startPageNum - The number of the page (0-indexed) to start collecting from.
+ * @returns {ContentNode[]} The content nodes and their positions.
+ */
+const collectContentNodes = (doc: PMNode, startPageNum: number): ContentNode[] => {
+    const contentNodes: ContentNode[] = [];
+
+    const addContentNode = (node: PMNode, pos: number, isBodyChild: boolean, startsPageNum?: number): void => {
+        // Split nodes are only ever placed in page bodies, wherever the split fell within them
+        const previousContentNode = contentNodes[contentNodes.length - 1];
+        if (isBodyChild && previousContentNode && isContinuationOf(node, previousContentNode.node)) {
+            previousContentNode.node = joinSplitNodes(previousContentNode.node, node);
+            previousContentNode.fragments.push({ node, pos });
+            return;
+        }
+
+        contentNodes.push({ node: setSplitContinuation(node, false), pos, fragments: [{ node, pos }], startsPageNum });
+    };
+
+    doc.forEach((pageNode, pageOffset, pageIndex) => {
+        if (pageIndex < startPageNum) {
+            return;
+        }
+
         if (isPageNode(pageNode)) {
             pageNode.forEach((pageRegionNode, pageRegionOffset) => {
                 // Offsets in forEach loop start from 0, however, the child nodes of any given node
@@ -82,20 +442,27 @@ const collectContentNodes = (doc: PMNode): NodePosArray => {
 
                 if (isHeaderFooterNode(pageRegionNode)) {
                     // Don't collect header/footer nodes
+                } else if (isFootnotesNode(pageRegionNode)) {
+                    // Footnotes are placed on the page their reference is placed on
                 } else if (isBodyNode(pageRegionNode)) {
                     pageRegionNode.forEach((child, childOffset) => {
                         // First child of body node (e.g. paragraph) has an offset of 1 more
                         // than the body node itself.
                         const trueChildOffset = childOffset + 1;
 
-                        contentNodes.push({ node: child, pos: pageOffset + truePageRegionOffset + trueChildOffset });
+                        addContentNode(
+                            child,
+                            pageOffset + truePageRegionOffset + trueChildOffset,
+                            true,
+                            childOffset === 0 ? pageIndex : undefined
+                        );
                     });
                 } else {
-                    contentNodes.push({ node: pageRegionNode, pos: pageOffset + truePageRegionOffset });
+                    addContentNode(pageRegionNode, pageOffset + truePageRegionOffset, false);
                 }
             });
         } else {
-            contentNodes.push({ node: pageNode, pos: pageOffset + 1 });
+            addContentNode(pageNode, pageOffset + 1, false);
         }
     });
 
@@ -103,98 +470,434 @@ const collectContentNodes = (doc: PMNode): NodePosArray => {
 };
 
 /**
- * Calculates the margins of the element.
+ * Measures a node given its position in the document.
+ */
+type MeasureNode = (pos: number, node: PMNode) => NodeMeasurement;
+
+/**
+ * Measures where the lines of a paragraph start given its position in the document.
+ */
+type MeasureLineBreakOffsets = (pos: number, node: PMNode) => Nullable<number[]>;
+
+/**
+ * Measurement used when a node cannot be measured.
+ */
+const DEFAULT_NODE_MEASUREMENT: NodeMeasurement = { height: MIN_PARAGRAPH_HEIGHT, marginTop: 0 };
+
+/**
+ * Create a function which gets the width of the body column a position is rendered in.
  *
- * @param element - The element to calculate margins for.
- * @returns {MarginConfig} The margins of the element.
+ * @param state - The editor state.
+ * @param options - The pagination options.
+ * @param pixelsPerMM - The pixels per millimetre to convert page dimensions with.
+ * @returns {(pos: number) => Nullable<number>} The function which gets the column width, or
+ * null for positions which are not on a page yet.
  */
-const calculateElementMargins = (element: HTMLElement): MarginConfig => {
-    const style = window.getComputedStyle(element);
-    return {
-        top: parseFloat(style.marginTop),
-        right: parseFloat(style.marginRight),
-        bottom: parseFloat(style.marginBottom),
-        left: parseFloat(style.marginLeft),
+const createColumnWidthGetter = (
+    state: EditorState,
+    options: PaginationOptions,
+    pixelsPerMM: number
+): ((pos: number) => Nullable<number>) => {
+    const { doc } = state;
+    const columnWidths = new Map<number, number>();
+
+    return (pos: number) => {
+        const pageNum = doc.resolve(pos).index(0);
+        if (!isPageNode(doc.maybeChild(pageNum))) {
+            return null;
+        }
+
+        let columnWidth = columnWidths.get(pageNum);
+        if (columnWidth === undefined) {
+            columnWidth = getPaginationNodeAttributes(state, options, pageNum, pixelsPerMM).bodyPixelDimensions.columnWidth;
+            columnWidths.set(pageNum, columnWidth);
+        }
+
+        return columnWidth;
     };
 };
 
 /**
- * Measure the heights of the content nodes.
+ * Create a function which measures nodes placed in a column of the given width with the
+ * measurement backend, serving nodes unchanged since they were last measured at the same
+ * column width from the height cache. Backends which measure nodes in place measure them
+ * at the width of the column they are rendered in, so they are cached by that width.
  *
- * @param view - The editor view.
- * @param contentNodes - The content nodes and their positions.
- * @returns {number[]} The heights of the content nodes.
+ * @param state - The editor state.
+ * @param options - The pagination options.
+ * @param backend - The measurement backend.
+ * @param heightCache - The node height cache.
+ * @param isMeasuredInPlace - Whether the backend measures nodes where they are rendered.
+ * @param pixelsPerMM - The pixels per millimetre to convert page dimensions with.
+ * @returns {(columnWidth: number) => MeasureNode} The function which measures nodes in a column of the given width.
  */
-const measureNodeHeights = (view: EditorView, contentNodes: NodePosArray): number[] => {
-    const paragraphType = view.state.schema.nodes.paragraph;
+const createNodeMeasurer = (
+    state: EditorState,
+    options: PaginationOptions,
+    backend: MeasurementBackend,
+    heightCache: NodeHeightCache,
+    isMeasuredInPlace: boolean,
+    pixelsPerMM: number
+): ((columnWidth: number) => MeasureNode) => {
+    const { doc } = state;
+    const getRenderedColumnWidth = createColumnWidthGetter(state, options, pixelsPerMM);
 
-    const nodeHeights = contentNodes.map(({ pos, node }) => {
-        const domNode = view.nodeDOM(pos);
-        if (domNode instanceof HTMLElement) {
-            let { height } = domNode.getBoundingClientRect();
+    return (columnWidth: number) =>
+        (pos: number, node: PMNode): NodeMeasurement => {
+            const measuredColumnWidth = isMeasuredInPlace ? getRenderedColumnWidth(pos) : columnWidth;
+            if (measuredColumnWidth === null) {
+                // Nodes outside of pages are not rendered in the column they will be measured in later
+                return backend.measureNode({ node, pos, doc, columnWidth }) ?? DEFAULT_NODE_MEASUREMENT;
+            }
 
-            const { top: marginTop } = calculateElementMargins(domNode);
+            const cachedMeasurement = heightCache.get(node, measuredColumnWidth);
+            if (cachedMeasurement) {
+                return cachedMeasurement;
+            }
 
-            if (height === 0) {
-                if (node.type === paragraphType || node.isTextblock) {
-                    // Assign a minimum height to empty paragraphs or textblocks
-                    height = MIN_PARAGRAPH_HEIGHT;
-                }
+            const measurement = backend.measureNode({ node, pos, doc, columnWidth });
+            if (!measurement) {
+                return DEFAULT_NODE_MEASUREMENT;
             }
 
-            // We use top margin only because there is overlap of margins between paragraphs
-            return height + marginTop;
-        }
+            heightCache.set(node, measuredColumnWidth, measurement);
+            return measurement;
+        };
+};
+
+/**
+ * Create a function which measures where the lines of paragraphs placed in a column of
+ * the given width start with the measurement backend.
+ *
+ * @param state - The editor state.
+ * @param backend - The measurement backend.
+ * @returns {(columnWidth: number) => MeasureLineBreakOffsets} The function which measures line breaks in a column of the given width.
+ */
+const createLineBreakMeasurer = (state: EditorState, backend: MeasurementBackend): ((columnWidth: number) => MeasureLineBreakOffsets) => {
+    const { doc } = state;
 
-        return MIN_PARAGRAPH_HEIGHT; // Default to minimum height if DOM element is not found
+    return (columnWidth: number) =>
+        (pos: number, node: PMNode): Nullable<number[]> =>
+            backend.measureLineBreakOffsets({ node, pos, doc, columnWidth });
+};
+
+/**
+ * Measure the heights of the direct children of a node. Children repeated from the
+ * node it was split from are not measured.
+ *
+ * @param measureNode - Measures a node given its position.
+ * @param nodePos - The node and its position.
+ * @returns {number[]} The heights of the node's own children.
+ */
+const measureChildHeights = (measureNode: MeasureNode, { node, pos }: NodePos): number[] => {
+    const repeatedChildCount = getSplitRepeatedChildCount(node);
+    const childHeights: number[] = [];
+
+    node.forEach((child, offset, index) => {
+        if (index >= repeatedChildCount) {
+            childHeights.push(measureNode(pos + 1 + offset, child).height);
+        }
     });
 
-    return nodeHeights;
+    return childHeights;
+};
+
+/**
+ * Measure the height a split continuation adds to the node it is rejoined with. For
+ * text blocks this is the height of its lines; for containers it is the height of its
+ * own children, as the container itself is only counted once.
+ *
+ * @param measureNode - Measures a node given its position.
+ * @param fragment - The continuation and its position.
+ * @returns {number} The height the continuation adds.
+ */
+const measureContinuationHeight = (measureNode: MeasureNode, fragment: NodePos): number => {
+    const { node, pos } = fragment;
+    if (node.isTextblock || node.isLeaf) {
+        const { height, marginTop } = measureNode(pos, node);
+        return height - marginTop;
+    }
+
+    return measureChildHeights(measureNode, fragment).reduce((sum, childHeight) => sum + childHeight, 0);
+};
+
+/**
+ * Measure the height of a content node. The height of a rejoined node is the
+ * height of its first fragment plus the height each continuation adds.
+ *
+ * @param measureNode - Measures a node given its position.
+ * @param contentNode - The content node and its fragments.
+ * @returns {number} The height of the content node.
+ */
+const measureContentNodeHeight = (measureNode: MeasureNode, { fragments }: ContentNode): number => {
+    return fragments.reduce(
+        (height, fragment, index) =>
+            height + (index > 0 ? measureContinuationHeight(measureNode, fragment) : measureNode(fragment.pos, fragment.node).height),
+        0
+    );
+};
+
+/**
+ * Measure the line layout of a content node so it can be split between lines.
+ * Only paragraphs are measured; other nodes are not split by line.
+ *
+ * @param measureLineBreakOffsets - Measures where the lines of a paragraph start given its position.
+ * @param measureNode - Measures a node given its position.
+ * @param contentNode - The content node to measure.
+ * @param height - The measured height of the content node.
+ * @returns {Nullable<LineLayout>} The line layout of the node or null if it cannot be split by line.
+ */
+const measureContentNodeLineLayout = (
+    measureLineBreakOffsets: MeasureLineBreakOffsets,
+    measureNode: MeasureNode,
+    contentNode: ContentNode,
+    height: number
+): Nullable<LineLayout> => {
+    if (!isParagraphNode(contentNode.node)) {
+        return null;
+    }
+
+    const lineBreakOffsets: number[] = [];
+    let charOffset = 0;
+
+    for (const { node, pos } of contentNode.fragments) {
+        const fragmentLineBreakOffsets = measureLineBreakOffsets(pos, node) ?? [];
+        lineBreakOffsets.push(...fragmentLineBreakOffsets.map((offset) => offset + charOffset));
+        charOffset += getParagraphCharLength(node);
+    }
+
+    const lineCount = lineBreakOffsets.length;
+    if (lineCount === 0) {
+        return null;
+    }
+
+    const { node: firstFragmentNode, pos: firstFragmentPos } = contentNode.fragments[0];
+    const lineHeight = (height - measureNode(firstFragmentPos, firstFragmentNode).marginTop) / lineCount;
+
+    return { lineBreakOffsets, lineHeight };
+};
+
+/**
+ * Measure the layout of a content node so it can be split. Paragraphs are measured
+ * by line and other non-leaf blocks by the heights of their children.
+ *
+ * @param measureLineBreakOffsets - Measures where the lines of a paragraph start given its position.
+ * @param measureNode - Measures a node given its position.
+ * @param contentNode - The content node to measure.
+ * @param height - The measured height of the content node.
+ * @returns {Nullable<NodeLayout>} The layout of the node or null if it cannot be measured.
+ */
+const measureContentNodeLayout = (
+    measureLineBreakOffsets: MeasureLineBreakOffsets,
+    measureNode: MeasureNode,
+    contentNode: ContentNode,
+    height: number
+): Nullable<NodeLayout> => {
+    const { node, fragments } = contentNode;
+    if (isParagraphNode(node)) {
+        const lines = measureContentNodeLineLayout(measureLineBreakOffsets, measureNode, contentNode, height);
+        return lines ? { lines } : null;
+    }
+
+    if (node.isTextblock || node.isLeaf) {
+        return null;
+    }
+
+    return { childHeights: fragments.flatMap((fragment) => measureChildHeights(measureNode, fragment)) };
+};
+
+/**
+ * Split a pending content node so that its first part fits in the remaining height
+ * of the page, using the splitter registered for its node type.
+ *
+ * @param pending - The pending content node to split.
+ * @param splitter - The splitter registered for the node's type, if any.
+ * @param remainingHeight - The remaining height in the current column of the page.
+ * @param isPageEmpty - Whether the current column has no content yet. If so, the splitter
+ * keeps at least one unit in the column to guarantee progress.
+ * @param measureLayout - Measures the layout of a content node by its index.
+ * @returns The part which fits on the current page and the remainder, or null if the node cannot be split.
+ */
+const splitPendingContentNode = (
+    pending: PendingContentNode,
+    splitter: Undefinable<NodeSplitter>,
+    remainingHeight: number,
+    isPageEmpty: boolean,
+    measureLayout: (index: number) => Nullable<NodeLayout>
+): Nullable<{ head: PendingContentNode; tail: PendingContentNode }> => {
+    const { index, node, height, from } = pending;
+    if (!splitter) {
+        return null;
+    }
+
+    const getLayout = (): Nullable<NodeLayout> => {
+        if (pending.layout === undefined) {
+            pending.layout = measureLayout(index);
+        }
+
+        return pending.layout;
+    };
+
+    const split = splitter({ node, height, remainingHeight, isPageEmpty, getLayout });
+    if (!split) {
+        return null;
+    }
+
+    // Guard against splitters which would not make progress
+    const headContentSize = getSplitOwnContentSize(split.head.node);
+    if (headContentSize <= 0 || getSplitOwnContentSize(split.tail.node) <= 0 || !isSplitContinuationNode(split.tail.node)) {
+        return null;
+    }
+
+    const head: PendingContentNode = { index, ...split.head, from };
+    const tail: PendingContentNode = { index, ...split.tail, from: from + headContentSize };
+
+    return { head, tail };
 };
 
 /**
- * Build the new document and keep track of new positions.
+ * Build the new pages and keep track of new positions. Pages are built from the given
+ * page until the content runs out or a page would start with the same content node as
+ * the existing page of the same number, after the changed range. On pages with more than
+ * one column, content fills each column in turn before moving on to the next page. Footnotes
+ * are placed at the bottom of the page their reference is placed on, and the height they take
+ * up is reserved from the body.
  *
- * @param editor - The editor instance.
+ * @param state - The editor state.
  * @param options - The pagination options.
  * @param contentNodes - The content nodes and their positions.
- * @param nodeHeights - The heights of the content nodes.
- * @returns {newDoc: PMNode, oldToNewPosMap: CursorMap} The new document and the mapping from old positions to new positions.
+ * @param measureHeight - Measures the height of a content node by its index, at the width of a column.
+ * @param measureLayout - Measures the layout of a content node by its index, at the width of a column.
+ * Used to split nodes which straddle the end of a page.
+ * @param footnoteNodes - The existing footnote nodes, keyed by footnote id.
+ * @param measureFootnoteHeight - Measures the height of a footnote by its id, at the width of a body.
+ * @param startPageNum - The number of the first page to build.
+ * @param stableFromPos - The position from which the document is unchanged since the last pass.
+ * @param pixelsPerMM - The pixels per millimetre to convert page dimensions with.
+ * @returns {pages: PMNode[], endPageNum: number, contentPieceMap: ContentPieceMap, footnotePosMap: Map<string, number>}
+ * The new pages, the number of the first existing page which is kept, the pieces each content node was
+ * placed as and the new positions of the footnotes.
  */
 const buildNewDocument = (
-    editor: Editor,
+    state: EditorState,
     options: PaginationOptions,
-    contentNodes: NodePosArray,
-    nodeHeights: number[]
-): { newDoc: PMNode; oldToNewPosMap: CursorMap } => {
-    const { schema, doc } = editor.state;
+    contentNodes: ContentNode[],
+    measureHeight: MeasureContentHeight,
+    measureLayout: MeasureContentLayout,
+    footnoteNodes: FootnoteNodeMap,
+    measureFootnoteHeight: (id: string, width: number) => number,
+    startPageNum: number,
+    stableFromPos: number,
+    pixelsPerMM: number
+): { pages: PMNode[]; endPageNum: number; contentPieceMap: ContentPieceMap; footnotePosMap: Map<string, number> } => {
+    const { schema, doc } = state;
     const { pageAmendmentOptions } = options;
+    const nodeSplitters = getNodeSplitters(options);
     const {
         pageNodeType: pageType,
         headerFooterNodeType: headerFooterType,
         bodyNodeType: bodyType,
         paragraphNodeType: paragraphType,
     } = getPaginationNodeTypes(schema);
+    const footnoteType = schema.nodes[FOOTNOTE_NODE_NAME];
+    const footnotesType = schema.nodes[FOOTNOTES_NODE_NAME];
 
-    let pageNum = 0;
+    let pageNum = startPageNum;
     const pages: PMNode[] = [];
     let existingPageNode: Nullable<PMNode> = doc.maybeChild(pageNum);
-    let { pageNodeAttributes, pageRegionNodeAttributes, bodyPixelDimensions } = getPaginationNodeAttributes(editor, pageNum);
+
+    // The pages before the start page are unchanged, so the section the start page is in is too
+    let sectionNum = startPageNum > 0 ? getPageNodeSection(doc.child(startPageNum)) : 0;
+    let sectionBreak = getSectionBreakBeforePage(doc, startPageNum);
+    let isSectionStart = startPageNum === 0 || doesPageEndSection(doc.child(startPageNum - 1));
+
+    const isExistingPageInSection = (): boolean => {
+        return !!existingPageNode && isPageNode(existingPageNode) && getPageNodeSection(existingPageNode) === sectionNum;
+    };
+
+    // The page setup of every section after the first follows from the section breaks before it
+    const sectionBreaks = collectDocumentSectionBreaks(doc);
+    const sectionAttributes = new Map<number, PaginationNodeAttributes>();
+    const getSectionAttributes = (): PaginationNodeAttributes => {
+        let attributes = sectionAttributes.get(sectionNum);
+        if (!attributes) {
+            attributes = cascadeSectionAttributes(
+                getPaginationNodeAttributes(state, options, 0, pixelsPerMM),
+                sectionBreaks,
+                sectionNum,
+                pixelsPerMM,
+                options.customPaperSizes
+            );
+            sectionAttributes.set(sectionNum, attributes);
+        }
+
+        return attributes;
+    };
+
+    // Pages in the first section keep their own settings, while pages in later sections take
+    // the settings of their section. Headers and footers come from the page as it was.
+    const getPageAttributes = (attributes: PaginationNodeAttributes): PaginationNodeAttributes => {
+        if (sectionNum > 0) {
+            const { pageNodeAttributes, pageRegionNodeAttributes } = getSectionAttributes();
+            attributes = {
+                ...attributes,
+                pageNodeAttributes,
+                pageRegionNodeAttributes: { ...attributes.pageRegionNodeAttributes, body: pageRegionNodeAttributes.body },
+            };
+        }
+
+        return applySectionAttributes(attributes, sectionNum, sectionBreak, isSectionStart, pixelsPerMM, options.customPaperSizes);
+    };
+
+    let { pageNodeAttributes, pageRegionNodeAttributes, bodyPixelDimensions } = getPageAttributes(
+        getPaginationNodeAttributes(state, options, pageNum, pixelsPerMM)
+    );
+
+    // Content shared by the linked headers and footers, keyed by link group
+    const linkedHeaderFooterContent = new Map<string, Nullable<Fragment>>();
+    const getLinkedContent = (pageRegionType: HeaderFooter, variant: HeaderFooterVariant): Nullable<Fragment> => {
+        // A section without linked headers or footers of its own inherits those of the section before
+        for (let section = sectionNum; section >= 0; section--) {
+            const key = `${pageRegionType}:${variant}:${section}`;
+            if (!linkedHeaderFooterContent.has(key)) {
+                linkedHeaderFooterContent.set(key, getLinkedHeaderFooterContent(doc, { type: pageRegionType, variant, section }));
+            }
+
+            const linkedContent = linkedHeaderFooterContent.get(key);
+            if (linkedContent) {
+                return linkedContent;
+            }
+        }
+
+        return null;
+    };
 
     const constructHeaderFooter =
         <HF extends HeaderFooter>(pageRegionType: HeaderFooter) =>
         (headerFooterAttrs: HeaderFooterNodeAttributes<HF>): PMNode | undefined => {
             if (!headerFooterType) return;
 
-            if (existingPageNode) {
+            const variant = getPageHeaderFooterVariant(
+                pageNum,
+                isSectionStart,
+                getPageAmendmentOptions(pageNodeAttributes, pageAmendmentOptions)
+            );
+            if (existingPageNode && isExistingPageInSection()) {
                 const hfNode = getPageRegionNode(existingPageNode, pageRegionType);
-                if (hfNode) {
+                if (hfNode && getHeaderFooterNodeVariant(hfNode) === variant) {
                     return hfNode;
                 }
             }
 
+            // New headers and footers inherit the content shared by the linked ones of their link group
+            const attrs = { ...headerFooterAttrs, variant, linked: true };
+            const linkedContent = getLinkedContent(pageRegionType, variant);
+            if (linkedContent) {
+                return headerFooterType.create(attrs, linkedContent);
+            }
+
             const emptyParagraph = paragraphType.create();
-            return headerFooterType.create(headerFooterAttrs, [emptyParagraph]);
+            return headerFooterType.create(attrs, [emptyParagraph]);
         };
 
     const constructHeader = <HF extends HeaderFooter>(headerFooterAttrs: HeaderFooterNodeAttributes<HF>) => {
@@ -209,9 +912,11 @@ const buildNewDocument = (
     const constructPageRegions = (currentPageContent: PMNode[]): PMNode[] => {
         const { body: bodyAttrs, footer: footerAttrs } = pageRegionNodeAttributes;
         const pageBody = bodyType.create(bodyAttrs, currentPageContent);
+        const pageFootnotes =
+            footnotesType && currentPageFootnotes.length > 0 ? footnotesType.create(null, currentPageFootnotes) : undefined;
         const pageFooter = constructFooter(footerAttrs);
 
-        const pageRegions: Undefinable<PMNode>[] = [currentPageHeader, pageBody, pageFooter];
+        const pageRegions: Undefinable<PMNode>[] = [currentPageHeader, pageBody, pageFootnotes, pageFooter];
         return pageRegions.filter((region) => !!region);
     };
 
@@ -219,6 +924,20 @@ const buildNewDocument = (
         const pageNodeContents = constructPageRegions(currentPageContent);
         const pageNode = pageType.create(pageNodeAttributes, pageNodeContents);
         pages.push(pageNode);
+
+        // Record the new positions of the footnotes so a cursor in one can follow it
+        const pagePos = cumulativeNewDocPos - bodyOffset - getMaybeNodeSize(currentPageHeader) - pageOffset;
+        pageNode.forEach((pageRegionNode, pageRegionOffset) => {
+            if (!isFootnotesNode(pageRegionNode)) return;
+
+            pageRegionNode.forEach((footnoteNode, footnoteOffset) => {
+                const id = getFootnoteId(footnoteNode);
+                if (id) {
+                    footnotePosMap.set(id, pagePos + 1 + pageRegionOffset + 1 + footnoteOffset);
+                }
+            });
+        });
+
         return pageNode;
     };
 
@@ -227,100 +946,358 @@ const buildNewDocument = (
     let currentPageContent: PMNode[] = [];
     let currentHeight = 0;
 
-    const oldToNewPosMap: CursorMap = new Map<number, number>();
+    // The column being filled and the index in the page content at which it starts
+    let currentColumn = 0;
+    let columnStartIndex = 0;
+    let filledColumnsHeight = 0;
+
+    // Footnotes span every column of the page
+    let currentPageFootnotes: PMNode[] = [];
+    let footnotesHeight = 0;
+    const placedFootnoteIds = new Set<string>();
+    const footnotePosMap = new Map<string, number>();
+
+    const contentPieceMap: ContentPieceMap = new Map<number, ContentNodePiece[]>();
     const pageOffset = 1,
         bodyOffset = 1;
-    let cumulativeNewDocPos = pageOffset + getMaybeNodeSize(currentPageHeader) + bodyOffset;
+    let cumulativeNewDocPos = getDocChildOffset(doc, startPageNum) + pageOffset + getMaybeNodeSize(currentPageHeader) + bodyOffset;
 
-    for (let i = 0; i < contentNodes.length; i++) {
-        const { node, pos: oldPos } = contentNodes[i];
-        const nodeHeight = nodeHeights[i];
-
-        const isPageFull = currentHeight + nodeHeight > bodyPixelDimensions.bodyHeight;
-        if (isPageFull && currentPageContent.length > 0) {
-            const pageNode = addPage(currentPageContent);
-            cumulativeNewDocPos += pageNode.nodeSize - getMaybeNodeSize(currentPageHeader);
-            currentPageContent = [];
-            currentHeight = 0;
-            existingPageNode = doc.maybeChild(++pageNum);
-            if (isPageNumInRange(doc, pageNum)) {
-                ({ pageNodeAttributes, pageRegionNodeAttributes, bodyPixelDimensions } = getPaginationNodeAttributes(editor, pageNum));
-            }
+    const startNewPage = (endingSectionBreak: Nullable<PMNode> = null): void => {
+        const pageNode = addPage(currentPageContent);
+        cumulativeNewDocPos += pageNode.nodeSize - getMaybeNodeSize(currentPageHeader);
+        currentPageContent = [];
+        currentHeight = 0;
+        currentColumn = 0;
+        columnStartIndex = 0;
+        filledColumnsHeight = 0;
+        currentPageFootnotes = [];
+        footnotesHeight = 0;
+        existingPageNode = doc.maybeChild(++pageNum);
 
-            // Next page header
-            currentPageHeader = constructHeader(pageRegionNodeAttributes.header);
-            cumulativeNewDocPos += getMaybeNodeSize(currentPageHeader);
+        isSectionStart = !!endingSectionBreak;
+        if (endingSectionBreak) {
+            sectionBreak = endingSectionBreak;
+            sectionNum++;
         }
 
-        // Record the mapping from old position to new position
+        // Existing pages keep their own settings while they stay in the same section
+        let attributes: PaginationNodeAttributes;
+        if (isPageNumInRange(doc, pageNum) && (!isPageNode(existingPageNode) || isExistingPageInSection())) {
+            attributes = getPaginationNodeAttributes(state, options, pageNum, pixelsPerMM);
+        } else {
+            // New pages continue the numbering of the page before them rather than restarting it
+            attributes = {
+                pageNodeAttributes: { ...pageNodeAttributes, pageNumberStart: null },
+                pageRegionNodeAttributes,
+                bodyPixelDimensions,
+            };
+        }
+
+        ({ pageNodeAttributes, pageRegionNodeAttributes, bodyPixelDimensions } = getPageAttributes(attributes));
+
+        // Next page header
+        currentPageHeader = constructHeader(pageRegionNodeAttributes.header);
+        cumulativeNewDocPos += getMaybeNodeSize(currentPageHeader);
+    };
+
+    // Move on to the next column, or to the next page from the last column
+    const startNewColumn = (): void => {
+        if (currentColumn >= pageRegionNodeAttributes.body.columns.count - 1) {
+            startNewPage();
+            return;
+        }
+
+        currentColumn++;
+        columnStartIndex = currentPageContent.length;
+        filledColumnsHeight = Math.max(filledColumnsHeight, currentHeight);
+        currentHeight = 0;
+    };
+
+    // The ids of the footnotes referenced in a node which have not been placed yet
+    const getNewFootnoteIds = (node: PMNode): string[] => {
+        if (!footnoteType) return [];
+        return collectFootnoteReferenceIds(node).filter((id) => !placedFootnoteIds.has(id));
+    };
+
+    // The height the footnotes referenced in a node would add to the current page
+    const measureNewFootnotesHeight = (node: PMNode): number => {
+        const footnoteIds = getNewFootnoteIds(node);
+        if (footnoteIds.length === 0) return 0;
+
+        const separatorHeight = currentPageFootnotes.length === 0 ? FOOTNOTES_SEPARATOR_HEIGHT : 0;
+        return footnoteIds.reduce((height, id) => height + measureFootnoteHeight(id, bodyPixelDimensions.bodyWidth), separatorHeight);
+    };
+
+    // The height left in the current column once the footnotes of the page, and any about
+    // to be added to it, are reserved from the bottom of the body
+    const getRemainingHeight = (newFootnotesHeight: number): number => {
+        const availableHeight = bodyPixelDimensions.bodyHeight - footnotesHeight - newFootnotesHeight;
+        if (filledColumnsHeight > availableHeight) {
+            // The footnotes would overlap the columns already filled
+            return 0;
+        }
+
+        return availableHeight - currentHeight;
+    };
+
+    const placeFootnotes = (node: PMNode): void => {
+        footnotesHeight += measureNewFootnotesHeight(node);
+        getNewFootnoteIds(node).forEach((id) => {
+            placedFootnoteIds.add(id);
+            const footnoteNode = footnoteNodes.get(id)?.node ?? footnoteType.create({ [FOOTNOTE_ID_ATTR]: id }, paragraphType.create());
+            currentPageFootnotes.push(footnoteNode);
+        });
+    };
+
+    const placeContentNode = ({ index, node, height, from }: PendingContentNode): void => {
+        // Record the mapping from the content node to its new position
         const nodeStartPosInNewDoc = cumulativeNewDocPos + currentPageContent.reduce((sum, n) => sum + n.nodeSize, 0);
 
-        oldToNewPosMap.set(oldPos, nodeStartPosInNewDoc);
+        const pieces = contentPieceMap.get(index) ?? [];
+        pieces.push({ pos: nodeStartPosInNewDoc, from, to: from + getSplitOwnContentSize(node), repeatedSize: getSplitRepeatedSize(node) });
+        contentPieceMap.set(index, pieces);
 
+        placeFootnotes(node);
         currentPageContent.push(node);
-        currentHeight += nodeHeight;
+        currentHeight += height;
+    };
+
+    const splitPending = (
+        pending: PendingContentNode,
+        remainingHeight: number,
+        isPageEmpty: boolean
+    ): Nullable<{ head: PendingContentNode; tail: PendingContentNode }> => {
+        if (!isPageEmpty && hasPageBreakProperty(pending.node, PAGE_BREAK_PROPERTY_ATTR_KEYS.keepTogether)) {
+            // Move the node to the next page whole unless it is taller than a page
+            return null;
+        }
+
+        const splitter = nodeSplitters[pending.node.type.name];
+        return splitPendingContentNode(pending, splitter, remainingHeight, isPageEmpty, (index) =>
+            measureLayout(index, bodyPixelDimensions.columnWidth)
+        );
+    };
+
+    // Check that a node which fits on the page can stay there when it must be kept with the
+    // start of the node after it, following any chain of such nodes.
+    const fitsWithNextNodes = (pending: PendingContentNode, remainingHeight: number): boolean => {
+        let { index, node, height } = pending;
+
+        while (hasPageBreakProperty(node, PAGE_BREAK_PROPERTY_ATTR_KEYS.keepWithNext)) {
+            const nextContentNode = contentNodes[index + 1];
+            if (
+                !nextContentNode ||
+                isPageEndingNode(nextContentNode.node) ||
+                isColumnBreakNode(nextContentNode.node) ||
+                hasPageBreakProperty(nextContentNode.node, PAGE_BREAK_PROPERTY_ATTR_KEYS.pageBreakBefore)
+            ) {
+                // The next node starts a new column or page regardless
+                return true;
+            }
+
+            index++;
+            node = nextContentNode.node;
+            const nextHeight = measureHeight(index, bodyPixelDimensions.columnWidth);
+            if (height + nextHeight > remainingHeight) {
+                // The next node does not fit whole, so it must be possible to split part of it onto the page
+                const nextPending: PendingContentNode = { index, node, height: nextHeight, from: 0 };
+                return !!splitPending(nextPending, remainingHeight - height, false);
+            }
+
+            height += nextHeight;
+        }
+
+        return true;
+    };
+
+    let pending: Nullable<PendingContentNode> = null;
+    let nextIndex = 0;
+    let isStable = false;
+
+    while (pending || nextIndex < contentNodes.length) {
+        if (!pending) {
+            const { node, pos, startsPageNum } = contentNodes[nextIndex];
+            if (currentPageContent.length === 0 && startsPageNum === pageNum && pos >= stableFromPos && isExistingPageInSection()) {
+                // The existing pages from here on are unaffected by the change
+                isStable = true;
+                break;
+            }
+
+            // Nodes are measured at the width of the column they are placed in
+            pending = { index: nextIndex, node, height: measureHeight(nextIndex, bodyPixelDimensions.columnWidth), from: 0 };
+            nextIndex++;
+        }
+
+        if (isPageEndingNode(pending.node)) {
+            // Manual page breaks and section breaks always end the page they are on
+            const endingSectionBreak = isSectionBreakNode(pending.node) ? pending.node : null;
+            placeContentNode(pending);
+            pending = null;
+            startNewPage(endingSectionBreak);
+            continue;
+        }
+
+        if (isColumnBreakNode(pending.node)) {
+            // Column breaks end the column they are in, or the page if it is the last column
+            placeContentNode(pending);
+            pending = null;
+            startNewColumn();
+            continue;
+        }
+
+        // Each column is the full height of the body, less the footnotes of the page
+        const remainingHeight = getRemainingHeight(measureNewFootnotesHeight(pending.node));
+        const isPageEmpty = currentPageContent.length === 0;
+        const isColumnEmpty = currentPageContent.length === columnStartIndex;
+        if (!isPageEmpty && pending.from === 0 && hasPageBreakProperty(pending.node, PAGE_BREAK_PROPERTY_ATTR_KEYS.pageBreakBefore)) {
+            startNewPage();
+            continue;
+        }
+
+        if (pending.height <= remainingHeight) {
+            if (!isColumnEmpty && !fitsWithNextNodes(pending, remainingHeight)) {
+                // Move the node to the next column along with the node it is kept with
+                startNewColumn();
+                continue;
+            }
+
+            placeContentNode(pending);
+            pending = null;
+            continue;
+        }
+
+        let split = splitPending(pending, getRemainingHeight(0), isColumnEmpty);
+        const headFootnotesHeight = split ? measureNewFootnotesHeight(split.head.node) : 0;
+        if (headFootnotesHeight > 0) {
+            // Make room for the footnotes referenced in the part placed on this page
+            split = splitPending(pending, getRemainingHeight(headFootnotesHeight), isColumnEmpty);
+        }
+
+        if (split) {
+            // Place the part which fits and carry the rest over to the next column
+            placeContentNode(split.head);
+            pending = split.tail;
+            startNewColumn();
+        } else if (isColumnEmpty) {
+            // Node cannot be split and does not fit in a column of its own
+            placeContentNode(pending);
+            pending = null;
+        } else {
+            startNewColumn();
+        }
     }
 
     if (currentPageContent.length > 0) {
         // Add final page (may not be full)
         addPage(currentPageContent);
-    } else {
-        pageNum--;
     }
 
-    const newDoc = schema.topNodeType.create(null, pages);
-    const docSize = newDoc.content.size;
-    limitMappedCursorPositions(oldToNewPosMap, docSize);
+    const endPageNum = isStable ? pageNum : doc.childCount;
 
-    return { newDoc, oldToNewPosMap };
+    return { pages, endPageNum, contentPieceMap, footnotePosMap };
 };
 
 /**
  * Limit mapped cursor positions to document size to prevent out of bounds errors
  * when setting the cursor position.
  *
- * @param oldToNewPosMap - The mapping from old positions to new positions.
+ * @param contentPieceMap - The pieces each content node was placed as.
  * @param docSize - The size of the new document.
  * @returns {void}
  */
-const limitMappedCursorPositions = (oldToNewPosMap: CursorMap, docSize: number): void => {
-    oldToNewPosMap.forEach((newPos, oldPos) => {
-        if (newPos > docSize) {
-            oldToNewPosMap.set(oldPos, docSize);
-        }
+const limitMappedCursorPositions = (contentPieceMap: ContentPieceMap, docSize: number): void => {
+    contentPieceMap.forEach((pieces) => {
+        pieces.forEach((piece) => {
+            if (piece.pos > docSize) {
+                piece.pos = docSize;
+            }
+        });
     });
 };
 
 /**
- * Map the cursor position from the old document to the new document.
+ * Map the cursor position from the old document to the new document. The cursor's
+ * offset into the content of its (rejoined) content node is found first, then
+ * located in whichever piece of that node now holds it.
  *
  * @param contentNodes - The content nodes and their positions.
  * @param oldCursorPos - The old cursor position.
- * @param oldToNewPosMap - The mapping from old positions to new positions.
+ * @param contentPieceMap - The pieces each content node was placed as.
  * @param newDocContentSize - The size of the new document. Serves as maximum limit for cursor position.
  * @returns {number} The new cursor position.
  */
-const mapCursorPosition = (contentNodes: NodePosArray, oldCursorPos: number, oldToNewPosMap: CursorMap, newDocContentSize: number) => {
-    let newCursorPos: Nullable<number> = null;
+const mapCursorPosition = (
+    contentNodes: ContentNode[],
+    oldCursorPos: number,
+    contentPieceMap: ContentPieceMap,
+    newDocContentSize: number
+): Nullable<number> => {
     for (let i = 0; i < contentNodes.length; i++) {
-        const { node, pos: oldNodePos } = contentNodes[i];
-        const nodeSize = node.nodeSize;
-
-        if (inRange(oldCursorPos, oldNodePos, oldNodePos + nodeSize)) {
-            const offsetInNode = oldCursorPos - oldNodePos;
-            const newNodePos = oldToNewPosMap.get(oldNodePos);
-            if (newNodePos === undefined) {
-                console.error("Unable to determine new node position from cursor map!");
-                newCursorPos = 0;
-            } else {
-                newCursorPos = Math.min(newNodePos + offsetInNode, newDocContentSize - 1);
+        let fragmentFrom = 0;
+
+        for (const { node: fragmentNode, pos: oldFragmentPos } of contentNodes[i].fragments) {
+            const fragmentSize = fragmentNode.nodeSize;
+
+            if (inRange(oldCursorPos, oldFragmentPos, oldFragmentPos + fragmentSize)) {
+                // Offset into the content of the whole node. -1 means before the node. Positions
+                // in repeated children map to the original children at the start of the node.
+                const fragmentOffset = oldCursorPos - oldFragmentPos - 1;
+                const repeatedSize = getSplitRepeatedSize(fragmentNode);
+                const contentOffset = fragmentOffset < repeatedSize ? fragmentOffset : fragmentFrom + fragmentOffset - repeatedSize;
+                const piece = findContentNodePiece(contentPieceMap.get(i), contentOffset);
+                if (!piece) {
+                    console.error("Unable to determine new node position from cursor map!");
+                    return 0;
+                }
+
+                const newNodePos = piece.pos + 1 + piece.repeatedSize + (contentOffset - piece.from);
+                return Math.min(newNodePos, newDocContentSize - 1);
             }
 
-            break;
+            fragmentFrom += getSplitOwnContentSize(fragmentNode);
         }
     }
 
-    return newCursorPos;
+    return null;
+};
+
+/**
+ * Map a cursor inside a footnote from the old document to the new document, following the
+ * footnote to wherever it was placed.
+ *
+ * @param doc - The old document node.
+ * @param oldCursorPos - The old cursor position.
+ * @param footnotePosMap - The new positions of the footnotes, keyed by footnote id.
+ * @returns {Nullable<number>} The new cursor position or null if the cursor is not in a placed footnote.
+ */
+const mapFootnoteCursorPosition = (doc: PMNode, oldCursorPos: number, footnotePosMap: Map<string, number>): Nullable<number> => {
+    const $pos = doc.resolve(oldCursorPos);
+    for (let depth = $pos.depth; depth > 0; depth--) {
+        const node = $pos.node(depth);
+        if (!isFootnoteNode(node)) continue;
+
+        const id = getFootnoteId(node);
+        const newFootnotePos = id ? footnotePosMap.get(id) : undefined;
+        return newFootnotePos === undefined ? null : newFootnotePos + (oldCursorPos - $pos.before(depth));
+    }
+
+    return null;
+};
+
+/**
+ * Find the piece of a content node which contains the given content offset.
+ *
+ * @param pieces - The pieces the content node was placed as.
+ * @param contentOffset - The offset into the content of the whole node.
+ * @returns {Undefinable<ContentNodePiece>} The piece containing the offset. Offsets beyond the
+ * start or end of the node resolve to the first or last piece respectively.
+ */
+const findContentNodePiece = (pieces: Undefinable<ContentNodePiece[]>, contentOffset: number): Undefinable<ContentNodePiece> => {
+    if (!pieces || pieces.length === 0) {
+        return undefined;
+    }
+
+    return pieces.find(({ from, to }) => inRange(contentOffset, from, to)) ?? (contentOffset < 0 ? pieces[0] : pieces[pieces.length - 1]);
 };
 
 /**
@@ -4,6 +4,9 @@
  * @description Utility functions for working with colours.
  */
 
+import { RGBColour } from "../types/paper";
+import { Nullable } from "../types/record";
+
 /**
  * Checks if the given paper colour is a valid colour format.
  *
@@ -58,3 +61,25 @@ const isRGBA = (colour: string): boolean => {
     const rgbaRegex = /^rgba\((\d{1,3}), (\d{1,3}), (\d{1,3}), (0|1|0?\.\d+)\)$/;
     return rgbaRegex.test(colour);
 };
+
+/**
+ * Parses a colour in hexadecimal, RGB or RGBA format into its channels. The alpha
+ * channel of RGBA colours is ignored.
+ *
+ * @param colour - The colour string to parse.
+ * @returns {Nullable<RGBColour>} The channels of the colour or null if the colour is not valid.
+ */
+export const parseColour = (colour: string): Nullable<RGBColour> => {
+    if (isHex(colour)) {
+        const hex = colour.length === 4 ? Array.from(colour.slice(1), (digit) => digit + digit).join("") : colour.slice(1);
+        const [red, green, blue] = [0, 2, 4].map((index) => parseInt(hex.slice(index, index + 2), 16));
+        return { red, green, blue };
+    }
+
+    if (isRGB(colour) || isRGBA(colour)) {
+        const [red, green, blue] = (colour.match(/\d{1,3}/g) ?? []).map(Number);
+        return { red, green, blue };
+    }
+
+    return null;
+};
@@ -0,0 +1,496 @@
+/**
+ * @file /src/utils/docx/exportDocx.ts
+ * @name ExportDocx
+ * @description Utility functions for exporting the paginated document as a Word (DOCX) document.
+ */
+
+import { Mark, Node as PMNode } from "@tiptap/pm/model";
+import {
+    DOCX_CONTENT_TYPES,
+    DOCX_DEFAULT_DOCUMENT_PATH,
+    DOCX_MARK_RUN_PROPERTIES,
+    DOCX_NAMESPACES,
+    DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS,
+    DOCX_RELATIONSHIP_TYPES,
+} from "../../constants/docx";
+import { DEFAULT_PAPER_COLOUR } from "../../constants/paperColours";
+import { DocxExportOptions, DocxHeaderFooterReference, DocxSectionProperties } from "../../types/docx";
+import { NodePos } from "../../types/node";
+import { FormattedPageNumbers } from "../../types/page";
+import { Nullable } from "../../types/record";
+import { isPageNode } from "../nodes/page/page";
+import { getPageNodeSection } from "../nodes/page/attributes/section";
+import { getPageNodePaperColour } from "../nodes/page/attributes/paperColour";
+import { getPageNodeDifferentOddEven } from "../nodes/page/attributes/headerFooterVariants";
+import { getPaperDimensions } from "../nodes/page/attributes/paperSize";
+import { getHeaderFooterNodeType, getHeaderFooterNodeVariant, isHeaderFooterNode } from "../nodes/headerFooter/headerFooter";
+import { isSectionBreakNode } from "../nodes/sectionBreak";
+import { isPageBreakNode } from "../nodes/pageBreak";
+import { isColumnBreakNode } from "../nodes/columnBreak";
+import { isHardBreakNode } from "../nodes/hardBreak";
+import { buildFormattedPageNumbers } from "../nodes/page/pageNumber";
+import { getPageNumberFieldType, getPageNumberFieldValue } from "../nodes/pageNumberField";
+import { getPageRegionNodeAndPos } from "../pageRegion/getAttributes";
+import { isContinuationOf, joinSplitNodes } from "../split/continuation";
+import { parseColour } from "../colour";
+import { formatSectionProperties, getPageSectionProperties, mmToTwips } from "./sectionProperties";
+import { formatXMLElement, formatXMLPart, formatXMLText } from "./xml";
+import { writeZip } from "./zip";
+
+/**
+ * The content of a section of the document and the header and footer content of its pages.
+ */
+type DocxSection = {
+    properties: DocxSectionProperties;
+    content: NodePos[];
+    headerFooters: Map<string, NodePos>;
+};
+
+/**
+ * A relationship from a part of a DOCX package to another.
+ */
+type DocxRelationship = {
+    id: string;
+    type: string;
+    target: string;
+};
+
+/**
+ * The state shared while formatting the content of the document.
+ */
+type DocxFormatContext = {
+    doc: PMNode;
+
+    /**
+     * The width of the body of the pages of the current section in twips, which tables are laid out across.
+     */
+    contentWidth: number;
+
+    /**
+     * The formatted numbers of each page, which page number fields are filled in with.
+     */
+    formattedPageNumbers: Nullable<FormattedPageNumbers>[];
+};
+
+const TEXT_ALIGN_JUSTIFICATIONS: Record<string, string> = { left: "left", center: "center", right: "right", justify: "both" };
+
+/**
+ * Format the run properties of a run with the given marks. Marks without a Word equivalent are dropped.
+ *
+ * @param marks - The marks of the run.
+ * @returns {string} The `w:rPr` element, or an empty string if the run has no properties.
+ */
+const formatRunProperties = (marks: readonly Mark[]): string => {
+    const properties = marks.flatMap((mark) => {
+        const property = DOCX_MARK_RUN_PROPERTIES[mark.type.name];
+        if (!property) return [];
+
+        return [property === "w:u" ? formatXMLElement(property, { "w:val": "single" }) : formatXMLElement(property)];
+    });
+
+    return properties.length > 0 ? formatXMLElement("w:rPr", {}, properties.join("")) : "";
+};
+
+/**
+ * Format text as a run. Tabs and line feeds are written as Word tabs and line breaks.
+ *
+ * @param text - The text of the run.
+ * @param runProperties - The `w:rPr` element of the run.
+ * @returns {string} The `w:r` element.
+ */
+const formatTextRun = (text: string, runProperties: string): string => {
+    const content = text
+        .split(/(\t|\n)/)
+        .filter((part) => part.length > 0)
+        .map((part) => {
+            if (part === "\t") return formatXMLElement("w:tab");
+            if (part === "\n") return formatXMLElement("w:br");
+            return formatXMLElement("w:t", { "xml:space": "preserve" }, formatXMLText(part));
+        });
+
+    return formatXMLElement("w:r", {}, runProperties + content.join(""));
+};
+
+/**
+ * Format the inline content of a textblock as runs and fields.
+ *
+ * @param textblock - The textblock node.
+ * @param pos - The position of the textblock in the document.
+ * @param context - The format context.
+ * @returns {string} The runs and fields.
+ */
+const formatInlineContent = (textblock: PMNode, pos: number, context: DocxFormatContext): string => {
+    const runs: string[] = [];
+    textblock.forEach((child, offset) => {
+        const runProperties = formatRunProperties(child.marks);
+
+        if (child.isText) {
+            runs.push(formatTextRun(child.text ?? "", runProperties));
+            return;
+        }
+
+        if (isHardBreakNode(child)) {
+            runs.push(formatXMLElement("w:r", {}, runProperties + formatXMLElement("w:br")));
+            return;
+        }
+
+        const fieldType = getPageNumberFieldType(child);
+        if (fieldType) {
+            // The field result is the value when exported; Word updates it as it lays out the pages
+            const value = getPageNumberFieldValue(context.doc, pos + 1 + offset, fieldType, context.formattedPageNumbers);
+            const instruction = ` ${DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS[fieldType]} \\* MERGEFORMAT `;
+            runs.push(formatXMLElement("w:fldSimple", { "w:instr": instruction }, formatTextRun(value, runProperties)));
+            return;
+        }
+
+        const leafText = child.type.spec.leafText?.(child);
+        if (leafText) {
+            runs.push(formatTextRun(leafText, runProperties));
+        }
+    });
+
+    return runs.join("");
+};
+
+/**
+ * Format a textblock as a paragraph. Headings are given Word's heading styles.
+ *
+ * @param textblock - The textblock node.
+ * @param pos - The position of the textblock in the document.
+ * @param context - The format context.
+ * @returns {string} The `w:p` element.
+ */
+const formatParagraph = (textblock: PMNode, pos: number, context: DocxFormatContext): string => {
+    const paragraphProperties: string[] = [];
+    if (textblock.type.name === "heading" && typeof textblock.attrs.level === "number") {
+        paragraphProperties.push(formatXMLElement("w:pStyle", { "w:val": `Heading${textblock.attrs.level}` }));
+    }
+
+    const justification = TEXT_ALIGN_JUSTIFICATIONS[textblock.attrs.textAlign];
+    if (justification) {
+        paragraphProperties.push(formatXMLElement("w:jc", { "w:val": justification }));
+    }
+
+    const properties = paragraphProperties.length > 0 ? formatXMLElement("w:pPr", {}, paragraphProperties.join("")) : "";
+    return formatXMLElement("w:p", {}, properties + formatInlineContent(textblock, pos, context));
+};
+
+/**
+ * Format a paragraph containing only a break of the given type.
+ *
+ * @param breakType - The Word break type, e.g. "page".
+ * @returns {string} The `w:p` element.
+ */
+const formatBreakParagraph = (breakType: string): string => {
+    return formatXMLElement("w:p", {}, formatXMLElement("w:r", {}, formatXMLElement("w:br", { "w:type": breakType })));
+};
+
+/**
+ * Format a table node as a Word table, with its columns spread evenly across the body.
+ *
+ * @param table - The table node.
+ * @param pos - The position of the table in the document.
+ * @param context - The format context.
+ * @returns {string} The `w:tbl` element.
+ */
+const formatTable = (table: PMNode, pos: number, context: DocxFormatContext): string => {
+    const getColspan = (cell: PMNode): number => Math.max(Number(cell.attrs.colspan) || 1, 1);
+
+    let columnCount = 1;
+    table.forEach((row) => {
+        let rowColumnCount = 0;
+        row.forEach((cell) => (rowColumnCount += getColspan(cell)));
+        columnCount = Math.max(columnCount, rowColumnCount);
+    });
+
+    const columnWidth = Math.floor(context.contentWidth / columnCount);
+    const borders = ["top", "left", "bottom", "right", "insideH", "insideV"]
+        .map((side) => formatXMLElement(`w:${side}`, { "w:val": "single", "w:sz": 4, "w:space": 0, "w:color": "auto" }))
+        .join("");
+    const tableProperties = formatXMLElement(
+        "w:tblPr",
+        {},
+        formatXMLElement("w:tblW", { "w:w": columnWidth * columnCount, "w:type": "dxa" }) + formatXMLElement("w:tblBorders", {}, borders)
+    );
+    const tableGrid = formatXMLElement("w:tblGrid", {}, formatXMLElement("w:gridCol", { "w:w": columnWidth }).repeat(columnCount));
+
+    const rows: string[] = [];
+    table.forEach((row, rowOffset) => {
+        const rowPos = pos + 1 + rowOffset;
+        const cells: string[] = [];
+        row.forEach((cell, cellOffset) => {
+            const colspan = getColspan(cell);
+            const cellProperties = [formatXMLElement("w:tcW", { "w:w": columnWidth * colspan, "w:type": "dxa" })];
+            if (colspan > 1) {
+                cellProperties.push(formatXMLElement("w:gridSpan", { "w:val": colspan }));
+            }
+
+            // Table cells must end with a paragraph
+            const content = formatBlockContent(cell, rowPos + 1 + cellOffset, context);
+            const paragraph = content.endsWith("</w:p>") ? "" : formatXMLElement("w:p");
+            cells.push(formatXMLElement("w:tc", {}, formatXMLElement("w:tcPr", {}, cellProperties.join("")) + content + paragraph));
+        });
+
+        rows.push(formatXMLElement("w:tr", {}, cells.join("")));
+    });
+
+    return formatXMLElement("w:tbl", {}, tableProperties + tableGrid + rows.join(""));
+};
+
+/**
+ * Format a block node as Word body content. Containers such as lists and blockquotes are
+ * flattened into their paragraphs, and leaf blocks without a Word equivalent are dropped.
+ *
+ * @param node - The block node.
+ * @param pos - The position of the node in the document.
+ * @param context - The format context.
+ * @returns {string} The Word body content.
+ */
+const formatBlockNode = (node: PMNode, pos: number, context: DocxFormatContext): string => {
+    if (isSectionBreakNode(node)) {
+        // Sections are ended by the section properties written after their content
+        return "";
+    }
+
+    if (isPageBreakNode(node)) {
+        return formatBreakParagraph("page");
+    }
+
+    if (isColumnBreakNode(node)) {
+        return formatBreakParagraph("column");
+    }
+
+    if (node.isTextblock) {
+        return formatParagraph(node, pos, context);
+    }
+
+    if (node.type.spec.tableRole === "table") {
+        return formatTable(node, pos, context);
+    }
+
+    if (node.type.name === "horizontalRule") {
+        const bottomBorder = formatXMLElement("w:bottom", { "w:val": "single", "w:sz": 6, "w:space": 1, "w:color": "auto" });
+        return formatXMLElement("w:p", {}, formatXMLElement("w:pPr", {}, formatXMLElement("w:pBdr", {}, bottomBorder)));
+    }
+
+    return node.isLeaf ? "" : formatBlockContent(node, pos, context);
+};
+
+/**
+ * Format the block children of a node as Word body content.
+ *
+ * @param node - The parent node.
+ * @param pos - The position of the parent node in the document.
+ * @param context - The format context.
+ * @returns {string} The Word body content.
+ */
+const formatBlockContent = (node: PMNode, pos: number, context: DocxFormatContext): string => {
+    const content: string[] = [];
+    node.forEach((child, offset) => {
+        content.push(formatBlockNode(child, pos + 1 + offset, context));
+    });
+
+    return content.join("");
+};
+
+/**
+ * Collect the sections of a paginated document. Nodes split across pages are rejoined, and
+ * the first header and footer of each type and variant in a section is taken as its content.
+ *
+ * @param doc - The paginated document node.
+ * @returns {DocxSection[]} The sections of the document, in document order.
+ */
+const collectDocxSections = (doc: PMNode): DocxSection[] => {
+    const sections: DocxSection[] = [];
+    let currentSectionIndex: Nullable<number> = null;
+
+    doc.forEach((pageNode, pageOffset) => {
+        if (!isPageNode(pageNode)) return;
+
+        const sectionIndex = getPageNodeSection(pageNode);
+        if (sectionIndex !== currentSectionIndex || sections.length === 0) {
+            sections.push({ properties: getPageSectionProperties(pageNode), content: [], headerFooters: new Map() });
+            currentSectionIndex = sectionIndex;
+        }
+
+        const section = sections[sections.length - 1];
+        pageNode.forEach((regionNode, regionOffset) => {
+            if (!isHeaderFooterNode(regionNode)) return;
+
+            const key = `${getHeaderFooterNodeType(regionNode)}:${getHeaderFooterNodeVariant(regionNode)}`;
+            if (!section.headerFooters.has(key)) {
+                section.headerFooters.set(key, { node: regionNode, pos: pageOffset + 1 + regionOffset });
+            }
+        });
+
+        const { node: bodyNode, pos: bodyPos } = getPageRegionNodeAndPos(pageOffset, pageNode, "body");
+        bodyNode?.forEach((child, offset) => {
+            const previous = section.content[section.content.length - 1];
+            if (previous && isContinuationOf(child, previous.node)) {
+                previous.node = joinSplitNodes(previous.node, child);
+            } else {
+                section.content.push({ node: child, pos: bodyPos + 1 + offset });
+            }
+        });
+    });
+
+    return sections;
+};
+
+/**
+ * Format the relationships of a part of a DOCX package.
+ *
+ * @param relationships - The relationships of the part.
+ * @returns {string} The relationships part.
+ */
+const formatRelationships = (relationships: DocxRelationship[]): string => {
+    const content = relationships
+        .map(({ id, type, target }) => formatXMLElement("Relationship", { Id: id, Type: type, Target: target }))
+        .join("");
+
+    return formatXMLPart(formatXMLElement("Relationships", { xmlns: DOCX_NAMESPACES.packageRelationships }, content));
+};
+
+/**
+ * Format a colour as a Word colour, i.e. hexadecimal without a leading "#".
+ *
+ * @param colour - The colour.
+ * @returns {Nullable<string>} The Word colour or null if the colour cannot be parsed.
+ */
+const formatDocxColour = (colour: string): Nullable<string> => {
+    const channels = parseColour(colour);
+    if (!channels) {
+        return null;
+    }
+
+    return [channels.red, channels.green, channels.blue].map((channel) => channel.toString(16).padStart(2, "0").toUpperCase()).join("");
+};
+
+/**
+ * Export a paginated document as a Word (DOCX) document. Each section of the document
+ * becomes a Word section with the paper size, orientation, margins, page borders, columns,
+ * page numbering and headers and footers of its pages. Text, headings, tables, breaks and
+ * page number fields are exported; content without a Word equivalent is dropped.
+ *
+ * @param doc - The paginated document node.
+ * @param options - The export options.
+ * @returns {Uint8Array} The bytes of the DOCX file.
+ */
+export const exportDocx = (doc: PMNode, options: DocxExportOptions = {}): Uint8Array => {
+    const sections = collectDocxSections(doc);
+    const formattedPageNumbers = buildFormattedPageNumbers(doc);
+    const namespaces = { "xmlns:w": DOCX_NAMESPACES.main, "xmlns:r": DOCX_NAMESPACES.relationships };
+
+    const documentRelationships: DocxRelationship[] = [{ id: "rId1", type: DOCX_RELATIONSHIP_TYPES.settings, target: "settings.xml" }];
+    const headerFooterParts = new Map<string, string>();
+    const partIds = new Map<string, string>();
+
+    const { pageAmendmentOptions = {} } = options;
+    const body = sections.map((section, index) => {
+        const { properties } = section;
+        const { width } = getPaperDimensions(properties.paperSize, properties.paperOrientation, options.customPaperSizes);
+        const contentWidth = mmToTwips(width - properties.pageMargins.left - properties.pageMargins.right);
+        const context: DocxFormatContext = { doc, contentWidth, formattedPageNumbers };
+
+        const headerFooterReferences: DocxHeaderFooterReference[] = [];
+        section.headerFooters.forEach(({ node, pos }) => {
+            const type = getHeaderFooterNodeType(node) ?? "header";
+            const rootName = type === "header" ? "w:hdr" : "w:ftr";
+            const content = formatBlockContent(node, pos, context);
+            const part = formatXMLPart(formatXMLElement(rootName, namespaces, content || formatXMLElement("w:p")));
+
+            // Sections with the same header or footer share its part
+            let id = partIds.get(part);
+            if (!id) {
+                id = `rId${documentRelationships.length + 1}`;
+                const target = `${type}${[...headerFooterParts.keys()].filter((path) => path.startsWith(type)).length + 1}.xml`;
+                documentRelationships.push({ id, type: DOCX_RELATIONSHIP_TYPES[type], target });
+                headerFooterParts.set(target, part);
+                partIds.set(part, id);
+            }
+
+            headerFooterReferences.push({ type, variant: getHeaderFooterNodeVariant(node), id });
+        });
+
+        const differentFirstPage = properties.differentFirstPage ?? pageAmendmentOptions.differentFirstPage ?? false;
+        const sectionProperties = formatSectionProperties(
+            { ...properties, differentFirstPage, headerFooterReferences },
+            options.customPaperSizes
+        );
+        const content = section.content.map(({ node, pos }) => formatBlockNode(node, pos, context)).join("");
+
+        // The properties of each section but the last are held by its last paragraph
+        const isLastSection = index === sections.length - 1;
+        return isLastSection
+            ? content + sectionProperties
+            : content + formatXMLElement("w:p", {}, formatXMLElement("w:pPr", {}, sectionProperties));
+    });
+
+    const firstPage = doc.firstChild;
+    const paperColour = firstPage && isPageNode(firstPage) ? getPageNodePaperColour(firstPage) : null;
+    const backgroundColour = paperColour && paperColour !== DEFAULT_PAPER_COLOUR ? formatDocxColour(paperColour) : null;
+    const background = backgroundColour ? formatXMLElement("w:background", { "w:color": backgroundColour }) : "";
+    const documentPart = formatXMLPart(
+        formatXMLElement("w:document", namespaces, background + formatXMLElement("w:body", {}, body.join("")))
+    );
+
+    // Even pages having their own header and footer is a setting of the whole document in Word
+    const differentOddEven =
+        (firstPage && isPageNode(firstPage) ? getPageNodeDifferentOddEven(firstPage) : null) ??
+        pageAmendmentOptions.differentOddEven ??
+        false;
+    const settings = [
+        backgroundColour ? formatXMLElement("w:displayBackgroundShape") : "",
+        differentOddEven ? formatXMLElement("w:evenAndOddHeaders") : "",
+    ];
+    const settingsPart = formatXMLPart(formatXMLElement("w:settings", { "xmlns:w": DOCX_NAMESPACES.main }, settings.join("")));
+
+    const corePropertiesPart = formatXMLPart(
+        formatXMLElement(
+            "cp:coreProperties",
+            { "xmlns:cp": DOCX_NAMESPACES.coreProperties, "xmlns:dc": DOCX_NAMESPACES.dublinCore },
+            formatXMLElement("dc:title", {}, formatXMLText(options.title ?? ""))
+        )
+    );
+
+    const contentTypeOverrides: [string, string][] = [
+        [`/${DOCX_DEFAULT_DOCUMENT_PATH}`, DOCX_CONTENT_TYPES.document],
+        ["/word/settings.xml", DOCX_CONTENT_TYPES.settings],
+        ["/docProps/core.xml", DOCX_CONTENT_TYPES.coreProperties],
+        ...[...headerFooterParts.keys()].map((path): [string, string] => [
+            `/word/${path}`,
+            path.startsWith("header") ? DOCX_CONTENT_TYPES.header : DOCX_CONTENT_TYPES.footer,
+        ]),
+    ];
+    const contentTypesPart = formatXMLPart(
+        formatXMLElement(
+            "Types",
+            { xmlns: DOCX_NAMESPACES.contentTypes },
+            [
+                formatXMLElement("Default", { Extension: "rels", ContentType: DOCX_CONTENT_TYPES.relationships }),
+                formatXMLElement("Default", { Extension: "xml", ContentType: DOCX_CONTENT_TYPES.xml }),
+                ...contentTypeOverrides.map(([partName, contentType]) =>
+                    formatXMLElement("Override", { PartName: partName, ContentType: contentType })
+                ),
+            ].join("")
+        )
+    );
+
+    const packageRelationships: DocxRelationship[] = [
+        { id: "rId1", type: DOCX_RELATIONSHIP_TYPES.officeDocument, target: DOCX_DEFAULT_DOCUMENT_PATH },
+        { id: "rId2", type: DOCX_RELATIONSHIP_TYPES.coreProperties, target: "docProps/core.xml" },
+    ];
+
+    const encoder = new TextEncoder();
+    const parts = new Map<string, string>([
+        ["[Content_Types].xml", contentTypesPart],
+        ["_rels/.rels", formatRelationships(packageRelationships)],
+        ["docProps/core.xml", corePropertiesPart],
+        [DOCX_DEFAULT_DOCUMENT_PATH, documentPart],
+        ["word/_rels/document.xml.rels", formatRelationships(documentRelationships)],
+        ["word/settings.xml", settingsPart],
+        ...[...headerFooterParts].map(([path, part]): [string, string] => [`word/${path}`, part]),
+    ]);
+
+    return writeZip(new Map([...parts].map(([path, part]) => [path, encoder.encode(part)])));
+};
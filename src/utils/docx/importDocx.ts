@@ -0,0 +1,562 @@
+/**
+ * @file /src/utils/docx/importDocx.ts
+ * @name ImportDocx
+ * @description Utility functions for importing Word (DOCX) documents as paginated documents.
+ */
+
+import { Attrs, Mark, Node as PMNode, NodeType, Schema } from "@tiptap/pm/model";
+import {
+    DOCX_DEFAULT_DOCUMENT_PATH,
+    DOCX_MARK_RUN_PROPERTIES,
+    DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS,
+    DOCX_RELATIONSHIP_TYPES,
+} from "../../constants/docx";
+import { PAGE_NUMBER_FIELD_NODE_NAMES } from "../../constants/pageNumberField";
+import { PAGE_BREAK_NODE_NAME } from "../../constants/pageBreak";
+import { COLUMN_BREAK_NODE_NAME } from "../../constants/columnBreak";
+import { SECTION_BREAK_NODE_NAME } from "../../constants/sectionBreak";
+import { HEADER_FOOTER_DEFAULT_ATTRIBUTES } from "../../constants/pageRegions";
+import { DocxSectionProperties, XMLElement } from "../../types/docx";
+import { HeaderFooter } from "../../types/pageRegions";
+import { PageNumberFieldType } from "../../types/pageNumberField";
+import { Nullable } from "../../types/record";
+import { SectionAttributes } from "../../types/section";
+import { getPaginationNodeTypes } from "../pagination";
+import { parseSectionProperties } from "./sectionProperties";
+import { getXMLChild, getXMLChildren, isXMLElement, isXMLPropertyOn, parseXML } from "./xml";
+import { readZip } from "./zip";
+
+/**
+ * A complex field (`w:fldChar`) being read.
+ */
+type DocxField = {
+    instruction: string;
+
+    /**
+     * Whether the field's result, which follows its instruction, is being read.
+     */
+    isResult: boolean;
+
+    /**
+     * The page number field the field was imported as, if any.
+     */
+    fieldType: Nullable<PageNumberFieldType>;
+};
+
+/**
+ * The state shared while parsing the content of a DOCX package.
+ */
+type DocxParseContext = {
+    schema: Schema;
+    field: Nullable<DocxField>;
+};
+
+/**
+ * The content of a Word section and its page setup.
+ */
+type DocxImportSection = {
+    properties: DocxSectionProperties;
+    content: PMNode[];
+};
+
+const JUSTIFICATION_TEXT_ALIGNS: Record<string, string> = {
+    left: "left",
+    start: "left",
+    center: "center",
+    right: "right",
+    end: "right",
+    both: "justify",
+    distribute: "justify",
+};
+
+/**
+ * Get the page number field of a Word field instruction.
+ *
+ * @param instruction - The field instruction, e.g. " PAGE \* MERGEFORMAT ".
+ * @param schema - The schema of the document.
+ * @returns {Nullable<PageNumberFieldType>} The page number field type or null if the field is not
+ * a page number field or the schema has no node for it.
+ */
+const getInstructionFieldType = (instruction: string, schema: Schema): Nullable<PageNumberFieldType> => {
+    const [fieldName] = instruction.trim().split(/\s+/);
+    const fieldTypes = Object.keys(DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS) as PageNumberFieldType[];
+    const fieldType = fieldTypes.find((type) => DOCX_PAGE_NUMBER_FIELD_INSTRUCTIONS[type] === fieldName?.toUpperCase());
+
+    return fieldType && schema.nodes[PAGE_NUMBER_FIELD_NODE_NAMES[fieldType]] ? fieldType : null;
+};
+
+/**
+ * Get the text of an element, i.e. the text of its text children.
+ *
+ * @param element - The element.
+ * @returns {string} The text.
+ */
+const getXMLText = (element: XMLElement): string => {
+    return element.children.filter((child): child is string => !isXMLElement(child)).join("");
+};
+
+/**
+ * Parse the marks of a run from its run properties. Properties without a mark in the schema are dropped.
+ *
+ * @param runProperties - The `w:rPr` element, if any.
+ * @param schema - The schema of the document.
+ * @returns {Mark[]} The marks of the run.
+ */
+const parseRunMarks = (runProperties: Nullable<XMLElement>, schema: Schema): Mark[] => {
+    return Object.entries(DOCX_MARK_RUN_PROPERTIES).flatMap(([markName, property]) => {
+        const markType = schema.marks[markName];
+        return markType && isXMLPropertyOn(getXMLChild(runProperties, property)) ? [markType.create()] : [];
+    });
+};
+
+/**
+ * Parse a break in a run. Page and column breaks become block nodes, which split the
+ * paragraph they are in, and other breaks become hard breaks.
+ *
+ * @param breakElement - The `w:br` or `w:cr` element.
+ * @param schema - The schema of the document.
+ * @returns {Nullable<PMNode>} The break node or null if the schema has no node for it.
+ */
+const parseBreak = (breakElement: XMLElement, schema: Schema): Nullable<PMNode> => {
+    const breakType = breakElement.attributes["w:type"];
+    const nodeName = breakType === "page" ? PAGE_BREAK_NODE_NAME : breakType === "column" ? COLUMN_BREAK_NODE_NAME : "hardBreak";
+
+    return schema.nodes[nodeName]?.create() ?? null;
+};
+
+/**
+ * Parse a run of text. Page number fields are imported as field nodes in place of their result.
+ *
+ * @param runElement - The `w:r` element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The inline nodes of the run, and any page or column breaks.
+ */
+const parseRun = (runElement: XMLElement, context: DocxParseContext): PMNode[] => {
+    const { schema } = context;
+    const marks = parseRunMarks(getXMLChild(runElement, "w:rPr"), schema);
+    const nodes: PMNode[] = [];
+
+    const pushText = (text: string): void => {
+        if (text.length > 0) {
+            nodes.push(schema.text(text, marks));
+        }
+    };
+
+    runElement.children.filter(isXMLElement).forEach((child) => {
+        const { field } = context;
+
+        if (child.name === "w:fldChar") {
+            const fieldCharType = child.attributes["w:fldCharType"];
+            if (fieldCharType === "begin") {
+                context.field = { instruction: "", isResult: false, fieldType: null };
+            } else if (field && !field.isResult && (fieldCharType === "separate" || fieldCharType === "end")) {
+                field.isResult = true;
+                field.fieldType = getInstructionFieldType(field.instruction, schema);
+                if (field.fieldType) {
+                    nodes.push(schema.nodes[PAGE_NUMBER_FIELD_NODE_NAMES[field.fieldType]].create(null, null, marks));
+                }
+            }
+
+            if (fieldCharType === "end") {
+                context.field = null;
+            }
+
+            return;
+        }
+
+        if (field && !field.isResult) {
+            if (child.name === "w:instrText") {
+                field.instruction += getXMLText(child);
+            }
+
+            return;
+        }
+
+        if (field?.fieldType) {
+            // The result of a page number field is replaced by the field node
+            return;
+        }
+
+        switch (child.name) {
+            case "w:t":
+                pushText(getXMLText(child));
+                break;
+            case "w:tab":
+                pushText("\t");
+                break;
+            case "w:noBreakHyphen":
+                pushText("-");
+                break;
+            case "w:br":
+            case "w:cr": {
+                const breakNode = parseBreak(child, schema);
+                if (breakNode) nodes.push(breakNode);
+                break;
+            }
+        }
+    });
+
+    return nodes;
+};
+
+/**
+ * Parse the runs of an element of paragraph content, such as a paragraph or hyperlink.
+ * Deleted content is skipped.
+ *
+ * @param element - The element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The inline nodes of the runs, and any page or column breaks.
+ */
+const parseRunContent = (element: XMLElement, context: DocxParseContext): PMNode[] => {
+    return element.children.filter(isXMLElement).flatMap((child) => {
+        switch (child.name) {
+            case "w:r":
+                return parseRun(child, context);
+            case "w:fldSimple": {
+                const fieldType = getInstructionFieldType(child.attributes["w:instr"] ?? "", context.schema);
+                if (!fieldType) {
+                    return parseRunContent(child, context);
+                }
+
+                const marks = parseRunMarks(getXMLChild(getXMLChild(child, "w:r"), "w:rPr"), context.schema);
+                return [context.schema.nodes[PAGE_NUMBER_FIELD_NODE_NAMES[fieldType]].create(null, null, marks)];
+            }
+            case "w:sdt":
+                return parseRunContent(getXMLChild(child, "w:sdtContent") ?? child, context);
+            case "w:hyperlink":
+            case "w:ins":
+            case "w:smartTag":
+            case "w:customXml":
+                return parseRunContent(child, context);
+            default:
+                return [];
+        }
+    });
+};
+
+/**
+ * Get the node type and attributes of the textblock a paragraph is imported as. Paragraphs
+ * with Word's heading styles become headings if the schema has them.
+ *
+ * @param paragraphProperties - The `w:pPr` element, if any.
+ * @param schema - The schema of the document.
+ * @returns The node type and attributes of the textblock.
+ */
+const getTextblockTypeAndAttributes = (paragraphProperties: Nullable<XMLElement>, schema: Schema): { type: NodeType; attrs: Attrs } => {
+    const style = getXMLChild(paragraphProperties, "w:pStyle")?.attributes["w:val"] ?? "";
+    const headingLevel = style.toLowerCase() === "title" ? "1" : style.match(/^heading\s?([1-6])$/i)?.[1];
+    const headingType = schema.nodes.heading;
+
+    const type = headingLevel && headingType ? headingType : schema.nodes.paragraph;
+    const attrs: Record<string, unknown> = type === headingType ? { level: Number(headingLevel) } : {};
+
+    const textAlign = JUSTIFICATION_TEXT_ALIGNS[getXMLChild(paragraphProperties, "w:jc")?.attributes["w:val"] ?? ""];
+    if (textAlign && "textAlign" in (type.spec.attrs ?? {})) {
+        attrs.textAlign = textAlign;
+    }
+
+    return { type, attrs };
+};
+
+/**
+ * Parse a paragraph. Page and column breaks within the paragraph split it around them.
+ * Empty paragraphs which only hold the properties of a section are dropped.
+ *
+ * @param paragraphElement - The `w:p` element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The block nodes of the paragraph.
+ */
+const parseParagraph = (paragraphElement: XMLElement, context: DocxParseContext): PMNode[] => {
+    const paragraphProperties = getXMLChild(paragraphElement, "w:pPr");
+    const { type, attrs } = getTextblockTypeAndAttributes(paragraphProperties, context.schema);
+    const isSectionCarrier = !!getXMLChild(paragraphProperties, "w:sectPr");
+
+    const blocks: PMNode[] = [];
+    let inlineNodes: PMNode[] = [];
+    const endTextblock = (): void => {
+        blocks.push(type.createAndFill(attrs, inlineNodes) ?? type.create(attrs));
+        inlineNodes = [];
+    };
+
+    parseRunContent(paragraphElement, context).forEach((node) => {
+        if (!node.isBlock) {
+            inlineNodes.push(node);
+            return;
+        }
+
+        if (inlineNodes.length > 0) {
+            endTextblock();
+        }
+
+        blocks.push(node);
+    });
+
+    if (inlineNodes.length > 0 || (blocks.length === 0 && !isSectionCarrier)) {
+        endTextblock();
+    }
+
+    return blocks;
+};
+
+/**
+ * Parse a table. Tables become table nodes if the schema has them, otherwise their cells' content is kept.
+ *
+ * @param tableElement - The `w:tbl` element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The block nodes of the table.
+ */
+const parseTable = (tableElement: XMLElement, context: DocxParseContext): PMNode[] => {
+    const tableNodeTypes = Object.values(context.schema.nodes);
+    const getTableNodeType = (tableRole: string): NodeType | undefined => tableNodeTypes.find((type) => type.spec.tableRole === tableRole);
+    const tableType = getTableNodeType("table");
+    const rowType = getTableNodeType("row");
+    const cellType = getTableNodeType("cell");
+
+    const rows = getXMLChildren(tableElement, "w:tr").map((rowElement) =>
+        getXMLChildren(rowElement, "w:tc").map((cellElement) => {
+            const colspan = Number(getXMLChild(getXMLChild(cellElement, "w:tcPr"), "w:gridSpan")?.attributes["w:val"]) || 1;
+            return { colspan, content: parseBlockContent(cellElement, context) };
+        })
+    );
+
+    if (!tableType || !rowType || !cellType) {
+        return rows.flatMap((cells) => cells.flatMap(({ content }) => content));
+    }
+
+    const rowNodes = rows.flatMap((cells) => {
+        const cellNodes = cells.flatMap(({ colspan, content }) => {
+            const attrs = colspan > 1 && "colspan" in (cellType.spec.attrs ?? {}) ? { colspan } : null;
+            return cellType.createAndFill(attrs, content) ?? [];
+        });
+
+        return cellNodes.length > 0 ? [rowType.create(null, cellNodes)] : [];
+    });
+
+    return rowNodes.length > 0 ? [tableType.create(null, rowNodes)] : [];
+};
+
+/**
+ * Parse a block element of Word body content.
+ *
+ * @param element - The block element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The block nodes of the element.
+ */
+const parseBlockElement = (element: XMLElement, context: DocxParseContext): PMNode[] => {
+    switch (element.name) {
+        case "w:p":
+            return parseParagraph(element, context);
+        case "w:tbl":
+            return parseTable(element, context);
+        case "w:sdt":
+            return parseBlockContent(getXMLChild(element, "w:sdtContent") ?? element, context);
+        case "w:customXml":
+            return parseBlockContent(element, context);
+        default:
+            return [];
+    }
+};
+
+/**
+ * Parse the block children of an element, e.g. a table cell or header.
+ *
+ * @param element - The parent element.
+ * @param context - The parse context.
+ * @returns {PMNode[]} The block nodes.
+ */
+const parseBlockContent = (element: XMLElement, context: DocxParseContext): PMNode[] => {
+    return element.children.filter(isXMLElement).flatMap((child) => parseBlockElement(child, context));
+};
+
+/**
+ * Parse the sections of a Word document body. Each section ends with the paragraph holding
+ * its properties, except the last, whose properties end the body.
+ *
+ * @param bodyElement - The `w:body` element.
+ * @param context - The parse context.
+ * @returns {DocxImportSection[]} The sections of the document, in document order.
+ */
+const parseSections = (bodyElement: XMLElement, context: DocxParseContext): DocxImportSection[] => {
+    const sections: DocxImportSection[] = [];
+    let content: PMNode[] = [];
+    let lastSectionElement: XMLElement = { name: "w:sectPr", attributes: {}, children: [] };
+
+    bodyElement.children.filter(isXMLElement).forEach((child) => {
+        if (child.name === "w:sectPr") {
+            lastSectionElement = child;
+            return;
+        }
+
+        content.push(...parseBlockElement(child, context));
+
+        const sectionElement = child.name === "w:p" ? getXMLChild(getXMLChild(child, "w:pPr"), "w:sectPr") : null;
+        if (sectionElement) {
+            sections.push({ properties: parseSectionProperties(sectionElement), content });
+            content = [];
+        }
+    });
+
+    sections.push({ properties: parseSectionProperties(lastSectionElement), content });
+    return sections;
+};
+
+/**
+ * Resolve the target of a relationship to the path of a part of the package.
+ *
+ * @param sourcePath - The path of the part the relationship is from.
+ * @param target - The target of the relationship.
+ * @returns {string} The path of the target part.
+ */
+const resolvePartPath = (sourcePath: string, target: string): string => {
+    const segments = target.startsWith("/") ? [] : sourcePath.split("/").slice(0, -1);
+    target
+        .split("/")
+        .filter((segment) => segment.length > 0 && segment !== ".")
+        .forEach((segment) => (segment === ".." ? segments.pop() : segments.push(segment)));
+
+    return segments.join("/");
+};
+
+/**
+ * Read the relationships of a part of a DOCX package.
+ *
+ * @param entries - The entries of the package.
+ * @param sourcePath - The path of the part, or "" for the package itself.
+ * @returns The relationships, with their targets resolved to part paths, keyed by id.
+ */
+const readRelationships = (entries: Map<string, Uint8Array>, sourcePath: string): Map<string, { type: string; path: string }> => {
+    const separatorIndex = sourcePath.lastIndexOf("/");
+    const relationshipsPath = `${sourcePath.slice(0, separatorIndex + 1)}_rels/${sourcePath.slice(separatorIndex + 1)}.rels`;
+    const relationshipsElement = readXMLPart(entries, relationshipsPath);
+    const relationships = new Map<string, { type: string; path: string }>();
+
+    if (relationshipsElement) {
+        getXMLChildren(relationshipsElement, "Relationship").forEach(({ attributes }) => {
+            if (attributes.TargetMode === "External") return;
+
+            relationships.set(attributes.Id, { type: attributes.Type, path: resolvePartPath(sourcePath, attributes.Target ?? "") });
+        });
+    }
+
+    return relationships;
+};
+
+/**
+ * Read and parse an XML part of a DOCX package.
+ *
+ * @param entries - The entries of the package.
+ * @param path - The path of the part.
+ * @returns {Nullable<XMLElement>} The root element of the part or null if the package has no such part.
+ */
+const readXMLPart = (entries: Map<string, Uint8Array>, path: string): Nullable<XMLElement> => {
+    const data = entries.get(path);
+    return data ? parseXML(new TextDecoder().decode(data)) : null;
+};
+
+/**
+ * Import a Word (DOCX) document as a paginated document. Each Word section becomes a page
+ * with the section's paper size, orientation, page borders and page numbering, a body with
+ * its margins and columns, and a header and footer with its default header and footer, with
+ * section breaks between sections. Paper sizes without a name become custom sizes. The
+ * document should be repaginated once it is loaded into the editor.
+ *
+ * @param data - The bytes of the DOCX file.
+ * @param schema - The schema of the editor, which must include the pagination nodes.
+ * @returns {PMNode} The document node.
+ * @throws An error if the data is not a DOCX document.
+ */
+export const importDocx = (data: Uint8Array, schema: Schema): PMNode => {
+    const entries = readZip(data);
+    const packageRelationships = readRelationships(entries, "");
+    const documentPath =
+        [...packageRelationships.values()].find(({ type }) => type === DOCX_RELATIONSHIP_TYPES.officeDocument)?.path ??
+        DOCX_DEFAULT_DOCUMENT_PATH;
+
+    const documentElement = readXMLPart(entries, documentPath);
+    const bodyElement = getXMLChild(documentElement, "w:body");
+    if (!bodyElement) {
+        throw new Error("Not a DOCX document: no document body found.");
+    }
+
+    const context: DocxParseContext = { schema, field: null };
+    const documentRelationships = readRelationships(entries, documentPath);
+    const { pageNodeType, headerFooterNodeType, bodyNodeType, paragraphNodeType } = getPaginationNodeTypes(schema);
+    const sectionBreakNodeType: NodeType | undefined = schema.nodes[SECTION_BREAK_NODE_NAME];
+
+    const settingsPath = [...documentRelationships.values()].find(({ type }) => type === DOCX_RELATIONSHIP_TYPES.settings)?.path;
+    const settingsElement = settingsPath ? readXMLPart(entries, settingsPath) : null;
+    const differentOddEven = isXMLPropertyOn(getXMLChild(settingsElement, "w:evenAndOddHeaders"));
+
+    const backgroundColour = getXMLChild(documentElement, "w:background")?.attributes["w:color"];
+    const paperColour = backgroundColour && /^[0-9a-f]{6}$/i.test(backgroundColour) ? `#${backgroundColour.toLowerCase()}` : null;
+
+    // Without section breaks, the document is imported as a single section with the page setup of the first
+    const parsedSections = parseSections(bodyElement, context);
+    const sections = sectionBreakNodeType
+        ? parsedSections
+        : [{ properties: parsedSections[0].properties, content: parsedSections.flatMap(({ content }) => content) }];
+
+    // The header and footer variant settings apply to the whole document, so are taken from the first section
+    const { differentFirstPage } = sections[0].properties;
+
+    // Sections without a header or footer of their own continue those of the section before
+    const headerFooterContent: Record<HeaderFooter, PMNode[]> = { header: [], footer: [] };
+
+    const getSectionAttributes = ({ properties }: DocxImportSection): SectionAttributes => ({
+        paperSize: properties.paperSize,
+        paperColour,
+        paperOrientation: properties.paperOrientation,
+        pageBorders: properties.pageBorders,
+        pageMargins: properties.pageMargins,
+        columns: properties.columns,
+        pageNumberFormat: properties.pageNumberFormat,
+        pageNumberStart: properties.pageNumberStart,
+    });
+
+    const pageNodes = sections.map((section, index) => {
+        const { properties } = section;
+        const { pageMargins, columns, ...pageAttributes } = getSectionAttributes(section);
+
+        const createHeaderFooter = (type: HeaderFooter): PMNode[] => {
+            if (!headerFooterNodeType) {
+                return [];
+            }
+
+            const reference = properties.headerFooterReferences.find((ref) => ref.type === type && ref.variant === "default");
+            const partPath = reference ? documentRelationships.get(reference.id)?.path : undefined;
+            const partElement = partPath ? readXMLPart(entries, partPath) : null;
+            if (partElement) {
+                headerFooterContent[type] = parseBlockContent(partElement, context);
+            }
+
+            const attrs = {
+                ...HEADER_FOOTER_DEFAULT_ATTRIBUTES,
+                type,
+                pageEndOffset: type === "header" ? properties.headerOffset : properties.footerOffset,
+                xMargins: { left: properties.pageMargins.left, right: properties.pageMargins.right },
+            };
+
+            const content = headerFooterContent[type].length > 0 ? headerFooterContent[type] : [paragraphNodeType.create()];
+            return [headerFooterNodeType.create(attrs, content)];
+        };
+
+        const bodyContent = section.content.length > 0 ? [...section.content] : [paragraphNodeType.create()];
+        const nextSection = sections[index + 1];
+        if (nextSection && sectionBreakNodeType) {
+            bodyContent.push(sectionBreakNodeType.create(getSectionAttributes(nextSection)));
+        }
+
+        const header = createHeaderFooter("header");
+        const body = bodyNodeType.create({ pageMargins, columns }, bodyContent);
+        const footer = createHeaderFooter("footer");
+
+        const pageAttrs: Record<string, unknown> = { ...pageAttributes, differentFirstPage, differentOddEven, section: index };
+        if (paperColour === null) {
+            delete pageAttrs.paperColour;
+        }
+
+        return pageNodeType.create(pageAttrs, [...header, body, ...footer]);
+    });
+
+    return schema.topNodeType.createChecked(null, pageNodes);
+};
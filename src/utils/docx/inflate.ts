@@ -0,0 +1,283 @@
+/**
+ * @file /src/utils/docx/inflate.ts
+ * @name Inflate
+ * @description Utility functions for decompressing deflated data, as found in DOCX packages.
+ */
+
+import {
+    DEFLATE_CODE_LENGTH_ORDER,
+    DEFLATE_DISTANCE_BASES,
+    DEFLATE_DISTANCE_EXTRA_BITS,
+    DEFLATE_LENGTH_BASES,
+    DEFLATE_LENGTH_EXTRA_BITS,
+    DEFLATE_MAX_CODE_LENGTH,
+} from "../../constants/zip";
+
+/**
+ * A canonical Huffman code: the number of codes of each length and the symbols in code order.
+ */
+type HuffmanTable = {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+};
+
+/**
+ * Reads the bits of deflated data, least significant bit first.
+ */
+type BitReader = {
+    readBits: (count: number) => number;
+    alignToByte: () => void;
+    readBytes: (count: number) => Uint8Array;
+};
+
+/**
+ * Create a reader of the bits of deflated data.
+ *
+ * @param data - The deflated data.
+ * @returns {BitReader} The bit reader.
+ * @throws An error if the data ends unexpectedly.
+ */
+const createBitReader = (data: Uint8Array): BitReader => {
+    let pos = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const readBits = (count: number): number => {
+        while (bitCount < count) {
+            if (pos >= data.length) {
+                throw new Error("Unexpected end of deflated data.");
+            }
+
+            bitBuffer |= data[pos++] << bitCount;
+            bitCount += 8;
+        }
+
+        const value = bitBuffer & ((1 << count) - 1);
+        bitBuffer >>>= count;
+        bitCount -= count;
+        return value;
+    };
+
+    const alignToByte = (): void => {
+        // Bits are only buffered a byte at a time, so the rest of the current byte is all that is buffered
+        bitBuffer = 0;
+        bitCount = 0;
+    };
+
+    const readBytes = (count: number): Uint8Array => {
+        if (pos + count > data.length) {
+            throw new Error("Unexpected end of deflated data.");
+        }
+
+        const bytes = data.subarray(pos, pos + count);
+        pos += count;
+        return bytes;
+    };
+
+    return { readBits, alignToByte, readBytes };
+};
+
+/**
+ * Build the canonical Huffman code with the given code lengths.
+ *
+ * @param lengths - The code length of each symbol, 0 if the symbol is unused.
+ * @returns {HuffmanTable} The Huffman code.
+ */
+const buildHuffmanTable = (lengths: ArrayLike<number>): HuffmanTable => {
+    const counts = new Uint16Array(DEFLATE_MAX_CODE_LENGTH + 1);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        counts[lengths[symbol]]++;
+    }
+
+    const offsets = new Uint16Array(DEFLATE_MAX_CODE_LENGTH + 1);
+    for (let length = 1; length < DEFLATE_MAX_CODE_LENGTH; length++) {
+        offsets[length + 1] = offsets[length] + counts[length];
+    }
+
+    const symbols = new Uint16Array(lengths.length);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        if (lengths[symbol] !== 0) {
+            symbols[offsets[lengths[symbol]]++] = symbol;
+        }
+    }
+
+    return { counts, symbols };
+};
+
+/**
+ * Decode the next symbol with a Huffman code.
+ *
+ * @param reader - The bit reader.
+ * @param table - The Huffman code.
+ * @returns {number} The decoded symbol.
+ * @throws An error if the bits are not a code of the table.
+ */
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= DEFLATE_MAX_CODE_LENGTH; length++) {
+        code |= reader.readBits(1);
+        const count = table.counts[length];
+        if (code - count < first) {
+            return table.symbols[index + (code - first)];
+        }
+
+        index += count;
+        first = (first + count) << 1;
+        code <<= 1;
+    }
+
+    throw new Error("Invalid Huffman code in deflated data.");
+};
+
+/**
+ * Build the fixed Huffman codes of the deflate format.
+ *
+ * @returns The fixed literal/length and distance codes.
+ */
+const buildFixedHuffmanTables = (): { literalTable: HuffmanTable; distanceTable: HuffmanTable } => {
+    const literalLengths = new Uint8Array(288);
+    literalLengths.fill(8, 0, 144);
+    literalLengths.fill(9, 144, 256);
+    literalLengths.fill(7, 256, 280);
+    literalLengths.fill(8, 280, 288);
+
+    return { literalTable: buildHuffmanTable(literalLengths), distanceTable: buildHuffmanTable(new Uint8Array(30).fill(5)) };
+};
+
+/**
+ * Read the Huffman codes of a dynamic deflate block.
+ *
+ * @param reader - The bit reader.
+ * @returns The literal/length and distance codes of the block.
+ * @throws An error if the code lengths are invalid.
+ */
+const readDynamicHuffmanTables = (reader: BitReader): { literalTable: HuffmanTable; distanceTable: HuffmanTable } => {
+    const literalCount = reader.readBits(5) + 257;
+    const distanceCount = reader.readBits(5) + 1;
+    const codeLengthCount = reader.readBits(4) + 4;
+
+    const codeLengthLengths = new Uint8Array(DEFLATE_CODE_LENGTH_ORDER.length);
+    for (let i = 0; i < codeLengthCount; i++) {
+        codeLengthLengths[DEFLATE_CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+    }
+
+    const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+        const symbol = decodeSymbol(reader, codeLengthTable);
+        if (symbol < 16) {
+            lengths[index++] = symbol;
+            continue;
+        }
+
+        let repeatedLength = 0;
+        let repeatCount: number;
+        if (symbol === 16) {
+            if (index === 0) {
+                throw new Error("Invalid code lengths in deflated data.");
+            }
+
+            repeatedLength = lengths[index - 1];
+            repeatCount = 3 + reader.readBits(2);
+        } else if (symbol === 17) {
+            repeatCount = 3 + reader.readBits(3);
+        } else {
+            repeatCount = 11 + reader.readBits(7);
+        }
+
+        if (index + repeatCount > lengths.length) {
+            throw new Error("Invalid code lengths in deflated data.");
+        }
+
+        lengths.fill(repeatedLength, index, index + repeatCount);
+        index += repeatCount;
+    }
+
+    return {
+        literalTable: buildHuffmanTable(lengths.subarray(0, literalCount)),
+        distanceTable: buildHuffmanTable(lengths.subarray(literalCount)),
+    };
+};
+
+/**
+ * Decompress raw deflated data (RFC 1951), e.g. an entry of a ZIP archive.
+ *
+ * @param data - The deflated data.
+ * @param size - The size of the decompressed data in bytes.
+ * @returns {Uint8Array} The decompressed data.
+ * @throws An error if the data is invalid or does not decompress to the given size.
+ */
+export const inflateRaw = (data: Uint8Array, size: number): Uint8Array => {
+    const reader = createBitReader(data);
+    const output = new Uint8Array(size);
+    let outputPos = 0;
+
+    const writeByte = (byte: number): void => {
+        if (outputPos >= size) {
+            throw new Error("Deflated data is larger than expected.");
+        }
+
+        output[outputPos++] = byte;
+    };
+
+    let isFinalBlock = false;
+    while (!isFinalBlock) {
+        isFinalBlock = reader.readBits(1) === 1;
+        const blockType = reader.readBits(2);
+
+        if (blockType === 0) {
+            reader.alignToByte();
+            const [lengthLow, lengthHigh] = reader.readBytes(4);
+            reader.readBytes(lengthLow | (lengthHigh << 8)).forEach(writeByte);
+            continue;
+        }
+
+        if (blockType === 3) {
+            throw new Error("Invalid block type in deflated data.");
+        }
+
+        const { literalTable, distanceTable } = blockType === 1 ? buildFixedHuffmanTables() : readDynamicHuffmanTables(reader);
+        for (;;) {
+            const symbol = decodeSymbol(reader, literalTable);
+            if (symbol < 256) {
+                writeByte(symbol);
+                continue;
+            }
+
+            if (symbol === 256) {
+                break;
+            }
+
+            // The extra bits of the length come before the distance code
+            const lengthCode = symbol - 257;
+            if (lengthCode >= DEFLATE_LENGTH_BASES.length) {
+                throw new Error("Invalid length in deflated data.");
+            }
+
+            const length = DEFLATE_LENGTH_BASES[lengthCode] + reader.readBits(DEFLATE_LENGTH_EXTRA_BITS[lengthCode]);
+            const distanceCode = decodeSymbol(reader, distanceTable);
+            if (distanceCode >= DEFLATE_DISTANCE_BASES.length) {
+                throw new Error("Invalid distance in deflated data.");
+            }
+
+            const distance = DEFLATE_DISTANCE_BASES[distanceCode] + reader.readBits(DEFLATE_DISTANCE_EXTRA_BITS[distanceCode]);
+            if (distance > outputPos) {
+                throw new Error("Invalid distance in deflated data.");
+            }
+
+            // Copied a byte at a time, as the copy may overlap the bytes it writes
+            for (let i = 0; i < length; i++) {
+                writeByte(output[outputPos - distance]);
+            }
+        }
+    }
+
+    if (outputPos !== size) {
+        throw new Error("Deflated data is smaller than expected.");
+    }
+
+    return output;
+};
@@ -0,0 +1,320 @@
+/**
+ * @file /src/utils/docx/sectionProperties.ts
+ * @name SectionProperties
+ * @description Utility functions for mapping Word section properties (`w:sectPr`) to and from
+ * the attributes of page, body and header/footer nodes.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { MM_PER_INCH, POINTS_PER_INCH, STANDARD_PIXELS_PER_INCH } from "../../constants/sizing";
+import {
+    BORDER_EIGHTHS_PER_POINT,
+    DOCX_HEADER_FOOTER_REFERENCE_TYPES,
+    DOCX_PAGE_NUMBER_FORMATS,
+    DOCX_PAPER_SIZE_TOLERANCE,
+    TWIPS_PER_INCH,
+} from "../../constants/docx";
+import { paperDimensions, paperSizes, DEFAULT_PAPER_SIZE } from "../../constants/paperSize";
+import { DEFAULT_PAPER_ORIENTATION } from "../../constants/paperOrientation";
+import { DEFAULT_PAGE_MARGIN_CONFIG } from "../../constants/pageMargins";
+import { DEFAULT_PAGE_NUMBER_FORMAT } from "../../constants/pageNumber";
+import { DEFAULT_COLUMN_CONFIG } from "../../constants/body";
+import { FOOTER_DEFAULT_ATTRIBUTES, HEADER_DEFAULT_ATTRIBUTES } from "../../constants/pageRegions";
+import { DocxHeaderFooterReference, DocxSectionProperties, XMLElement } from "../../types/docx";
+import { BorderConfig, PageNumberFormat, PageSide } from "../../types/page";
+import { HeaderFooterVariant } from "../../types/pageRegions";
+import { CustomPaperSizes, PaperDimensions, PaperSizeOrDimensions } from "../../types/paper";
+import { Nullable } from "../../types/record";
+import { getPageNodePaperSize, getPaperDimensions } from "../nodes/page/attributes/paperSize";
+import { getPageNodePaperOrientation } from "../nodes/page/attributes/paperOrientation";
+import { getPageNodePageBorders } from "../nodes/page/attributes/pageBorders";
+import { getPageNodePageNumberFormat, getPageNodePageNumberStart } from "../nodes/page/attributes/pageNumberFormat";
+import { getPageNodeDifferentFirstPage } from "../nodes/page/attributes/headerFooterVariants";
+import { getBodyNodeMargins } from "../nodes/body/body";
+import { getBodyNodeColumns } from "../nodes/body/attributes/columns";
+import { getHeaderFooterNodePageEndOffset, getHeaderFooterNodeType, isHeaderFooterNode } from "../nodes/headerFooter/headerFooter";
+import { getPageRegionNode } from "../pageRegion/getAttributes";
+import { formatXMLElement, getXMLChild, getXMLChildren, getXMLNumberAttribute, isXMLPropertyOn, parseXMLOnOff } from "./xml";
+
+const PAGE_SIDES: PageSide[] = ["top", "left", "bottom", "right"];
+
+/**
+ * Convert a length in twips (twentieths of a point) to millimetres, to the nearest tenth if
+ * that converts back to the same twips, so lengths given to a tenth of a millimetre survive
+ * being rounded to whole twips. Other lengths are rounded to the nearest hundredth, which is
+ * finer than a twip, so they convert back to the same twips too.
+ *
+ * @param twips - The length in twips.
+ * @returns {number} The length in millimetres.
+ */
+export const twipsToMm = (twips: number): number => {
+    const mm = (twips / TWIPS_PER_INCH) * MM_PER_INCH;
+    const tenths = Math.round(mm * 10) / 10;
+    return mmToTwips(tenths) === twips ? tenths : Math.round(mm * 100) / 100;
+};
+
+/**
+ * Convert a length in millimetres to whole twips (twentieths of a point).
+ *
+ * @param mm - The length in millimetres.
+ * @returns {number} The length in twips.
+ */
+export const mmToTwips = (mm: number): number => {
+    return Math.round((mm / MM_PER_INCH) * TWIPS_PER_INCH);
+};
+
+/**
+ * Convert a Word border width in eighths of a point to pixels.
+ *
+ * @param eighths - The border width in eighths of a point.
+ * @returns {number} The border width in pixels.
+ */
+const borderEighthsToPx = (eighths: number): number => {
+    return Math.round((eighths / BORDER_EIGHTHS_PER_POINT / POINTS_PER_INCH) * STANDARD_PIXELS_PER_INCH * 100) / 100;
+};
+
+/**
+ * Convert a border width in pixels to a Word border width in eighths of a point. Word
+ * border widths are between a quarter of a point and 12 points.
+ *
+ * @param px - The border width in pixels.
+ * @returns {number} The border width in eighths of a point.
+ */
+const pxToBorderEighths = (px: number): number => {
+    const eighths = Math.round((px / STANDARD_PIXELS_PER_INCH) * POINTS_PER_INCH * BORDER_EIGHTHS_PER_POINT);
+    return Math.min(Math.max(eighths, 2), 96);
+};
+
+/**
+ * Find the paper size of the given dimensions: a named paper size if there is one of the
+ * same size, otherwise the dimensions themselves.
+ *
+ * @param dimensions - The dimensions of the paper in portrait orientation, in millimetres.
+ * @returns {PaperSizeOrDimensions} The paper size.
+ */
+const findPaperSize = (dimensions: PaperDimensions): PaperSizeOrDimensions => {
+    const paperSize = paperSizes.find((size) => {
+        const { width, height } = paperDimensions[size];
+        return (
+            Math.abs(width - dimensions.width) <= DOCX_PAPER_SIZE_TOLERANCE &&
+            Math.abs(height - dimensions.height) <= DOCX_PAPER_SIZE_TOLERANCE
+        );
+    });
+
+    return paperSize ?? dimensions;
+};
+
+/**
+ * Parse the page borders of a section. Sides without a border have a width of 0.
+ *
+ * @param pageBordersElement - The `w:pgBorders` element, if any.
+ * @returns {Nullable<BorderConfig>} The page borders in pixels, or null if the section has
+ * none, so its pages show the default outline of pages in the editor.
+ */
+const parsePageBorders = (pageBordersElement: Nullable<XMLElement>): Nullable<BorderConfig> => {
+    if (!pageBordersElement) {
+        return null;
+    }
+
+    return PAGE_SIDES.reduce((pageBorders, side) => {
+        const borderElement = getXMLChild(pageBordersElement, `w:${side}`);
+        const size = isXMLPropertyOn(borderElement) ? getXMLNumberAttribute(borderElement, "w:sz") ?? 0 : 0;
+        return { ...pageBorders, [side]: borderEighthsToPx(size) };
+    }, {} as BorderConfig);
+};
+
+/**
+ * Parse the page number format of a section.
+ *
+ * @param format - The Word page number format, if any.
+ * @returns {PageNumberFormat} The page number format.
+ */
+const parsePageNumberFormat = (format: string | undefined): PageNumberFormat => {
+    const formats = Object.keys(DOCX_PAGE_NUMBER_FORMATS) as PageNumberFormat[];
+    return formats.find((pageNumberFormat) => DOCX_PAGE_NUMBER_FORMATS[pageNumberFormat] === format) ?? DEFAULT_PAGE_NUMBER_FORMAT;
+};
+
+/**
+ * Parse the header and footer references of a section.
+ *
+ * @param sectionElement - The `w:sectPr` element.
+ * @returns {DocxHeaderFooterReference[]} The header and footer references.
+ */
+const parseHeaderFooterReferences = (sectionElement: XMLElement): DocxHeaderFooterReference[] => {
+    const variants = Object.keys(DOCX_HEADER_FOOTER_REFERENCE_TYPES) as HeaderFooterVariant[];
+
+    return (["header", "footer"] as const).flatMap((type) =>
+        getXMLChildren(sectionElement, `w:${type}Reference`).flatMap((referenceElement): DocxHeaderFooterReference[] => {
+            const id = referenceElement.attributes["r:id"];
+            const referenceType = referenceElement.attributes["w:type"] ?? "default";
+            const variant = variants.find(
+                (headerFooterVariant) => DOCX_HEADER_FOOTER_REFERENCE_TYPES[headerFooterVariant] === referenceType
+            );
+            return id && variant ? [{ type, variant, id }] : [];
+        })
+    );
+};
+
+/**
+ * Parse the page setup of a Word section. Settings missing from the section take Word's defaults.
+ *
+ * @param sectionElement - The `w:sectPr` element.
+ * @returns {DocxSectionProperties} The page setup of the section.
+ */
+export const parseSectionProperties = (sectionElement: XMLElement): DocxSectionProperties => {
+    const pageSizeElement = getXMLChild(sectionElement, "w:pgSz");
+    const defaultDimensions = paperDimensions[DEFAULT_PAPER_SIZE];
+    const pageWidth = twipsToMm(getXMLNumberAttribute(pageSizeElement, "w:w") ?? mmToTwips(defaultDimensions.width));
+    const pageHeight = twipsToMm(getXMLNumberAttribute(pageSizeElement, "w:h") ?? mmToTwips(defaultDimensions.height));
+    const isLandscape = pageSizeElement?.attributes["w:orient"] === "landscape" || pageWidth > pageHeight;
+
+    // Paper sizes are given in portrait orientation
+    const paperSize = findPaperSize({ width: Math.min(pageWidth, pageHeight), height: Math.max(pageWidth, pageHeight) });
+
+    const marginsElement = getXMLChild(sectionElement, "w:pgMar");
+    const getMargin = (name: string, defaultValue: number): number => {
+        const twips = getXMLNumberAttribute(marginsElement, name);
+        // Negative top and bottom margins are fixed rather than minimum margins
+        return twips === null ? defaultValue : twipsToMm(Math.abs(twips));
+    };
+
+    const columnsElement = getXMLChild(sectionElement, "w:cols");
+    const columnCount = getXMLNumberAttribute(columnsElement, "w:num") ?? DEFAULT_COLUMN_CONFIG.count;
+    const columnGap = getXMLNumberAttribute(columnsElement, "w:space");
+
+    const pageNumberElement = getXMLChild(sectionElement, "w:pgNumType");
+
+    return {
+        paperSize,
+        paperOrientation: isLandscape ? "landscape" : "portrait",
+        pageBorders: parsePageBorders(getXMLChild(sectionElement, "w:pgBorders")),
+        pageMargins: {
+            top: getMargin("w:top", DEFAULT_PAGE_MARGIN_CONFIG.top),
+            right: getMargin("w:right", DEFAULT_PAGE_MARGIN_CONFIG.right),
+            bottom: getMargin("w:bottom", DEFAULT_PAGE_MARGIN_CONFIG.bottom),
+            left: getMargin("w:left", DEFAULT_PAGE_MARGIN_CONFIG.left),
+        },
+        columns: {
+            count: Math.max(Math.round(columnCount), 1),
+            gap: columnGap === null ? DEFAULT_COLUMN_CONFIG.gap : twipsToMm(columnGap),
+            rule: parseXMLOnOff(columnsElement?.attributes["w:sep"], false),
+        },
+        pageNumberFormat: parsePageNumberFormat(pageNumberElement?.attributes["w:fmt"]),
+        pageNumberStart: getXMLNumberAttribute(pageNumberElement, "w:start"),
+        differentFirstPage: isXMLPropertyOn(getXMLChild(sectionElement, "w:titlePg")),
+        headerOffset: getMargin("w:header", HEADER_DEFAULT_ATTRIBUTES.pageEndOffset),
+        footerOffset: getMargin("w:footer", FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset),
+        headerFooterReferences: parseHeaderFooterReferences(sectionElement),
+    };
+};
+
+/**
+ * Get the page setup of the section a page is in from the attributes of the page and its regions.
+ *
+ * @param pageNode - The page node.
+ * @returns {DocxSectionProperties} The page setup of the section, without header and footer references.
+ */
+export const getPageSectionProperties = (pageNode: PMNode): DocxSectionProperties => {
+    const bodyNode = getPageRegionNode(pageNode, "body");
+
+    let headerOffset = HEADER_DEFAULT_ATTRIBUTES.pageEndOffset;
+    let footerOffset = FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset;
+    pageNode.forEach((regionNode) => {
+        if (!isHeaderFooterNode(regionNode)) return;
+
+        const pageEndOffset = getHeaderFooterNodePageEndOffset(regionNode);
+        if (pageEndOffset === null) return;
+
+        if (getHeaderFooterNodeType(regionNode) === "header") {
+            headerOffset = pageEndOffset;
+        } else {
+            footerOffset = pageEndOffset;
+        }
+    });
+
+    return {
+        paperSize: getPageNodePaperSize(pageNode) ?? DEFAULT_PAPER_SIZE,
+        paperOrientation: getPageNodePaperOrientation(pageNode) ?? DEFAULT_PAPER_ORIENTATION,
+        pageBorders: getPageNodePageBorders(pageNode),
+        pageMargins: (bodyNode ? getBodyNodeMargins(bodyNode) : null) ?? DEFAULT_PAGE_MARGIN_CONFIG,
+        columns: (bodyNode ? getBodyNodeColumns(bodyNode) : null) ?? DEFAULT_COLUMN_CONFIG,
+        pageNumberFormat: getPageNodePageNumberFormat(pageNode) ?? DEFAULT_PAGE_NUMBER_FORMAT,
+        pageNumberStart: getPageNodePageNumberStart(pageNode),
+        differentFirstPage: getPageNodeDifferentFirstPage(pageNode),
+        headerOffset,
+        footerOffset,
+        headerFooterReferences: [],
+    };
+};
+
+/**
+ * Format the page setup of a section as a Word `w:sectPr` element.
+ *
+ * @param sectionProperties - The page setup of the section.
+ * @param customPaperSizes - The custom paper sizes the section may use.
+ * @returns {string} The `w:sectPr` element.
+ */
+export const formatSectionProperties = (sectionProperties: DocxSectionProperties, customPaperSizes: CustomPaperSizes = {}): string => {
+    const { paperSize, paperOrientation, pageBorders, pageMargins, columns, pageNumberFormat, pageNumberStart, differentFirstPage } =
+        sectionProperties;
+    const { headerOffset, footerOffset, headerFooterReferences } = sectionProperties;
+    const { width, height } = getPaperDimensions(paperSize, paperOrientation, customPaperSizes);
+
+    const references = headerFooterReferences.map(({ type, variant, id }) =>
+        formatXMLElement(`w:${type}Reference`, { "w:type": DOCX_HEADER_FOOTER_REFERENCE_TYPES[variant], "r:id": id })
+    );
+
+    const pageSize: Record<string, string | number> = { "w:w": mmToTwips(width), "w:h": mmToTwips(height) };
+    if (paperOrientation === "landscape") {
+        pageSize["w:orient"] = "landscape";
+    }
+
+    const margins = {
+        "w:top": mmToTwips(pageMargins.top),
+        "w:right": mmToTwips(pageMargins.right),
+        "w:bottom": mmToTwips(pageMargins.bottom),
+        "w:left": mmToTwips(pageMargins.left),
+        "w:header": mmToTwips(headerOffset),
+        "w:footer": mmToTwips(footerOffset),
+        "w:gutter": 0,
+    };
+
+    // Pages without page borders of their own only show the outline of pages in the editor, which is not printed.
+    // Page borders are drawn at the edge of the page, in the colour of the editor's page outline
+    const borderSides = pageBorders
+        ? PAGE_SIDES.filter((side) => pageBorders[side] > 0).map((side) =>
+              formatXMLElement(`w:${side}`, {
+                  "w:val": "single",
+                  "w:sz": pxToBorderEighths(pageBorders[side]),
+                  "w:space": 0,
+                  "w:color": "CCCCCC",
+              })
+          )
+        : [];
+    const pageBordersElement =
+        borderSides.length > 0 ? formatXMLElement("w:pgBorders", { "w:offsetFrom": "page" }, borderSides.join("")) : "";
+
+    const pageNumberType: Record<string, string | number> = { "w:fmt": DOCX_PAGE_NUMBER_FORMATS[pageNumberFormat] };
+    if (pageNumberStart !== null) {
+        pageNumberType["w:start"] = pageNumberStart;
+    }
+
+    const columnAttributes: Record<string, string | number> = { "w:space": mmToTwips(columns.gap), "w:num": columns.count };
+    if (columns.rule) {
+        columnAttributes["w:sep"] = 1;
+    }
+
+    return formatXMLElement(
+        "w:sectPr",
+        {},
+        [
+            ...references,
+            formatXMLElement("w:pgSz", pageSize),
+            formatXMLElement("w:pgMar", margins),
+            pageBordersElement,
+            formatXMLElement("w:pgNumType", pageNumberType),
+            formatXMLElement("w:cols", columnAttributes),
+            differentFirstPage ? formatXMLElement("w:titlePg") : "",
+        ].join("")
+    );
+};
@@ -0,0 +1,244 @@
+/**
+ * @file /src/utils/docx/xml.ts
+ * @name XML
+ * @description Utility functions for reading and writing the XML parts of DOCX packages.
+ */
+
+import { XMLElement, XMLNode } from "../../types/docx";
+import { Nullable } from "../../types/record";
+import { escapeHTML } from "../string";
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+/**
+ * Decode the entity and character references in XML text.
+ *
+ * @param text - The XML text.
+ * @returns {string} The decoded text.
+ */
+const decodeXMLText = (text: string): string => {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (reference, name: string) => {
+        if (name.startsWith("#x")) {
+            return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+
+        if (name.startsWith("#")) {
+            return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+
+        return XML_ENTITIES[name] ?? reference;
+    });
+};
+
+/**
+ * Find the end of a tag, skipping any ">" within its quoted attribute values.
+ *
+ * @param xml - The XML text.
+ * @param tagStart - The position of the "<" starting the tag.
+ * @returns {number} The position of the ">" ending the tag.
+ * @throws An error if the tag is not closed.
+ */
+const findTagEnd = (xml: string, tagStart: number): number => {
+    let quote: Nullable<string> = null;
+    for (let pos = tagStart + 1; pos < xml.length; pos++) {
+        const char = xml[pos];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === ">") {
+            return pos;
+        }
+    }
+
+    throw new Error("Invalid XML: unclosed tag.");
+};
+
+/**
+ * Parse an XML document. Comments, processing instructions and the document type are skipped.
+ *
+ * @param xml - The XML text.
+ * @returns {XMLElement} The root element.
+ * @throws An error if the XML is malformed or has no root element.
+ */
+export const parseXML = (xml: string): XMLElement => {
+    const document: XMLElement = { name: "", attributes: {}, children: [] };
+    const stack: XMLElement[] = [document];
+    const skippedMarkup: [string, string][] = [
+        ["<!--", "-->"],
+        ["<?", "?>"],
+        ["<!", ">"],
+    ];
+
+    let pos = 0;
+    while (pos < xml.length) {
+        const tagStart = xml.indexOf("<", pos);
+        const parent = stack[stack.length - 1];
+        const textEnd = tagStart === -1 ? xml.length : tagStart;
+        if (textEnd > pos) {
+            parent.children.push(decodeXMLText(xml.slice(pos, textEnd)));
+        }
+
+        if (tagStart === -1) {
+            break;
+        }
+
+        if (xml.startsWith("<![CDATA[", tagStart)) {
+            const cdataEnd = xml.indexOf("]]>", tagStart);
+            parent.children.push(xml.slice(tagStart + 9, cdataEnd === -1 ? xml.length : cdataEnd));
+            pos = cdataEnd === -1 ? xml.length : cdataEnd + 3;
+            continue;
+        }
+
+        const skipped = skippedMarkup.find(([start]) => xml.startsWith(start, tagStart));
+        if (skipped) {
+            const markupEnd = xml.indexOf(skipped[1], tagStart);
+            pos = markupEnd === -1 ? xml.length : markupEnd + skipped[1].length;
+            continue;
+        }
+
+        const tagEnd = findTagEnd(xml, tagStart);
+        const tag = xml.slice(tagStart + 1, tagEnd);
+        pos = tagEnd + 1;
+
+        if (tag.startsWith("/")) {
+            if (stack.length === 1) {
+                throw new Error(`Invalid XML: unexpected closing tag ${tag}.`);
+            }
+
+            stack.pop();
+            continue;
+        }
+
+        const isSelfClosing = tag.endsWith("/");
+        const [name] = tag.match(/^[^\s/>]+/) ?? [""];
+        const element: XMLElement = { name, attributes: {}, children: [] };
+        for (const [, attributeName, doubleQuoted, singleQuoted] of tag.matchAll(/([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+            element.attributes[attributeName] = decodeXMLText(doubleQuoted ?? singleQuoted ?? "");
+        }
+
+        parent.children.push(element);
+        if (!isSelfClosing) {
+            stack.push(element);
+        }
+    }
+
+    const root = document.children.find((child): child is XMLElement => typeof child !== "string");
+    if (!root) {
+        throw new Error("Invalid XML: no root element.");
+    }
+
+    return root;
+};
+
+/**
+ * Check if an XML node is an element.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is an element, false if it is text.
+ */
+export const isXMLElement = (node: XMLNode): node is XMLElement => {
+    return typeof node !== "string";
+};
+
+/**
+ * Get the child elements of an element with the given name.
+ *
+ * @param element - The parent element.
+ * @param name - The name of the children, including its namespace prefix.
+ * @returns {XMLElement[]} The matching children, in document order.
+ */
+export const getXMLChildren = (element: XMLElement, name: string): XMLElement[] => {
+    return element.children.filter((child): child is XMLElement => isXMLElement(child) && child.name === name);
+};
+
+/**
+ * Get the first child element of an element with the given name.
+ *
+ * @param element - The parent element.
+ * @param name - The name of the child, including its namespace prefix.
+ * @returns {Nullable<XMLElement>} The first matching child or null if there is none.
+ */
+export const getXMLChild = (element: Nullable<XMLElement>, name: string): Nullable<XMLElement> => {
+    return element ? getXMLChildren(element, name)[0] ?? null : null;
+};
+
+/**
+ * Get an attribute of an element as a number.
+ *
+ * @param element - The element.
+ * @param name - The name of the attribute, including its namespace prefix.
+ * @returns {Nullable<number>} The value of the attribute or null if it is missing or not a number.
+ */
+export const getXMLNumberAttribute = (element: Nullable<XMLElement>, name: string): Nullable<number> => {
+    const value = element?.attributes[name];
+    if (value === undefined) {
+        return null;
+    }
+
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Parse a Word on/off value, e.g. "1", "true" or "off".
+ *
+ * @param value - The value, if any.
+ * @param defaultValue - Whether the value is on when it is missing.
+ * @returns {boolean} True if the value is on, false otherwise.
+ */
+export const parseXMLOnOff = (value: string | undefined, defaultValue: boolean): boolean => {
+    if (value === undefined) {
+        return defaultValue;
+    }
+
+    return !["0", "false", "off", "none", "nil"].includes(value);
+};
+
+/**
+ * Check if a Word on/off property is on. Properties are on when present, unless
+ * their value turns them off.
+ *
+ * @param element - The property element.
+ * @returns {boolean} True if the property is present and on, false otherwise.
+ */
+export const isXMLPropertyOn = (element: Nullable<XMLElement>): boolean => {
+    return !!element && parseXMLOnOff(element.attributes["w:val"], true);
+};
+
+/**
+ * Format an XML element.
+ *
+ * @param name - The name of the element, including its namespace prefix.
+ * @param attributes - The attributes of the element.
+ * @param content - The XML content of the element, if any.
+ * @returns {string} The element.
+ * @example formatXMLElement("w:pgSz", { "w:w": 11906, "w:h": 16838 }) // '<w:pgSz w:w="11906" w:h="16838"/>'
+ */
+export const formatXMLElement = (name: string, attributes: Record<string, string | number> = {}, content?: string): string => {
+    const formattedAttributes = Object.entries(attributes)
+        .map(([attributeName, value]) => ` ${attributeName}="${escapeHTML(String(value))}"`)
+        .join("");
+
+    return content === undefined ? `<${name}${formattedAttributes}/>` : `<${name}${formattedAttributes}>${content}</${name}>`;
+};
+
+/**
+ * Format text as the content of an XML element.
+ *
+ * @param text - The text.
+ * @returns {string} The escaped text.
+ */
+export const formatXMLText = (text: string): string => {
+    return escapeHTML(text);
+};
+
+/**
+ * Format an XML part with its declaration.
+ *
+ * @param root - The root element of the part.
+ * @returns {string} The XML part.
+ */
+export const formatXMLPart = (root: string): string => {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${root}`;
+};
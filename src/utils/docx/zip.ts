@@ -0,0 +1,171 @@
+/**
+ * @file /src/utils/docx/zip.ts
+ * @name Zip
+ * @description Utility functions for reading and writing ZIP archives, the container of DOCX packages.
+ */
+
+import { ZIP_COMPRESSION_METHODS, ZIP_DOS_DATE, ZIP_SIGNATURES, ZIP_UTF8_FLAG, ZIP_VERSION } from "../../constants/zip";
+import { Nullable } from "../../types/record";
+import { inflateRaw } from "./inflate";
+
+let crc32Table: Nullable<Uint32Array> = null;
+
+/**
+ * Calculate the CRC-32 checksum of data.
+ *
+ * @param data - The data to check.
+ * @returns {number} The checksum.
+ */
+const crc32 = (data: Uint8Array): number => {
+    if (!crc32Table) {
+        crc32Table = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+
+            crc32Table[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crc32Table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Read the entries of a ZIP archive. Entries must be stored or deflated.
+ *
+ * @param data - The bytes of the archive.
+ * @returns {Map<string, Uint8Array>} The contents of the entries, keyed by path.
+ * @throws An error if the data is not a ZIP archive or an entry cannot be read.
+ */
+export const readZip = (data: Uint8Array): Map<string, Uint8Array> => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const decoder = new TextDecoder();
+
+    // The end of central directory record is at the end of the archive, before an optional comment
+    let endPos = data.length - 22;
+    while (endPos >= 0 && view.getUint32(endPos, true) !== ZIP_SIGNATURES.endOfCentralDirectory) {
+        endPos--;
+    }
+
+    if (endPos < 0) {
+        throw new Error("Not a ZIP archive: no end of central directory record found.");
+    }
+
+    const entryCount = view.getUint16(endPos + 10, true);
+    let headerPos = view.getUint32(endPos + 16, true);
+    const entries = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(headerPos, true) !== ZIP_SIGNATURES.centralDirectoryHeader) {
+            throw new Error("Invalid ZIP archive: malformed central directory.");
+        }
+
+        const method = view.getUint16(headerPos + 10, true);
+        const compressedSize = view.getUint32(headerPos + 20, true);
+        const size = view.getUint32(headerPos + 24, true);
+        const nameLength = view.getUint16(headerPos + 28, true);
+        const extraLength = view.getUint16(headerPos + 30, true);
+        const commentLength = view.getUint16(headerPos + 32, true);
+        const localHeaderPos = view.getUint32(headerPos + 42, true);
+        const name = decoder.decode(data.subarray(headerPos + 46, headerPos + 46 + nameLength));
+        headerPos += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith("/")) {
+            // Directories have no content
+            continue;
+        }
+
+        // The local header can have different extra data to the central directory header
+        const dataPos = localHeaderPos + 30 + view.getUint16(localHeaderPos + 26, true) + view.getUint16(localHeaderPos + 28, true);
+        const compressedData = data.subarray(dataPos, dataPos + compressedSize);
+
+        switch (method) {
+            case ZIP_COMPRESSION_METHODS.stored:
+                entries.set(name, compressedData);
+                break;
+            case ZIP_COMPRESSION_METHODS.deflated:
+                entries.set(name, inflateRaw(compressedData, size));
+                break;
+            default:
+                throw new Error(`Unsupported compression method ${method} for ZIP entry: ${name}`);
+        }
+    }
+
+    return entries;
+};
+
+/**
+ * Write a ZIP archive of the given entries. Entries are stored uncompressed.
+ *
+ * @param entries - The contents of the entries, keyed by path, in the order to write them.
+ * @returns {Uint8Array} The bytes of the archive.
+ */
+export const writeZip = (entries: Map<string, Uint8Array>): Uint8Array => {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach((content, path) => {
+        const name = encoder.encode(path);
+        const checksum = crc32(content);
+
+        const localHeader = new Uint8Array(30 + name.length);
+        const localView = new DataView(localHeader.buffer);
+        localView.setUint32(0, ZIP_SIGNATURES.localFileHeader, true);
+        localView.setUint16(4, ZIP_VERSION, true);
+        localView.setUint16(6, ZIP_UTF8_FLAG, true);
+        localView.setUint16(8, ZIP_COMPRESSION_METHODS.stored, true);
+        localView.setUint16(12, ZIP_DOS_DATE, true);
+        localView.setUint32(14, checksum, true);
+        localView.setUint32(18, content.length, true);
+        localView.setUint32(22, content.length, true);
+        localView.setUint16(26, name.length, true);
+        localHeader.set(name, 30);
+
+        const centralHeader = new Uint8Array(46 + name.length);
+        const centralView = new DataView(centralHeader.buffer);
+        centralView.setUint32(0, ZIP_SIGNATURES.centralDirectoryHeader, true);
+        centralView.setUint16(4, ZIP_VERSION, true);
+        centralView.setUint16(6, ZIP_VERSION, true);
+        centralView.setUint16(8, ZIP_UTF8_FLAG, true);
+        centralView.setUint16(10, ZIP_COMPRESSION_METHODS.stored, true);
+        centralView.setUint16(14, ZIP_DOS_DATE, true);
+        centralView.setUint32(16, checksum, true);
+        centralView.setUint32(20, content.length, true);
+        centralView.setUint32(24, content.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        centralHeader.set(name, 46);
+
+        localParts.push(localHeader, content);
+        centralParts.push(centralHeader);
+        offset += localHeader.length + content.length;
+    });
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const endRecord = new Uint8Array(22);
+    const endView = new DataView(endRecord.buffer);
+    endView.setUint32(0, ZIP_SIGNATURES.endOfCentralDirectory, true);
+    endView.setUint16(8, entries.size, true);
+    endView.setUint16(10, entries.size, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, endRecord];
+    const archive = new Uint8Array(offset + centralSize + endRecord.length);
+    let pos = 0;
+    parts.forEach((part) => {
+        archive.set(part, pos);
+        pos += part.length;
+    });
+
+    return archive;
+};
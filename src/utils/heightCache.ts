@@ -0,0 +1,50 @@
+/**
+ * @file /src/utils/heightCache.ts
+ * @name HeightCache
+ * @description Utility functions for caching measured node heights.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { NodeHeightCache, NodeMeasurement } from "../types/heightCache";
+
+/**
+ * Create an empty node height cache.
+ *
+ * @returns {NodeHeightCache} The node height cache.
+ */
+export const createNodeHeightCache = (): NodeHeightCache => {
+    // Entries are held weakly so nodes no longer in the document can be garbage collected
+    let measurements = new WeakMap<PMNode, Map<number, NodeMeasurement>>();
+    let hits = 0;
+    let misses = 0;
+
+    return {
+        get: (node, columnWidth) => {
+            const measurement = measurements.get(node)?.get(columnWidth);
+            if (measurement) {
+                hits++;
+            } else {
+                misses++;
+            }
+
+            return measurement;
+        },
+
+        set: (node, columnWidth, measurement) => {
+            const nodeMeasurements = measurements.get(node) ?? new Map<number, NodeMeasurement>();
+            nodeMeasurements.set(columnWidth, measurement);
+            measurements.set(node, nodeMeasurements);
+        },
+
+        clear: () => {
+            measurements = new WeakMap<PMNode, Map<number, NodeMeasurement>>();
+        },
+
+        getStats: () => ({ hits, misses }),
+
+        resetStats: () => {
+            hits = 0;
+            misses = 0;
+        },
+    };
+};
@@ -0,0 +1,73 @@
+/**
+ * @file /src/utils/measurement/dom.ts
+ * @name DOM
+ * @description Measurement backend measuring the nodes rendered by the editor view.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { EditorView } from "@tiptap/pm/view";
+import { MIN_PARAGRAPH_HEIGHT } from "../../constants/pagination";
+import { NodeMeasurement } from "../../types/heightCache";
+import { MeasurementBackend } from "../../types/measurement";
+import { MarginConfig } from "../../types/page";
+import { Nullable } from "../../types/record";
+import { getParagraphLineInfo } from "../nodes/paragraph";
+
+/**
+ * Calculates the margins of the element.
+ *
+ * @param element - The element to calculate margins for.
+ * @returns {MarginConfig} The margins of the element.
+ */
+const calculateElementMargins = (element: HTMLElement): MarginConfig => {
+    const style = window.getComputedStyle(element);
+    return {
+        top: parseFloat(style.marginTop),
+        right: parseFloat(style.marginRight),
+        bottom: parseFloat(style.marginBottom),
+        left: parseFloat(style.marginLeft),
+    };
+};
+
+/**
+ * Measure a node in the DOM. The height includes its top margin.
+ *
+ * @param view - The editor view.
+ * @param pos - The position of the node.
+ * @param node - The node to measure.
+ * @returns {Nullable<NodeMeasurement>} The measurement of the node or null if the DOM element is not found.
+ */
+const measureNodeDOM = (view: EditorView, pos: number, node: PMNode): Nullable<NodeMeasurement> => {
+    const paragraphType = view.state.schema.nodes.paragraph;
+
+    const domNode = view.nodeDOM(pos);
+    if (!(domNode instanceof HTMLElement)) {
+        return null;
+    }
+
+    let { height } = domNode.getBoundingClientRect();
+
+    const { top: marginTop } = calculateElementMargins(domNode);
+
+    if (height === 0) {
+        if (node.type === paragraphType || node.isTextblock) {
+            // Assign a minimum height to empty paragraphs or textblocks
+            height = MIN_PARAGRAPH_HEIGHT;
+        }
+    }
+
+    // We use top margin only because there is overlap of margins between paragraphs
+    return { height: height + marginTop, marginTop };
+};
+
+/**
+ * Create a measurement backend which measures the nodes as rendered by the editor view.
+ * This is the default backend in the browser.
+ *
+ * @param view - The editor view.
+ * @returns {MeasurementBackend} The DOM measurement backend.
+ */
+export const createDOMMeasurementBackend = (view: EditorView): MeasurementBackend => ({
+    measureNode: ({ node, pos }) => measureNodeDOM(view, pos, node),
+    measureLineBreakOffsets: ({ pos }) => getParagraphLineInfo(view, pos + 1).lineBreakOffsets,
+});
@@ -0,0 +1,210 @@
+/**
+ * @file /src/utils/measurement/textMetrics.ts
+ * @name TextMetrics
+ * @description Measurement backend estimating the size of nodes from font metrics, for
+ * paginating without a DOM.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { DEFAULT_TEXT_METRICS_OPTIONS } from "../../constants/textMetrics";
+import { NodeMeasurement } from "../../types/heightCache";
+import { MeasurementBackend, NodeMeasureContext, TextMetricsBlockStyle, TextMetricsOptions } from "../../types/measurement";
+import { isHardBreakNode } from "../nodes/hardBreak";
+import { isPageNode } from "../nodes/page/page";
+import { isBodyNode } from "../nodes/body/body";
+
+/**
+ * Fill in the text metrics options which are not given with the defaults.
+ *
+ * @param options - The text metrics options.
+ * @returns {TextMetricsOptions} The complete text metrics options.
+ */
+export const resolveTextMetricsOptions = (options: Partial<TextMetricsOptions> = {}): TextMetricsOptions => {
+    return {
+        ...DEFAULT_TEXT_METRICS_OPTIONS,
+        ...options,
+        blockStyles: { ...DEFAULT_TEXT_METRICS_OPTIONS.blockStyles, ...options.blockStyles },
+    };
+};
+
+/**
+ * Get the text style of a block.
+ *
+ * @param options - The text metrics options.
+ * @param node - The block node.
+ * @returns {TextMetricsBlockStyle} The text style of the block.
+ */
+export const getBlockStyle = (options: TextMetricsOptions, node: PMNode): TextMetricsBlockStyle => {
+    const { name } = node.type;
+    const key = name === "heading" ? `heading${node.attrs.level ?? 1}` : name;
+    return options.blockStyles[key] ?? {};
+};
+
+/**
+ * Check if a node is a table row, whose cells share its width.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a table row, false otherwise.
+ */
+export const isTableRowNode = (node: PMNode): boolean => {
+    return node.type.spec.tableRole === "row";
+};
+
+/**
+ * Estimate where the lines of a text block start when its text is wrapped to the given
+ * width. Lines are broken after spaces where possible, and otherwise between characters.
+ *
+ * @param options - The text metrics options.
+ * @param textblock - The text block.
+ * @param width - The width of the text block in pixels.
+ * @returns {number[]} The character offsets at which each line starts.
+ */
+export const wrapTextblock = (options: TextMetricsOptions, textblock: PMNode, width: number): number[] => {
+    const { charWidths, defaultCharWidth } = options;
+    const fontSize = options.fontSize * (getBlockStyle(options, textblock).fontSize ?? 1);
+
+    const lineBreakOffsets: number[] = [0];
+    let charIndex = 0;
+    let lineWidth = 0;
+    // The first character after the last space on the current line and the width up to it
+    let wrapIndex = -1;
+    let wrapWidth = 0;
+
+    const startLine = (offset: number, width: number): void => {
+        lineBreakOffsets.push(offset);
+        lineWidth = width;
+        wrapIndex = -1;
+    };
+
+    // Characters are counted in UTF-16 code units, as offsets are in the DOM and the document
+    const addChar = (charWidth: number, isSpace: boolean, charLength: number): void => {
+        const charStart = charIndex;
+        charIndex += charLength;
+        if (isSpace) {
+            // Spaces hang at the end of a line rather than wrapping it
+            lineWidth += charWidth;
+            wrapIndex = charIndex;
+            wrapWidth = lineWidth;
+            return;
+        }
+
+        lineWidth += charWidth;
+        if (lineWidth <= width || charStart === lineBreakOffsets[lineBreakOffsets.length - 1]) {
+            return;
+        }
+
+        if (wrapIndex > lineBreakOffsets[lineBreakOffsets.length - 1]) {
+            startLine(wrapIndex, lineWidth - wrapWidth);
+        } else {
+            startLine(charStart, charWidth);
+        }
+    };
+
+    textblock.forEach((child) => {
+        if (isHardBreakNode(child)) {
+            if (lineBreakOffsets[lineBreakOffsets.length - 1] !== charIndex) {
+                startLine(charIndex, 0);
+            }
+        } else if (child.isText) {
+            for (const char of child.text ?? "") {
+                addChar((charWidths[char] ?? defaultCharWidth) * fontSize, /\s/.test(char), char.length);
+            }
+        } else {
+            // Inline atoms are treated as a single character one em wide
+            addChar(fontSize, false, 1);
+        }
+    });
+
+    return lineBreakOffsets;
+};
+
+/**
+ * Get the width available to the content of a node, by taking the indents of its
+ * ancestors from the width of the column it is in.
+ *
+ * @param options - The text metrics options.
+ * @param context - The node and where it is.
+ * @returns {number} The width in pixels.
+ */
+const getContentWidth = (options: TextMetricsOptions, { pos, doc, columnWidth }: NodeMeasureContext): number => {
+    const $pos = doc.resolve(pos);
+
+    let width = columnWidth;
+    for (let depth = 1; depth <= $pos.depth; depth++) {
+        const ancestor = $pos.node(depth);
+        if (isPageNode(ancestor) || isBodyNode(ancestor)) {
+            continue;
+        }
+
+        width = isTableRowNode(ancestor) ? width / ancestor.childCount : width - (getBlockStyle(options, ancestor).indent ?? 0);
+    }
+
+    return Math.max(width, 0);
+};
+
+/**
+ * Estimate the height of a node placed in a space of the given width.
+ *
+ * @param options - The text metrics options.
+ * @param node - The node to measure.
+ * @param width - The width available to the node in pixels.
+ * @returns {NodeMeasurement} The estimated height of the node, including its top margin.
+ */
+export const estimateNodeHeight = (options: TextMetricsOptions, node: PMNode, width: number): NodeMeasurement => {
+    const blockStyle = getBlockStyle(options, node);
+    const fontSize = options.fontSize * (blockStyle.fontSize ?? 1);
+    const marginTop = (blockStyle.marginTop ?? 0) * fontSize;
+
+    if (node.isTextblock) {
+        const lineCount = wrapTextblock(options, node, width).length;
+        return { height: marginTop + lineCount * fontSize * options.lineHeight, marginTop };
+    }
+
+    if (node.isLeaf) {
+        const { height } = node.attrs;
+        return { height: marginTop + (typeof height === "number" ? height : options.leafBlockHeight), marginTop };
+    }
+
+    if (isTableRowNode(node)) {
+        const cellWidth = width / Math.max(node.childCount, 1);
+        let rowHeight = 0;
+        node.forEach((cell) => {
+            rowHeight = Math.max(rowHeight, estimateNodeHeight(options, cell, cellWidth).height);
+        });
+
+        return { height: marginTop + rowHeight, marginTop };
+    }
+
+    const contentWidth = width - (blockStyle.indent ?? 0);
+    let contentHeight = 0;
+    node.forEach((child) => {
+        contentHeight += estimateNodeHeight(options, child, contentWidth).height;
+    });
+
+    return { height: marginTop + contentHeight, marginTop };
+};
+
+/**
+ * Create a measurement backend which estimates the size of nodes from font metrics and
+ * line wrapping rather than measuring them in the DOM. Use it to paginate documents where
+ * there is no DOM, e.g. on a server, with `paginateDocument`. The page structure matches the
+ * browser's as closely as the metrics match the fonts and styles used by the editor.
+ *
+ * @param options - The text metrics options. Any which are not given use the defaults.
+ * @returns {MeasurementBackend} The text metrics measurement backend.
+ */
+export const createTextMetricsMeasurementBackend = (options: Partial<TextMetricsOptions> = {}): MeasurementBackend => {
+    const textMetricsOptions = resolveTextMetricsOptions(options);
+
+    return {
+        measureNode: (context) => estimateNodeHeight(textMetricsOptions, context.node, getContentWidth(textMetricsOptions, context)),
+        measureLineBreakOffsets: (context) => {
+            const { node } = context;
+            if (!node.isTextblock) {
+                return null;
+            }
+
+            return wrapTextblock(textMetricsOptions, node, getContentWidth(textMetricsOptions, context));
+        },
+    };
+};
@@ -0,0 +1,122 @@
+/**
+ * @file /src/utils/nodes/body/attributes/columns.ts
+ * @name Columns
+ * @description Utility functions for body columns.
+ */
+
+import { Dispatch, Editor } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import { BODY_NODE_ATTR_KEYS, COLUMN_RULE_COLOUR, DEFAULT_COLUMN_CONFIG } from "../../../../constants/body";
+import { ColumnConfig } from "../../../../types/body";
+import { Nullable } from "../../../../types/record";
+import { InlineStyles } from "../../../../types/page";
+import { getPageRegionAttributeByPageNum } from "../../../pageRegion/getAttributes";
+import { setBodyNodeAttribute } from "../../page/attributes/setPageAttributes";
+import { mm } from "../../../units";
+
+/**
+ * Checks if a column config is valid. There must be a whole number of columns
+ * (at least one) and the gap between them must be non-negative and finite.
+ *
+ * @param columns - The column config to check.
+ * @returns {boolean} True if the column config is valid, false otherwise.
+ */
+export const isValidColumnConfig = (columns: ColumnConfig): boolean => {
+    const { count, gap } = columns;
+    return Number.isInteger(count) && count >= 1 && gap >= 0 && isFinite(gap);
+};
+
+/**
+ * Get the column config from a body node.
+ *
+ * @param bodyNode - The body node to get the column config from.
+ * @returns {Nullable<ColumnConfig>} The column config of the specified body.
+ */
+export const getBodyNodeColumns = (bodyNode: PMNode): Nullable<ColumnConfig> => {
+    const { attrs } = bodyNode;
+    return attrs[BODY_NODE_ATTR_KEYS.columns];
+};
+
+/**
+ * Retrieves the column config of a specific body using the editor instance.
+ * Falls back to the default column config if the page number is invalid.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the column config for.
+ * @returns {ColumnConfig} The column config of the specified page or default.
+ */
+export const getPageNumColumns = (editor: Editor, pageNum: number): ColumnConfig =>
+    getPageRegionAttributeByPageNum(editor.state, pageNum, "body", DEFAULT_COLUMN_CONFIG, getBodyNodeColumns);
+
+/**
+ * Calculate the width of each column in a body of the given width. The unit of
+ * the result is that of the body width.
+ *
+ * @param bodyWidth - The width of the body.
+ * @param columns - The column config of the body.
+ * @param gap - The gap between columns, in the unit of the body width.
+ * @returns {number} The width of a single column.
+ */
+export const calculateColumnWidth = (bodyWidth: number, columns: ColumnConfig, gap: number): number => {
+    const { count } = columns;
+    return (bodyWidth - gap * (count - 1)) / count;
+};
+
+/**
+ * Get the styles laying out the content of a body node in its columns.
+ *
+ * @param bodyNode - The body node.
+ * @returns {InlineStyles} The styles of the element holding the body content.
+ */
+export const getBodyColumnStyles = (bodyNode: PMNode): InlineStyles => {
+    const columns = getBodyNodeColumns(bodyNode) ?? DEFAULT_COLUMN_CONFIG;
+    if (columns.count <= 1) {
+        return {};
+    }
+
+    const { count, gap, rule } = columns;
+    const styles: InlineStyles = {
+        height: "100%",
+        "column-count": String(count),
+        "column-gap": mm(gap),
+        // Columns are filled in turn as pagination decides, rather than balanced by the browser
+        "column-fill": "auto",
+    };
+
+    if (rule) {
+        styles["column-rule"] = `1px solid ${COLUMN_RULE_COLOUR}`;
+    }
+
+    return styles;
+};
+
+/**
+ * Set the column config of a body node.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param pagePos - The position of the page node containing the body.
+ * @param pageNode - The page node containing the body.
+ * @param columns - The column config to set.
+ * @returns {boolean} True if the column config was set, false otherwise.
+ */
+export const setBodyNodePosColumns = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    pagePos: number,
+    pageNode: PMNode,
+    columns: ColumnConfig
+): boolean => {
+    if (!dispatch) return false;
+
+    if (!isValidColumnConfig(columns)) {
+        console.warn("Invalid column config:", columns);
+        return false;
+    }
+
+    setBodyNodeAttribute(tr, pagePos, pageNode, BODY_NODE_ATTR_KEYS.columns, columns);
+
+    dispatch(tr);
+    return true;
+};
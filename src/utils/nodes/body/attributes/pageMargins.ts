@@ -11,7 +11,8 @@ import { DEFAULT_PAGE_MARGIN_CONFIG } from "../../../../constants/pageMargins";
 import { BODY_NODE_ATTR_KEYS } from "../../../../constants/body";
 import { MarginConfig, MultiAxisSide } from "../../../../types/page";
 import { setPageNodePosSideConfig, updatePageSideConfig } from "../../../setSideConfig";
-import { mm } from "../../../units";
+import { mm, toDisplayLengthConfig } from "../../../units";
+import { MARGIN_STORAGE_UNIT } from "../../../../constants/units";
 import { getBodyNodeMargins } from "../body";
 import { getPageRegionAttributeByPageNum } from "../../../pageRegion/getAttributes";
 import { getPaginationExtensionOptions } from "../../../options";
@@ -44,16 +45,15 @@ export const isValidPageMargins = (pageMargins: MarginConfig): boolean => {
  *
  * @param editor - The current editor instance.
  * @param pageNum - The page number to retrieve the page margin config for.
- * @returns {MarginConfig} The page margin config of the specified page or default.
+ * @returns {MarginConfig} The page margin config of the specified page or default, in
+ * the display unit of the pagination options (millimetres if there is none).
  */
-export const getPageNumPageMargins = (editor: Editor, pageNum: number): MarginConfig =>
-    getPageRegionAttributeByPageNum(
-        editor.state,
-        pageNum,
-        "body",
-        getPaginationExtensionOptions(editor).defaultMarginConfig,
-        getBodyNodeMargins
-    );
+export const getPageNumPageMargins = (editor: Editor, pageNum: number): MarginConfig => {
+    const { defaultMarginConfig, displayUnit } = getPaginationExtensionOptions(editor);
+    const pageMargins = getPageRegionAttributeByPageNum(editor.state, pageNum, "body", defaultMarginConfig, getBodyNodeMargins);
+
+    return toDisplayLengthConfig(pageMargins, MARGIN_STORAGE_UNIT, displayUnit);
+};
 
 /**
  * Calculate the effective DOM margins of the body node. Takes into account
@@ -10,6 +10,7 @@ import { isBodyNode } from "./body";
 import { BODY_NODE_NAME } from "../../../constants/body";
 import { getParentNodePosOfType } from "../node";
 import { getPageAfterPos, getPageBeforePos } from "../page/pagePosition";
+import { isPageNode } from "../page/page";
 import { NullableNodePos } from "../../../types/node";
 import { getPageRegionNodeAndPos } from "../../pageRegion/getAttributes";
 
@@ -113,3 +114,80 @@ export const getBodyAfterPos = (doc: PMNode, pos: ResolvedPos | number): Nullabl
     const { node: nextPageNode, pos: nextPagePos } = nextPage;
     return getPageRegionNodeAndPos(nextPagePos, nextPageNode, BODY_NODE_NAME);
 };
+
+/**
+ * Call the given function for every block in the page bodies, in document order. Before
+ * the document is paginated its top level blocks are used instead.
+ *
+ * @param doc - The document node.
+ * @param callback - The function to call with each block and its position.
+ */
+export const forEachBodyChild = (doc: PMNode, callback: (node: PMNode, pos: number) => void): void => {
+    doc.forEach((pageNode, pageOffset) => {
+        if (!isPageNode(pageNode)) {
+            callback(pageNode, pageOffset);
+            return;
+        }
+
+        const { node: bodyNode, pos: bodyPos } = getPageRegionNodeAndPos(pageOffset, pageNode, "body");
+        bodyNode?.forEach((child, offset) => callback(child, bodyPos + 1 + offset));
+    });
+};
+
+/**
+ * Gets the block before a block of a page body in the content flow, i.e. the block before
+ * it in the same body or the last block of the previous page's body.
+ *
+ * @param doc - The current document.
+ * @param pos - The position of a block in a page body.
+ * @returns {NullableNodePos} The block before it and its position, if any.
+ */
+export const getBodyChildBeforePos = (doc: PMNode, pos: number): NullableNodePos => {
+    const $pos = doc.resolve(pos);
+    if (!isBodyNode($pos.parent)) {
+        return { node: null, pos: -1 };
+    }
+
+    const index = $pos.index();
+    if (index > 0) {
+        const previousNode = $pos.parent.child(index - 1);
+        return { node: previousNode, pos: pos - previousNode.nodeSize };
+    }
+
+    const { node: previousBodyNode, pos: previousBodyPos } = getBodyBeforePos(doc, $pos);
+    const lastChild = previousBodyNode?.lastChild;
+    if (!previousBodyNode || !lastChild) {
+        return { node: null, pos: -1 };
+    }
+
+    return { node: lastChild, pos: previousBodyPos + previousBodyNode.nodeSize - 1 - lastChild.nodeSize };
+};
+
+/**
+ * Gets the block after a block of a page body in the content flow, i.e. the block after
+ * it in the same body or the first block of the next page's body.
+ *
+ * @param doc - The current document.
+ * @param pos - The position of a block in a page body.
+ * @returns {NullableNodePos} The block after it and its position, if any.
+ */
+export const getBodyChildAfterPos = (doc: PMNode, pos: number): NullableNodePos => {
+    const $pos = doc.resolve(pos);
+    const node = $pos.nodeAfter;
+    if (!node || !isBodyNode($pos.parent)) {
+        return { node: null, pos: -1 };
+    }
+
+    const index = $pos.index();
+    if (index < $pos.parent.childCount - 1) {
+        return { node: $pos.parent.child(index + 1), pos: pos + node.nodeSize };
+    }
+
+    const { node: nextBodyNode, pos: nextBodyPos } = getBodyAfterPos(doc, $pos);
+    const firstChild = nextBodyNode?.firstChild;
+    if (!firstChild) {
+        return { node: null, pos: -1 };
+    }
+
+    return { node: firstChild, pos: nextBodyPos + 1 };
+};
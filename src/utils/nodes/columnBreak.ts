@@ -0,0 +1,23 @@
+/**
+ * @file /src/utils/nodes/columnBreak.ts
+ * @name ColumnBreak
+ * @description Utility functions for column break nodes.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { COLUMN_BREAK_NODE_NAME } from "../../constants/columnBreak";
+import { Nullable } from "../../types/record";
+
+/**
+ * Check if the given node is a column break node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a column break node, false otherwise.
+ */
+export const isColumnBreakNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === COLUMN_BREAK_NODE_NAME;
+};
@@ -0,0 +1,257 @@
+/**
+ * @file /src/utils/nodes/crossReference.ts
+ * @name CrossReference
+ * @description Utility functions for cross-reference nodes and their targets.
+ */
+
+import { Attribute, Dispatch } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import { Decoration } from "@tiptap/pm/view";
+import {
+    BLOCK_ID_ATTR,
+    BLOCK_ID_HTML_ATTR,
+    BROKEN_CROSS_REFERENCE_TEXT,
+    CROSS_REFERENCE_DISPLAY_ATTR,
+    CROSS_REFERENCE_NODE_NAME,
+    CROSS_REFERENCE_RESOLUTION_KEY,
+    CROSS_REFERENCE_TARGET_ATTR,
+    DEFAULT_CROSS_REFERENCE_DISPLAY,
+} from "../../constants/crossReference";
+import { CrossReferenceDisplay, CrossReferenceResolution, CrossReferenceTarget } from "../../types/crossReference";
+import { NodePosArray } from "../../types/node";
+import { Nullable } from "../../types/record";
+import { isPageNode } from "./page/page";
+import { buildFormattedPageNumbers, getFormattedPageNumbersAtPos } from "./page/pageNumber";
+import { isSplitContinuationNode } from "../split/continuation";
+import { createRandomId } from "../string";
+
+/**
+ * Check if the given node is a cross-reference node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a cross-reference node, false otherwise.
+ */
+export const isCrossReferenceNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === CROSS_REFERENCE_NODE_NAME;
+};
+
+/**
+ * Get the id of the block a cross-reference targets.
+ *
+ * @param node - The cross-reference node.
+ * @returns {Nullable<string>} The target id or null if it is not set.
+ */
+export const getCrossReferenceTargetId = (node: PMNode): Nullable<string> => {
+    const { attrs } = node;
+    return attrs[CROSS_REFERENCE_TARGET_ATTR] ?? null;
+};
+
+/**
+ * Get what a cross-reference displays about its target.
+ *
+ * @param node - The cross-reference node.
+ * @returns {CrossReferenceDisplay} What the cross-reference displays.
+ */
+export const getCrossReferenceDisplay = (node: PMNode): CrossReferenceDisplay => {
+    const { attrs } = node;
+    return attrs[CROSS_REFERENCE_DISPLAY_ATTR] ?? DEFAULT_CROSS_REFERENCE_DISPLAY;
+};
+
+/**
+ * Get the stable id of a block.
+ *
+ * @param node - The block node.
+ * @returns {Nullable<string>} The block id or null if it is not set.
+ */
+export const getBlockId = (node: PMNode): Nullable<string> => {
+    const { attrs } = node;
+    return attrs[BLOCK_ID_ATTR] ?? null;
+};
+
+/**
+ * Create the attribute giving a block a stable id. The id is not kept when the block
+ * is split by the user, so only one of the halves remains the target.
+ *
+ * @returns {Attribute} The attribute specification.
+ */
+export const createBlockIdAttribute = (): Attribute => {
+    return {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute(BLOCK_ID_HTML_ATTR),
+        renderHTML: (attributes) => (attributes[BLOCK_ID_ATTR] ? { [BLOCK_ID_HTML_ATTR]: attributes[BLOCK_ID_ATTR] } : {}),
+    };
+};
+
+/**
+ * Collect the blocks of a document which cross-references can target, along with their
+ * labels and the pages they are on. Headings are numbered by level and other blocks in
+ * order of appearance. Fragments of blocks split across pages are counted once.
+ *
+ * @param doc - The document node.
+ * @param labels - The labels of the blocks which can be targeted, keyed by node type name.
+ * @returns {Map<string, CrossReferenceTarget>} The targets, keyed by block id.
+ */
+export const collectCrossReferenceTargets = (doc: PMNode, labels: Record<string, string>): Map<string, CrossReferenceTarget> => {
+    const targets = new Map<string, CrossReferenceTarget>();
+    const formattedPageNumbers = isPageNode(doc.firstChild) ? buildFormattedPageNumbers(doc) : [];
+    const headingCounters: number[] = [];
+    const typeCounts = new Map<string, number>();
+
+    doc.descendants((node, pos) => {
+        const labelPrefix = labels[node.type.name];
+        if (labelPrefix === undefined || isSplitContinuationNode(node)) {
+            return !node.isTextblock;
+        }
+
+        let number: string;
+        if (node.type.name === "heading") {
+            const level: number = node.attrs.level ?? 1;
+            headingCounters.length = level;
+            headingCounters[level - 1] = (headingCounters[level - 1] ?? 0) + 1;
+            number = Array.from(headingCounters, (count) => count ?? 0).join(".");
+        } else {
+            const count = (typeCounts.get(node.type.name) ?? 0) + 1;
+            typeCounts.set(node.type.name, count);
+            number = String(count);
+        }
+
+        const id = getBlockId(node);
+        if (id && !targets.has(id)) {
+            const label = labelPrefix ? `${labelPrefix} ${number}` : number;
+            const pageNumber = getFormattedPageNumbersAtPos(doc, formattedPageNumbers, pos)?.pageNumber ?? "";
+            targets.set(id, { pos, label, pageNumber });
+        }
+
+        return false;
+    });
+
+    return targets;
+};
+
+/**
+ * Resolve what a cross-reference displays from its target.
+ *
+ * @param target - The target of the cross-reference, if it exists.
+ * @param display - What the cross-reference displays about its target.
+ * @returns {CrossReferenceResolution} The text to display and whether the cross-reference is broken.
+ */
+export const resolveCrossReference = (target: Nullable<CrossReferenceTarget>, display: CrossReferenceDisplay): CrossReferenceResolution => {
+    if (!target) {
+        return { text: BROKEN_CROSS_REFERENCE_TEXT, isBroken: true };
+    }
+
+    const { label, pageNumber } = target;
+    switch (display) {
+        case "label":
+            return { text: label, isBroken: false };
+        case "page":
+            return { text: pageNumber, isBroken: false };
+        case "labelAndPage":
+            return { text: pageNumber ? `${label} on page ${pageNumber}` : label, isBroken: false };
+    }
+};
+
+/**
+ * Get the resolution of a cross-reference from its decorations.
+ *
+ * @param decorations - The decorations applied to the node.
+ * @returns {Nullable<CrossReferenceResolution>} The resolution or null if the node has not been decorated.
+ */
+export const getDecoratedCrossReferenceResolution = (decorations: readonly Decoration[]): Nullable<CrossReferenceResolution> => {
+    for (const decoration of decorations) {
+        const resolution = decoration.spec[CROSS_REFERENCE_RESOLUTION_KEY];
+        if (resolution) {
+            return resolution;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Collect the cross-references of a document.
+ *
+ * @param doc - The document node.
+ * @returns {NodePosArray} The cross-reference nodes and their positions, in document order.
+ */
+export const collectCrossReferences = (doc: PMNode): NodePosArray => {
+    const crossReferences: NodePosArray = [];
+    doc.descendants((node, pos) => {
+        if (isCrossReferenceNode(node)) {
+            crossReferences.push({ node, pos });
+        }
+
+        return !node.isLeaf;
+    });
+
+    return crossReferences;
+};
+
+/**
+ * Collect the cross-references of a document whose target no longer exists.
+ *
+ * @param doc - The document node.
+ * @param labels - The labels of the blocks which can be targeted, keyed by node type name.
+ * @returns {NodePosArray} The broken cross-reference nodes and their positions, in document order.
+ */
+export const collectBrokenCrossReferences = (doc: PMNode, labels: Record<string, string>): NodePosArray => {
+    const targets = collectCrossReferenceTargets(doc, labels);
+    return collectCrossReferences(doc).filter(({ node }) => {
+        const targetId = getCrossReferenceTargetId(node);
+        return !targetId || !targets.has(targetId);
+    });
+};
+
+/**
+ * Insert a cross-reference to the block at the given position at the selection. The
+ * block is given a stable id if it does not have one yet.
+ *
+ * @param tr - The current transaction.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param targetPos - The position of the block to reference.
+ * @param display - What the cross-reference displays about its target.
+ * @returns {boolean} True if the cross-reference was inserted, false otherwise.
+ */
+export const insertCrossReferenceAtSelection = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    targetPos: number,
+    display: CrossReferenceDisplay
+): boolean => {
+    if (!dispatch) return false;
+
+    const crossReferenceType = tr.doc.type.schema.nodes[CROSS_REFERENCE_NODE_NAME];
+    if (!crossReferenceType) {
+        console.warn("Cross-reference node type not found in schema");
+        return false;
+    }
+
+    const targetNode = tr.doc.nodeAt(targetPos);
+    if (!targetNode || !(BLOCK_ID_ATTR in targetNode.attrs)) {
+        console.warn("No block which can be cross-referenced at position:", targetPos);
+        return false;
+    }
+
+    if (!tr.selection.$from.parent.inlineContent) {
+        return false;
+    }
+
+    let targetId = getBlockId(targetNode);
+    if (!targetId) {
+        targetId = createRandomId();
+        tr.setNodeAttribute(targetPos, BLOCK_ID_ATTR, targetId);
+    }
+
+    tr.replaceSelectionWith(
+        crossReferenceType.create({ [CROSS_REFERENCE_TARGET_ATTR]: targetId, [CROSS_REFERENCE_DISPLAY_ATTR]: display })
+    );
+
+    dispatch(tr);
+    return true;
+};
@@ -5,6 +5,8 @@
  */
 
 import { Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
+import { ChangedRange } from "../../types/pagination";
+import { Nullable } from "../../types/record";
 
 /**
  * Check if the given position is at the start of the document.
@@ -38,3 +40,24 @@ export const isPosAtEndOfDocument = (doc: PMNode, $pos: ResolvedPos | number): b
 
     return $pos.pos >= doc.nodeSize - 2;
 };
+
+/**
+ * Get the range of the new document which differs from the old document.
+ *
+ * @param oldDoc - The old document node.
+ * @param newDoc - The new document node.
+ * @returns {Nullable<ChangedRange>} The changed range in positions of the new document or null
+ * if the documents have the same content.
+ */
+export const getChangedRange = (oldDoc: PMNode, newDoc: PMNode): Nullable<ChangedRange> => {
+    const from = newDoc.content.findDiffStart(oldDoc.content);
+    if (from === null) {
+        return null;
+    }
+
+    // The end of the diff can fall before its start when the change repeats adjacent content
+    const diffEnd = oldDoc.content.findDiffEnd(newDoc.content);
+    const to = diffEnd ? Math.max(from, diffEnd.b) : newDoc.content.size;
+
+    return { from, to };
+};
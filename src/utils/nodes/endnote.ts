@@ -0,0 +1,332 @@
+/**
+ * @file /src/utils/nodes/endnote.ts
+ * @name Endnote
+ * @description Utility functions for endnote reference, endnote and endnotes nodes.
+ */
+
+import { Attribute, Dispatch } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { TextSelection, Transaction } from "@tiptap/pm/state";
+import { Decoration } from "@tiptap/pm/view";
+import {
+    ENDNOTE_ID_ATTR,
+    ENDNOTE_ID_HTML_ATTR,
+    ENDNOTE_NODE_NAME,
+    ENDNOTE_NUMBER_KEY,
+    ENDNOTE_REFERENCE_NODE_NAME,
+    ENDNOTES_NODE_NAME,
+} from "../../constants/endnote";
+import { EndnotePlacement, EndnoteScope } from "../../types/endnote";
+import { Nullable } from "../../types/record";
+import { isSectionBreakNode } from "./sectionBreak";
+import { isPosInBody } from "./body/bodyCondition";
+import { forEachBodyChild } from "./body/bodyPosition";
+import { createRandomId } from "../string";
+
+/**
+ * Check if the given node is an endnote reference node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is an endnote reference node, false otherwise.
+ */
+export const isEndnoteReferenceNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === ENDNOTE_REFERENCE_NODE_NAME;
+};
+
+/**
+ * Check if the given node is an endnote node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is an endnote node, false otherwise.
+ */
+export const isEndnoteNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === ENDNOTE_NODE_NAME;
+};
+
+/**
+ * Check if the given node is an endnotes node, i.e. the block the endnotes are gathered into.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is an endnotes node, false otherwise.
+ */
+export const isEndnotesNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === ENDNOTES_NODE_NAME;
+};
+
+/**
+ * Get the id of an endnote reference or endnote node.
+ *
+ * @param node - The endnote reference or endnote node.
+ * @returns {Nullable<string>} The endnote id or null if it is not set.
+ */
+export const getEndnoteId = (node: PMNode): Nullable<string> => {
+    const { attrs } = node;
+    return attrs[ENDNOTE_ID_ATTR] ?? null;
+};
+
+/**
+ * Create the attribute linking an endnote reference to its endnote.
+ *
+ * @returns {Attribute} The attribute specification.
+ */
+export const createEndnoteIdAttribute = (): Attribute => {
+    return {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute(ENDNOTE_ID_HTML_ATTR),
+        renderHTML: (attributes) => (attributes[ENDNOTE_ID_ATTR] ? { [ENDNOTE_ID_HTML_ATTR]: attributes[ENDNOTE_ID_ATTR] } : {}),
+    };
+};
+
+/**
+ * Collect the ids of the endnotes referenced in a node, in order.
+ *
+ * @param node - The node to collect the endnote references of.
+ * @returns {string[]} The endnote ids.
+ */
+const collectEndnoteReferenceIds = (node: PMNode): string[] => {
+    const ids: string[] = [];
+    node.descendants((child) => {
+        if (!isEndnoteReferenceNode(child)) {
+            return !child.isLeaf;
+        }
+
+        const id = getEndnoteId(child);
+        if (id) {
+            ids.push(id);
+        }
+
+        return false;
+    });
+
+    return ids;
+};
+
+/**
+ * Collect the parts of the document whose endnotes are gathered together: the whole
+ * document, or each section.
+ *
+ * @param doc - The document node.
+ * @param placement - Whether endnotes are gathered at the end of the document or of each section.
+ * @returns {EndnoteScope[]} The endnote scopes, in document order.
+ */
+export const collectEndnoteScopes = (doc: PMNode, placement: EndnotePlacement): EndnoteScope[] => {
+    const createScope = (endPos: number): EndnoteScope => ({ referenceIds: [], endnotesNodes: [], endPos, hasContentAfterEndnotes: false });
+    const scopes: EndnoteScope[] = [createScope(-1)];
+
+    forEachBodyChild(doc, (node, pos) => {
+        const scope = scopes[scopes.length - 1];
+        if (isEndnotesNode(node)) {
+            scope.endnotesNodes.push({ node, pos });
+            return;
+        }
+
+        if (placement === "section" && isSectionBreakNode(node)) {
+            // The endnotes of a section go before the section break which ends it
+            scope.endPos = pos;
+            scopes.push(createScope(pos + node.nodeSize));
+            return;
+        }
+
+        collectEndnoteReferenceIds(node).forEach((id) => {
+            if (!scope.referenceIds.includes(id)) {
+                scope.referenceIds.push(id);
+            }
+        });
+
+        scope.hasContentAfterEndnotes = scope.endnotesNodes.length > 0;
+        scope.endPos = pos + node.nodeSize;
+    });
+
+    return scopes;
+};
+
+/**
+ * Number the endnotes of a document in the order their references appear, starting
+ * from 1 in each place the endnotes are gathered.
+ *
+ * @param doc - The document node.
+ * @param placement - Whether endnotes are gathered at the end of the document or of each section.
+ * @returns {Map<string, number>} The number of each endnote, keyed by endnote id.
+ */
+export const getEndnoteNumbers = (doc: PMNode, placement: EndnotePlacement): Map<string, number> => {
+    const endnoteNumbers = new Map<string, number>();
+    collectEndnoteScopes(doc, placement).forEach(({ referenceIds }) => {
+        referenceIds.forEach((id, index) => {
+            if (!endnoteNumbers.has(id)) {
+                endnoteNumbers.set(id, index + 1);
+            }
+        });
+    });
+
+    return endnoteNumbers;
+};
+
+/**
+ * Get the formatted number of an endnote reference or endnote from its decorations.
+ *
+ * @param decorations - The decorations applied to the node.
+ * @returns {Nullable<string>} The endnote number or null if the node has not been decorated.
+ */
+export const getDecoratedEndnoteNumber = (decorations: readonly Decoration[]): Nullable<string> => {
+    for (const decoration of decorations) {
+        const endnoteNumber = decoration.spec[ENDNOTE_NUMBER_KEY];
+        if (typeof endnoteNumber === "string") {
+            return endnoteNumber;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Find the position of the first node with the given endnote id which matches the predicate.
+ *
+ * @param doc - The document node.
+ * @param id - The endnote id.
+ * @param predicate - Whether a node is of the type to find.
+ * @returns {Nullable<number>} The position of the node or null if it is not found.
+ */
+const findEndnoteIdPos = (doc: PMNode, id: string, predicate: (node: PMNode) => boolean): Nullable<number> => {
+    let foundPos: Nullable<number> = null;
+    doc.descendants((node, pos) => {
+        if (foundPos !== null) {
+            return false;
+        }
+
+        if (predicate(node) && getEndnoteId(node) === id) {
+            foundPos = pos;
+            return false;
+        }
+
+        return !node.isLeaf;
+    });
+
+    return foundPos;
+};
+
+/**
+ * Get the position of the reference to an endnote, e.g. to link back to it from the endnote.
+ *
+ * @param doc - The document node.
+ * @param id - The endnote id.
+ * @returns {Nullable<number>} The position of the endnote reference or null if it is not found.
+ */
+export const getEndnoteReferencePos = (doc: PMNode, id: string): Nullable<number> => {
+    return findEndnoteIdPos(doc, id, isEndnoteReferenceNode);
+};
+
+/**
+ * Gather the endnotes of each scope into a single endnotes block at the end of the scope,
+ * in the order of their references. Endnotes without a reference are dropped and empty
+ * endnotes are added for new references. Scopes which are already up to date are left
+ * untouched, including endnotes blocks which pagination has split across pages.
+ *
+ * @param tr - The transaction to apply the changes to.
+ * @param placement - Whether endnotes are gathered at the end of the document or of each section.
+ * @returns {boolean} True if any endnotes were changed, false otherwise.
+ */
+export const syncEndnotes = (tr: Transaction, placement: EndnotePlacement): boolean => {
+    const { doc } = tr;
+    const { schema } = doc.type;
+    const endnoteType = schema.nodes[ENDNOTE_NODE_NAME];
+    const endnotesType = schema.nodes[ENDNOTES_NODE_NAME];
+    if (!endnoteType || !endnotesType) {
+        return false;
+    }
+
+    const scopes = collectEndnoteScopes(doc, placement);
+
+    // Endnotes are kept by id wherever they are, as a reference may have moved to another scope
+    const endnoteNodes = new Map<string, PMNode>();
+    scopes.forEach(({ endnotesNodes }) => {
+        endnotesNodes.forEach(({ node: endnotesNode }) => {
+            endnotesNode.forEach((endnoteNode) => {
+                const id = getEndnoteId(endnoteNode);
+                if (id && !endnoteNodes.has(id)) {
+                    endnoteNodes.set(id, endnoteNode);
+                }
+            });
+        });
+    });
+
+    let isChanged = false;
+    scopes.forEach(({ referenceIds, endnotesNodes, endPos, hasContentAfterEndnotes }) => {
+        const endnoteIds: Nullable<string>[] = [];
+        endnotesNodes.forEach(({ node: endnotesNode }) =>
+            endnotesNode.forEach((endnoteNode) => endnoteIds.push(getEndnoteId(endnoteNode)))
+        );
+
+        const isUpToDate = endnoteIds.length === referenceIds.length && endnoteIds.every((id, index) => id === referenceIds[index]);
+        if (isUpToDate && !hasContentAfterEndnotes) {
+            return;
+        }
+
+        endnotesNodes.forEach(({ node, pos }) => {
+            const from = tr.mapping.map(pos);
+            tr.delete(from, from + node.nodeSize);
+        });
+
+        if (referenceIds.length > 0) {
+            const endnotes = referenceIds.map(
+                (id) => endnoteNodes.get(id) ?? endnoteType.create({ [ENDNOTE_ID_ATTR]: id }, schema.nodes.paragraph.create())
+            );
+            tr.insert(tr.mapping.map(endPos, -1), endnotesType.create(null, endnotes));
+        }
+
+        isChanged = true;
+    });
+
+    return isChanged;
+};
+
+/**
+ * Insert an endnote reference at the selection, gather its (empty) endnote into the
+ * endnotes and move the cursor into the endnote.
+ *
+ * @param tr - The current transaction.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param placement - Whether endnotes are gathered at the end of the document or of each section.
+ * @returns {boolean} True if the endnote was inserted, false otherwise.
+ */
+export const insertEndnoteAtSelection = (tr: Transaction, dispatch: Dispatch, placement: EndnotePlacement): boolean => {
+    if (!dispatch) return false;
+
+    const { schema } = tr.doc.type;
+    const referenceType = schema.nodes[ENDNOTE_REFERENCE_NODE_NAME];
+    if (!referenceType) {
+        console.warn("Endnote reference node type not found in schema");
+        return false;
+    }
+
+    const { $from } = tr.selection;
+    if (!$from.parent.inlineContent || !isPosInBody(tr.doc, $from)) {
+        // Endnotes can only be referenced from the text of the body
+        return false;
+    }
+
+    const id = createRandomId();
+    tr.replaceSelectionWith(referenceType.create({ [ENDNOTE_ID_ATTR]: id }), false);
+    syncEndnotes(tr, placement);
+
+    const endnotePos = findEndnoteIdPos(tr.doc, id, isEndnoteNode);
+    if (endnotePos !== null) {
+        // Inside the endnote and its paragraph
+        tr.setSelection(TextSelection.create(tr.doc, endnotePos + 2));
+    }
+
+    dispatch(tr);
+    return true;
+};
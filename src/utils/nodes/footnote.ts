@@ -0,0 +1,283 @@
+/**
+ * @file /src/utils/nodes/footnote.ts
+ * @name Footnote
+ * @description Utility functions for footnote reference, footnote and footnotes nodes.
+ */
+
+import { Attribute, Dispatch } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { TextSelection, Transaction } from "@tiptap/pm/state";
+import { Decoration } from "@tiptap/pm/view";
+import {
+    FOOTNOTE_ID_ATTR,
+    FOOTNOTE_ID_HTML_ATTR,
+    FOOTNOTE_NODE_NAME,
+    FOOTNOTE_NUMBER_KEY,
+    FOOTNOTE_REFERENCE_NODE_NAME,
+    FOOTNOTES_NODE_NAME,
+} from "../../constants/footnote";
+import { FootnoteNodeMap, FootnoteNumbering } from "../../types/footnote";
+import { NullableNodePos } from "../../types/node";
+import { Nullable } from "../../types/record";
+import { isPageNode } from "./page/page";
+import { getPageNodeSection } from "./page/attributes/section";
+import { getPageNodeAndPosition } from "./page/pagePosition";
+import { getPageRegionNode, getPageRegionNodeAndPos } from "../pageRegion/getAttributes";
+import { isPosInBody } from "./body/bodyCondition";
+import { createRandomId } from "../string";
+
+/**
+ * Check if the given node is a footnote reference node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a footnote reference node, false otherwise.
+ */
+export const isFootnoteReferenceNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === FOOTNOTE_REFERENCE_NODE_NAME;
+};
+
+/**
+ * Check if the given node is a footnote node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a footnote node, false otherwise.
+ */
+export const isFootnoteNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === FOOTNOTE_NODE_NAME;
+};
+
+/**
+ * Check if the given node is a footnotes node, i.e. the region holding the footnotes of a page.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a footnotes node, false otherwise.
+ */
+export const isFootnotesNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === FOOTNOTES_NODE_NAME;
+};
+
+/**
+ * Get the id of a footnote reference or footnote node.
+ *
+ * @param node - The footnote reference or footnote node.
+ * @returns {Nullable<string>} The footnote id or null if it is not set.
+ */
+export const getFootnoteId = (node: PMNode): Nullable<string> => {
+    const { attrs } = node;
+    return attrs[FOOTNOTE_ID_ATTR] ?? null;
+};
+
+/**
+ * Create the attribute linking a footnote reference to its footnote.
+ *
+ * @returns {Attribute} The attribute specification.
+ */
+export const createFootnoteIdAttribute = (): Attribute => {
+    return {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute(FOOTNOTE_ID_HTML_ATTR),
+        renderHTML: (attributes) => (attributes[FOOTNOTE_ID_ATTR] ? { [FOOTNOTE_ID_HTML_ATTR]: attributes[FOOTNOTE_ID_ATTR] } : {}),
+    };
+};
+
+/**
+ * Collect the ids of the footnotes referenced in a node, in order. Each id is only
+ * collected once.
+ *
+ * @param node - The node to collect the footnote references of.
+ * @returns {string[]} The footnote ids.
+ */
+export const collectFootnoteReferenceIds = (node: PMNode): string[] => {
+    const ids: string[] = [];
+    node.descendants((child) => {
+        if (!isFootnoteReferenceNode(child)) {
+            return !child.isLeaf;
+        }
+
+        const id = getFootnoteId(child);
+        if (id && !ids.includes(id)) {
+            ids.push(id);
+        }
+
+        return false;
+    });
+
+    return ids;
+};
+
+/**
+ * Collect the footnote nodes in the footnotes regions of every page.
+ *
+ * @param doc - The document node.
+ * @returns {FootnoteNodeMap} The footnote nodes and their positions, keyed by footnote id.
+ */
+export const collectFootnoteNodes = (doc: PMNode): FootnoteNodeMap => {
+    const footnoteNodes: FootnoteNodeMap = new Map();
+    doc.forEach((pageNode, pageOffset) => {
+        if (!isPageNode(pageNode)) return;
+
+        pageNode.forEach((pageRegionNode, pageRegionOffset) => {
+            if (!isFootnotesNode(pageRegionNode)) return;
+
+            const footnotesPos = pageOffset + 1 + pageRegionOffset;
+            pageRegionNode.forEach((footnoteNode, footnoteOffset) => {
+                const id = getFootnoteId(footnoteNode);
+                if (id && !footnoteNodes.has(id)) {
+                    footnoteNodes.set(id, { node: footnoteNode, pos: footnotesPos + 1 + footnoteOffset });
+                }
+            });
+        });
+    });
+
+    return footnoteNodes;
+};
+
+/**
+ * Get the footnotes node of a page and its position.
+ *
+ * @param pagePos - The position of the page node.
+ * @param pageNode - The page node.
+ * @returns {NullableNodePos} The footnotes node and its position or null if the page has no footnotes.
+ */
+export const getPageFootnotesNodeAndPos = (pagePos: number, pageNode: PMNode): NullableNodePos => {
+    let footnotesNodePos: NullableNodePos = { node: null, pos: -1 };
+    pageNode.forEach((pageRegionNode, offset) => {
+        if (isFootnotesNode(pageRegionNode)) {
+            footnotesNodePos = { node: pageRegionNode, pos: pagePos + 1 + offset };
+        }
+    });
+
+    return footnotesNodePos;
+};
+
+/**
+ * Number the footnotes of a document in the order their references appear in the page
+ * bodies, restarting in each section if footnotes are numbered by section.
+ *
+ * @param doc - The document node.
+ * @param numbering - Whether footnotes are numbered through the document or by section.
+ * @returns {Map<string, number>} The number of each footnote, keyed by footnote id.
+ */
+export const getFootnoteNumbers = (doc: PMNode, numbering: FootnoteNumbering): Map<string, number> => {
+    const footnoteNumbers = new Map<string, number>();
+    let sectionNum = 0;
+    let footnoteCount = 0;
+
+    doc.forEach((pageNode) => {
+        const isPaginated = isPageNode(pageNode);
+        const pageSectionNum = isPaginated ? getPageNodeSection(pageNode) : sectionNum;
+        if (numbering === "section" && pageSectionNum !== sectionNum) {
+            footnoteCount = 0;
+        }
+
+        sectionNum = pageSectionNum;
+
+        const bodyNode = isPaginated ? getPageRegionNode(pageNode, "body") : pageNode;
+        if (!bodyNode) return;
+
+        collectFootnoteReferenceIds(bodyNode).forEach((id) => {
+            if (!footnoteNumbers.has(id)) {
+                footnoteNumbers.set(id, ++footnoteCount);
+            }
+        });
+    });
+
+    return footnoteNumbers;
+};
+
+/**
+ * Get the number of a footnote reference or footnote from its decorations.
+ *
+ * @param decorations - The decorations applied to the node.
+ * @returns {Nullable<string>} The footnote number or null if the node has not been decorated.
+ */
+export const getDecoratedFootnoteNumber = (decorations: readonly Decoration[]): Nullable<string> => {
+    for (const decoration of decorations) {
+        const footnoteNumber = decoration.spec[FOOTNOTE_NUMBER_KEY];
+        if (typeof footnoteNumber === "string") {
+            return footnoteNumber;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Insert a footnote reference at the selection along with an empty footnote in the
+ * footnotes of its page, and move the cursor into the footnote.
+ *
+ * @param tr - The current transaction.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @returns {boolean} True if the footnote was inserted, false otherwise.
+ */
+export const insertFootnoteAtSelection = (tr: Transaction, dispatch: Dispatch): boolean => {
+    if (!dispatch) return false;
+
+    const { schema } = tr.doc.type;
+    const referenceType = schema.nodes[FOOTNOTE_REFERENCE_NODE_NAME];
+    const footnoteType = schema.nodes[FOOTNOTE_NODE_NAME];
+    const footnotesType = schema.nodes[FOOTNOTES_NODE_NAME];
+    if (!referenceType || !footnoteType || !footnotesType) {
+        console.warn("Footnote node types not found in schema");
+        return false;
+    }
+
+    const { $from } = tr.selection;
+    if (!$from.parent.inlineContent || !isPosInBody(tr.doc, $from)) {
+        // Footnotes can only be referenced from the text of the body
+        return false;
+    }
+
+    const id = createRandomId();
+    tr.replaceSelectionWith(referenceType.create({ [FOOTNOTE_ID_ATTR]: id }), false);
+
+    const { doc } = tr;
+    const { node: pageNode, pos: pagePos } = getPageNodeAndPosition(doc, tr.selection.from);
+    const { node: bodyNode, pos: bodyPos } = pageNode ? getPageRegionNodeAndPos(pagePos, pageNode, "body") : { node: null, pos: -1 };
+    if (!pageNode || !bodyNode) {
+        return false;
+    }
+
+    const footnote = footnoteType.create({ [FOOTNOTE_ID_ATTR]: id }, schema.nodes.paragraph.create());
+    const { node: footnotesNode, pos: footnotesPos } = getPageFootnotesNodeAndPos(pagePos, pageNode);
+
+    let footnotePos: number;
+    if (footnotesNode) {
+        // Keep the footnotes in the order of their references
+        const referenceIds = collectFootnoteReferenceIds(bodyNode);
+        const precedingIds = referenceIds.slice(0, referenceIds.indexOf(id));
+
+        footnotePos = footnotesPos + 1;
+        footnotesNode.forEach((footnoteNode, offset) => {
+            const footnoteId = getFootnoteId(footnoteNode);
+            if (footnoteId && precedingIds.includes(footnoteId)) {
+                footnotePos = footnotesPos + 1 + offset + footnoteNode.nodeSize;
+            }
+        });
+
+        tr.insert(footnotePos, footnote);
+    } else {
+        const footnotesNodePos = bodyPos + bodyNode.nodeSize;
+        tr.insert(footnotesNodePos, footnotesType.create(null, footnote));
+        footnotePos = footnotesNodePos + 1;
+    }
+
+    // Inside the footnote and its paragraph
+    tr.setSelection(TextSelection.create(tr.doc, footnotePos + 2));
+
+    dispatch(tr);
+    return true;
+};
@@ -5,11 +5,13 @@
  */
 
 import { Node as PMNode } from "@tiptap/pm/model";
-import { HeaderNodeAttributes, FooterNodeAttributes, HeaderFooter } from "../../../types/pageRegions";
+import { HeaderNodeAttributes, FooterNodeAttributes, HeaderFooter, HeaderFooterVariant } from "../../../types/pageRegions";
+import { PageAmendmentOptions } from "../../../types/pageAmendment";
 import { Nullable } from "../../../types/record";
 import {
     HEADER_DEFAULT_ATTRIBUTES,
     FOOTER_DEFAULT_ATTRIBUTES,
+    HEADER_FOOTER_DEFAULT_ATTRIBUTES,
     HEADER_FOOTER_NODE_ATTR_KEYS,
     HEADER_FOOTER_NODE_NAME,
 } from "../../../constants/pageRegions";
@@ -69,6 +71,55 @@ export const getHeaderFooterNodeHeight = (headerFooterNode: PMNode): Nullable<nu
     return attrs[HEADER_FOOTER_NODE_ATTR_KEYS.height];
 };
 
+/**
+ * Check if the header or footer node is linked, i.e. shares its content with the
+ * other linked headers or footers of the same type.
+ *
+ * @param headerFooterNode - The header or footer node to check.
+ * @returns {boolean} True if the header or footer node is linked, false otherwise.
+ */
+export const isHeaderFooterNodeLinked = (headerFooterNode: PMNode): boolean => {
+    const { attrs } = headerFooterNode;
+    return attrs[HEADER_FOOTER_NODE_ATTR_KEYS.linked] ?? HEADER_FOOTER_DEFAULT_ATTRIBUTES.linked;
+};
+
+/**
+ * Get the variant of the header or footer node.
+ *
+ * @param headerFooterNode - The header or footer node to retrieve the variant for.
+ * @returns {HeaderFooterVariant} The variant of the specified header or footer node.
+ */
+export const getHeaderFooterNodeVariant = (headerFooterNode: PMNode): HeaderFooterVariant => {
+    const { attrs } = headerFooterNode;
+    return attrs[HEADER_FOOTER_NODE_ATTR_KEYS.variant] ?? HEADER_FOOTER_DEFAULT_ATTRIBUTES.variant;
+};
+
+/**
+ * Get the header or footer variant to show on a page.
+ *
+ * @param pageNum - The page number (0-indexed).
+ * @param isSectionStart - Whether the page is the first page of its section.
+ * @param pageAmendmentOptions - The page amendment options.
+ * @returns {HeaderFooterVariant} The variant of the header and footer for the page.
+ */
+export const getPageHeaderFooterVariant = (
+    pageNum: number,
+    isSectionStart: boolean,
+    pageAmendmentOptions: PageAmendmentOptions
+): HeaderFooterVariant => {
+    const { differentFirstPage, differentOddEven } = pageAmendmentOptions;
+    if (differentFirstPage && isSectionStart) {
+        return "first";
+    }
+
+    // Page numbers are 0-indexed so odd page numbers are even pages
+    if (differentOddEven && pageNum % 2 === 1) {
+        return "even";
+    }
+
+    return "default";
+};
+
 /**
  * Retrieves the header node attributes, filling in any missing attributes with the default values.
  * @param headerFooterNode - The header or footer node to retrieve the attributes for.
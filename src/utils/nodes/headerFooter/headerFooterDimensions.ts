@@ -0,0 +1,119 @@
+/**
+ * @file /src/utils/nodes/headerFooter/headerFooterDimensions.ts
+ * @name HeaderFooterDimensions
+ * @description Utility functions for the height and page end offset of headers and footers.
+ */
+
+import { Dispatch, Editor } from "@tiptap/core";
+import { Transaction } from "@tiptap/pm/state";
+import { HEADER_FOOTER_DEFAULT_ATTRIBUTES, HEADER_FOOTER_NODE_ATTR_KEYS } from "../../../constants/pageRegions";
+import { MARGIN_STORAGE_UNIT } from "../../../constants/units";
+import { HeaderFooter } from "../../../types/pageRegions";
+import { Length } from "../../../types/units";
+import { getPaginationExtensionOptions } from "../../options";
+import { getPageRegionAttributeByPageNum } from "../../pageRegion/getAttributes";
+import { resolveLength, toDisplayLength } from "../../units";
+import { isPageNode } from "../page/page";
+import { getHeaderFooterNodeHeight, getHeaderFooterNodePageEndOffset, getHeaderFooterNodeType, isHeaderFooterNode } from "./headerFooter";
+
+type HeaderFooterDimension = typeof HEADER_FOOTER_NODE_ATTR_KEYS.height | typeof HEADER_FOOTER_NODE_ATTR_KEYS.pageEndOffset;
+
+/**
+ * Checks if a header or footer dimension (height or page end offset) is valid.
+ * Dimensions must be non-negative and finite to be considered valid.
+ *
+ * @param value - The dimension in millimetres.
+ * @returns {boolean} True if the dimension is valid, false otherwise.
+ */
+export const isHeaderFooterDimensionValid = (value: number): boolean => {
+    return value >= 0 && isFinite(value);
+};
+
+/**
+ * Retrieves the height of the header or footer of a specific page using the editor instance.
+ * Falls back to the default height if the page has no header or footer.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the height for.
+ * @param headerFooterType - The page region ("header" or "footer").
+ * @returns {number} The height in the display unit of the pagination options (millimetres if there is none).
+ */
+export const getPageNumHeaderFooterHeight = (editor: Editor, pageNum: number, headerFooterType: HeaderFooter): number => {
+    const height = getPageRegionAttributeByPageNum(
+        editor.state,
+        pageNum,
+        headerFooterType,
+        HEADER_FOOTER_DEFAULT_ATTRIBUTES.height,
+        getHeaderFooterNodeHeight
+    );
+
+    return toDisplayLength(height, MARGIN_STORAGE_UNIT, getPaginationExtensionOptions(editor).displayUnit);
+};
+
+/**
+ * Retrieves the page end offset of the header or footer of a specific page using the editor
+ * instance. Falls back to the default page end offset if the page has no header or footer.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the page end offset for.
+ * @param headerFooterType - The page region ("header" or "footer").
+ * @returns {number} The page end offset in the display unit of the pagination options (millimetres if there is none).
+ */
+export const getPageNumHeaderFooterPageEndOffset = (editor: Editor, pageNum: number, headerFooterType: HeaderFooter): number => {
+    const pageEndOffset = getPageRegionAttributeByPageNum(
+        editor.state,
+        pageNum,
+        headerFooterType,
+        HEADER_FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset,
+        getHeaderFooterNodePageEndOffset
+    );
+
+    return toDisplayLength(pageEndOffset, MARGIN_STORAGE_UNIT, getPaginationExtensionOptions(editor).displayUnit);
+};
+
+/**
+ * Set a dimension of all the headers or footers in the document. Headers and footers created
+ * by pagination inherit it from the existing ones.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param headerFooterType - The page region ("header" or "footer").
+ * @param dimension - The dimension to set.
+ * @param length - The new value of the dimension. Plain numbers are in millimetres.
+ * @returns {boolean} True if the dimension was set on any header or footer, false otherwise.
+ */
+export const setHeaderFooterDimension = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    headerFooterType: HeaderFooter,
+    dimension: HeaderFooterDimension,
+    length: Length
+): boolean => {
+    if (!dispatch) return false;
+
+    const value = resolveLength(length, MARGIN_STORAGE_UNIT);
+    if (value === null || !isHeaderFooterDimensionValid(value)) {
+        console.warn("Invalid", headerFooterType, dimension, length);
+        return false;
+    }
+
+    let changed = false;
+    tr.doc.descendants((node, pos) => {
+        if (isPageNode(node)) {
+            return true;
+        }
+
+        if (isHeaderFooterNode(node) && getHeaderFooterNodeType(node) === headerFooterType && node.attrs[dimension] !== value) {
+            tr.setNodeAttribute(pos, dimension, value);
+            changed = true;
+        }
+
+        return false;
+    });
+
+    if (changed) {
+        dispatch(tr);
+    }
+
+    return changed;
+};
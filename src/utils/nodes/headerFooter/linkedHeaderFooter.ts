@@ -0,0 +1,187 @@
+/**
+ * @file /src/utils/nodes/headerFooter/linkedHeaderFooter.ts
+ * @name LinkedHeaderFooter
+ * @description Utility functions for headers and footers which share their content across pages.
+ */
+
+import { Dispatch } from "@tiptap/core";
+import { Fragment, Node as PMNode } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import { HEADER_FOOTER_NODE_ATTR_KEYS } from "../../../constants/pageRegions";
+import { NodePosArray } from "../../../types/node";
+import { HeaderFooter, HeaderFooterLinkGroup } from "../../../types/pageRegions";
+import { Nullable } from "../../../types/record";
+import { getPageRegionNodeAndPos } from "../../pageRegion/getAttributes";
+import { getPageNodeSection } from "../page/attributes/section";
+import { isPageNode } from "../page/page";
+import { getPageNodePosByPageNum } from "../page/pageNumber";
+import { getHeaderFooterNodeType, getHeaderFooterNodeVariant, isHeaderFooterNode, isHeaderFooterNodeLinked } from "./headerFooter";
+
+/**
+ * Get the link group of a header or footer node.
+ *
+ * @param pageNode - The page node the header or footer is on.
+ * @param headerFooterNode - The header or footer node.
+ * @returns {Nullable<HeaderFooterLinkGroup>} The link group or null if the node is not a header or footer.
+ */
+const getHeaderFooterLinkGroup = (pageNode: PMNode, headerFooterNode: PMNode): Nullable<HeaderFooterLinkGroup> => {
+    const type = getHeaderFooterNodeType(headerFooterNode);
+    if (!type) {
+        return null;
+    }
+
+    return { type, variant: getHeaderFooterNodeVariant(headerFooterNode), section: getPageNodeSection(pageNode) };
+};
+
+/**
+ * Check if two link groups are the same.
+ *
+ * @param a - The first link group.
+ * @param b - The second link group.
+ * @returns {boolean} True if the link groups are the same, false otherwise.
+ */
+const isSameLinkGroup = (a: HeaderFooterLinkGroup, b: HeaderFooterLinkGroup): boolean => {
+    return a.type === b.type && a.variant === b.variant && a.section === b.section;
+};
+
+/**
+ * Collect the link groups of the linked headers and footers in the document.
+ *
+ * @param doc - The document node.
+ * @returns {HeaderFooterLinkGroup[]} The distinct link groups, in document order.
+ */
+export const collectHeaderFooterLinkGroups = (doc: PMNode): HeaderFooterLinkGroup[] => {
+    const linkGroups: HeaderFooterLinkGroup[] = [];
+    doc.forEach((pageNode) => {
+        if (!isPageNode(pageNode)) return;
+
+        pageNode.forEach((node) => {
+            if (!isHeaderFooterNode(node) || !isHeaderFooterNodeLinked(node)) return;
+
+            const linkGroup = getHeaderFooterLinkGroup(pageNode, node);
+            if (linkGroup && !linkGroups.some((existing) => isSameLinkGroup(existing, linkGroup))) {
+                linkGroups.push(linkGroup);
+            }
+        });
+    });
+
+    return linkGroups;
+};
+
+/**
+ * Collect the linked header or footer nodes of the given link group and their positions in the document.
+ *
+ * @param doc - The document node.
+ * @param linkGroup - The link group to collect.
+ * @returns {NodePosArray} The linked header or footer nodes and their positions, in document order.
+ */
+export const collectLinkedHeaderFooterNodes = (doc: PMNode, linkGroup: HeaderFooterLinkGroup): NodePosArray => {
+    const linkedNodes: NodePosArray = [];
+    doc.forEach((pageNode, pageOffset) => {
+        if (!isPageNode(pageNode)) return;
+
+        pageNode.forEach((node, offset) => {
+            if (!isHeaderFooterNode(node) || !isHeaderFooterNodeLinked(node)) return;
+
+            const nodeLinkGroup = getHeaderFooterLinkGroup(pageNode, node);
+            if (nodeLinkGroup && isSameLinkGroup(nodeLinkGroup, linkGroup)) {
+                linkedNodes.push({ node, pos: pageOffset + 1 + offset });
+            }
+        });
+    });
+
+    return linkedNodes;
+};
+
+/**
+ * Get the content shared by the linked headers or footers of the given link group.
+ *
+ * @param doc - The document node.
+ * @param linkGroup - The link group.
+ * @returns {Nullable<Fragment>} The shared content or null if no header or footer of the link group is linked.
+ */
+export const getLinkedHeaderFooterContent = (doc: PMNode, linkGroup: HeaderFooterLinkGroup): Nullable<Fragment> => {
+    const [firstLinkedNode] = collectLinkedHeaderFooterNodes(doc, linkGroup);
+    return firstLinkedNode?.node.content ?? null;
+};
+
+/**
+ * Copy the content of an edited linked header or footer to all other linked headers or footers
+ * of the same link group. The edited one is found by comparing against the shared content of
+ * the document before the change.
+ *
+ * @param oldDoc - The document before the change.
+ * @param tr - The transaction to apply the change to. Its document is the document after the change.
+ * @param linkGroup - The link group to sync.
+ * @returns {boolean} True if any header or footer was updated, false otherwise.
+ */
+export const syncLinkedHeaderFooters = (oldDoc: PMNode, tr: Transaction, linkGroup: HeaderFooterLinkGroup): boolean => {
+    const sharedContent = getLinkedHeaderFooterContent(oldDoc, linkGroup);
+    if (!sharedContent) {
+        return false;
+    }
+
+    const linkedNodes = collectLinkedHeaderFooterNodes(tr.doc, linkGroup);
+    const editedNode = linkedNodes.find(({ node }) => !node.content.eq(sharedContent));
+    if (!editedNode) {
+        return false;
+    }
+
+    const { content } = editedNode.node;
+    const outdatedNodes = linkedNodes.filter(({ node }) => !node.content.eq(content));
+
+    // Replace from the end of the document so earlier positions remain valid
+    outdatedNodes.reverse().forEach(({ node, pos }) => {
+        tr.replaceWith(pos + 1, pos + node.nodeSize - 1, content);
+    });
+
+    return outdatedNodes.length > 0;
+};
+
+/**
+ * Link or unlink the header or footer of a page. Linking a header or footer replaces its
+ * content with the content shared by the other linked headers or footers of its link group,
+ * if there are any.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param pageNum - The page number of the header or footer (0-indexed).
+ * @param headerFooterType - The type of the page region.
+ * @param linked - Whether the header or footer should be linked.
+ * @returns {boolean} True if the header or footer was linked or unlinked, false otherwise.
+ */
+export const setHeaderFooterLinked = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    pageNum: number,
+    headerFooterType: HeaderFooter,
+    linked: boolean
+): boolean => {
+    if (!dispatch) return false;
+
+    const pageNodePos = getPageNodePosByPageNum(tr.doc, pageNum);
+    if (!pageNodePos) {
+        return false;
+    }
+
+    const { node: pageNode, pos: pagePos } = pageNodePos;
+    const { node: headerFooterNode, pos: headerFooterPos } = getPageRegionNodeAndPos(pagePos, pageNode, headerFooterType);
+    if (!headerFooterNode) {
+        console.warn("No", headerFooterType, "found on page", pageNum);
+        return false;
+    }
+
+    if (isHeaderFooterNodeLinked(headerFooterNode) === linked) {
+        return false;
+    }
+
+    const linkGroup = getHeaderFooterLinkGroup(pageNode, headerFooterNode);
+    const sharedContent = linked && linkGroup ? getLinkedHeaderFooterContent(tr.doc, linkGroup) : null;
+    tr.setNodeAttribute(headerFooterPos, HEADER_FOOTER_NODE_ATTR_KEYS.linked, linked);
+    if (sharedContent) {
+        tr.replaceWith(headerFooterPos + 1, headerFooterPos + headerFooterNode.nodeSize - 1, sharedContent);
+    }
+
+    dispatch(tr);
+    return true;
+};
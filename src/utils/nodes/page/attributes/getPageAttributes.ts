@@ -7,18 +7,17 @@
 import { EditorState } from "@tiptap/pm/state";
 import { Node as PMNode } from "@tiptap/pm/model";
 import { PageNodeAttributes } from "../../../../types/page";
-import {
-    calculatePageContentPixelDimensions as calculateBodyPixelDimensions,
-    getPageNodePaperSize,
-    getPageNumPaperSize,
-} from "./paperSize";
-import { getPageNodePaperColour, getPageNumPaperColour } from "./paperColour";
-import { getPageNodePaperOrientation, getPageNumPaperOrientation } from "./paperOrientation";
-import { getPageNodePageBorders, getPageNumPageBorders } from "./pageBorders";
+import { calculatePageContentPixelDimensions as calculateBodyPixelDimensions, getPageNodePaperSize } from "./paperSize";
+import { getOptionsDefaultPaperColour, getPageNodePaperColour } from "./paperColour";
+import { getPageNodePaperOrientation } from "./paperOrientation";
+import { getPageNodePageBorders } from "./pageBorders";
+import { getPageNodePageNumberFormat, getPageNodePageNumberStart } from "./pageNumberFormat";
+import { getPageNodeSection } from "./section";
+import { getPageNodeDifferentFirstPage, getPageNodeDifferentOddEven } from "./headerFooterVariants";
 import { DEFAULT_PAPER_SIZE } from "../../../../constants/paperSize";
 import { DEFAULT_PAPER_ORIENTATION } from "../../../../constants/paperOrientation";
 import { DEFAULT_PAPER_COLOUR } from "../../../../constants/paperColours";
-import { DEFAULT_PAGE_BORDER_CONFIG } from "../../../../constants/pageBorders";
+import { DEFAULT_PAGE_NUMBER_FORMAT } from "../../../../constants/pageNumber";
 import { PageRegionNodeAttributesObject } from "../../../../types/pageRegions";
 import { doesDocHavePageNodes } from "../page";
 import { FOOTER_DEFAULT_ATTRIBUTES, HEADER_DEFAULT_ATTRIBUTES } from "../../../../constants/pageRegions";
@@ -27,8 +26,9 @@ import { getFooterNodeAttributes, getHeaderNodeAttributes } from "../../headerFo
 import { getBodyNodeAttributes } from "../../body/body";
 import { getPageRegionNode } from "../../../pageRegion/getAttributes";
 import { PaginationNodeAttributes } from "../../../../types/pagination";
-import { getPageNodeByPageNum } from "../pageNumber";
-import { Editor } from "@tiptap/core";
+import { getPageAttributeByPageNum, getPageNodeByPageNum } from "../pageNumber";
+import { Nullable } from "../../../../types/record";
+import { PaginationOptions } from "../../../../PaginationExtension";
 
 /**
  * Retrieves the page node attributes from the editor state.
@@ -40,25 +40,58 @@ export const getPageNodeAttributes = (pageNode: PMNode): PageNodeAttributes => {
     const paperSize = getPageNodePaperSize(pageNode) ?? DEFAULT_PAPER_SIZE;
     const paperOrientation = getPageNodePaperOrientation(pageNode) ?? DEFAULT_PAPER_ORIENTATION;
     const paperColour = getPageNodePaperColour(pageNode) ?? DEFAULT_PAPER_COLOUR;
-    const pageBorders = getPageNodePageBorders(pageNode) ?? DEFAULT_PAGE_BORDER_CONFIG;
+    const pageBorders = getPageNodePageBorders(pageNode);
+    const pageNumberFormat = getPageNodePageNumberFormat(pageNode) ?? DEFAULT_PAGE_NUMBER_FORMAT;
+    const pageNumberStart = getPageNodePageNumberStart(pageNode);
+    const differentFirstPage = getPageNodeDifferentFirstPage(pageNode);
+    const differentOddEven = getPageNodeDifferentOddEven(pageNode);
+    const section = getPageNodeSection(pageNode);
 
-    return { paperSize, paperOrientation, paperColour, pageBorders };
+    return {
+        paperSize,
+        paperOrientation,
+        paperColour,
+        pageBorders,
+        pageNumberFormat,
+        pageNumberStart,
+        differentFirstPage,
+        differentOddEven,
+        section,
+    };
 };
 
 /**
- * Retrieves page attributes from the editor state for a given page number.
+ * Retrieves page attributes from the editor state for a given page number, falling back
+ * to the defaults in the pagination options.
  *
- * @param editor - The editor instance.
+ * @param state - The current editor state.
+ * @param options - The pagination options.
  * @param pageNum - The page number to retrieve the attributes for.
  * @returns {PageNodeAttributes} The attributes of the specified page.
  */
-const getPageNodeAttributesByPageNum = (editor: Editor, pageNum: number): PageNodeAttributes => {
-    const paperSize = getPageNumPaperSize(editor, pageNum);
-    const paperColour = getPageNumPaperColour(editor, pageNum);
-    const paperOrientation = getPageNumPaperOrientation(editor, pageNum);
-    const pageBorders = getPageNumPageBorders(editor, pageNum);
+const getPageNodeAttributesByPageNum = (state: EditorState, options: PaginationOptions, pageNum: number): PageNodeAttributes => {
+    const { defaultPaperSize, defaultPaperOrientation, defaultPageBorders } = options;
+    const paperSize = getPageAttributeByPageNum(state, pageNum, defaultPaperSize, getPageNodePaperSize);
+    const paperColour = getPageAttributeByPageNum(state, pageNum, getOptionsDefaultPaperColour(options), getPageNodePaperColour);
+    const paperOrientation = getPageAttributeByPageNum(state, pageNum, defaultPaperOrientation, getPageNodePaperOrientation);
+    const pageBorders = getPageAttributeByPageNum(state, pageNum, defaultPageBorders, getPageNodePageBorders);
+    const pageNumberFormat = getPageAttributeByPageNum(state, pageNum, DEFAULT_PAGE_NUMBER_FORMAT, getPageNodePageNumberFormat);
+    const pageNumberStart = getPageAttributeByPageNum<Nullable<number>>(state, pageNum, null, getPageNodePageNumberStart);
+    const differentFirstPage = getPageAttributeByPageNum<Nullable<boolean>>(state, pageNum, null, getPageNodeDifferentFirstPage);
+    const differentOddEven = getPageAttributeByPageNum<Nullable<boolean>>(state, pageNum, null, getPageNodeDifferentOddEven);
+    const section = getPageAttributeByPageNum(state, pageNum, 0, getPageNodeSection);
 
-    return { paperSize, paperColour, paperOrientation, pageBorders };
+    return {
+        paperSize,
+        paperColour,
+        paperOrientation,
+        pageBorders,
+        pageNumberFormat,
+        pageNumberStart,
+        differentFirstPage,
+        differentOddEven,
+        section,
+    };
 };
 
 /**
@@ -101,16 +134,27 @@ const getPageRegionNodeAttributes = (state: EditorState, pageNum: number): PageR
 /**
  * Retrieves the page node attributes and calculates the pixel dimensions of the page.
  *
- * @param editor - The editor instance.
+ * @param state - The current editor state.
+ * @param options - The pagination options.
  * @param pageNum - The page number to retrieve the attributes for.
+ * @param pixelsPerMM - The pixels per millimetre to convert the page dimensions with.
  * @returns {PaginationNodeAttributes} The attributes of the page node,
  * body node and the pixel dimensions of the page.
  */
-export const getPaginationNodeAttributes = (editor: Editor, pageNum: number): PaginationNodeAttributes => {
-    const { state } = editor;
-    const pageNodeAttributes = getPageNodeAttributesByPageNum(editor, pageNum);
+export const getPaginationNodeAttributes = (
+    state: EditorState,
+    options: PaginationOptions,
+    pageNum: number,
+    pixelsPerMM: number
+): PaginationNodeAttributes => {
+    const pageNodeAttributes = getPageNodeAttributesByPageNum(state, options, pageNum);
     const pageRegionNodeAttributes = getPageRegionNodeAttributes(state, pageNum);
-    const bodyPixelDimensions = calculateBodyPixelDimensions(pageNodeAttributes, pageRegionNodeAttributes.body);
+    const bodyPixelDimensions = calculateBodyPixelDimensions(
+        pageNodeAttributes,
+        pageRegionNodeAttributes.body,
+        pixelsPerMM,
+        options.customPaperSizes
+    );
 
     return { pageNodeAttributes, pageRegionNodeAttributes, bodyPixelDimensions };
 };
@@ -0,0 +1,83 @@
+/**
+ * @file /src/utils/nodes/page/attributes/headerFooterVariants.ts
+ * @name HeaderFooterVariants
+ * @description Utility functions for the page settings which choose the header and footer variant of a page.
+ */
+
+import { Editor } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { PAGE_NODE_ATTR_KEYS } from "../../../../constants/page";
+import { PageNodeAttributes } from "../../../../types/page";
+import { PageAmendmentOptions } from "../../../../types/pageAmendment";
+import { Nullable } from "../../../../types/record";
+import { getPaginationExtensionOptions } from "../../../options";
+import { getPageAttributeByPageNum } from "../pageNumber";
+
+/**
+ * Get whether the first page of each section has its own header and footer from a page node.
+ *
+ * @param pageNode - The page node to get the setting from.
+ * @returns {Nullable<boolean>} The setting of the page or null if the page follows the page amendment options.
+ */
+export const getPageNodeDifferentFirstPage = (pageNode: PMNode): Nullable<boolean> => {
+    const { attrs } = pageNode;
+    return attrs[PAGE_NODE_ATTR_KEYS.differentFirstPage] ?? null;
+};
+
+/**
+ * Get whether even pages have their own header and footer from a page node.
+ *
+ * @param pageNode - The page node to get the setting from.
+ * @returns {Nullable<boolean>} The setting of the page or null if the page follows the page amendment options.
+ */
+export const getPageNodeDifferentOddEven = (pageNode: PMNode): Nullable<boolean> => {
+    const { attrs } = pageNode;
+    return attrs[PAGE_NODE_ATTR_KEYS.differentOddEven] ?? null;
+};
+
+/**
+ * Get the page amendment options a page is laid out with. The header and footer variant
+ * settings of the page take precedence over those of the options.
+ *
+ * @param pageNodeAttributes - The attributes of the page.
+ * @param pageAmendmentOptions - The page amendment options of the pagination extension.
+ * @returns {PageAmendmentOptions} The page amendment options of the page.
+ */
+export const getPageAmendmentOptions = (
+    pageNodeAttributes: Pick<PageNodeAttributes, "differentFirstPage" | "differentOddEven">,
+    pageAmendmentOptions: PageAmendmentOptions
+): PageAmendmentOptions => {
+    const { differentFirstPage, differentOddEven } = pageNodeAttributes;
+
+    return {
+        ...pageAmendmentOptions,
+        differentFirstPage: differentFirstPage ?? pageAmendmentOptions.differentFirstPage ?? false,
+        differentOddEven: differentOddEven ?? pageAmendmentOptions.differentOddEven ?? false,
+    };
+};
+
+/**
+ * Retrieves whether the first page of each section has its own header and footer on a specific
+ * page using the editor instance. Falls back to the page amendment options if the page does not say.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the setting for.
+ * @returns {boolean} True if the first page of each section has its own header and footer, false otherwise.
+ */
+export const getPageNumDifferentFirstPage = (editor: Editor, pageNum: number): boolean =>
+    getPageAttributeByPageNum<Nullable<boolean>>(editor.state, pageNum, null, getPageNodeDifferentFirstPage) ??
+    getPaginationExtensionOptions(editor).pageAmendmentOptions.differentFirstPage ??
+    false;
+
+/**
+ * Retrieves whether even pages have their own header and footer on a specific page using the
+ * editor instance. Falls back to the page amendment options if the page does not say.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the setting for.
+ * @returns {boolean} True if even pages have their own header and footer, false otherwise.
+ */
+export const getPageNumDifferentOddEven = (editor: Editor, pageNum: number): boolean =>
+    getPageAttributeByPageNum<Nullable<boolean>>(editor.state, pageNum, null, getPageNodeDifferentOddEven) ??
+    getPaginationExtensionOptions(editor).pageAmendmentOptions.differentOddEven ??
+    false;
@@ -11,7 +11,8 @@ import { PAGE_NODE_ATTR_KEYS } from "../../../../constants/page";
 import { DEFAULT_PAGE_BORDER_CONFIG } from "../../../../constants/pageBorders";
 import { BorderConfig } from "../../../../types/page";
 import { Nullable } from "../../../../types/record";
-import { px } from "../../../units";
+import { px, toDisplayLengthConfig } from "../../../units";
+import { BORDER_STORAGE_UNIT } from "../../../../constants/units";
 import { getPageAttributeByPageNum } from "../pageNumber";
 import { setPageNodePosSideConfig, updatePageSideConfig } from "../../../setSideConfig";
 import { MultiAxisSide } from "../../../../types/page";
@@ -70,10 +71,16 @@ export const calculateShorthandPageBorders = (pageBorders: BorderConfig): string
  *
  * @param editor - The current editor instance.
  * @param pageNum - The page number to retrieve the page border config for.
- * @returns {BorderConfig} The page border config of the specified page or default.
+ * @returns {BorderConfig} The page border config of the specified page or default, in
+ * the display unit of the pagination options (pixels if there is none).
  */
-export const getPageNumPageBorders = (editor: Editor, pageNum: number): BorderConfig =>
-    getPageAttributeByPageNum(editor.state, pageNum, getPaginationExtensionOptions(editor).defaultPageBorders, getPageNodePageBorders);
+export const getPageNumPageBorders = (editor: Editor, pageNum: number): BorderConfig => {
+    const { defaultPageBorders, displayUnit } = getPaginationExtensionOptions(editor);
+    const pageBorders =
+        getPageAttributeByPageNum(editor.state, pageNum, defaultPageBorders, getPageNodePageBorders) ?? DEFAULT_PAGE_BORDER_CONFIG;
+
+    return toDisplayLengthConfig(pageBorders, BORDER_STORAGE_UNIT, displayUnit);
+};
 
 /**
  * Set the page borders of a page node.
@@ -0,0 +1,144 @@
+/**
+ * @file /src/utils/nodes/page/attributes/pageNumberFormat.ts
+ * @name PageNumberFormat
+ * @description Utility functions for the page numbering attributes of page nodes.
+ */
+
+import { Dispatch, Editor } from "@tiptap/core";
+import { Transaction } from "@tiptap/pm/state";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { PAGE_NODE_ATTR_KEYS } from "../../../../constants/page";
+import { DEFAULT_PAGE_NUMBER_FORMAT } from "../../../../constants/pageNumber";
+import { PageNumberFormat } from "../../../../types/page";
+import { Nullable } from "../../../../types/record";
+import { isPageNode } from "../page";
+import { getPageAttributeByPageNum } from "../pageNumber";
+import { setPageNodeAttribute } from "./setPageAttributes";
+import { isValidPageNumberFormat, isValidPageNumberStart } from "../../../pageNumberFormat";
+
+/**
+ * Get the page number format of a particular page node in the document.
+ *
+ * @param pageNode - The page node to find the page number format for.
+ * @returns {Nullable<PageNumberFormat>} The page number format of the specified page or null
+ * if the page number format is not set.
+ */
+export const getPageNodePageNumberFormat = (pageNode: PMNode): Nullable<PageNumberFormat> => {
+    const { attrs } = pageNode;
+    return attrs[PAGE_NODE_ATTR_KEYS.pageNumberFormat];
+};
+
+/**
+ * Retrieves the page number format of a specific page using the editor instance.
+ * Falls back to the default page number format if the page number is invalid.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the page number format for.
+ * @returns {PageNumberFormat} The page number format of the specified page or default.
+ */
+export const getPageNumPageNumberFormat = (editor: Editor, pageNum: number): PageNumberFormat =>
+    getPageAttributeByPageNum(editor.state, pageNum, DEFAULT_PAGE_NUMBER_FORMAT, getPageNodePageNumberFormat);
+
+/**
+ * Get the number page numbering restarts at on a particular page node in the document.
+ *
+ * @param pageNode - The page node to find the page number start for.
+ * @returns {Nullable<number>} The number page numbering restarts at or null if numbering
+ * continues from the previous page.
+ */
+export const getPageNodePageNumberStart = (pageNode: PMNode): Nullable<number> => {
+    const { attrs } = pageNode;
+    return attrs[PAGE_NODE_ATTR_KEYS.pageNumberStart] ?? null;
+};
+
+/**
+ * Retrieves the number page numbering restarts at on a specific page using the editor instance.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the page number start for.
+ * @returns {Nullable<number>} The number page numbering restarts at or null if numbering
+ * continues from the previous page.
+ */
+export const getPageNumPageNumberStart = (editor: Editor, pageNum: number): Nullable<number> =>
+    getPageAttributeByPageNum<Nullable<number>>(editor.state, pageNum, null, getPageNodePageNumberStart);
+
+/**
+ * Set the page number format of a page node to the given value.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param pagePos - The position of the page node to set the page number format for.
+ * @param pageNode - The page node to set the page number format for.
+ * @param pageNumberFormat - The page number format to set.
+ * @returns {boolean} True if the page number format was set, false otherwise.
+ */
+export const setPageNodePosPageNumberFormat = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    pagePos: number,
+    pageNode: PMNode,
+    pageNumberFormat: PageNumberFormat
+): boolean => {
+    if (!dispatch) return false;
+
+    if (!isValidPageNumberFormat(pageNumberFormat)) {
+        console.warn("Invalid page number format:", pageNumberFormat);
+        return false;
+    }
+
+    if (!isPageNode(pageNode)) {
+        console.error("Unexpected! Node at pos:", pagePos, "is not a page node!");
+        return false;
+    }
+
+    if (getPageNodePageNumberFormat(pageNode) === pageNumberFormat) {
+        // Page number format is already set
+        return false;
+    }
+
+    setPageNodeAttribute(tr, pagePos, pageNode, PAGE_NODE_ATTR_KEYS.pageNumberFormat, pageNumberFormat);
+
+    dispatch(tr);
+    return true;
+};
+
+/**
+ * Set the number page numbering restarts at on a page node.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param pagePos - The position of the page node to restart page numbering at.
+ * @param pageNode - The page node to restart page numbering at.
+ * @param pageNumberStart - The number to restart page numbering at, or null to continue
+ * numbering from the previous page.
+ * @returns {boolean} True if the page number start was set, false otherwise.
+ */
+export const setPageNodePosPageNumberStart = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    pagePos: number,
+    pageNode: PMNode,
+    pageNumberStart: Nullable<number>
+): boolean => {
+    if (!dispatch) return false;
+
+    if (pageNumberStart !== null && !isValidPageNumberStart(pageNumberStart)) {
+        console.warn("Invalid page number start:", pageNumberStart);
+        return false;
+    }
+
+    if (!isPageNode(pageNode)) {
+        console.error("Unexpected! Node at pos:", pagePos, "is not a page node!");
+        return false;
+    }
+
+    if (getPageNodePageNumberStart(pageNode) === pageNumberStart) {
+        // Page number start is already set
+        return false;
+    }
+
+    setPageNodeAttribute(tr, pagePos, pageNode, PAGE_NODE_ATTR_KEYS.pageNumberStart, pageNumberStart);
+
+    dispatch(tr);
+    return true;
+};
@@ -18,6 +18,7 @@ import { nodeHasAttribute } from "../../../attributes/getAttributes";
 import { getDeviceTheme } from "../../../theme";
 import { setPageNodeAttribute } from "./setPageAttributes";
 import { getPaginationExtensionOptions } from "../../../options";
+import { PaginationOptions } from "../../../../PaginationExtension";
 
 /**
  * Get the paper colour based on the device theme.
@@ -29,15 +30,14 @@ export const getDeviceThemePaperColour = (): string => {
 };
 
 /**
- * Retrieves the default paper colour based on the provided editor options.
+ * Retrieves the default paper colour based on the provided pagination options.
  * If the `useDeviceThemeForPaperColour` option is enabled, it returns the device theme paper colour.
  * Otherwise, it returns the `defaultPaperColour` specified in the options.
  *
- * @param editor - The editor instance.
+ * @param paginationOptions - The pagination options.
  * @returns The default paper colour as a string.
  */
-export const getDefaultPaperColour = (editor: Editor): string => {
-    const paginationOptions = getPaginationExtensionOptions(editor);
+export const getOptionsDefaultPaperColour = (paginationOptions: PaginationOptions): string => {
     if (paginationOptions.useDeviceThemeForPaperColour) {
         return getDeviceThemePaperColour();
     } else {
@@ -45,6 +45,16 @@ export const getDefaultPaperColour = (editor: Editor): string => {
     }
 };
 
+/**
+ * Retrieves the default paper colour based on the editor's pagination options.
+ *
+ * @param editor - The editor instance.
+ * @returns The default paper colour as a string.
+ */
+export const getDefaultPaperColour = (editor: Editor): string => {
+    return getOptionsDefaultPaperColour(getPaginationExtensionOptions(editor));
+};
+
 /**
  * Check if a page node has a paper colour attribute.
  *
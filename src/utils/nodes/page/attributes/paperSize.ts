@@ -7,10 +7,11 @@
 import { Transaction } from "@tiptap/pm/state";
 import { Dispatch, Editor } from "@tiptap/core";
 import { Node as PMNode } from "@tiptap/pm/model";
-import { DEFAULT_PAPER_SIZE, paperDimensions } from "../../../../constants/paperSize";
+import { DEFAULT_PAPER_SIZE, paperDimensions, paperSizes } from "../../../../constants/paperSize";
 import { PAGE_NODE_ATTR_KEYS } from "../../../../constants/page";
+import { DEFAULT_PAGE_BORDER_CONFIG } from "../../../../constants/pageBorders";
 import { DEFAULT_PAPER_ORIENTATION } from "../../../../constants/paperOrientation";
-import { PaperOrientation, PaperDimensions, PaperSize } from "../../../../types/paper";
+import { CustomPaperSizes, PaperOrientation, PaperDimensions, PaperSize, PaperSizeOrDimensions } from "../../../../types/paper";
 import { PageNodeAttributes, PageContentPixelDimensions } from "../../../../types/page";
 import { Nullable } from "../../../../types/record";
 import { isPageNode } from "../page";
@@ -21,30 +22,131 @@ import { setPageNodeAttribute } from "./setPageAttributes";
 import { getPageNodePaperOrientation } from "./paperOrientation";
 import { BodyNodeAttributes } from "../../../../types/body";
 import { getPaginationExtensionOptions } from "../../../options";
+import { calculateColumnWidth } from "../../body/attributes/columns";
 
 /**
- * Check if the given paper size is valid.
+ * Get the dimensions of a named paper size. Built-in paper sizes take precedence over
+ * custom paper sizes of the same name, and custom paper sizes with invalid dimensions
+ * are ignored.
+ *
+ * @param paperSize - The name of the paper size.
+ * @param customPaperSizes - The custom paper sizes.
+ * @returns {Nullable<PaperDimensions>} The dimensions of the paper size in portrait orientation or null if it is not known.
+ */
+const getNamedPaperDimensions = (paperSize: string, customPaperSizes: CustomPaperSizes): Nullable<PaperDimensions> => {
+    if (Object.prototype.hasOwnProperty.call(paperDimensions, paperSize)) {
+        return paperDimensions[paperSize as keyof typeof paperDimensions];
+    }
+
+    if (Object.prototype.hasOwnProperty.call(customPaperSizes, paperSize) && isCustomPaperDimensions(customPaperSizes[paperSize])) {
+        return customPaperSizes[paperSize];
+    }
+
+    return null;
+};
+
+/**
+ * Check if the given paper size is valid, i.e. a built-in or custom paper size, or
+ * custom dimensions.
  *
  * @param paperSize - The paper size to check.
+ * @param customPaperSizes - The custom paper sizes, e.g. from the `customPaperSizes` option.
  * @returns {boolean} True if the paper size is valid, false otherwise.
  */
-export const isValidPaperSize = (paperSize: PaperSize): boolean => {
-    return paperSize in paperDimensions;
+export const isValidPaperSize = (paperSize: PaperSizeOrDimensions, customPaperSizes: CustomPaperSizes = {}): boolean => {
+    if (typeof paperSize === "string") {
+        return !!getNamedPaperDimensions(paperSize, customPaperSizes);
+    }
+
+    return isCustomPaperDimensions(paperSize);
+};
+
+/**
+ * Get the names of the built-in and custom paper sizes, e.g. to list them in a paper size picker.
+ *
+ * @param customPaperSizes - The custom paper sizes, e.g. from the `customPaperSizes` option.
+ * @returns {PaperSize[]} The names of the paper sizes, built-in paper sizes first.
+ */
+export const getPaperSizes = (customPaperSizes: CustomPaperSizes = {}): PaperSize[] => {
+    const customNames = Object.keys(customPaperSizes).filter(
+        (name) => getNamedPaperDimensions(name, customPaperSizes) === customPaperSizes[name]
+    );
+
+    return [...paperSizes, ...customNames];
+};
+
+/**
+ * Warn about custom paper sizes which cannot be used, because they would replace a
+ * built-in paper size or their dimensions are invalid.
+ *
+ * @param customPaperSizes - The custom paper sizes.
+ * @returns {void}
+ */
+export const checkCustomPaperSizes = (customPaperSizes: CustomPaperSizes): void => {
+    Object.entries(customPaperSizes).forEach(([name, dimensions]) => {
+        if (Object.prototype.hasOwnProperty.call(paperDimensions, name)) {
+            console.warn(`Cannot replace built-in paper size: ${name}`);
+        } else if (!isCustomPaperDimensions(dimensions)) {
+            console.warn(`Invalid dimensions for custom paper size: ${name}`, dimensions);
+        }
+    });
+};
+
+/**
+ * Check if two paper sizes are the same, comparing custom dimensions by value.
+ *
+ * @param paperSize - The first paper size.
+ * @param otherPaperSize - The second paper size.
+ * @returns {boolean} True if the paper sizes are the same, false otherwise.
+ */
+const isSamePaperSize = (paperSize: Nullable<PaperSizeOrDimensions>, otherPaperSize: PaperSizeOrDimensions): boolean => {
+    if (isCustomPaperDimensions(otherPaperSize)) {
+        return (
+            !!paperSize &&
+            isCustomPaperDimensions(paperSize) &&
+            paperSize.width === otherPaperSize.width &&
+            paperSize.height === otherPaperSize.height
+        );
+    }
+
+    return paperSize === otherPaperSize;
+};
+
+/**
+ * Check if a paper size is given as custom dimensions rather than by name.
+ *
+ * @param paperSize - The paper size to check.
+ * @returns {boolean} True if the paper size is valid custom dimensions, false otherwise.
+ */
+export const isCustomPaperDimensions = (paperSize: PaperSizeOrDimensions): paperSize is PaperDimensions => {
+    if (typeof paperSize !== "object" || paperSize === null) {
+        return false;
+    }
+
+    const { width, height } = paperSize;
+    return Number.isFinite(width) && Number.isFinite(height) && width > 0 && height > 0;
 };
 
 /**
  * Given a paper size, return the dimensions of the paper in millimeters.
  *
- * @param paperSize - The paper size
+ * @param paperSize - The paper size, or custom dimensions in portrait orientation
  * @param orientation - The orientation of the paper
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones
  * @returns {PaperDimensions} - The dimensions of the paper
  */
-export const getPaperDimensions = (paperSize: PaperSize, orientation: PaperOrientation): PaperDimensions => {
-    if (!isValidPaperSize(paperSize)) {
-        paperSize = DEFAULT_PAPER_SIZE;
+export const getPaperDimensions = (
+    paperSize: PaperSizeOrDimensions,
+    orientation: PaperOrientation,
+    customPaperSizes: CustomPaperSizes = {}
+): PaperDimensions => {
+    let dimensions: PaperDimensions;
+    if (isCustomPaperDimensions(paperSize)) {
+        dimensions = paperSize;
+    } else {
+        dimensions = getNamedPaperDimensions(paperSize, customPaperSizes) ?? paperDimensions[DEFAULT_PAPER_SIZE];
     }
 
-    const dimensions = paperDimensions[paperSize];
     if (orientation === "landscape") {
         return flipDimensions(dimensions);
     } else {
@@ -56,12 +158,13 @@ export const getPaperDimensions = (paperSize: PaperSize, orientation: PaperOrien
  * Gets the paper dimensions of a page node.
  *
  * @param pageNode - The page node to get the paper dimensions from
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones
  * @returns {PaperDimensions} - The dimensions of the paper
  */
-export const getPaperDimensionsFromPageNode = (pageNode: PMNode): PaperDimensions => {
+export const getPaperDimensionsFromPageNode = (pageNode: PMNode, customPaperSizes: CustomPaperSizes = {}): PaperDimensions => {
     const paperSize = getPageNodePaperSize(pageNode) ?? DEFAULT_PAPER_SIZE;
     const paperOrientation = getPageNodePaperOrientation(pageNode) ?? DEFAULT_PAPER_ORIENTATION;
-    return getPaperDimensions(paperSize, paperOrientation);
+    return getPaperDimensions(paperSize, paperOrientation, customPaperSizes);
 };
 
 /**
@@ -79,27 +182,34 @@ export const flipDimensions = (dimensions: PaperDimensions): PaperDimensions =>
  *
  * @param pageNodeAttributes - The attributes of the page node.
  * @param bodyNodeAttributes - The attributes of the body node.
- * @returns {PageContentPixelDimensions} The height and width of the page in pixels.
+ * @param pixelsPerMM - The pixels per millimetre to convert the page dimensions with.
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones.
+ * @returns {PageContentPixelDimensions} The height and width of the page body, and the width of its columns, in pixels.
  */
 export const calculatePageContentPixelDimensions = (
     pageNodeAttributes: PageNodeAttributes,
-    bodyNodeAttributes: BodyNodeAttributes
+    bodyNodeAttributes: BodyNodeAttributes,
+    pixelsPerMM: number,
+    customPaperSizes: CustomPaperSizes
 ): PageContentPixelDimensions => {
     const { paperSize, paperOrientation, pageBorders } = pageNodeAttributes;
-    const { width: paperWidth, height: paperHeight } = getPaperDimensions(paperSize, paperOrientation);
+    const { width: paperWidth, height: paperHeight } = getPaperDimensions(paperSize, paperOrientation, customPaperSizes);
 
     const { top: marginTop, left: marginLeft, right: marginRight, bottom: marginBottom } = bodyNodeAttributes.pageMargins;
     const verticalMargins = marginTop + marginBottom;
     const horizontalMargins = marginLeft + marginRight;
 
-    const { top: borderTop, right: borderRight, bottom: borderBottom, left: borderLeft } = pageBorders;
+    const { top: borderTop, right: borderRight, bottom: borderBottom, left: borderLeft } = pageBorders ?? DEFAULT_PAGE_BORDER_CONFIG;
     const verticalBorders = borderTop + borderBottom;
     const horizontalBorders = borderLeft + borderRight;
 
-    const bodyHeight = mmToPixels(paperHeight - verticalMargins) - verticalBorders;
-    const bodyWidth = mmToPixels(paperWidth - horizontalMargins) - horizontalBorders;
+    const bodyHeight = mmToPixels(paperHeight - verticalMargins, pixelsPerMM) - verticalBorders;
+    const bodyWidth = mmToPixels(paperWidth - horizontalMargins, pixelsPerMM) - horizontalBorders;
 
-    return { bodyHeight, bodyWidth };
+    const { columns } = bodyNodeAttributes;
+    const columnWidth = calculateColumnWidth(bodyWidth, columns, mmToPixels(columns.gap, pixelsPerMM));
+
+    return { bodyHeight, bodyWidth, columnWidth };
 };
 
 /**
@@ -116,10 +226,10 @@ export const pageNodeHasPageSize = (pageNode: PMNode): boolean => {
  * Get the paper size of a particular page node in the document.
  *
  * @param pageNode - The page node to find the paper size for
- * @returns {Nullable<PaperSize>} The paper size of the specified page or null
+ * @returns {Nullable<PaperSizeOrDimensions>} The paper size of the specified page or null
  * if the paper size is not set.
  */
-export const getPageNodePaperSize = (pageNode: PMNode): Nullable<PaperSize> => {
+export const getPageNodePaperSize = (pageNode: PMNode): Nullable<PaperSizeOrDimensions> => {
     const { attrs } = pageNode;
     return attrs[PAGE_NODE_ATTR_KEYS.paperSize];
 };
@@ -130,10 +240,15 @@ export const getPageNodePaperSize = (pageNode: PMNode): Nullable<PaperSize> => {
  *
  * @param editor - The current editor instance.
  * @param pageNum - The page number to retrieve the paper size for.
- * @returns {PaperSize} The paper size of the specified page or default.
+ * @returns {PaperSizeOrDimensions} The paper size of the specified page or default.
  */
-export const getPageNumPaperSize = (editor: Editor, pageNum: number): PaperSize =>
-    getPageAttributeByPageNum(editor.state, pageNum, getPaginationExtensionOptions(editor).defaultPaperSize, getPageNodePaperSize);
+export const getPageNumPaperSize = (editor: Editor, pageNum: number): PaperSizeOrDimensions =>
+    getPageAttributeByPageNum<PaperSizeOrDimensions>(
+        editor.state,
+        pageNum,
+        getPaginationExtensionOptions(editor).defaultPaperSize,
+        getPageNodePaperSize
+    );
 
 /**
  * Set the paper size for a page node at the specified position.
@@ -142,16 +257,23 @@ export const getPageNumPaperSize = (editor: Editor, pageNum: number): PaperSize
  * @param dispatch - The dispatch function to apply the transaction.
  * @param pagePos - The position of the page node to set the paper size for.
  * @param paperSize - The paper size to set.
+ * @param customPaperSizes - The custom paper sizes which may be set besides the built-in ones.
  * @returns {boolean} True if the paper size was set, false otherwise.
  */
-export const setPagePaperSize = (tr: Transaction, dispatch: Dispatch, pagePos: number, paperSize: PaperSize): boolean => {
+export const setPagePaperSize = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    pagePos: number,
+    paperSize: PaperSizeOrDimensions,
+    customPaperSizes: CustomPaperSizes
+): boolean => {
     const pageNode = tr.doc.nodeAt(pagePos);
     if (!pageNode) {
         console.error("No node found at pos:", pagePos);
         return false;
     }
 
-    return setPageNodePosPaperSize(tr, dispatch, pagePos, pageNode, paperSize);
+    return setPageNodePosPaperSize(tr, dispatch, pagePos, pageNode, paperSize, customPaperSizes);
 };
 
 /**
@@ -162,6 +284,7 @@ export const setPagePaperSize = (tr: Transaction, dispatch: Dispatch, pagePos: n
  * @param pagePos - The position of the page node to set the paper size for.
  * @param pageNode - The page node to set the paper size for.
  * @param paperSize - The paper size to set.
+ * @param customPaperSizes - The custom paper sizes which may be set besides the built-in ones.
  * @returns {boolean} True if the paper size was set, false otherwise.
  */
 export const setPageNodePosPaperSize = (
@@ -169,12 +292,13 @@ export const setPageNodePosPaperSize = (
     dispatch: Dispatch,
     pagePos: number,
     pageNode: PMNode,
-    paperSize: PaperSize
+    paperSize: PaperSizeOrDimensions,
+    customPaperSizes: CustomPaperSizes
 ): boolean => {
     if (!dispatch) return false;
 
-    if (!isValidPaperSize(paperSize)) {
-        console.warn(`Invalid paper size: ${paperSize}`);
+    if (!isValidPaperSize(paperSize, customPaperSizes)) {
+        console.warn("Invalid paper size:", paperSize);
         return false;
     }
 
@@ -183,7 +307,7 @@ export const setPageNodePosPaperSize = (
         return false;
     }
 
-    if (getPageNodePaperSize(pageNode) === paperSize) {
+    if (isSamePaperSize(getPageNodePaperSize(pageNode), paperSize)) {
         // Paper size is already set
         return false;
     }
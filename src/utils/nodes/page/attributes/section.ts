@@ -0,0 +1,59 @@
+/**
+ * @file /src/utils/nodes/page/attributes/section.ts
+ * @name Section
+ * @description Utility functions for the section attribute of page nodes.
+ */
+
+import { Editor } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { PAGE_NODE_ATTR_KEYS } from "../../../../constants/page";
+import { NodePos } from "../../../../types/node";
+import { Nullable } from "../../../../types/record";
+import { getPageAttributeByPageNum, getPageNodePosByPageNum } from "../pageNumber";
+
+/**
+ * Get the index of the section a page node belongs to.
+ *
+ * @param pageNode - The page node to find the section for.
+ * @returns {number} The index of the section of the page (0-indexed).
+ */
+export const getPageNodeSection = (pageNode: PMNode): number => {
+    const { attrs } = pageNode;
+    return attrs[PAGE_NODE_ATTR_KEYS.section] ?? 0;
+};
+
+/**
+ * Retrieves the index of the section a specific page belongs to using the editor instance.
+ *
+ * @param editor - The current editor instance.
+ * @param pageNum - The page number to retrieve the section for.
+ * @returns {number} The index of the section of the page (0-indexed).
+ */
+export const getPageNumSection = (editor: Editor, pageNum: number): number =>
+    getPageAttributeByPageNum(editor.state, pageNum, 0, getPageNodeSection);
+
+/**
+ * Get the page node and position by page number, to set the settings of the page itself.
+ * Pages in sections after the first take their settings from the section break which starts
+ * their section, which wins over anything set on the page when the document is paginated,
+ * so their settings must be set with `setSectionAttributes` instead.
+ *
+ * @param doc - The current document.
+ * @param pageNum - The page number to find the page node for (0-indexed).
+ * @returns {Nullable<NodePos>} The page node position of the specified page or null if the
+ * page could not be found or takes its settings from its section.
+ */
+export const getPageNodePosWithOwnSettings = (doc: PMNode, pageNum: number): Nullable<NodePos> => {
+    const pageNodePos = getPageNodePosByPageNum(doc, pageNum);
+    if (!pageNodePos) {
+        return null;
+    }
+
+    const section = getPageNodeSection(pageNodePos.node);
+    if (section > 0) {
+        console.warn("Page:", pageNum, "takes its settings from section:", section, "so they must be set with setSectionAttributes");
+        return null;
+    }
+
+    return pageNodePos;
+};
@@ -7,6 +7,10 @@
 import { Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
 import { EditorState } from "@tiptap/pm/state";
 import { NodePos } from "../../../types/node";
+import { PAGE_NODE_ATTR_KEYS } from "../../../constants/page";
+import { DEFAULT_PAGE_NUMBER_FORMAT } from "../../../constants/pageNumber";
+import { FormattedPageNumbers, PageNumberFormat } from "../../../types/page";
+import { formatPageNumber } from "../../pageNumberFormat";
 import { Nullable } from "../../../types/record";
 import { collectPageNodes, doesDocHavePageNodes, isPageNode } from "./page";
 import { getPageNodeAndPosition } from "./pagePosition";
@@ -77,6 +81,144 @@ export const getPageNumber = (doc: PMNode, $pos: ResolvedPos | number, zeroIndex
     return pageNode + (zeroIndexed ? 0 : 1);
 };
 
+/**
+ * Get the number displayed for a page, taking into account the pages on which page
+ * numbering restarts.
+ *
+ * @param doc - The document node.
+ * @param pageNum - The page number (0-indexed).
+ * @returns {number} The displayed page number of the page.
+ */
+export const getDisplayedPageNumber = (doc: PMNode, pageNum: number): number => {
+    let displayedPageNumber = 0;
+    for (let i = 0; i <= pageNum && i < doc.childCount; i++) {
+        const pageNumberStart: Nullable<number> = doc.child(i).attrs[PAGE_NODE_ATTR_KEYS.pageNumberStart] ?? null;
+        displayedPageNumber = pageNumberStart ?? displayedPageNumber + 1;
+    }
+
+    return displayedPageNumber;
+};
+
+/**
+ * Get the number of a page within its section, i.e. 1 for the first page of the section.
+ *
+ * @param doc - The document node.
+ * @param pageNum - The page number (0-indexed).
+ * @returns {number} The number of the page within its section.
+ */
+export const getSectionPageNumber = (doc: PMNode, pageNum: number): number => {
+    const section = doc.child(pageNum).attrs[PAGE_NODE_ATTR_KEYS.section];
+
+    let sectionStartPageNum = pageNum;
+    while (sectionStartPageNum > 0 && doc.child(sectionStartPageNum - 1).attrs[PAGE_NODE_ATTR_KEYS.section] === section) {
+        sectionStartPageNum--;
+    }
+
+    return pageNum - sectionStartPageNum + 1;
+};
+
+/**
+ * Get the page number format of a page.
+ *
+ * @param doc - The document node.
+ * @param pageNum - The page number (0-indexed).
+ * @returns {PageNumberFormat} The page number format of the page.
+ */
+const getPageNumberFormat = (doc: PMNode, pageNum: number): PageNumberFormat => {
+    return doc.child(pageNum).attrs[PAGE_NODE_ATTR_KEYS.pageNumberFormat] ?? DEFAULT_PAGE_NUMBER_FORMAT;
+};
+
+/**
+ * Get the formatted page number of the resolved position. This is the page number
+ * as displayed to the user, i.e. honouring the page number format and restarts of
+ * the page the position is on.
+ *
+ * @param doc - The document node.
+ * @param $pos - The resolved position in the document.
+ * @returns {string} The formatted page number of the resolved position or an empty
+ * string if the position is not on a page.
+ */
+export const getFormattedPageNumber = (doc: PMNode, $pos: ResolvedPos | number): string => {
+    const pageNum = getPageNumber(doc, $pos);
+    if (pageNum < 0) {
+        return "";
+    }
+
+    return formatPageNumber(getDisplayedPageNumber(doc, pageNum), getPageNumberFormat(doc, pageNum));
+};
+
+/**
+ * Get the formatted number within its section of the page the resolved position is on,
+ * in the page number format of that page.
+ *
+ * @param doc - The document node.
+ * @param $pos - The resolved position in the document.
+ * @returns {string} The formatted section page number of the resolved position or an
+ * empty string if the position is not on a page.
+ */
+export const getFormattedSectionPageNumber = (doc: PMNode, $pos: ResolvedPos | number): string => {
+    const pageNum = getPageNumber(doc, $pos);
+    if (pageNum < 0) {
+        return "";
+    }
+
+    return formatPageNumber(getSectionPageNumber(doc, pageNum), getPageNumberFormat(doc, pageNum));
+};
+
+/**
+ * Build the formatted page number and section page number of every page in one pass
+ * over the pages, so the numbers of many positions can be looked up without counting
+ * the pages before each of them.
+ *
+ * @param doc - The document node.
+ * @returns {Nullable<FormattedPageNumbers>[]} The numbers of each child of the document,
+ * or null for children which are not pages.
+ */
+export const buildFormattedPageNumbers = (doc: PMNode): Nullable<FormattedPageNumbers>[] => {
+    const formattedPageNumbers: Nullable<FormattedPageNumbers>[] = [];
+    let displayedPageNumber = 0;
+    let sectionPageNumber = 0;
+    let previousSection: Nullable<number> = null;
+
+    doc.forEach((pageNode, _, pageNum) => {
+        if (!isPageNode(pageNode)) {
+            formattedPageNumbers.push(null);
+            return;
+        }
+
+        const pageNumberStart: Nullable<number> = pageNode.attrs[PAGE_NODE_ATTR_KEYS.pageNumberStart] ?? null;
+        const section = pageNode.attrs[PAGE_NODE_ATTR_KEYS.section];
+        displayedPageNumber = pageNumberStart ?? displayedPageNumber + 1;
+        sectionPageNumber = pageNum > 0 && section === previousSection ? sectionPageNumber + 1 : 1;
+        previousSection = section;
+
+        const pageNumberFormat = getPageNumberFormat(doc, pageNum);
+        formattedPageNumbers.push({
+            pageNumber: formatPageNumber(displayedPageNumber, pageNumberFormat),
+            sectionPageNumber: formatPageNumber(sectionPageNumber, pageNumberFormat),
+        });
+    });
+
+    return formattedPageNumbers;
+};
+
+/**
+ * Look up the formatted numbers of the page a position is on.
+ *
+ * @param doc - The document node.
+ * @param formattedPageNumbers - The numbers of each page, as built by `buildFormattedPageNumbers`.
+ * @param pos - The position in the document.
+ * @returns {Nullable<FormattedPageNumbers>} The numbers of the page or null if the position is not on a page.
+ */
+export const getFormattedPageNumbersAtPos = (
+    doc: PMNode,
+    formattedPageNumbers: Nullable<FormattedPageNumbers>[],
+    pos: number
+): Nullable<FormattedPageNumbers> => {
+    const $pos = doc.resolve(pos);
+    return $pos.depth > 0 ? formattedPageNumbers[$pos.index(0)] ?? null : null;
+};
+
 /**
  * Retrieves a specific attribute of a given page number.
  * Falls back to defaults if the page number is invalid or the attribute is missing.
@@ -0,0 +1,183 @@
+/**
+ * @file /src/utils/nodes/pageBreak.ts
+ * @name PageBreak
+ * @description Utility functions for page break nodes.
+ */
+
+import { Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
+import { TextSelection, Transaction } from "@tiptap/pm/state";
+import { PAGE_BREAK_NODE_NAME } from "../../constants/pageBreak";
+import { NullableNodePos } from "../../types/node";
+import { Nullable } from "../../types/record";
+import { isBodyNode } from "./body/body";
+import { isSectionBreakNode } from "./sectionBreak";
+import { getPageAfterPos, getPageBeforePos } from "./page/pagePosition";
+import { getPageRegionNodeAndPos } from "../pageRegion/getAttributes";
+
+/**
+ * Check if the given node is a page break node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a page break node, false otherwise.
+ */
+export const isPageBreakNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === PAGE_BREAK_NODE_NAME;
+};
+
+/**
+ * Check if the given node always ends the page it is on, i.e. is a page break or a section break.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node ends its page, false otherwise.
+ */
+export const isPageEndingNode = (node: Nullable<PMNode>): boolean => {
+    return isPageBreakNode(node) || isSectionBreakNode(node);
+};
+
+/**
+ * Get the body node of the page before or after the page containing the given position.
+ *
+ * @param doc - The document node.
+ * @param $pos - The resolved position in the document.
+ * @param direction - -1 for the page before, 1 for the page after.
+ * @returns {NullableNodePos} The body node and its position or null if there is no such page.
+ */
+const getNeighbouringPageBody = (doc: PMNode, $pos: ResolvedPos, direction: -1 | 1): NullableNodePos => {
+    const { node: pageNode, pos: pagePos } = direction < 0 ? getPageBeforePos(doc, $pos) : getPageAfterPos(doc, $pos);
+    if (!pageNode) {
+        return { node: null, pos: -1 };
+    }
+
+    return getPageRegionNodeAndPos(pagePos, pageNode, "body");
+};
+
+/**
+ * Get the page or section break immediately before the text block at the given position,
+ * following the content onto the previous page if the text block is the first in its body.
+ *
+ * @param doc - The document node.
+ * @param $pos - The resolved position in the document. Must be at the start of a text block.
+ * @returns {NullableNodePos} The break node and its position or null if there is none.
+ */
+export const getPageBreakBeforePos = (doc: PMNode, $pos: ResolvedPos): NullableNodePos => {
+    if (!$pos.parent.isTextblock || $pos.parentOffset !== 0 || $pos.depth < 1) {
+        return { node: null, pos: -1 };
+    }
+
+    const textBlockPos = $pos.before();
+    const container = $pos.node(-1);
+    const index = $pos.index(-1);
+    if (index > 0) {
+        const previousNode = container.child(index - 1);
+        return isPageEndingNode(previousNode) ? { node: previousNode, pos: textBlockPos - previousNode.nodeSize } : { node: null, pos: -1 };
+    }
+
+    if (!isBodyNode(container)) {
+        return { node: null, pos: -1 };
+    }
+
+    const { node: previousBodyNode, pos: previousBodyPos } = getNeighbouringPageBody(doc, $pos, -1);
+    const lastChild = previousBodyNode?.lastChild;
+    if (!previousBodyNode || !lastChild || !isPageEndingNode(lastChild)) {
+        return { node: null, pos: -1 };
+    }
+
+    return { node: lastChild, pos: previousBodyPos + previousBodyNode.nodeSize - 1 - lastChild.nodeSize };
+};
+
+/**
+ * Get the page or section break immediately after the text block at the given position,
+ * following the content onto the next page if the text block is the last in its body.
+ *
+ * @param doc - The document node.
+ * @param $pos - The resolved position in the document. Must be at the end of a text block.
+ * @returns {NullableNodePos} The break node and its position or null if there is none.
+ */
+export const getPageBreakAfterPos = (doc: PMNode, $pos: ResolvedPos): NullableNodePos => {
+    if (!$pos.parent.isTextblock || $pos.parentOffset !== $pos.parent.content.size || $pos.depth < 1) {
+        return { node: null, pos: -1 };
+    }
+
+    const textBlockEndPos = $pos.after();
+    const container = $pos.node(-1);
+    const index = $pos.index(-1);
+    if (index < container.childCount - 1) {
+        const nextNode = container.child(index + 1);
+        return isPageEndingNode(nextNode) ? { node: nextNode, pos: textBlockEndPos } : { node: null, pos: -1 };
+    }
+
+    if (!isBodyNode(container)) {
+        return { node: null, pos: -1 };
+    }
+
+    const { node: nextBodyNode, pos: nextBodyPos } = getNeighbouringPageBody(doc, $pos, 1);
+    const firstChild = nextBodyNode?.firstChild;
+    if (!nextBodyNode || !firstChild || !isPageEndingNode(firstChild)) {
+        return { node: null, pos: -1 };
+    }
+
+    return { node: firstChild, pos: nextBodyPos + 1 };
+};
+
+/**
+ * Get the depth of the body node containing the given position.
+ *
+ * @param $pos - The resolved position in the document.
+ * @returns {Nullable<number>} The depth of the body node or null if the position is not in a body.
+ */
+const getBodyDepth = ($pos: ResolvedPos): Nullable<number> => {
+    for (let depth = $pos.depth; depth > 0; depth--) {
+        if (isBodyNode($pos.node(depth))) {
+            return depth;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Insert a page (or section or column) break at the selection. If the selection is inside a paragraph
+ * directly in the body, the paragraph is split and the break placed between the two halves,
+ * with the cursor moved to the start of the second half. Inside other blocks (e.g. lists or
+ * tables) the break is placed after the block.
+ *
+ * @param tr - The current transaction.
+ * @param pageBreak - The page, section or column break node to insert.
+ * @returns {boolean} True if the break was inserted, false otherwise.
+ */
+export const insertPageBreakAtSelection = (tr: Transaction, pageBreak: PMNode): boolean => {
+    if (getBodyDepth(tr.selection.$from) === null) {
+        // Page breaks are only allowed in the body
+        return false;
+    }
+
+    tr.deleteSelection();
+
+    const { $from } = tr.selection;
+    const bodyDepth = getBodyDepth($from) ?? $from.depth;
+
+    if (!$from.parent.isTextblock || $from.depth !== bodyDepth + 1) {
+        const insertPos = $from.depth > bodyDepth ? $from.after(bodyDepth + 1) : $from.pos;
+        tr.insert(insertPos, pageBreak);
+        return true;
+    }
+
+    if ($from.parentOffset === 0) {
+        // Break before the text block rather than leaving an empty one behind
+        tr.insert($from.before(), pageBreak);
+        return true;
+    }
+
+    const splitPos = $from.pos;
+    tr.split(splitPos);
+
+    // The split closes the first half, so the position after it is between the two halves
+    const pageBreakPos = splitPos + 1;
+    tr.insert(pageBreakPos, pageBreak);
+    tr.setSelection(TextSelection.create(tr.doc, pageBreakPos + pageBreak.nodeSize + 1));
+    return true;
+};
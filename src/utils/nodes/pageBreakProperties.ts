@@ -0,0 +1,100 @@
+/**
+ * @file /src/utils/nodes/pageBreakProperties.ts
+ * @name PageBreakProperties
+ * @description Utility functions for block page break properties.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Attribute, Dispatch } from "@tiptap/core";
+import { Transaction } from "@tiptap/pm/state";
+import { PageBreakProperty } from "../../types/pageBreak";
+import { NodePosArray } from "../../types/node";
+import { isBodyNode } from "./body/body";
+import { PAGE_BREAK_PROPERTY_HTML_ATTRS } from "../../constants/pageBreak";
+
+/**
+ * Check if the given node has a page break property set.
+ *
+ * @param node - The node to check.
+ * @param property - The page break property.
+ * @returns {boolean} True if the property is set on the node, false otherwise.
+ */
+export const hasPageBreakProperty = (node: PMNode, property: PageBreakProperty): boolean => {
+    return !!node.attrs[property];
+};
+
+/**
+ * Collect the blocks in the selection which page break properties apply to, i.e. the
+ * children of page bodies of the given types.
+ *
+ * @param tr - The current transaction.
+ * @param types - The node types which page break properties can be added to.
+ * @returns {NodePosArray} The blocks and their positions.
+ */
+const collectSelectedBodyBlocks = (tr: Transaction, types: string[]): NodePosArray => {
+    const { doc, selection } = tr;
+    const blocks: NodePosArray = [];
+
+    doc.nodesBetween(selection.from, selection.to, (node, pos, parent) => {
+        if (parent && isBodyNode(parent)) {
+            if (types.includes(node.type.name)) {
+                blocks.push({ node, pos });
+            }
+
+            // Only blocks directly in the body affect where pages break
+            return false;
+        }
+
+        return true;
+    });
+
+    return blocks;
+};
+
+/**
+ * Toggle a page break property on the blocks in the selection. The property is set
+ * unless every selected block already has it, in which case it is cleared.
+ *
+ * @param tr - The current transaction.
+ * @param dispatch - The dispatch function.
+ * @param property - The page break property to toggle.
+ * @param types - The node types which page break properties can be added to.
+ * @returns {boolean} True if any block was updated, false otherwise.
+ */
+export const togglePageBreakProperty = (tr: Transaction, dispatch: Dispatch, property: PageBreakProperty, types: string[]): boolean => {
+    const blocks = collectSelectedBodyBlocks(tr, types);
+    if (blocks.length === 0) {
+        return false;
+    }
+
+    if (!dispatch) {
+        return true;
+    }
+
+    const value = !blocks.every(({ node }) => hasPageBreakProperty(node, property));
+    blocks.forEach(({ node, pos }) => {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, [property]: value });
+    });
+
+    dispatch(tr);
+    return true;
+};
+
+/**
+ * Create the global attribute for a block page break property.
+ *
+ * @param property - The page break property.
+ * @param parseStyle - Whether the element's inline style sets the property.
+ * @returns {Attribute} The attribute specification.
+ */
+export const createPageBreakPropertyAttribute = (property: PageBreakProperty, parseStyle: (element: HTMLElement) => boolean): Attribute => {
+    const htmlAttribute = PAGE_BREAK_PROPERTY_HTML_ATTRS[property];
+
+    return {
+        default: false,
+        // Starting a new page only applies to the first of two blocks split by the user
+        keepOnSplit: property !== "pageBreakBefore",
+        parseHTML: (element) => element.hasAttribute(htmlAttribute) || parseStyle(element),
+        renderHTML: (attributes) => (attributes[property] ? { [htmlAttribute]: String(true) } : {}),
+    };
+};
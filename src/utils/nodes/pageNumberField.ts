@@ -0,0 +1,61 @@
+/**
+ * @file /src/utils/nodes/pageNumberField.ts
+ * @name PageNumberField
+ * @description Utility functions for page number field nodes.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { PAGE_NUMBER_FIELD_NODE_NAMES } from "../../constants/pageNumberField";
+import { PageNumberFieldType } from "../../types/pageNumberField";
+import { FormattedPageNumbers } from "../../types/page";
+import { Nullable } from "../../types/record";
+import { buildFormattedPageNumbers, getFormattedPageNumbersAtPos } from "./page/pageNumber";
+import { getLastPageNum } from "./page/pageRange";
+
+/**
+ * Get the page number field type of the given node.
+ *
+ * @param node - The node to check.
+ * @returns {Nullable<PageNumberFieldType>} The field type or null if the node is not a page number field.
+ */
+export const getPageNumberFieldType = (node: Nullable<PMNode>): Nullable<PageNumberFieldType> => {
+    if (!node) {
+        return null;
+    }
+
+    const fieldTypes = Object.keys(PAGE_NUMBER_FIELD_NODE_NAMES) as PageNumberFieldType[];
+    return fieldTypes.find((fieldType) => PAGE_NUMBER_FIELD_NODE_NAMES[fieldType] === node.type.name) ?? null;
+};
+
+/**
+ * Check if the given node is a page number field node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a page number field node, false otherwise.
+ */
+export const isPageNumberFieldNode = (node: Nullable<PMNode>): boolean => {
+    return getPageNumberFieldType(node) !== null;
+};
+
+/**
+ * Get the value to display for a page number field at the given position.
+ *
+ * @param doc - The document node.
+ * @param pos - The position of the field node.
+ * @param fieldType - The type of the field.
+ * @param formattedPageNumbers - The numbers of each page, as built by `buildFormattedPageNumbers`.
+ * Pass them in when getting the values of many fields, so the pages are only numbered once.
+ * @returns {string} The value of the field for the page it sits on.
+ */
+export const getPageNumberFieldValue = (
+    doc: PMNode,
+    pos: number,
+    fieldType: PageNumberFieldType,
+    formattedPageNumbers?: Nullable<FormattedPageNumbers>[]
+): string => {
+    if (fieldType === "totalPages") {
+        return String(getLastPageNum(doc) + 1);
+    }
+
+    return getFormattedPageNumbersAtPos(doc, formattedPageNumbers ?? buildFormattedPageNumbers(doc), pos)?.[fieldType] ?? "";
+};
@@ -0,0 +1,399 @@
+/**
+ * @file /src/utils/nodes/sectionBreak.ts
+ * @name SectionBreak
+ * @description Utility functions for section break nodes and the sections they start.
+ */
+
+import { Dispatch } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import { BODY_NODE_ATTR_KEYS } from "../../constants/body";
+import { PAGE_NODE_ATTR_KEYS } from "../../constants/page";
+import { SECTION_BREAK_ATTRIBUTES, SECTION_BREAK_NODE_NAME } from "../../constants/sectionBreak";
+import { BORDER_STORAGE_UNIT, MARGIN_STORAGE_UNIT, PAPER_STORAGE_UNIT } from "../../constants/units";
+import { ColumnConfig } from "../../types/body";
+import { NodePosArray } from "../../types/node";
+import { CustomPaperSizes, PaperSizeOrDimensions } from "../../types/paper";
+import { BorderConfig, MarginConfig, PageNodeAttributes } from "../../types/page";
+import { ChangedRange, PaginationNodeAttributes } from "../../types/pagination";
+import { Nullable } from "../../types/record";
+import { SectionAttributes, SectionAttributesInput } from "../../types/section";
+import { getPageRegionNode, getPageRegionNodeAndPos } from "../pageRegion/getAttributes";
+import { isValidPageNumberFormat, isValidPageNumberStart } from "../pageNumberFormat";
+import { resolveLength, resolveLengthConfig } from "../units";
+import { isValidColumnConfig } from "./body/attributes/columns";
+import { isValidPageMargins } from "./body/attributes/pageMargins";
+import { isPageNode } from "./page/page";
+import { isValidPageBorders } from "./page/attributes/pageBorders";
+import { calculatePageContentPixelDimensions, isValidPaperSize } from "./page/attributes/paperSize";
+import { getPageNodeSection } from "./page/attributes/section";
+import { setBodyNodeAttribute, setPageNodeAttribute } from "./page/attributes/setPageAttributes";
+
+/**
+ * Check if the given node is a section break node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a section break node, false otherwise.
+ */
+export const isSectionBreakNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === SECTION_BREAK_NODE_NAME;
+};
+
+/**
+ * Get the section attributes held by a section break node.
+ *
+ * @param sectionBreakNode - The section break node.
+ * @returns {SectionAttributes} The attributes of the section the section break starts.
+ */
+export const getSectionBreakAttributes = (sectionBreakNode: PMNode): SectionAttributes => {
+    const { attrs } = sectionBreakNode;
+    const attributeKeys = Object.keys(SECTION_BREAK_ATTRIBUTES) as (keyof SectionAttributes)[];
+
+    return attributeKeys.reduce((sectionAttributes, key) => ({ ...sectionAttributes, [key]: attrs[key] ?? null }), {} as SectionAttributes);
+};
+
+/**
+ * Collect the section break nodes and their positions in the document. Section breaks
+ * are only collected from page bodies.
+ *
+ * @param doc - The document node.
+ * @returns {NodePosArray} The section break nodes and their positions, in document order.
+ */
+export const collectSectionBreakNodes = (doc: PMNode): NodePosArray => {
+    const sectionBreakNodes: NodePosArray = [];
+    doc.forEach((pageNode, pageOffset) => {
+        if (!isPageNode(pageNode)) return;
+
+        const { node: bodyNode, pos: bodyPos } = getPageRegionNodeAndPos(pageOffset, pageNode, "body");
+        bodyNode?.forEach((node, offset) => {
+            if (isSectionBreakNode(node)) {
+                sectionBreakNodes.push({ node, pos: bodyPos + 1 + offset });
+            }
+        });
+    });
+
+    return sectionBreakNodes;
+};
+
+/**
+ * Collect the section break nodes of the document in order, both from page bodies and
+ * from content which is not paginated yet. The section break at index i starts section i + 1.
+ *
+ * @param doc - The document node.
+ * @returns {PMNode[]} The section break nodes, in document order.
+ */
+export const collectDocumentSectionBreaks = (doc: PMNode): PMNode[] => {
+    const sectionBreaks: PMNode[] = [];
+    doc.forEach((node) => {
+        if (isSectionBreakNode(node)) {
+            sectionBreaks.push(node);
+        } else if (isPageNode(node)) {
+            getPageRegionNode(node, "body")?.forEach((child) => {
+                if (isSectionBreakNode(child)) {
+                    sectionBreaks.push(child);
+                }
+            });
+        }
+    });
+
+    return sectionBreaks;
+};
+
+/**
+ * Check if a page ends its section, i.e. its body ends with a section break.
+ *
+ * @param pageNode - The page node.
+ * @returns {boolean} True if the page ends its section, false otherwise.
+ */
+export const doesPageEndSection = (pageNode: PMNode): boolean => {
+    if (!isPageNode(pageNode)) {
+        return false;
+    }
+
+    const lastBodyChild = getPageRegionNode(pageNode, "body")?.lastChild;
+    return !!lastBodyChild && isSectionBreakNode(lastBodyChild);
+};
+
+/**
+ * Get the section break which starts the section of the given page. As a section break
+ * always ends the page it is on, this is the last section break on the pages before.
+ *
+ * @param doc - The document node.
+ * @param pageNum - The page number (0-indexed).
+ * @returns {Nullable<PMNode>} The section break node or null if the page is in the first section.
+ */
+export const getSectionBreakBeforePage = (doc: PMNode, pageNum: number): Nullable<PMNode> => {
+    for (let i = Math.min(pageNum, doc.childCount) - 1; i >= 0; i--) {
+        const pageNode = doc.child(i);
+        if (doesPageEndSection(pageNode)) {
+            return getPageRegionNode(pageNode, "body")?.lastChild ?? null;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Check if the given range of the document contains a section break.
+ *
+ * @param doc - The document node.
+ * @param range - The range to check.
+ * @returns {boolean} True if the range contains a section break, false otherwise.
+ */
+export const doesRangeContainSectionBreak = (doc: PMNode, range: ChangedRange): boolean => {
+    let containsSectionBreak = false;
+    doc.nodesBetween(range.from, Math.min(range.to, doc.content.size), (node) => {
+        if (containsSectionBreak) return false;
+
+        if (isSectionBreakNode(node)) {
+            containsSectionBreak = true;
+        }
+
+        return !node.isTextblock;
+    });
+
+    return containsSectionBreak;
+};
+
+/**
+ * Apply the settings of a section to the attributes of a page in it. Settings the section
+ * does not set are left as they are, i.e. carried over from the section before.
+ *
+ * @param attributes - The attributes of the page.
+ * @param sectionNum - The index of the section (0-indexed).
+ * @param sectionBreak - The section break which starts the section or null for the first section.
+ * @param isSectionStart - Whether the page is the first page of the section.
+ * @param pixelsPerMM - The pixels per millimetre to convert the page dimensions with.
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones.
+ * @returns {PaginationNodeAttributes} The attributes of the page with the section settings applied.
+ */
+export const applySectionAttributes = (
+    attributes: PaginationNodeAttributes,
+    sectionNum: number,
+    sectionBreak: Nullable<PMNode>,
+    isSectionStart: boolean,
+    pixelsPerMM: number,
+    customPaperSizes: CustomPaperSizes
+): PaginationNodeAttributes => {
+    const pageNodeAttributes: PageNodeAttributes = { ...attributes.pageNodeAttributes, section: sectionNum };
+    let bodyAttributes = attributes.pageRegionNodeAttributes.body;
+
+    if (sectionBreak) {
+        const { paperSize, paperColour, paperOrientation, pageBorders, pageMargins, columns, pageNumberFormat, pageNumberStart } =
+            getSectionBreakAttributes(sectionBreak);
+
+        pageNodeAttributes.paperSize = paperSize ?? pageNodeAttributes.paperSize;
+        pageNodeAttributes.paperColour = paperColour ?? pageNodeAttributes.paperColour;
+        pageNodeAttributes.paperOrientation = paperOrientation ?? pageNodeAttributes.paperOrientation;
+        pageNodeAttributes.pageBorders = pageBorders ?? pageNodeAttributes.pageBorders;
+        pageNodeAttributes.pageNumberFormat = pageNumberFormat ?? pageNodeAttributes.pageNumberFormat;
+
+        // Numbering belongs to the section, so it can only restart on its first page
+        pageNodeAttributes.pageNumberStart = isSectionStart ? pageNumberStart : null;
+
+        if (pageMargins) {
+            bodyAttributes = { ...bodyAttributes, pageMargins };
+        }
+
+        if (columns) {
+            bodyAttributes = { ...bodyAttributes, columns };
+        }
+    }
+
+    return {
+        pageNodeAttributes,
+        pageRegionNodeAttributes: { ...attributes.pageRegionNodeAttributes, body: bodyAttributes },
+        bodyPixelDimensions: calculatePageContentPixelDimensions(pageNodeAttributes, bodyAttributes, pixelsPerMM, customPaperSizes),
+    };
+};
+
+/**
+ * Work out the settings of a section by cascading the settings of the section breaks
+ * before it over the settings of the first section, in document order.
+ *
+ * @param firstSectionAttributes - The attributes of the first page of the first section.
+ * @param sectionBreaks - The section breaks of the document, in document order.
+ * @param sectionNum - The index of the section (0-indexed).
+ * @param pixelsPerMM - The pixels per millimetre to convert the page dimensions with.
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones.
+ * @returns {PaginationNodeAttributes} The attributes of the pages of the section.
+ */
+export const cascadeSectionAttributes = (
+    firstSectionAttributes: PaginationNodeAttributes,
+    sectionBreaks: PMNode[],
+    sectionNum: number,
+    pixelsPerMM: number,
+    customPaperSizes: CustomPaperSizes
+): PaginationNodeAttributes => {
+    return sectionBreaks
+        .slice(0, sectionNum)
+        .reduce(
+            (attributes, sectionBreak, index) =>
+                applySectionAttributes(attributes, index + 1, sectionBreak, false, pixelsPerMM, customPaperSizes),
+            firstSectionAttributes
+        );
+};
+
+/**
+ * Resolve the paper size given to a section command to a paper size in millimetres.
+ *
+ * @param paperSize - The named paper size or custom dimensions.
+ * @returns {Nullable<PaperSizeOrDimensions>} The paper size or null if a dimension is not a valid length.
+ */
+const resolveSectionPaperSize = (paperSize: NonNullable<SectionAttributesInput["paperSize"]>): Nullable<PaperSizeOrDimensions> => {
+    if (typeof paperSize === "string") {
+        return paperSize;
+    }
+
+    const width = resolveLength(paperSize.width, PAPER_STORAGE_UNIT);
+    const height = resolveLength(paperSize.height, PAPER_STORAGE_UNIT);
+    if (width === null || height === null) {
+        return null;
+    }
+
+    return { width, height };
+};
+
+/**
+ * Resolve the column config given to a section command to a column config with the gap in millimetres.
+ *
+ * @param columns - The column config.
+ * @returns {Nullable<ColumnConfig>} The column config or null if the gap is not a valid length.
+ */
+const resolveSectionColumns = (columns: NonNullable<SectionAttributesInput["columns"]>): Nullable<ColumnConfig> => {
+    const gap = resolveLength(columns.gap, PAPER_STORAGE_UNIT);
+    if (gap === null) {
+        return null;
+    }
+
+    return { ...columns, gap };
+};
+
+/**
+ * Resolve the settings given to a section command to the units they are stored in and
+ * check they are valid. Settings which are null or not given are left as they are.
+ *
+ * @param sectionAttributes - The settings given to the command.
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones.
+ * @returns {Nullable<Partial<SectionAttributes>>} The resolved settings or null if any setting is invalid.
+ */
+export const resolveSectionAttributes = (
+    sectionAttributes: Partial<SectionAttributesInput>,
+    customPaperSizes: CustomPaperSizes
+): Nullable<Partial<SectionAttributes>> => {
+    const { paperSize, pageBorders, pageMargins, columns, ...otherAttributes } = sectionAttributes;
+    const resolvedAttributes: Partial<SectionAttributes> = { ...otherAttributes };
+    if (paperSize !== undefined) {
+        resolvedAttributes.paperSize = paperSize && resolveSectionPaperSize(paperSize);
+    }
+
+    if (pageBorders !== undefined) {
+        resolvedAttributes.pageBorders = pageBorders && (resolveLengthConfig(pageBorders, BORDER_STORAGE_UNIT) as Nullable<BorderConfig>);
+    }
+
+    if (pageMargins !== undefined) {
+        resolvedAttributes.pageMargins = pageMargins && (resolveLengthConfig(pageMargins, MARGIN_STORAGE_UNIT) as Nullable<MarginConfig>);
+    }
+
+    if (columns !== undefined) {
+        resolvedAttributes.columns = columns && resolveSectionColumns(columns);
+    }
+
+    const validators: { [K in keyof SectionAttributes]?: (value: NonNullable<SectionAttributes[K]>) => boolean } = {
+        paperSize: (value) => isValidPaperSize(value, customPaperSizes),
+        pageBorders: isValidPageBorders,
+        pageMargins: isValidPageMargins,
+        columns: isValidColumnConfig,
+        pageNumberFormat: isValidPageNumberFormat,
+        pageNumberStart: isValidPageNumberStart,
+    };
+
+    // A setting which was given but did not resolve is invalid too
+    const invalidKey = (Object.keys(validators) as (keyof SectionAttributes)[]).find((key) => {
+        if (sectionAttributes[key] === null || sectionAttributes[key] === undefined) {
+            return false;
+        }
+
+        const value = resolvedAttributes[key];
+        const isValidValue = validators[key] as (value: unknown) => boolean;
+        return value === null || value === undefined || !isValidValue(value);
+    });
+
+    if (invalidKey) {
+        console.warn("Invalid section setting:", invalidKey, sectionAttributes[invalidKey]);
+        return null;
+    }
+
+    return resolvedAttributes;
+};
+
+/**
+ * Set the settings of a section. Sections after the first hold their settings on the
+ * section break which starts them, while the first section's settings are set on its pages.
+ *
+ * @param tr - The transaction to apply the change to.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param sectionNum - The index of the section (0-indexed).
+ * @param sectionAttributesInput - The settings to set. Null settings are carried over from the section before.
+ * @param customPaperSizes - The custom paper sizes named paper sizes are looked up in besides the built-in ones.
+ * @returns {boolean} True if the section settings were set, false otherwise.
+ */
+export const setSectionAttributes = (
+    tr: Transaction,
+    dispatch: Dispatch,
+    sectionNum: number,
+    sectionAttributesInput: Partial<SectionAttributesInput>,
+    customPaperSizes: CustomPaperSizes
+): boolean => {
+    if (!dispatch) return false;
+
+    const sectionAttributes = resolveSectionAttributes(sectionAttributesInput, customPaperSizes);
+    if (!sectionAttributes) {
+        return false;
+    }
+
+    const { doc } = tr;
+    if (sectionNum > 0) {
+        const sectionBreak = collectSectionBreakNodes(doc)[sectionNum - 1];
+        if (!sectionBreak) {
+            console.warn("Section:", sectionNum, "does not exist in the document");
+            return false;
+        }
+
+        const { node, pos } = sectionBreak;
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...sectionAttributes });
+
+        dispatch(tr);
+        return true;
+    }
+
+    const { pageMargins, columns, pageNumberStart, ...pageAttributes } = sectionAttributes;
+    doc.forEach((pageNode, pagePos, pageNum) => {
+        if (!isPageNode(pageNode) || getPageNodeSection(pageNode) !== sectionNum) return;
+
+        Object.entries(pageAttributes).forEach(([key, value]) => {
+            if (value !== null && value !== undefined) {
+                setPageNodeAttribute(tr, pagePos, pageNode, key, value);
+            }
+        });
+
+        if (pageMargins) {
+            setBodyNodeAttribute(tr, pagePos, pageNode, BODY_NODE_ATTR_KEYS.pageMargins, pageMargins);
+        }
+
+        if (columns) {
+            setBodyNodeAttribute(tr, pagePos, pageNode, BODY_NODE_ATTR_KEYS.columns, columns);
+        }
+
+        if (pageNumberStart !== undefined && pageNum === 0) {
+            setPageNodeAttribute(tr, pagePos, pageNode, PAGE_NODE_ATTR_KEYS.pageNumberStart, pageNumberStart);
+        }
+    });
+
+    dispatch(tr);
+    return true;
+};
@@ -0,0 +1,176 @@
+/**
+ * @file /src/utils/nodes/tableOfContents.ts
+ * @name TableOfContents
+ * @description Utility functions for table of contents nodes.
+ */
+
+import { Attribute, Dispatch } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import {
+    TABLE_OF_CONTENTS_ENTRIES_ATTR,
+    TABLE_OF_CONTENTS_ENTRIES_HTML_ATTR,
+    TABLE_OF_CONTENTS_NODE_NAME,
+} from "../../constants/tableOfContents";
+import { NodePosArray } from "../../types/node";
+import { Nullable } from "../../types/record";
+import { TableOfContentsEntry } from "../../types/tableOfContents";
+import { forEachBodyChild } from "./body/bodyPosition";
+import { isPageNode } from "./page/page";
+import { buildFormattedPageNumbers, getFormattedPageNumbersAtPos } from "./page/pageNumber";
+
+/**
+ * Check if the given node is a table of contents node.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a table of contents node, false otherwise.
+ */
+export const isTableOfContentsNode = (node: Nullable<PMNode>): boolean => {
+    if (!node) {
+        return false;
+    }
+
+    return node.type.name === TABLE_OF_CONTENTS_NODE_NAME;
+};
+
+/**
+ * Get the entries of a table of contents node.
+ *
+ * @param node - The table of contents node.
+ * @returns {TableOfContentsEntry[]} The entries of the table of contents.
+ */
+export const getTableOfContentsEntries = (node: PMNode): TableOfContentsEntry[] => {
+    const { attrs } = node;
+    return attrs[TABLE_OF_CONTENTS_ENTRIES_ATTR] ?? [];
+};
+
+/**
+ * Create the attribute holding the entries of a table of contents.
+ *
+ * @returns {Attribute} The attribute specification.
+ */
+export const createTableOfContentsEntriesAttribute = (): Attribute => {
+    return {
+        default: [],
+        parseHTML: (element) => {
+            const value = element.getAttribute(TABLE_OF_CONTENTS_ENTRIES_HTML_ATTR);
+            try {
+                return value ? JSON.parse(value) : [];
+            } catch {
+                console.warn("Invalid table of contents entries:", value);
+                return [];
+            }
+        },
+        renderHTML: (attributes) => ({ [TABLE_OF_CONTENTS_ENTRIES_HTML_ATTR]: JSON.stringify(attributes[TABLE_OF_CONTENTS_ENTRIES_ATTR]) }),
+    };
+};
+
+/**
+ * Collect the headings in the page bodies which are listed in a table of contents.
+ *
+ * @param doc - The document node.
+ * @param levels - The heading levels to collect.
+ * @returns {NodePosArray} The heading nodes and their positions, in document order.
+ */
+export const collectTableOfContentsHeadings = (doc: PMNode, levels: number[]): NodePosArray => {
+    const headings: NodePosArray = [];
+    forEachBodyChild(doc, (node, pos) => {
+        if (node.type.name === "heading" && levels.includes(node.attrs.level)) {
+            headings.push({ node, pos });
+        }
+    });
+
+    return headings;
+};
+
+/**
+ * Build the entries of a table of contents from the headings of a document.
+ *
+ * @param doc - The document node.
+ * @param levels - The heading levels to list.
+ * @returns {TableOfContentsEntry[]} The table of contents entries.
+ */
+export const buildTableOfContentsEntries = (doc: PMNode, levels: number[]): TableOfContentsEntry[] => {
+    const formattedPageNumbers = isPageNode(doc.firstChild) ? buildFormattedPageNumbers(doc) : [];
+    return collectTableOfContentsHeadings(doc, levels).map(({ node, pos }) => ({
+        text: node.textContent,
+        level: node.attrs.level,
+        pageNumber: getFormattedPageNumbersAtPos(doc, formattedPageNumbers, pos)?.pageNumber ?? "",
+    }));
+};
+
+/**
+ * Check if two lists of table of contents entries are the same.
+ *
+ * @param entries - The first list of entries.
+ * @param otherEntries - The second list of entries.
+ * @returns {boolean} True if the entries are the same, false otherwise.
+ */
+const areTableOfContentsEntriesEqual = (entries: TableOfContentsEntry[], otherEntries: TableOfContentsEntry[]): boolean => {
+    if (entries.length !== otherEntries.length) {
+        return false;
+    }
+
+    return entries.every(
+        ({ text, level, pageNumber }, index) =>
+            text === otherEntries[index].text && level === otherEntries[index].level && pageNumber === otherEntries[index].pageNumber
+    );
+};
+
+/**
+ * Rebuild the entries of every table of contents in the document. Tables of contents
+ * which are already up to date are left untouched.
+ *
+ * @param tr - The transaction to apply the changes to.
+ * @param levels - The heading levels to list.
+ * @returns {boolean} True if any table of contents was changed, false otherwise.
+ */
+export const syncTableOfContents = (tr: Transaction, levels: number[]): boolean => {
+    const tableOfContentsNodes: NodePosArray = [];
+    forEachBodyChild(tr.doc, (node, pos) => {
+        if (isTableOfContentsNode(node)) {
+            tableOfContentsNodes.push({ node, pos });
+        }
+    });
+
+    if (tableOfContentsNodes.length === 0) {
+        return false;
+    }
+
+    const entries = buildTableOfContentsEntries(tr.doc, levels);
+    let isChanged = false;
+    tableOfContentsNodes.forEach(({ node, pos }) => {
+        if (areTableOfContentsEntriesEqual(getTableOfContentsEntries(node), entries)) {
+            return;
+        }
+
+        tr.setNodeAttribute(pos, TABLE_OF_CONTENTS_ENTRIES_ATTR, entries);
+        isChanged = true;
+    });
+
+    return isChanged;
+};
+
+/**
+ * Insert a table of contents listing the headings of the document at the selection.
+ *
+ * @param tr - The current transaction.
+ * @param dispatch - The dispatch function to apply the transaction.
+ * @param levels - The heading levels to list.
+ * @returns {boolean} True if the table of contents was inserted, false otherwise.
+ */
+export const insertTableOfContentsAtSelection = (tr: Transaction, dispatch: Dispatch, levels: number[]): boolean => {
+    if (!dispatch) return false;
+
+    const tableOfContentsType = tr.doc.type.schema.nodes[TABLE_OF_CONTENTS_NODE_NAME];
+    if (!tableOfContentsType) {
+        console.warn("Table of contents node type not found in schema");
+        return false;
+    }
+
+    const entries = buildTableOfContentsEntries(tr.doc, levels);
+    tr.replaceSelectionWith(tableOfContentsType.create({ [TABLE_OF_CONTENTS_ENTRIES_ATTR]: entries }));
+
+    dispatch(tr);
+    return true;
+};
@@ -0,0 +1,79 @@
+/**
+ * @file /src/utils/pageNumberFormat.ts
+ * @name PageNumberFormat
+ * @description Utility functions for formatting page numbers.
+ */
+
+import { ROMAN_NUMERALS, pageNumberFormats } from "../constants/pageNumber";
+import { PageNumberFormat } from "../types/page";
+
+/**
+ * Check if the page number format is valid.
+ *
+ * @param format - The page number format to check.
+ * @returns {boolean} True if the page number format is valid, false otherwise.
+ */
+export const isValidPageNumberFormat = (format: string): format is PageNumberFormat => {
+    return pageNumberFormats.includes(format as PageNumberFormat);
+};
+
+/**
+ * Check if the page number start is valid.
+ *
+ * @param start - The number to start page numbering at.
+ * @returns {boolean} True if the page number start is a non-negative integer, false otherwise.
+ */
+export const isValidPageNumberStart = (start: number): boolean => {
+    return Number.isInteger(start) && start >= 0;
+};
+
+/**
+ * Convert a number to roman numerals.
+ *
+ * @param value - The number to convert. Must be positive.
+ * @returns {string} The number in upper case roman numerals.
+ */
+const toRomanNumerals = (value: number): string => {
+    let remaining = value;
+    return ROMAN_NUMERALS.reduce((numerals, [symbol, symbolValue]) => {
+        const count = Math.floor(remaining / symbolValue);
+        remaining -= count * symbolValue;
+        return numerals + symbol.repeat(count);
+    }, "");
+};
+
+/**
+ * Convert a number to letters, i.e. A, B, ..., Z, AA, BB, ...
+ *
+ * @param value - The number to convert. Must be positive.
+ * @returns {string} The number in upper case letters.
+ */
+const toAlpha = (value: number): string => {
+    const letter = String.fromCharCode("A".charCodeAt(0) + ((value - 1) % 26));
+    return letter.repeat(Math.ceil(value / 26));
+};
+
+/**
+ * Format a page number. Numbers which cannot be represented in the given format
+ * (i.e. zero for roman numerals and letters) fall back to arabic numerals.
+ *
+ * @param value - The page number to format.
+ * @param format - The format to display the page number in.
+ * @returns {string} The formatted page number.
+ */
+export const formatPageNumber = (value: number, format: PageNumberFormat): string => {
+    if (format === "arabic" || value < 1) {
+        return String(value);
+    }
+
+    switch (format) {
+        case "lowerRoman":
+            return toRomanNumerals(value).toLowerCase();
+        case "upperRoman":
+            return toRomanNumerals(value);
+        case "lowerAlpha":
+            return toAlpha(value).toLowerCase();
+        case "upperAlpha":
+            return toAlpha(value);
+    }
+};
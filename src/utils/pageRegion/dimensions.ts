@@ -5,22 +5,30 @@
  */
 
 import { Node as PMNode } from "@tiptap/pm/model";
-import { PaperDimensions } from "../../types/paper";
+import { CustomPaperSizes, PaperDimensions } from "../../types/paper";
 import { getPaperDimensionsFromPageNode } from "../nodes/page/attributes/paperSize";
 import { DEFAULT_PAGE_MARGIN_CONFIG, DEFAULT_X_MARGIN_CONFIG } from "../../constants/pageMargins";
 import { getHeaderFooterNodeHeight, getHeaderFooterNodeXMargins } from "../nodes/headerFooter/headerFooter";
 import { HEADER_FOOTER_DEFAULT_ATTRIBUTES } from "../../constants/pageRegions";
 import { getBodyNodeMargins } from "../nodes/body/body";
+import { calculateColumnWidth, getBodyNodeColumns } from "../nodes/body/attributes/columns";
+import { BodyDimensions } from "../../types/body";
+import { DEFAULT_COLUMN_CONFIG } from "../../constants/body";
 
 /**
  * Calculates the dimensions in millimetres of a header or footer node based on its paper size.
  *
  * @param pageNode - The page node containing the header or footer node.
  * @param headerFooterNode - The header or footer node to calculate the dimensions for.
+ * @param customPaperSizes - The custom paper sizes the page may use.
  * @returns {PaperDimensions} The dimensions of the header or footer node.
  */
-export const calculateHeaderFooterDimensions = (pageNode: PMNode, headerFooterNode: PMNode): PaperDimensions => {
-    const { width: pageWidth } = getPaperDimensionsFromPageNode(pageNode);
+export const calculateHeaderFooterDimensions = (
+    pageNode: PMNode,
+    headerFooterNode: PMNode,
+    customPaperSizes: CustomPaperSizes = {}
+): PaperDimensions => {
+    const { width: pageWidth } = getPaperDimensionsFromPageNode(pageNode, customPaperSizes);
     const { left, right } = getHeaderFooterNodeXMargins(headerFooterNode) ?? DEFAULT_X_MARGIN_CONFIG;
 
     const width = pageWidth - (left + right);
@@ -30,17 +38,20 @@ export const calculateHeaderFooterDimensions = (pageNode: PMNode, headerFooterNo
 
 /**
  * Calculates the dimensions in millimetres of a body node based on its paper size
- * and orientation.
+ * and orientation. Each column of the body is the full height of the body.
  *
  * @param pageNode - The page node containing the body node.
  * @param bodyNode - The body node to calculate the dimensions for.
- * @returns {PaperDimensions} The dimensions of the body node.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {BodyDimensions} The dimensions of the body node and the width of its columns.
  */
-export const calculateBodyDimensions = (pageNode: PMNode, bodyNode: PMNode): PaperDimensions => {
-    const { width: pageWidth, height: pageHeight } = getPaperDimensionsFromPageNode(pageNode);
+export const calculateBodyDimensions = (pageNode: PMNode, bodyNode: PMNode, customPaperSizes: CustomPaperSizes = {}): BodyDimensions => {
+    const { width: pageWidth, height: pageHeight } = getPaperDimensionsFromPageNode(pageNode, customPaperSizes);
     const { bottom, left, right, top } = getBodyNodeMargins(bodyNode) ?? DEFAULT_PAGE_MARGIN_CONFIG;
+    const columns = getBodyNodeColumns(bodyNode) ?? DEFAULT_COLUMN_CONFIG;
 
     const width = pageWidth - (left + right);
     const height = pageHeight - (top + bottom);
-    return { width, height };
+    const columnWidth = calculateColumnWidth(width, columns, columns.gap);
+    return { width, height, columnWidth };
 };
@@ -0,0 +1,155 @@
+/**
+ * @file /src/utils/pageStyles.ts
+ * @name PageStyles
+ * @description Utility functions for the inline styles of pages and page regions, shared
+ * by the node views and the paged HTML export.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { DEFAULT_PAGE_BORDER_CONFIG } from "../constants/pageBorders";
+import { DEFAULT_PAPER_COLOUR } from "../constants/paperColours";
+import { DEFAULT_PAGE_MARGIN_CONFIG } from "../constants/pageMargins";
+import { FOOTER_DEFAULT_ATTRIBUTES } from "../constants/pageRegions";
+import { FOOTNOTES_SEPARATOR_HEIGHT } from "../constants/footnote";
+import { InlineStyles } from "../types/page";
+import { CustomPaperSizes } from "../types/paper";
+import { getPaperDimensionsFromPageNode } from "./nodes/page/attributes/paperSize";
+import { getPageNodePaperColour } from "./nodes/page/attributes/paperColour";
+import { calculateShorthandPageBorders, getPageNodePageBorders } from "./nodes/page/attributes/pageBorders";
+import { calculateBodyMargins, calculateShorthandMargins } from "./nodes/body/attributes/pageMargins";
+import { getBodyNodeMargins } from "./nodes/body/body";
+import { getHeaderFooterNodePageEndOffset, getHeaderFooterNodeType, getHeaderFooterNodeXMargins } from "./nodes/headerFooter/headerFooter";
+import { calculateBodyDimensions, calculateHeaderFooterDimensions } from "./pageRegion/dimensions";
+import { getPrintPageName } from "./print";
+import { mm, px } from "./units";
+
+/**
+ * Apply inline styles to an element.
+ *
+ * @param element - The element to style.
+ * @param styles - The styles to apply.
+ * @returns {void}
+ */
+export const applyInlineStyles = (element: HTMLElement, styles: InlineStyles): void => {
+    Object.entries(styles).forEach(([property, value]) => element.style.setProperty(property, value));
+};
+
+/**
+ * Format inline styles as the value of a style attribute.
+ *
+ * @param styles - The styles to format.
+ * @returns {string} The CSS declarations.
+ * @example formatInlineStyles({ width: "210mm", height: "297mm" }) // "width: 210mm; height: 297mm"
+ */
+export const formatInlineStyles = (styles: InlineStyles): string => {
+    return Object.entries(styles)
+        .map(([property, value]) => `${property}: ${value}`)
+        .join("; ");
+};
+
+/**
+ * Get the styles of a page: its paper size, borders and paper colour.
+ *
+ * @param pageNode - The page node.
+ * @param pageGap - The gap above the page in pixels.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {InlineStyles} The styles of the page.
+ */
+export const getPageStyles = (pageNode: PMNode, pageGap: number, customPaperSizes: CustomPaperSizes = {}): InlineStyles => {
+    const { width, height } = getPaperDimensionsFromPageNode(pageNode, customPaperSizes);
+    const pageBorders = getPageNodePageBorders(pageNode) ?? DEFAULT_PAGE_BORDER_CONFIG;
+    const paperColour = getPageNodePaperColour(pageNode) ?? DEFAULT_PAPER_COLOUR;
+
+    return {
+        width: mm(width),
+        height: mm(height),
+        // Prints the page on a sheet of its own size
+        page: getPrintPageName({ width, height }),
+        "border-width": calculateShorthandPageBorders(pageBorders),
+        "border-style": "solid",
+        "border-color": "#ccc",
+        background: paperColour,
+        overflow: "hidden",
+        position: "relative",
+        "margin-top": px(pageGap),
+        "margin-left": "auto",
+        "margin-right": "auto",
+        "box-sizing": "border-box",
+    };
+};
+
+/**
+ * Get the styles of the body of a page: its size and the page margins around it.
+ *
+ * @param pageNode - The page node containing the body.
+ * @param bodyNode - The body node.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {InlineStyles} The styles of the body.
+ */
+export const getBodyStyles = (pageNode: PMNode, bodyNode: PMNode, customPaperSizes: CustomPaperSizes = {}): InlineStyles => {
+    const { width, height } = calculateBodyDimensions(pageNode, bodyNode, customPaperSizes);
+
+    return {
+        height: mm(height),
+        width: mm(width),
+        margin: calculateShorthandMargins(calculateBodyMargins(bodyNode)),
+        border: "1px solid #ccc",
+        overflow: "hidden",
+        position: "relative",
+    };
+};
+
+/**
+ * Get the styles of a header or footer: its size and where it is placed on the page.
+ *
+ * @param pageNode - The page node containing the header or footer.
+ * @param headerFooterNode - The header or footer node.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {InlineStyles} The styles of the header or footer.
+ */
+export const getHeaderFooterStyles = (
+    pageNode: PMNode,
+    headerFooterNode: PMNode,
+    customPaperSizes: CustomPaperSizes = {}
+): InlineStyles => {
+    const { width, height } = calculateHeaderFooterDimensions(pageNode, headerFooterNode, customPaperSizes);
+    const endOffset = getHeaderFooterNodePageEndOffset(headerFooterNode) ?? FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset;
+    const xMargins = getHeaderFooterNodeXMargins(headerFooterNode) ?? FOOTER_DEFAULT_ATTRIBUTES.xMargins;
+
+    const styles: InlineStyles = { height: mm(height), width: mm(width), left: mm(xMargins.left) };
+    switch (getHeaderFooterNodeType(headerFooterNode)) {
+        case "header":
+            styles.top = mm(endOffset);
+            break;
+        case "footer":
+            styles.bottom = mm(endOffset);
+            break;
+    }
+
+    return { ...styles, border: "1px solid #ccc", overflow: "hidden", position: "absolute", "box-sizing": "border-box" };
+};
+
+/**
+ * Get the styles of the footnotes of a page, which sit at the bottom of the body.
+ *
+ * @param pageNode - The page node containing the footnotes.
+ * @param bodyNode - The body node of the page.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {InlineStyles} The styles of the footnotes.
+ */
+export const getFootnotesStyles = (pageNode: PMNode, bodyNode: PMNode, customPaperSizes: CustomPaperSizes = {}): InlineStyles => {
+    const { width } = calculateBodyDimensions(pageNode, bodyNode, customPaperSizes);
+    const { left, bottom } = getBodyNodeMargins(bodyNode) ?? DEFAULT_PAGE_MARGIN_CONFIG;
+
+    return {
+        width: mm(width),
+        left: mm(left),
+        bottom: mm(bottom),
+        position: "absolute",
+        "box-sizing": "border-box",
+        // The separator line and the space below it make up the separator height
+        "border-top": "1px solid #ccc",
+        "padding-top": px(FOOTNOTES_SEPARATOR_HEIGHT - 1),
+        "font-size": "0.8em",
+    };
+};
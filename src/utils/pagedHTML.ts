@@ -0,0 +1,178 @@
+/**
+ * @file /src/utils/pagedHTML.ts
+ * @name PagedHTML
+ * @description Utility functions for exporting the paginated document as standalone HTML.
+ */
+
+import { DOMSerializer, Node as PMNode } from "@tiptap/pm/model";
+import { DEFAULT_PAGE_GAP } from "../constants/page";
+import { PAGE_NUMBER_FIELD_HTML_ATTRS } from "../constants/pageNumberField";
+import { PAGED_HTML_DOCUMENT_CLASS } from "../constants/pagedHTML";
+import { PagedHTMLExportOptions } from "../types/pagedHTML";
+import { CustomPaperSizes } from "../types/paper";
+import { PageNumberFieldType } from "../types/pageNumberField";
+import { isPageNode } from "./nodes/page/page";
+import { isBodyNode } from "./nodes/body/body";
+import { isHeaderFooterNode } from "./nodes/headerFooter/headerFooter";
+import { isFootnotesNode } from "./nodes/footnote";
+import { getBodyColumnStyles } from "./nodes/body/attributes/columns";
+import { getPageNumberFieldType, getPageNumberFieldValue } from "./nodes/pageNumberField";
+import { buildFormattedPageNumbers } from "./nodes/page/pageNumber";
+import { getPageRegionNode } from "./pageRegion/getAttributes";
+import { formatInlineStyles, getBodyStyles, getFootnotesStyles, getHeaderFooterStyles, getPageStyles } from "./pageStyles";
+import { buildPrintPageRules } from "./print";
+import { escapeHTML } from "./string";
+import { px } from "./units";
+
+/**
+ * Style the element of a page and its regions the way the node views do. The outlines
+ * of the regions are made transparent, as in print, but keep their width so the layout
+ * is unchanged.
+ *
+ * @param ownerDocument - The document the element belongs to.
+ * @param pageElement - The serialised page element.
+ * @param pageNode - The page node.
+ * @param pageGap - The gap above the page in pixels.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {void}
+ */
+const stylePageElement = (
+    ownerDocument: Document,
+    pageElement: Element,
+    pageNode: PMNode,
+    pageGap: number,
+    customPaperSizes: CustomPaperSizes
+): void => {
+    pageElement.setAttribute("style", formatInlineStyles(getPageStyles(pageNode, pageGap, customPaperSizes)));
+
+    const bodyNode = getPageRegionNode(pageNode, "body");
+    const regionElements = Array.from(pageElement.children);
+    pageNode.forEach((regionNode, _, index) => {
+        const regionElement = regionElements[index];
+        if (!regionElement) return;
+
+        if (isBodyNode(regionNode)) {
+            regionElement.setAttribute(
+                "style",
+                formatInlineStyles({ ...getBodyStyles(pageNode, regionNode, customPaperSizes), "border-color": "transparent" })
+            );
+
+            // The body content is laid out in columns by an inner element, as in the editor
+            const contentElement = ownerDocument.createElement("div");
+            contentElement.setAttribute("style", formatInlineStyles(getBodyColumnStyles(regionNode)));
+            contentElement.append(...Array.from(regionElement.childNodes));
+            regionElement.appendChild(contentElement);
+        } else if (isHeaderFooterNode(regionNode)) {
+            regionElement.setAttribute(
+                "style",
+                formatInlineStyles({ ...getHeaderFooterStyles(pageNode, regionNode, customPaperSizes), "border-color": "transparent" })
+            );
+        } else if (isFootnotesNode(regionNode) && bodyNode) {
+            regionElement.setAttribute("style", formatInlineStyles(getFootnotesStyles(pageNode, bodyNode, customPaperSizes)));
+        }
+    });
+};
+
+/**
+ * Fill in the values of the page number fields, which the editor only renders in its
+ * node views. Fields are serialised in document order, so they are matched up by index.
+ *
+ * @param doc - The document node.
+ * @param container - The element holding the serialised document.
+ * @returns {void}
+ */
+const fillPageNumberFields = (doc: PMNode, container: Element): void => {
+    const formattedPageNumbers = buildFormattedPageNumbers(doc);
+    (Object.keys(PAGE_NUMBER_FIELD_HTML_ATTRS) as PageNumberFieldType[]).forEach((fieldType) => {
+        const values: string[] = [];
+        doc.descendants((node, pos) => {
+            if (getPageNumberFieldType(node) === fieldType) {
+                values.push(getPageNumberFieldValue(doc, pos, fieldType, formattedPageNumbers));
+            }
+
+            return !node.isLeaf;
+        });
+
+        container.querySelectorAll(`[${PAGE_NUMBER_FIELD_HTML_ATTRS[fieldType]}]`).forEach((fieldElement, index) => {
+            fieldElement.textContent = values[index] ?? "#";
+        });
+    });
+};
+
+/**
+ * Build the stylesheet of the exported HTML. On screen the pages are laid out as in
+ * the editor; in print each page is printed on a sheet of its own size.
+ *
+ * @param doc - The document node.
+ * @param pageGap - The gap between pages in pixels.
+ * @param customPaperSizes - The custom paper sizes the pages may use.
+ * @returns {string} The stylesheet.
+ */
+const buildPagedHTMLStyles = (doc: PMNode, pageGap: number, customPaperSizes: CustomPaperSizes): string => {
+    const container = `.${PAGED_HTML_DOCUMENT_CLASS}`;
+
+    return [
+        ...buildPrintPageRules(doc, customPaperSizes),
+        "body { margin: 0; }",
+        // Text wraps the same way as in the editor
+        `${container} { padding-bottom: ${px(pageGap)}; white-space: pre-wrap; word-wrap: break-word; }`,
+        `${container} [data-page-break], ${container} [data-section-break], ${container} [data-column-break] { visibility: hidden; }`,
+        "@media print {",
+        `${container} { padding: 0; }`,
+        `${container} [data-page] { margin: 0 !important; border-color: transparent !important; break-after: page; }`,
+        `${container} [data-page]:last-child { break-after: auto; }`,
+        "}",
+    ].join("\n");
+};
+
+/**
+ * Export a paginated document as a standalone HTML document. Every page carries its
+ * paper size, margins, borders, paper colour and header and footer placement as inline
+ * CSS, so the HTML looks like the editor when opened in a browser or converted to PDF.
+ * The styles of the content itself (fonts, headings, etc.) can be added with the
+ * `styles` option.
+ *
+ * @param doc - The paginated document node.
+ * @param options - The export options.
+ * @returns {string} The HTML document.
+ * @throws An error if there is no DOM document to serialise the content with.
+ */
+export const exportPagedHTML = (doc: PMNode, options: PagedHTMLExportOptions = {}): string => {
+    const ownerDocument = options.document ?? (typeof document !== "undefined" ? document : undefined);
+    if (!ownerDocument) {
+        throw new Error("Exporting paged HTML requires a DOM document. Pass one in the export options.");
+    }
+
+    const { title = "", pageGap = DEFAULT_PAGE_GAP, styles = "", customPaperSizes = {} } = options;
+
+    const container = ownerDocument.createElement("div");
+    container.className = PAGED_HTML_DOCUMENT_CLASS;
+    container.appendChild(DOMSerializer.fromSchema(doc.type.schema).serializeFragment(doc.content, { document: ownerDocument }));
+
+    const pageElements = Array.from(container.children);
+    doc.forEach((pageNode, _, index) => {
+        const pageElement = pageElements[index];
+        if (isPageNode(pageNode) && pageElement) {
+            stylePageElement(ownerDocument, pageElement, pageNode, pageGap, customPaperSizes);
+        }
+    });
+
+    fillPageNumberFields(doc, container);
+
+    return [
+        "<!DOCTYPE html>",
+        "<html>",
+        "<head>",
+        '<meta charset="utf-8">',
+        `<title>${escapeHTML(title)}</title>`,
+        "<style>",
+        buildPagedHTMLStyles(doc, pageGap, customPaperSizes),
+        styles,
+        "</style>",
+        "</head>",
+        "<body>",
+        container.outerHTML,
+        "</body>",
+        "</html>",
+    ].join("\n");
+};
@@ -0,0 +1,107 @@
+/**
+ * @file /src/utils/pdf/exportPDF.ts
+ * @name ExportPDF
+ * @description Utility functions for exporting the paginated document as a PDF.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { DEFAULT_FOOTNOTE_NUMBERING } from "../../constants/footnote";
+import { DEFAULT_ENDNOTE_NUMBER_FORMAT, DEFAULT_ENDNOTE_PLACEMENT } from "../../constants/endnote";
+import { DEFAULT_CROSS_REFERENCE_LABELS } from "../../constants/crossReference";
+import { PDFExportOptions, PDFPage } from "../../types/pdf";
+import { isPageNode } from "../nodes/page/page";
+import { buildFormattedPageNumbers } from "../nodes/page/pageNumber";
+import { getPageNumberFieldType, getPageNumberFieldValue } from "../nodes/pageNumberField";
+import { getFootnoteId, getFootnoteNumbers, isFootnoteNode, isFootnoteReferenceNode } from "../nodes/footnote";
+import { getEndnoteId, getEndnoteNumbers, isEndnoteNode, isEndnoteReferenceNode } from "../nodes/endnote";
+import {
+    collectCrossReferenceTargets,
+    getCrossReferenceDisplay,
+    getCrossReferenceTargetId,
+    isCrossReferenceNode,
+    resolveCrossReference,
+} from "../nodes/crossReference";
+import { formatPageNumber } from "../pageNumberFormat";
+import { resolveTextMetricsOptions } from "../measurement/textMetrics";
+import { PDFFieldValues, renderPDFPage } from "./render";
+import { writePDF } from "./writer";
+
+/**
+ * Create the getters of the text the node views display for the inline atoms and notes
+ * of a document, numbered as the editor numbers them.
+ *
+ * @param doc - The document node.
+ * @param options - The export options.
+ * @returns {PDFFieldValues} The field value getters.
+ */
+const createPDFFieldValues = (doc: PMNode, options: PDFExportOptions): PDFFieldValues => {
+    const {
+        footnoteNumbering = DEFAULT_FOOTNOTE_NUMBERING,
+        endnotePlacement = DEFAULT_ENDNOTE_PLACEMENT,
+        endnoteNumberFormat = DEFAULT_ENDNOTE_NUMBER_FORMAT,
+        crossReferenceLabels = DEFAULT_CROSS_REFERENCE_LABELS,
+    } = options;
+
+    const footnoteNumbers = getFootnoteNumbers(doc, footnoteNumbering);
+    const endnoteNumbers = getEndnoteNumbers(doc, endnotePlacement);
+    const crossReferenceTargets = collectCrossReferenceTargets(doc, crossReferenceLabels);
+    const formattedPageNumbers = buildFormattedPageNumbers(doc);
+
+    const getNoteNumber = (node: PMNode): string => {
+        if (isFootnoteReferenceNode(node) || isFootnoteNode(node)) {
+            const id = getFootnoteId(node);
+            const footnoteNumber = id ? footnoteNumbers.get(id) : undefined;
+            return footnoteNumber !== undefined ? String(footnoteNumber) : "*";
+        }
+
+        const id = getEndnoteId(node);
+        const endnoteNumber = id ? endnoteNumbers.get(id) : undefined;
+        return endnoteNumber !== undefined ? formatPageNumber(endnoteNumber, endnoteNumberFormat) : "*";
+    };
+
+    return {
+        getInlineAtomText: (node, pos) => {
+            const fieldType = getPageNumberFieldType(node);
+            if (fieldType) {
+                return getPageNumberFieldValue(doc, pos, fieldType, formattedPageNumbers);
+            }
+
+            if (isFootnoteReferenceNode(node) || isEndnoteReferenceNode(node)) {
+                return getNoteNumber(node);
+            }
+
+            if (isCrossReferenceNode(node)) {
+                const targetId = getCrossReferenceTargetId(node);
+                const target = targetId ? crossReferenceTargets.get(targetId) : undefined;
+                return resolveCrossReference(target ?? null, getCrossReferenceDisplay(node)).text;
+            }
+
+            return node.type.spec.leafText?.(node) ?? "";
+        },
+        getBlockMarker: (node) => (isFootnoteNode(node) || isEndnoteNode(node) ? getNoteNumber(node) : null),
+        isSuperscript: (node) => isFootnoteReferenceNode(node) || isEndnoteReferenceNode(node),
+    };
+};
+
+/**
+ * Export a paginated document as a vector PDF, with one PDF page for every page node at
+ * its paper size. Pages are drawn from the page geometry the editor lays pages out with,
+ * and text is wrapped with the text metrics measurement backend, so no browser is needed.
+ *
+ * @param doc - The paginated document node.
+ * @param options - The export options.
+ * @returns {Uint8Array} The bytes of the PDF file.
+ */
+export const exportPDF = (doc: PMNode, options: PDFExportOptions = {}): Uint8Array => {
+    const metrics = resolveTextMetricsOptions(options.textMetrics);
+    const fieldValues = createPDFFieldValues(doc, options);
+
+    const pages: PDFPage[] = [];
+    doc.forEach((pageNode, offset) => {
+        if (isPageNode(pageNode)) {
+            pages.push(renderPDFPage(pageNode, offset, metrics, fieldValues, options.customPaperSizes));
+        }
+    });
+
+    return writePDF(pages, options.title ?? "");
+};
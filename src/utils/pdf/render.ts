@@ -0,0 +1,636 @@
+/**
+ * @file /src/utils/pdf/render.ts
+ * @name Render
+ * @description Utility functions for drawing the pages of the paginated document as PDF content.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { MM_PER_INCH, POINTS_PER_INCH, STANDARD_PIXELS_PER_INCH } from "../../constants/sizing";
+import { DEFAULT_PAGE_BORDER_CONFIG } from "../../constants/pageBorders";
+import { DEFAULT_PAPER_COLOUR } from "../../constants/paperColours";
+import { DEFAULT_PAGE_MARGIN_CONFIG } from "../../constants/pageMargins";
+import { DEFAULT_COLUMN_CONFIG } from "../../constants/body";
+import { FOOTER_DEFAULT_ATTRIBUTES } from "../../constants/pageRegions";
+import { FOOTNOTES_SEPARATOR_HEIGHT } from "../../constants/footnote";
+import {
+    PDF_BASELINE_OFFSET,
+    PDF_FONTS,
+    PDF_FOOTNOTES_FONT_SCALE,
+    PDF_LINE_COLOUR,
+    PDF_MARKER_GAP,
+    PDF_SUPERSCRIPT_SCALE,
+} from "../../constants/pdf";
+import { TextMetricsOptions } from "../../types/measurement";
+import { CustomPaperSizes } from "../../types/paper";
+import { PDFFont, PDFPage } from "../../types/pdf";
+import { Nullable } from "../../types/record";
+import { parseColour } from "../colour";
+import { getPaperDimensionsFromPageNode } from "../nodes/page/attributes/paperSize";
+import { getPageNodePaperColour } from "../nodes/page/attributes/paperColour";
+import { getPageNodePageBorders } from "../nodes/page/attributes/pageBorders";
+import { getBodyNodeMargins, isBodyNode } from "../nodes/body/body";
+import { getBodyNodeColumns } from "../nodes/body/attributes/columns";
+import {
+    getHeaderFooterNodePageEndOffset,
+    getHeaderFooterNodeType,
+    getHeaderFooterNodeXMargins,
+    isHeaderFooterNode,
+} from "../nodes/headerFooter/headerFooter";
+import { isFootnotesNode } from "../nodes/footnote";
+import { isHardBreakNode } from "../nodes/hardBreak";
+import { isColumnBreakNode } from "../nodes/columnBreak";
+import { isPageEndingNode } from "../nodes/pageBreak";
+import { getPageRegionNode } from "../pageRegion/getAttributes";
+import { calculateBodyDimensions, calculateHeaderFooterDimensions } from "../pageRegion/dimensions";
+import { estimateNodeHeight, getBlockStyle, isTableRowNode, wrapTextblock } from "../measurement/textMetrics";
+import { encodePDFText, formatPDFNumber } from "./writer";
+
+/**
+ * The text of the inline atoms and the markers of the notes of a document, which the
+ * editor only renders in its node views.
+ */
+export type PDFFieldValues = {
+    /**
+     * Get the text an inline atom displays, e.g. the value of a page number field.
+     */
+    getInlineAtomText: (node: PMNode, pos: number) => string;
+
+    /**
+     * Get the marker displayed before a block, e.g. the number of a footnote, or null if it has none.
+     */
+    getBlockMarker: (node: PMNode) => Nullable<string>;
+
+    /**
+     * Whether an inline atom is displayed as a superscript, e.g. a footnote reference.
+     */
+    isSuperscript: (node: PMNode) => boolean;
+};
+
+/**
+ * The state of drawing a page.
+ */
+type PDFRenderContext = {
+    metrics: TextMetricsOptions;
+    fieldValues: PDFFieldValues;
+
+    /**
+     * The operators drawing the page.
+     */
+    operators: string[];
+
+    /**
+     * The height of the page in pixels, to flip the y-axis into PDF coordinates.
+     */
+    pageHeight: number;
+
+    /**
+     * The marker to draw before the next line, positioned relative to the column.
+     */
+    pendingMarker: Nullable<{ text: string; indent: number }>;
+};
+
+/**
+ * An area of the page content flows through top to bottom, column by column. All
+ * values are in pixels from the top left of the page.
+ */
+type PDFFrame = {
+    left: number;
+    top: number;
+    bottom: number;
+    columnWidth: number;
+    columnGap: number;
+    columnCount: number;
+    column: number;
+    y: number;
+};
+
+/**
+ * A character (or inline atom) of a text block, which takes up one offset of its lines.
+ */
+type PDFInlineItem = {
+    text: string;
+    font: PDFFont;
+    isSuperscript: boolean;
+};
+
+/**
+ * Convert a length in millimetres to CSS pixels.
+ *
+ * @param value - The length in millimetres.
+ * @returns {number} The length in pixels.
+ */
+const mmToPx = (value: number): number => {
+    return (value * STANDARD_PIXELS_PER_INCH) / MM_PER_INCH;
+};
+
+/**
+ * Format a colour as a PDF colour operator.
+ *
+ * @param colour - The colour string.
+ * @param operator - "rg" to set the fill colour or "RG" to set the stroke colour.
+ * @returns {string} The colour operator. Unparseable colours are white.
+ */
+const formatPDFColour = (colour: string, operator: "rg" | "RG"): string => {
+    const { red, green, blue } = parseColour(colour) ?? { red: 255, green: 255, blue: 255 };
+    return `${[red, green, blue].map((channel) => formatPDFNumber(channel / 255)).join(" ")} ${operator}`;
+};
+
+/**
+ * Format a rectangle given from its top left corner as PDF operands.
+ *
+ * @param context - The render context.
+ * @param x - The left of the rectangle in pixels.
+ * @param y - The top of the rectangle in pixels.
+ * @param width - The width of the rectangle in pixels.
+ * @param height - The height of the rectangle in pixels.
+ * @returns {string} The rectangle operands.
+ */
+const formatRect = (context: PDFRenderContext, x: number, y: number, width: number, height: number): string => {
+    return [x, context.pageHeight - y - height, width, height].map(formatPDFNumber).join(" ");
+};
+
+/**
+ * Get the x coordinate of the current column of a frame.
+ *
+ * @param frame - The frame.
+ * @returns {number} The left of the column in pixels.
+ */
+const getColumnLeft = (frame: PDFFrame): number => {
+    return frame.left + frame.column * (frame.columnWidth + frame.columnGap);
+};
+
+/**
+ * Move to the top of the next column of a frame. Content past the last column overflows
+ * the frame, as it does in the editor.
+ *
+ * @param frame - The frame.
+ * @returns {void}
+ */
+const moveToNextColumn = (frame: PDFFrame): void => {
+    if (frame.column < frame.columnCount - 1) {
+        frame.column++;
+        frame.y = frame.top;
+    }
+};
+
+/**
+ * Move to the next column if content of the given height does not fit in the current one.
+ *
+ * @param frame - The frame.
+ * @param height - The height of the content in pixels.
+ * @returns {void}
+ */
+const ensureSpace = (frame: PDFFrame, height: number): void => {
+    if (frame.y + height > frame.bottom && frame.y > frame.top) {
+        moveToNextColumn(frame);
+    }
+};
+
+/**
+ * Measure the width of inline items.
+ *
+ * @param metrics - The text metrics options.
+ * @param items - The items to measure.
+ * @param fontSize - The font size in pixels.
+ * @returns {number} The width in pixels.
+ */
+const measureInlineItems = (metrics: TextMetricsOptions, items: PDFInlineItem[], fontSize: number): number => {
+    const { charWidths, defaultCharWidth } = metrics;
+    return items.reduce((width, { text, isSuperscript }) => {
+        const itemFontSize = isSuperscript ? fontSize * PDF_SUPERSCRIPT_SCALE : fontSize;
+        return width + Array.from(text).reduce((sum, char) => sum + (charWidths[char] ?? defaultCharWidth) * itemFontSize, 0);
+    }, 0);
+};
+
+/**
+ * Get the font variant of text from its marks.
+ *
+ * @param node - The text node.
+ * @param isBold - Whether the block the text is in is bold, e.g. a heading.
+ * @returns {PDFFont} The font variant.
+ */
+const getInlineFont = (node: PMNode, isBold: boolean): PDFFont => {
+    const markNames = node.marks.map((mark) => mark.type.name);
+    const bold = isBold || markNames.includes("bold") || markNames.includes("strong");
+    const italic = markNames.includes("italic") || markNames.includes("em");
+
+    if (bold) {
+        return italic ? "boldItalic" : "bold";
+    }
+
+    return italic ? "italic" : "regular";
+};
+
+/**
+ * Collect the inline items of a text block, one for each offset counted when wrapping it.
+ *
+ * @param context - The render context.
+ * @param textblock - The text block.
+ * @param pos - The position of the text block.
+ * @returns {PDFInlineItem[]} The inline items.
+ */
+const collectInlineItems = (context: PDFRenderContext, textblock: PMNode, pos: number): PDFInlineItem[] => {
+    const { fieldValues } = context;
+    const isBold = textblock.type.name === "heading";
+    const items: PDFInlineItem[] = [];
+
+    textblock.forEach((child, offset) => {
+        const font = getInlineFont(child, isBold);
+        if (isHardBreakNode(child)) {
+            return;
+        }
+
+        if (child.isText) {
+            for (const char of child.text ?? "") {
+                items.push({ text: char, font, isSuperscript: false });
+            }
+
+            return;
+        }
+
+        const text = fieldValues.getInlineAtomText(child, pos + 1 + offset);
+        items.push({ text, font, isSuperscript: fieldValues.isSuperscript(child) });
+    });
+
+    return items;
+};
+
+/**
+ * Draw a line of text. Runs of items in the same font are drawn together.
+ *
+ * @param context - The render context.
+ * @param items - The items of the line.
+ * @param x - The left of the line in pixels.
+ * @param baseline - The baseline of the line in pixels from the top of the page.
+ * @param fontSize - The font size in pixels.
+ * @returns {void}
+ */
+const drawTextLine = (context: PDFRenderContext, items: PDFInlineItem[], x: number, baseline: number, fontSize: number): void => {
+    if (items.length === 0) {
+        return;
+    }
+
+    const operators = ["BT", `${formatPDFNumber(x)} ${formatPDFNumber(context.pageHeight - baseline)} Td`];
+    let runStart = 0;
+    items.forEach((item, index) => {
+        const nextItem = items[index + 1];
+        if (nextItem && nextItem.font === item.font && nextItem.isSuperscript === item.isSuperscript) {
+            return;
+        }
+
+        const text = items
+            .slice(runStart, index + 1)
+            .map(({ text }) => text)
+            .join("");
+        const runFontSize = item.isSuperscript ? fontSize * PDF_SUPERSCRIPT_SCALE : fontSize;
+        const rise = item.isSuperscript ? fontSize * (1 - PDF_SUPERSCRIPT_SCALE) : 0;
+
+        operators.push(`/${PDF_FONTS[item.font].resourceName} ${formatPDFNumber(runFontSize)} Tf`);
+        operators.push(`${formatPDFNumber(rise)} Ts`);
+        operators.push(`${encodePDFText(text)} Tj`);
+        runStart = index + 1;
+    });
+
+    operators.push("ET");
+    context.operators.push(operators.join(" "));
+};
+
+/**
+ * Draw a text block, wrapped as the text metrics measurement backend wraps it.
+ *
+ * @param context - The render context.
+ * @param frame - The frame the block flows through.
+ * @param node - The text block.
+ * @param pos - The position of the text block.
+ * @param indent - The indent of the block from the left of the column in pixels.
+ * @param width - The width of the block in pixels.
+ * @returns {void}
+ */
+const drawTextblock = (context: PDFRenderContext, frame: PDFFrame, node: PMNode, pos: number, indent: number, width: number): void => {
+    const { metrics } = context;
+    const fontSize = metrics.fontSize * (getBlockStyle(metrics, node).fontSize ?? 1);
+    const lineHeight = fontSize * metrics.lineHeight;
+    const lineBreakOffsets = wrapTextblock(metrics, node, width);
+    const items = collectInlineItems(context, node, pos);
+    const textAlign: Nullable<string> = node.attrs.textAlign ?? null;
+
+    lineBreakOffsets.forEach((lineStart, index) => {
+        ensureSpace(frame, lineHeight);
+
+        const lineItems = items.slice(lineStart, lineBreakOffsets[index + 1] ?? items.length);
+        const baseline = frame.y + lineHeight / 2 + fontSize * PDF_BASELINE_OFFSET;
+        const columnLeft = getColumnLeft(frame);
+
+        const { pendingMarker } = context;
+        if (pendingMarker) {
+            const markerItems: PDFInlineItem[] = [{ text: pendingMarker.text, font: "regular", isSuperscript: false }];
+            drawTextLine(context, markerItems, columnLeft + pendingMarker.indent, baseline, fontSize);
+            context.pendingMarker = null;
+        }
+
+        // Trailing spaces hang outside the line, so they do not count when aligning it
+        let trimmedLength = lineItems.length;
+        while (trimmedLength > 0 && /^\s$/.test(lineItems[trimmedLength - 1].text)) {
+            trimmedLength--;
+        }
+
+        const lineWidth = measureInlineItems(metrics, lineItems.slice(0, trimmedLength), fontSize);
+        let alignOffset = 0;
+        if (textAlign === "center") {
+            alignOffset = (width - lineWidth) / 2;
+        } else if (textAlign === "right") {
+            alignOffset = width - lineWidth;
+        }
+
+        drawTextLine(context, lineItems, columnLeft + indent + Math.max(alignOffset, 0), baseline, fontSize);
+        frame.y += lineHeight;
+    });
+};
+
+/**
+ * Get the markers of the items of a list, e.g. bullets or numbers.
+ *
+ * @param list - The list node.
+ * @returns {Nullable<string[]>} The marker of each item or null if the node is not a list.
+ */
+const getListMarkers = (list: PMNode): Nullable<string[]> => {
+    const markers: string[] = [];
+    switch (list.type.name) {
+        case "bulletList":
+            list.forEach(() => markers.push("•"));
+            return markers;
+        case "orderedList": {
+            const start: number = list.attrs.start ?? 1;
+            list.forEach((_, __, index) => markers.push(`${start + index}.`));
+            return markers;
+        }
+        case "taskList":
+            list.forEach((item) => markers.push(item.attrs.checked ? "[x]" : "[ ]"));
+            return markers;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Draw a block and its content.
+ *
+ * @param context - The render context.
+ * @param frame - The frame the block flows through.
+ * @param node - The block.
+ * @param pos - The position of the block.
+ * @param indent - The indent of the block from the left of the column in pixels.
+ * @param width - The width of the block in pixels.
+ * @returns {void}
+ */
+const drawBlock = (context: PDFRenderContext, frame: PDFFrame, node: PMNode, pos: number, indent: number, width: number): void => {
+    if (isColumnBreakNode(node)) {
+        moveToNextColumn(frame);
+        return;
+    }
+
+    if (isPageEndingNode(node)) {
+        return;
+    }
+
+    const { metrics, fieldValues } = context;
+    const blockStyle = getBlockStyle(metrics, node);
+    const fontSize = metrics.fontSize * (blockStyle.fontSize ?? 1);
+    frame.y += (blockStyle.marginTop ?? 0) * fontSize;
+
+    if (node.isTextblock) {
+        drawTextblock(context, frame, node, pos, indent, width);
+        return;
+    }
+
+    if (node.isLeaf) {
+        const { height, marginTop } = estimateNodeHeight(metrics, node, width);
+        const blockHeight = height - marginTop;
+        ensureSpace(frame, blockHeight);
+
+        const left = getColumnLeft(frame) + indent;
+        if (node.type.name === "horizontalRule") {
+            const y = context.pageHeight - frame.y - blockHeight / 2;
+            context.operators.push(`${formatPDFColour(PDF_LINE_COLOUR, "RG")} 1 w`);
+            context.operators.push(
+                `${formatPDFNumber(left)} ${formatPDFNumber(y)} m ${formatPDFNumber(left + width)} ${formatPDFNumber(y)} l S`
+            );
+        } else {
+            // Images and other embedded content are shown as placeholders of their size
+            context.operators.push(
+                `${formatPDFColour(PDF_LINE_COLOUR, "RG")} 1 w ${formatRect(context, left, frame.y, width, blockHeight)} re S`
+            );
+        }
+
+        frame.y += blockHeight;
+        return;
+    }
+
+    if (isTableRowNode(node)) {
+        drawTableRow(context, frame, node, pos, indent, width);
+        return;
+    }
+
+    const blockIndent = blockStyle.indent ?? 0;
+    const listMarkers = getListMarkers(node);
+    const blockMarker = fieldValues.getBlockMarker(node);
+
+    let childIndent = indent + blockIndent;
+    let childWidth = width - blockIndent;
+    if (blockMarker) {
+        // Notes are numbered to the left of their content
+        const markerWidth = measureInlineItems(metrics, [{ text: blockMarker, font: "regular", isSuperscript: false }], metrics.fontSize);
+        context.pendingMarker = { text: blockMarker, indent };
+        childIndent += markerWidth + PDF_MARKER_GAP;
+        childWidth -= markerWidth + PDF_MARKER_GAP;
+    }
+
+    node.forEach((child, offset, index) => {
+        const marker = listMarkers?.[index];
+        if (marker) {
+            const markerWidth = measureInlineItems(metrics, [{ text: marker, font: "regular", isSuperscript: false }], metrics.fontSize);
+            context.pendingMarker = { text: marker, indent: childIndent - markerWidth - PDF_MARKER_GAP };
+        }
+
+        drawBlock(context, frame, child, pos + 1 + offset, childIndent, childWidth);
+    });
+};
+
+/**
+ * Draw a table row, with its cells side by side and outlined.
+ *
+ * @param context - The render context.
+ * @param frame - The frame the row flows through.
+ * @param row - The table row node.
+ * @param pos - The position of the row.
+ * @param indent - The indent of the row from the left of the column in pixels.
+ * @param width - The width of the row in pixels.
+ * @returns {void}
+ */
+const drawTableRow = (context: PDFRenderContext, frame: PDFFrame, row: PMNode, pos: number, indent: number, width: number): void => {
+    ensureSpace(frame, estimateNodeHeight(context.metrics, row, width).height);
+
+    const cellWidth = width / Math.max(row.childCount, 1);
+    const rowLeft = getColumnLeft(frame) + indent;
+    const rowTop = frame.y;
+    let rowBottom = rowTop;
+
+    row.forEach((cell, offset, index) => {
+        // Cells do not flow between columns, so each is laid out in a frame of its own
+        const cellFrame: PDFFrame = {
+            left: rowLeft + index * cellWidth,
+            top: rowTop,
+            bottom: Infinity,
+            columnWidth: cellWidth,
+            columnGap: 0,
+            columnCount: 1,
+            column: 0,
+            y: rowTop,
+        };
+
+        const cellPos = pos + 1 + offset;
+        cell.forEach((child, childOffset) => drawBlock(context, cellFrame, child, cellPos + 1 + childOffset, 0, cellWidth));
+        rowBottom = Math.max(rowBottom, cellFrame.y);
+    });
+
+    context.operators.push(`${formatPDFColour(PDF_LINE_COLOUR, "RG")} 1 w`);
+    row.forEach((_, __, index) => {
+        context.operators.push(`${formatRect(context, rowLeft + index * cellWidth, rowTop, cellWidth, rowBottom - rowTop)} re S`);
+    });
+
+    frame.y = rowBottom;
+};
+
+/**
+ * Draw the content of a page region, clipped to the region as in the editor.
+ *
+ * @param context - The render context.
+ * @param regionNode - The page region node.
+ * @param regionPos - The position of the page region node.
+ * @param frame - The frame of the region.
+ * @returns {void}
+ */
+const drawRegion = (context: PDFRenderContext, regionNode: PMNode, regionPos: number, frame: PDFFrame): void => {
+    const { left, top, bottom, columnWidth, columnGap, columnCount } = frame;
+    const regionWidth = columnWidth * columnCount + columnGap * (columnCount - 1);
+
+    context.operators.push(`q ${formatRect(context, left, top, regionWidth, bottom - top)} re W n 0 g`);
+    regionNode.forEach((child, offset) => drawBlock(context, frame, child, regionPos + 1 + offset, 0, columnWidth));
+    context.operators.push("Q");
+};
+
+/**
+ * Create a frame with a single column.
+ *
+ * @param left - The left of the frame in pixels.
+ * @param top - The top of the frame in pixels.
+ * @param width - The width of the frame in pixels.
+ * @param height - The height of the frame in pixels.
+ * @returns {PDFFrame} The frame.
+ */
+const createFrame = (left: number, top: number, width: number, height: number): PDFFrame => {
+    return { left, top, bottom: top + height, columnWidth: width, columnGap: 0, columnCount: 1, column: 0, y: top };
+};
+
+/**
+ * Draw a page of the paginated document: its paper colour, borders, header, footer,
+ * body and footnotes, laid out as the node views lay them out.
+ *
+ * @param pageNode - The page node.
+ * @param pagePos - The position of the page node.
+ * @param metrics - The metrics text is laid out with.
+ * @param fieldValues - The text of the inline atoms and note markers of the document.
+ * @param customPaperSizes - The custom paper sizes the page may use.
+ * @returns {PDFPage} The PDF page.
+ */
+export const renderPDFPage = (
+    pageNode: PMNode,
+    pagePos: number,
+    metrics: TextMetricsOptions,
+    fieldValues: PDFFieldValues,
+    customPaperSizes: CustomPaperSizes = {}
+): PDFPage => {
+    const paperDimensions = getPaperDimensionsFromPageNode(pageNode, customPaperSizes);
+    const pageWidth = mmToPx(paperDimensions.width);
+    const pageHeight = mmToPx(paperDimensions.height);
+    const context: PDFRenderContext = { metrics, fieldValues, operators: [], pageHeight, pendingMarker: null };
+    const { operators } = context;
+
+    // Content is laid out in CSS pixels and scaled to points
+    const scale = formatPDFNumber(POINTS_PER_INCH / STANDARD_PIXELS_PER_INCH);
+    operators.push(`${scale} 0 0 ${scale} 0 0 cm`);
+
+    const paperColour = getPageNodePaperColour(pageNode) ?? DEFAULT_PAPER_COLOUR;
+    operators.push(`${formatPDFColour(paperColour, "rg")} ${formatRect(context, 0, 0, pageWidth, pageHeight)} re f`);
+
+    // Borders are drawn inside the page, and the regions are placed inside the borders
+    const borders = getPageNodePageBorders(pageNode) ?? DEFAULT_PAGE_BORDER_CONFIG;
+    operators.push(formatPDFColour(PDF_LINE_COLOUR, "rg"));
+    operators.push(`${formatRect(context, 0, 0, pageWidth, borders.top)} re f`);
+    operators.push(`${formatRect(context, 0, pageHeight - borders.bottom, pageWidth, borders.bottom)} re f`);
+    operators.push(`${formatRect(context, 0, 0, borders.left, pageHeight)} re f`);
+    operators.push(`${formatRect(context, pageWidth - borders.right, 0, borders.right, pageHeight)} re f`);
+
+    const bodyNode = getPageRegionNode(pageNode, "body");
+    const margins = (bodyNode ? getBodyNodeMargins(bodyNode) : null) ?? DEFAULT_PAGE_MARGIN_CONFIG;
+
+    pageNode.forEach((regionNode, offset) => {
+        const regionPos = pagePos + 1 + offset;
+
+        if (isBodyNode(regionNode)) {
+            const { width, height, columnWidth } = calculateBodyDimensions(pageNode, regionNode, customPaperSizes);
+            const columns = getBodyNodeColumns(regionNode) ?? DEFAULT_COLUMN_CONFIG;
+            // The body has a 1px outline around its content
+            const frame = createFrame(
+                borders.left + mmToPx(margins.left) + 1,
+                borders.top + mmToPx(margins.top) + 1,
+                mmToPx(width),
+                mmToPx(height)
+            );
+            drawRegion(context, regionNode, regionPos, {
+                ...frame,
+                columnWidth: mmToPx(columnWidth),
+                columnGap: mmToPx(columns.gap),
+                columnCount: columns.count,
+            });
+        } else if (isHeaderFooterNode(regionNode)) {
+            const { width, height } = calculateHeaderFooterDimensions(pageNode, regionNode, customPaperSizes);
+            const endOffset = mmToPx(getHeaderFooterNodePageEndOffset(regionNode) ?? FOOTER_DEFAULT_ATTRIBUTES.pageEndOffset);
+            const xMargins = getHeaderFooterNodeXMargins(regionNode) ?? FOOTER_DEFAULT_ATTRIBUTES.xMargins;
+            const top =
+                getHeaderFooterNodeType(regionNode) === "footer"
+                    ? pageHeight - borders.bottom - endOffset - mmToPx(height)
+                    : borders.top + endOffset;
+
+            // Headers and footers include their 1px outline in their size
+            drawRegion(
+                context,
+                regionNode,
+                regionPos,
+                createFrame(borders.left + mmToPx(xMargins.left) + 1, top + 1, mmToPx(width) - 2, mmToPx(height) - 2)
+            );
+        } else if (isFootnotesNode(regionNode) && bodyNode) {
+            const width = mmToPx(calculateBodyDimensions(pageNode, bodyNode, customPaperSizes).width);
+            const footnoteMetrics = { ...metrics, fontSize: metrics.fontSize * PDF_FOOTNOTES_FONT_SCALE };
+            let height = FOOTNOTES_SEPARATOR_HEIGHT;
+            regionNode.forEach((footnote) => {
+                height += estimateNodeHeight(footnoteMetrics, footnote, width).height;
+            });
+
+            // The footnotes sit at the bottom of the body, below a separator line
+            const left = borders.left + mmToPx(margins.left);
+            const top = pageHeight - borders.bottom - mmToPx(margins.bottom) - height;
+            operators.push(`${formatPDFColour(PDF_LINE_COLOUR, "rg")} ${formatRect(context, left, top, width, 1)} re f`);
+
+            const footnoteContext: PDFRenderContext = { ...context, metrics: footnoteMetrics };
+            const frame = createFrame(left, top + FOOTNOTES_SEPARATOR_HEIGHT, width, height - FOOTNOTES_SEPARATOR_HEIGHT);
+            drawRegion(footnoteContext, regionNode, regionPos, frame);
+        }
+    });
+
+    return {
+        width: (pageWidth * POINTS_PER_INCH) / STANDARD_PIXELS_PER_INCH,
+        height: (pageHeight * POINTS_PER_INCH) / STANDARD_PIXELS_PER_INCH,
+        content: operators.join("\n"),
+    };
+};
@@ -0,0 +1,99 @@
+/**
+ * @file /src/utils/pdf/writer.ts
+ * @name Writer
+ * @description Utility functions for writing the objects of a PDF file.
+ */
+
+import { PDF_FONTS, WIN_ANSI_EXTRA_CODES } from "../../constants/pdf";
+import { PDFPage } from "../../types/pdf";
+
+/**
+ * Format a number for a PDF, with at most three decimal places.
+ *
+ * @param value - The number to format.
+ * @returns {string} The formatted number.
+ * @example formatPDFNumber(595.27559) // "595.276"
+ */
+export const formatPDFNumber = (value: number): string => {
+    return String(Math.round(value * 1000) / 1000);
+};
+
+/**
+ * Encode text as a PDF string literal in the WinAnsi encoding of the standard fonts.
+ * Characters the encoding cannot draw are replaced with a question mark.
+ *
+ * @param text - The text to encode.
+ * @returns {string} The string literal, including its parentheses.
+ * @example encodePDFText("(a)") // "(\\(a\\))"
+ */
+export const encodePDFText = (text: string): string => {
+    const encoded = Array.from(text, (char) => {
+        const code = WIN_ANSI_EXTRA_CODES[char] ?? char.codePointAt(0) ?? 0;
+        if (code === 0x28 || code === 0x29 || code === 0x5c) {
+            return `\\${char}`;
+        }
+
+        if (code >= 0x20 && code < 0x7f) {
+            return char;
+        }
+
+        if (code >= 0x80 && code <= 0xff) {
+            return `\\${code.toString(8).padStart(3, "0")}`;
+        }
+
+        return char === "\t" ? " " : "?";
+    });
+
+    return `(${encoded.join("")})`;
+};
+
+/**
+ * Write a PDF file with the given pages. Text is drawn in the standard Helvetica fonts,
+ * which are available in every PDF reader without being embedded.
+ *
+ * @param pages - The pages of the PDF.
+ * @param title - The title of the PDF.
+ * @returns {Uint8Array} The bytes of the PDF file.
+ */
+export const writePDF = (pages: PDFPage[], title: string): Uint8Array => {
+    const objects: string[] = [];
+    const addObject = (body: string): number => objects.push(body);
+
+    // The catalog and page tree refer to objects written after them, so they are filled in last
+    const catalogId = addObject("");
+    const pagesId = addObject("");
+
+    const fontResources = Object.values(PDF_FONTS)
+        .map(({ resourceName, baseFont }) => {
+            const fontId = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+            return `/${resourceName} ${fontId} 0 R`;
+        })
+        .join(" ");
+
+    const pageIds = pages.map(({ width, height, content }) => {
+        // Content is ASCII only, so its length in characters is its length in bytes
+        const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        const mediaBox = [0, 0, width, height].map(formatPDFNumber).join(" ");
+        return addObject(
+            `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [${mediaBox}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+        );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+    const infoId = addObject(`<< /Title ${encodePDFText(title)} /Producer (tiptap-extension-pagination) >>`);
+
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((body, index) => {
+        const offset = output.length;
+        output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Uint8Array.from(output, (char) => char.charCodeAt(0));
+};
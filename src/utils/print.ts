@@ -0,0 +1,111 @@
+/**
+ * @file /src/utils/print.ts
+ * @name Print
+ * @description Utility functions for printing the paginated document.
+ */
+
+import { Editor } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { PRINT_EDITOR_ATTRIBUTE, PRINT_STYLE_ELEMENT_ID } from "../constants/print";
+import { CustomPaperSizes, PaperDimensions } from "../types/paper";
+import { getPaginationExtensionOptions } from "./options";
+import { isPageNode } from "./nodes/page/page";
+import { getPaperDimensionsFromPageNode } from "./nodes/page/attributes/paperSize";
+import { mm } from "./units";
+
+/**
+ * Get the name of the CSS named page used to print pages of the given dimensions.
+ *
+ * @param paperDimensions - The dimensions of the paper, in millimetres.
+ * @returns {string} The name of the page.
+ */
+export const getPrintPageName = (paperDimensions: PaperDimensions): string => {
+    const { width, height } = paperDimensions;
+    return `paper-${Math.round(width * 100)}x${Math.round(height * 100)}`;
+};
+
+/**
+ * Build the named @page rules giving each printed sheet the paper size and orientation
+ * of the pages printed on it, one rule per distinct paper size.
+ *
+ * @param doc - The document node.
+ * @param customPaperSizes - The custom paper sizes the pages may use.
+ * @returns {string[]} The @page rules.
+ */
+export const buildPrintPageRules = (doc: PMNode, customPaperSizes: CustomPaperSizes = {}): string[] => {
+    const pageRules = new Map<string, string>();
+    doc.forEach((pageNode) => {
+        if (!isPageNode(pageNode)) return;
+
+        const paperDimensions = getPaperDimensionsFromPageNode(pageNode, customPaperSizes);
+        const pageName = getPrintPageName(paperDimensions);
+        if (!pageRules.has(pageName)) {
+            const { width, height } = paperDimensions;
+            pageRules.set(pageName, `@page ${pageName} { size: ${mm(width)} ${mm(height)}; margin: 0; }`);
+        }
+    });
+
+    return ["@page { margin: 0; }", ...pageRules.values()];
+};
+
+/**
+ * Build the stylesheet for printing a document. Each page is printed on a sheet of its
+ * own paper size and orientation, and the page gaps, borders and break markers of the
+ * editor are hidden. The layout of the pages is otherwise left as it is on screen, so
+ * each page prints exactly as displayed.
+ *
+ * @param doc - The document node.
+ * @param customPaperSizes - The custom paper sizes the pages may use.
+ * @returns {string} The print stylesheet.
+ */
+export const buildPrintStyles = (doc: PMNode, customPaperSizes: CustomPaperSizes = {}): string => {
+    const editor = `[${PRINT_EDITOR_ATTRIBUTE}]`;
+
+    // Node views set their styles inline, so the print styles must be important to override them
+    return [
+        ...buildPrintPageRules(doc, customPaperSizes),
+        "@media print {",
+        "body * { visibility: hidden; }",
+        `${editor}, ${editor} * { visibility: visible; }`,
+        `${editor} { position: absolute; top: 0; left: 0; margin: 0 !important; padding: 0 !important; border: none !important; outline: none !important; caret-color: transparent; }`,
+        `${editor} [data-page] { margin: 0 !important; border-color: transparent !important; box-shadow: none !important; break-after: page; }`,
+        `${editor} [data-page]:last-child { break-after: auto; }`,
+        `${editor} [data-page-body], ${editor} [data-page-header-footer] { border-color: transparent !important; }`,
+        `${editor} [data-page-break], ${editor} [data-section-break], ${editor} [data-column-break] { visibility: hidden !important; }`,
+        "}",
+    ].join("\n");
+};
+
+/**
+ * Print the document with the browser, mapping each page of the editor to one printed
+ * sheet. The print stylesheet is only installed while printing.
+ *
+ * @param editor - The editor instance.
+ * @returns {boolean} True if the document was sent to print, false if printing is not possible.
+ */
+export const printEditor = (editor: Editor): boolean => {
+    if (typeof window === "undefined" || typeof document === "undefined") {
+        console.warn("Printing is only possible in a browser");
+        return false;
+    }
+
+    document.getElementById(PRINT_STYLE_ELEMENT_ID)?.remove();
+
+    const styleElement = document.createElement("style");
+    styleElement.id = PRINT_STYLE_ELEMENT_ID;
+    styleElement.textContent = buildPrintStyles(editor.state.doc, getPaginationExtensionOptions(editor).customPaperSizes);
+    document.head.appendChild(styleElement);
+
+    const editorDOM = editor.view.dom;
+    editorDOM.setAttribute(PRINT_EDITOR_ATTRIBUTE, String(true));
+
+    const cleanUp = (): void => {
+        styleElement.remove();
+        editorDOM.removeAttribute(PRINT_EDITOR_ATTRIBUTE);
+    };
+
+    window.addEventListener("afterprint", cleanUp, { once: true });
+    window.print();
+
+    return true;
+};
@@ -13,7 +13,9 @@ import { Nullable } from "../types/record";
 import { isPageNode } from "./nodes/page/page";
 import { setPageNodeAttribute } from "./nodes/page/attributes/setPageAttributes";
 import { NodePos } from "../types/node";
-import { getPageNodePosByPageNum } from "./nodes/page/pageNumber";
+import { getPageNodePosWithOwnSettings } from "./nodes/page/attributes/section";
+import { Length, LengthConfig, LengthUnit } from "../types/units";
+import { resolveLength, resolveLengthConfig } from "./units";
 
 type SideConfig<V> = { [key in PageSide]: V };
 
@@ -23,24 +25,27 @@ type SideConfig<V> = { [key in PageSide]: V };
  * @param attrKey - The key of the attribute to update.
  * @param isValidConfig - A function to validate the side configuration.
  * @param setNodesAttribute - A function to set the attribute nodes.
+ * @param unit - The unit the side configuration is stored in. Plain numbers are taken to be in this unit.
  * @returns
  */
 export const setDocumentSideConfig =
-    <V, T extends SideConfig<V>>(
+    <T extends SideConfig<number>>(
         attrKey: string,
         isValidConfig: (config: T) => boolean,
-        setNodesAttribute: (tr: Transaction, attr: string, value: any) => boolean
+        setNodesAttribute: (tr: Transaction, attr: string, value: any) => boolean,
+        unit: LengthUnit
     ) =>
-    (sideConfig: T) =>
+    (sideConfig: LengthConfig) =>
     ({ tr, dispatch }: { tr: Transaction; dispatch: Dispatch }): boolean => {
         if (!dispatch) return false;
 
-        if (!isValidConfig(sideConfig)) {
+        const resolvedConfig = resolveLengthConfig(sideConfig, unit) as Nullable<T>;
+        if (!resolvedConfig || !isValidConfig(resolvedConfig)) {
             console.warn("Invalid side config", sideConfig);
             return false;
         }
 
-        setNodesAttribute(tr, attrKey, sideConfig);
+        setNodesAttribute(tr, attrKey, resolvedConfig);
 
         dispatch(tr);
         return true;
@@ -51,17 +56,25 @@ export const setDocumentSideConfig =
  *
  * @param setNodePosByPageNum - A function to get the position of a node by page number.
  * @param setGenericPageNodePosSideConfig - A function to set the side configuration of a node.
+ * @param unit - The unit the side configuration is stored in. Plain numbers are taken to be in this unit.
  * @param pageNum - The page number to set the side configuration for.
  * @param sideConfig - The side configuration to set.
  * @returns {boolean} True if the side configuration was set, false otherwise.
  */
 export const setPageSideConfig =
-    <V, T extends SideConfig<V>>(
+    <T extends SideConfig<number>>(
         setNodePosByPageNum: (doc: PMNode, pageNum: number) => Nullable<NodePos>,
-        setGenericPageNodePosSideConfig: (tr: Transaction, dispatch: Dispatch, pagePos: number, pageNode: PMNode, sideConfig: T) => boolean
+        setGenericPageNodePosSideConfig: (tr: Transaction, dispatch: Dispatch, pagePos: number, pageNode: PMNode, sideConfig: T) => boolean,
+        unit: LengthUnit
     ) =>
-    (pageNum: number, sideConfig: T) =>
+    (pageNum: number, sideConfig: LengthConfig) =>
     ({ tr, dispatch }: { tr: Transaction; dispatch: Dispatch }): boolean => {
+        const resolvedConfig = resolveLengthConfig(sideConfig, unit) as Nullable<T>;
+        if (!resolvedConfig) {
+            console.warn("Invalid side config:", sideConfig);
+            return false;
+        }
+
         const { doc } = tr;
 
         const pageNodePos = setNodePosByPageNum(doc, pageNum);
@@ -71,7 +84,7 @@ export const setPageSideConfig =
 
         const { pos: pagePos, node: pageNode } = pageNodePos;
 
-        return setGenericPageNodePosSideConfig(tr, dispatch, pagePos, pageNode, sideConfig);
+        return setGenericPageNodePosSideConfig(tr, dispatch, pagePos, pageNode, resolvedConfig);
     };
 
 /**
@@ -80,26 +93,29 @@ export const setPageSideConfig =
  * @param setDocumentSideConfig - A function to set the document side configuration.
  * @param isValueValid - A function to validate the value.
  * @param updateSideConfig - A function to update the side configuration of a page node.
+ * @param unit - The unit the side configuration is stored in. Plain numbers are taken to be in this unit.
  * @returns {boolean} True if the side value was set, false otherwise.
  */
 export const setDocumentSideValue =
-    <V, T extends SideConfig<V>>(
-        setDocumentSideConfig: (sideConfig: T) => boolean,
-        isValueValid: (value: V) => boolean,
-        updateSideConfig: (tr: Transaction, pagePos: number, pageNode: PMNode, side: MultiAxisSide, value: V) => boolean
+    (
+        setDocumentSideConfig: (sideConfig: LengthConfig) => boolean,
+        isValueValid: (value: number) => boolean,
+        updateSideConfig: (tr: Transaction, pagePos: number, pageNode: PMNode, side: MultiAxisSide, value: number) => boolean,
+        unit: LengthUnit
     ) =>
-    (side: MultiSide, value: V) =>
+    (side: MultiSide, length: Length) =>
     ({ tr, dispatch }: { tr: Transaction; dispatch: Dispatch }): boolean => {
         if (!dispatch) return false;
 
-        if (side === "all") {
-            const sideConfig = { top: value, right: value, bottom: value, left: value } as T;
-            return setDocumentSideConfig(sideConfig);
+        const value = resolveLength(length, unit);
+        if (value === null || !isValueValid(value)) {
+            console.warn("Invalid margin value", length);
+            return false;
         }
 
-        if (!isValueValid(value)) {
-            console.warn("Invalid margin value", value);
-            return false;
+        if (side === "all") {
+            const sideConfig: LengthConfig = { top: value, right: value, bottom: value, left: value };
+            return setDocumentSideConfig(sideConfig);
         }
 
         const { doc } = tr;
@@ -123,32 +139,35 @@ export const setDocumentSideValue =
  * @param setPageSideConfig - A function to set the side configuration of a page node.
  * @param isValueValid - A function to validate the value.
  * @param updateSideConfig - A function to update the side configuration of a page node.
+ * @param unit - The unit the side configuration is stored in. Plain numbers are taken to be in this unit.
  * @param pageNum - The page number to set the side value for.
  * @param side - The side to set the value for.
  * @returns {boolean} True if the side value was set, false otherwise.
  */
 export const setPageSideValue =
-    <V, T extends SideConfig<V>>(
-        setPageSideConfig: (pageNum: number, sideConfig: T) => boolean,
-        isValueValid: (value: V) => boolean,
-        updateSideConfig: (tr: Transaction, pagePos: number, pageNode: PMNode, side: MultiAxisSide, value: V) => boolean
+    (
+        setPageSideConfig: (pageNum: number, sideConfig: LengthConfig) => boolean,
+        isValueValid: (value: number) => boolean,
+        updateSideConfig: (tr: Transaction, pagePos: number, pageNode: PMNode, side: MultiAxisSide, value: number) => boolean,
+        unit: LengthUnit
     ) =>
-    (pageNum: number, side: MultiSide, value: V) =>
+    (pageNum: number, side: MultiSide, length: Length) =>
     ({ tr, dispatch }: { tr: Transaction; dispatch: Dispatch }): boolean => {
         if (!dispatch) return false;
 
-        if (side === "all") {
-            const sideConfig: T = { top: value, right: value, bottom: value, left: value } as T;
-            return setPageSideConfig(pageNum, sideConfig);
+        const value = resolveLength(length, unit);
+        if (value === null || !isValueValid(value)) {
+            console.warn("Invalid side value", length);
+            return false;
         }
 
-        if (!isValueValid(value)) {
-            console.warn("Invalid side value", value);
-            return false;
+        if (side === "all") {
+            const sideConfig: LengthConfig = { top: value, right: value, bottom: value, left: value };
+            return setPageSideConfig(pageNum, sideConfig);
         }
 
         const { doc } = tr;
-        const pageNodePos = getPageNodePosByPageNum(doc, pageNum);
+        const pageNodePos = getPageNodePosWithOwnSettings(doc, pageNum);
         if (!pageNodePos) {
             return false;
         }
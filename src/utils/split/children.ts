@@ -0,0 +1,130 @@
+/**
+ * @file /src/utils/split/children.ts
+ * @name Children
+ * @description Utility functions for splitting container nodes across pages between their children.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Nullable } from "../../types/record";
+import { ChildrenSplitterConfig, NodeSplitContext, NodeSplitResult, NodeSplitter } from "../../types/split";
+import { createSplitContinuation } from "./continuation";
+
+/**
+ * Get the offset into the content of a node at which the child at the given index starts.
+ *
+ * @param node - The parent node.
+ * @param index - The index of the child.
+ * @returns {number} The offset of the child in the node's content.
+ */
+const getChildOffset = (node: PMNode, index: number): number => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+        offset += node.child(i).nodeSize;
+    }
+
+    return offset;
+};
+
+/**
+ * Find the index of the child to split a node before.
+ *
+ * @param node - The node to split.
+ * @param fitCount - The number of children which fit on the current page.
+ * @param minCount - The minimum number of children to keep in the first part.
+ * @param isPageEmpty - Whether the current page has no content yet. If so, a split
+ * after the children which fit is accepted to guarantee progress.
+ * @param canSplitBefore - Whether the node may be split before the child at a given index.
+ * @returns {Nullable<number>} The index of the child to split before or null if there is none.
+ */
+const findSplitIndex = (
+    node: PMNode,
+    fitCount: number,
+    minCount: number,
+    isPageEmpty: boolean,
+    canSplitBefore: (node: PMNode, index: number) => boolean
+): Nullable<number> => {
+    const lastIndex = node.childCount - 1;
+
+    for (let index = Math.min(fitCount, lastIndex); index >= minCount; index--) {
+        if (canSplitBefore(node, index)) {
+            return index;
+        }
+    }
+
+    if (!isPageEmpty) {
+        return null;
+    }
+
+    for (let index = Math.max(fitCount + 1, minCount); index <= lastIndex; index++) {
+        if (canSplitBefore(node, index)) {
+            return index;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Create a node splitter which splits a container node between its children, keeping
+ * as many children on the current page as fit.
+ *
+ * @param config - The splitter configuration.
+ * @returns {NodeSplitter} The node splitter.
+ */
+export const createChildrenSplitter = (config: ChildrenSplitterConfig = {}): NodeSplitter => {
+    const { getRepeatedChildCount = () => 0, canSplitBefore = () => true, getContinuationAttrs = () => ({}) } = config;
+
+    return ({ node, height, remainingHeight, isPageEmpty, getLayout }: NodeSplitContext): Nullable<NodeSplitResult> => {
+        const childHeights = getLayout()?.childHeights;
+        if (!childHeights || childHeights.length !== node.childCount) {
+            return null;
+        }
+
+        // Any height not taken by the children themselves (e.g. padding or borders) is repeated for each part.
+        const nonChildHeight = height - childHeights.reduce((sum, childHeight) => sum + childHeight, 0);
+
+        let fitCount = 0;
+        let usedHeight = nonChildHeight;
+        while (fitCount < childHeights.length && usedHeight + childHeights[fitCount] <= remainingHeight) {
+            usedHeight += childHeights[fitCount];
+            fitCount++;
+        }
+
+        // Repeated children alone do not make progress, so at least one more child is kept
+        const repeatedChildCount = getRepeatedChildCount(node);
+        const splitIndex = findSplitIndex(node, fitCount, repeatedChildCount + 1, isPageEmpty, canSplitBefore);
+        if (splitIndex === null) {
+            return null;
+        }
+
+        const { content } = node;
+        const splitOffset = getChildOffset(node, splitIndex);
+        const headContent = content.cut(0, splitOffset);
+        const tailContent = content.cut(0, getChildOffset(node, repeatedChildCount)).append(content.cut(splitOffset));
+        if (!node.type.validContent(headContent) || !node.type.validContent(tailContent)) {
+            return null;
+        }
+
+        const headChildHeights = childHeights.slice(0, splitIndex);
+        const tailChildHeights = [...childHeights.slice(0, repeatedChildCount), ...childHeights.slice(splitIndex)];
+        const sumHeights = (heights: number[]): number => heights.reduce((sum, childHeight) => sum + childHeight, nonChildHeight);
+
+        return {
+            head: {
+                node: node.copy(headContent),
+                height: sumHeights(headChildHeights),
+                layout: { childHeights: headChildHeights },
+            },
+            tail: {
+                node: createSplitContinuation(node, tailContent, repeatedChildCount, getContinuationAttrs(node, splitIndex)),
+                height: sumHeights(tailChildHeights),
+                layout: { childHeights: tailChildHeights },
+            },
+        };
+    };
+};
+
+/**
+ * Node splitter for generic containers (e.g. blockquotes) which splits between child blocks.
+ */
+export const splitByChildBlocks: NodeSplitter = createChildrenSplitter();
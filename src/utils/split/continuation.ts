@@ -0,0 +1,177 @@
+/**
+ * @file /src/utils/split/continuation.ts
+ * @name Continuation
+ * @description Utility functions for nodes which have been split across pages.
+ */
+
+import { Attrs, Fragment, Node as PMNode, ResolvedPos } from "@tiptap/pm/model";
+import { Transaction } from "@tiptap/pm/state";
+import { SPLIT_CONTINUATION_ATTR, SPLIT_REPEATED_CHILDREN_ATTR } from "../../constants/split";
+import { getBodyChildAfterPos, getBodyChildBeforePos } from "../nodes/body/bodyPosition";
+
+/**
+ * Check if the given node is the continuation of a node split across a page boundary.
+ *
+ * @param node - The node to check.
+ * @returns {boolean} True if the node is a split continuation, false otherwise.
+ */
+export const isSplitContinuationNode = (node: PMNode): boolean => {
+    return !!node.attrs[SPLIT_CONTINUATION_ATTR];
+};
+
+/**
+ * Check if the given node continues the node before it, i.e. it was split from it.
+ *
+ * @param node - The node to check.
+ * @param previousNode - The node immediately before it in the content flow.
+ * @returns {boolean} True if the node should be rejoined with the previous node, false otherwise.
+ */
+export const isContinuationOf = (node: PMNode, previousNode: PMNode): boolean => {
+    return isSplitContinuationNode(node) && node.type === previousNode.type;
+};
+
+/**
+ * Set the split continuation attribute of a node.
+ *
+ * @param node - The node to update.
+ * @param isContinuation - Whether the node is a split continuation.
+ * @returns {PMNode} The node with the attribute set. Returns the same node if unchanged.
+ */
+export const setSplitContinuation = (node: PMNode, isContinuation: boolean): PMNode => {
+    if (isSplitContinuationNode(node) === isContinuation || !(SPLIT_CONTINUATION_ATTR in node.attrs)) {
+        return node;
+    }
+
+    const attrs: Record<string, unknown> = { ...node.attrs, [SPLIT_CONTINUATION_ATTR]: isContinuation };
+    if (!isContinuation && SPLIT_REPEATED_CHILDREN_ATTR in node.attrs) {
+        // Repeated children of a node no longer continuing another become its own content.
+        attrs[SPLIT_REPEATED_CHILDREN_ATTR] = 0;
+    }
+
+    return node.type.create(attrs, node.content, node.marks);
+};
+
+/**
+ * Get the number of leading children of a split continuation which were repeated
+ * from the node it was split from (e.g. table header rows).
+ *
+ * @param node - The node to check.
+ * @returns {number} The number of repeated leading children.
+ */
+export const getSplitRepeatedChildCount = (node: PMNode): number => {
+    const repeatedChildCount = node.attrs[SPLIT_REPEATED_CHILDREN_ATTR];
+    return typeof repeatedChildCount === "number" ? Math.min(repeatedChildCount, node.childCount) : 0;
+};
+
+/**
+ * Get the content size of the repeated leading children of a split continuation.
+ *
+ * @param node - The node to check.
+ * @returns {number} The size of the repeated content at the start of the node.
+ */
+export const getSplitRepeatedSize = (node: PMNode): number => {
+    const repeatedChildCount = getSplitRepeatedChildCount(node);
+
+    let repeatedSize = 0;
+    for (let i = 0; i < repeatedChildCount; i++) {
+        repeatedSize += node.child(i).nodeSize;
+    }
+
+    return repeatedSize;
+};
+
+/**
+ * Get the size of the content of a node which belongs to it, i.e. excluding any
+ * children repeated from the node it was split from.
+ *
+ * @param node - The node to check.
+ * @returns {number} The size of the node's own content.
+ */
+export const getSplitOwnContentSize = (node: PMNode): number => {
+    return node.content.size - getSplitRepeatedSize(node);
+};
+
+/**
+ * Create the continuation of a split node.
+ *
+ * @param node - The node which was split.
+ * @param content - The content of the continuation, including any repeated children.
+ * @param repeatedChildCount - The number of leading children repeated from the node.
+ * @param attrs - Attributes to override on the continuation.
+ * @returns {PMNode} The continuation node.
+ */
+export const createSplitContinuation = (node: PMNode, content: Fragment, repeatedChildCount: number = 0, attrs: Attrs = {}): PMNode => {
+    const continuationAttrs: Record<string, unknown> = { ...node.attrs, ...attrs };
+    if (SPLIT_CONTINUATION_ATTR in node.attrs) {
+        continuationAttrs[SPLIT_CONTINUATION_ATTR] = true;
+    }
+
+    if (SPLIT_REPEATED_CHILDREN_ATTR in node.attrs) {
+        continuationAttrs[SPLIT_REPEATED_CHILDREN_ATTR] = repeatedChildCount;
+    }
+
+    return node.type.create(continuationAttrs, content, node.marks);
+};
+
+/**
+ * Rejoin a split continuation with the node it was split from. Children repeated
+ * at the start of the continuation are dropped.
+ *
+ * @param node - The node the continuation was split from.
+ * @param continuation - The continuation node.
+ * @returns {PMNode} The rejoined node, keeping the attributes of the first node.
+ */
+export const joinSplitNodes = (node: PMNode, continuation: PMNode): PMNode => {
+    const continuationContent = continuation.content.cut(getSplitRepeatedSize(continuation));
+    return node.copy(node.content.append(continuationContent));
+};
+
+/**
+ * Delete the last character of the fragment a split textblock continues when the position
+ * is at the start of the continuation. Joining the fragments instead would be undone by
+ * pagination, which splits the textblock again at the same place.
+ *
+ * @param tr - The transaction to apply the deletion to.
+ * @param $pos - The resolved position of the cursor.
+ * @returns {boolean} True if a character was deleted, false otherwise.
+ */
+export const deleteBeforeSplitContinuation = (tr: Transaction, $pos: ResolvedPos): boolean => {
+    const textblock = $pos.parent;
+    if (!textblock.isTextblock || $pos.parentOffset > 0 || !isSplitContinuationNode(textblock)) {
+        return false;
+    }
+
+    const { node: previousNode, pos: previousPos } = getBodyChildBeforePos(tr.doc, $pos.before());
+    if (!previousNode || !isContinuationOf(textblock, previousNode) || previousNode.content.size === 0) {
+        return false;
+    }
+
+    const previousContentEnd = previousPos + previousNode.nodeSize - 1;
+    tr.delete(previousContentEnd - 1, previousContentEnd);
+    return true;
+};
+
+/**
+ * Delete the first character of the continuation of a split textblock when the position
+ * is at the end of the fragment it continues. Joining the fragments instead would be
+ * undone by pagination, which splits the textblock again at the same place.
+ *
+ * @param tr - The transaction to apply the deletion to.
+ * @param $pos - The resolved position of the cursor.
+ * @returns {boolean} True if a character was deleted, false otherwise.
+ */
+export const deleteAfterSplitFragment = (tr: Transaction, $pos: ResolvedPos): boolean => {
+    const textblock = $pos.parent;
+    if (!textblock.isTextblock || $pos.parentOffset < textblock.content.size) {
+        return false;
+    }
+
+    const { node: nextNode, pos: nextPos } = getBodyChildAfterPos(tr.doc, $pos.before());
+    if (!nextNode || !isContinuationOf(nextNode, textblock) || nextNode.content.size === 0) {
+        return false;
+    }
+
+    const nextContentStart = nextPos + 1;
+    tr.delete(nextContentStart, nextContentStart + 1);
+    return true;
+};
@@ -0,0 +1,31 @@
+/**
+ * @file /src/utils/split/list.ts
+ * @name List
+ * @description Utility functions for splitting lists across pages by item.
+ */
+
+import { Attrs, Node as PMNode } from "@tiptap/pm/model";
+import { NodeSplitter } from "../../types/split";
+import { createChildrenSplitter } from "./children";
+
+/**
+ * Get the attributes of the continuation of a split list. Ordered lists continue
+ * numbering from the last item before the split.
+ *
+ * @param listNode - The list node which was split.
+ * @param headItemCount - The number of items kept in the first part.
+ * @returns {Attrs} The attributes to override on the continuation.
+ */
+const getListContinuationAttrs = (listNode: PMNode, headItemCount: number): Attrs => {
+    const { start } = listNode.attrs;
+    if (typeof start !== "number") {
+        return {};
+    }
+
+    return { start: start + headItemCount };
+};
+
+/**
+ * Node splitter for lists which splits between list items.
+ */
+export const splitListByItems: NodeSplitter = createChildrenSplitter({ getContinuationAttrs: getListContinuationAttrs });
@@ -0,0 +1,167 @@
+/**
+ * @file /src/utils/split/paragraph.ts
+ * @name Paragraph
+ * @description Utility functions for splitting paragraphs across pages by line.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { LineLayout } from "../../types/pagination";
+import { Nullable } from "../../types/record";
+import { NodeSplitContext, NodeSplitResult, NodeSplitter, WidowOrphanOptions } from "../../types/split";
+import { DEFAULT_WIDOW_ORPHAN_CONFIG } from "../../constants/split";
+import { isHardBreakNode } from "../nodes/hardBreak";
+import { setSplitContinuation } from "./continuation";
+
+/**
+ * Get the number of characters an inline node occupies in the line break offsets
+ * of a paragraph. Text counts by length, hard breaks do not count and other inline
+ * (atom) nodes count as a single character.
+ *
+ * @param node - The inline node.
+ * @returns {number} The number of characters the node occupies.
+ */
+const getInlineNodeCharLength = (node: PMNode): number => {
+    if (node.isText) {
+        return node.nodeSize;
+    }
+
+    return isHardBreakNode(node) ? 0 : 1;
+};
+
+/**
+ * Get the number of characters in a paragraph, counted in the same way as the
+ * paragraph's line break offsets.
+ *
+ * @param paragraphNode - The paragraph node.
+ * @returns {number} The number of characters in the paragraph.
+ */
+export const getParagraphCharLength = (paragraphNode: PMNode): number => {
+    let charLength = 0;
+    paragraphNode.forEach((child) => {
+        charLength += getInlineNodeCharLength(child);
+    });
+
+    return charLength;
+};
+
+/**
+ * Convert a character offset (as used by the line break offsets) to an offset into
+ * the content of the paragraph. Offsets falling on a hard break resolve to before it.
+ *
+ * @param paragraphNode - The paragraph node.
+ * @param charOffset - The character offset.
+ * @returns {number} The offset into the paragraph's content.
+ */
+export const getParagraphContentOffsetAtChar = (paragraphNode: PMNode, charOffset: number): number => {
+    let chars = 0;
+    let contentOffset = 0;
+
+    for (let i = 0; i < paragraphNode.childCount; i++) {
+        if (chars >= charOffset) {
+            return contentOffset;
+        }
+
+        const child = paragraphNode.child(i);
+        const childChars = getInlineNodeCharLength(child);
+        if (child.isText && chars + childChars > charOffset) {
+            return contentOffset + (charOffset - chars);
+        }
+
+        chars += childChars;
+        contentOffset += child.nodeSize;
+    }
+
+    return contentOffset;
+};
+
+/**
+ * Split a paragraph so that the given number of lines remain in the first part.
+ * The second part is marked as a split continuation.
+ *
+ * @param paragraphNode - The paragraph node to split.
+ * @param lineLayout - The line layout of the paragraph.
+ * @param lineCount - The number of lines to keep in the first part.
+ * @returns {Nullable<[PMNode, PMNode]>} The two parts of the paragraph or null if the
+ * paragraph cannot be split at that line.
+ */
+export const splitParagraphAtLine = (paragraphNode: PMNode, lineLayout: LineLayout, lineCount: number): Nullable<[PMNode, PMNode]> => {
+    const { lineBreakOffsets } = lineLayout;
+    if (lineCount < 1 || lineCount >= lineBreakOffsets.length) {
+        return null;
+    }
+
+    const splitOffset = getParagraphContentOffsetAtChar(paragraphNode, lineBreakOffsets[lineCount]);
+    if (splitOffset <= 0 || splitOffset >= paragraphNode.content.size) {
+        return null;
+    }
+
+    const head = paragraphNode.copy(paragraphNode.content.cut(0, splitOffset));
+    const tail = setSplitContinuation(paragraphNode.copy(paragraphNode.content.cut(splitOffset)), true);
+    return [head, tail];
+};
+
+/**
+ * Create a node splitter for paragraphs which splits at the last line that fits in the
+ * remaining height of the page, while keeping at least the given number of lines on
+ * either side of the break.
+ *
+ * @param widowOrphanOptions - The widow and orphan control options.
+ * @returns {NodeSplitter} The paragraph node splitter.
+ */
+export const createParagraphSplitter = (widowOrphanOptions: WidowOrphanOptions): NodeSplitter => {
+    const orphans = Math.max(widowOrphanOptions.orphans ?? DEFAULT_WIDOW_ORPHAN_CONFIG.orphans, 1);
+    const widows = Math.max(widowOrphanOptions.widows ?? DEFAULT_WIDOW_ORPHAN_CONFIG.widows, 1);
+
+    return ({ node, height, remainingHeight, isPageEmpty, getLayout }: NodeSplitContext): Nullable<NodeSplitResult> => {
+        const lineLayout = getLayout()?.lines;
+        if (!lineLayout) {
+            return null;
+        }
+
+        const { lineBreakOffsets, lineHeight } = lineLayout;
+        const lineCount = lineBreakOffsets.length;
+        if (lineHeight <= 0) {
+            return null;
+        }
+
+        // Any height not taken by the lines themselves (i.e. the top margin) is repeated for each part.
+        const nonLineHeight = height - lineCount * lineHeight;
+        const linesThatFit = Math.floor((remainingHeight - nonLineHeight) / lineHeight);
+
+        let headLineCount = Math.min(linesThatFit, lineCount - widows);
+        if (headLineCount < orphans) {
+            if (!isPageEmpty) {
+                // Move the whole paragraph to the next page rather than leave an orphan or widow
+                return null;
+            }
+
+            // The paragraph does not fit on a page of its own, so fill the page regardless
+            headLineCount = Math.max(Math.min(linesThatFit, lineCount - 1), 1);
+        }
+
+        const parts = splitParagraphAtLine(node, lineLayout, headLineCount);
+        if (!parts) {
+            return null;
+        }
+
+        const [headNode, tailNode] = parts;
+        const splitCharOffset = lineBreakOffsets[headLineCount];
+        return {
+            head: {
+                node: headNode,
+                height: nonLineHeight + headLineCount * lineHeight,
+                layout: { lines: { lineBreakOffsets: lineBreakOffsets.slice(0, headLineCount), lineHeight } },
+            },
+            tail: {
+                node: tailNode,
+                height: nonLineHeight + (lineCount - headLineCount) * lineHeight,
+                layout: {
+                    lines: {
+                        lineBreakOffsets: lineBreakOffsets.slice(headLineCount).map((offset) => offset - splitCharOffset),
+                        lineHeight,
+                    },
+                },
+            },
+        };
+    };
+};
@@ -0,0 +1,43 @@
+/**
+ * @file /src/utils/split/registry.ts
+ * @name Registry
+ * @description Utility functions for looking up how to split a node across pages.
+ */
+
+import { PaginationOptions } from "../../PaginationExtension";
+import { ENDNOTES_NODE_NAME } from "../../constants/endnote";
+import { NodeSplitter, NodeSplitters } from "../../types/split";
+import { splitByChildBlocks } from "./children";
+import { splitListByItems } from "./list";
+import { createParagraphSplitter } from "./paragraph";
+import { createTableSplitter } from "./table";
+
+/**
+ * Get the node splitters to use for pagination. The built-in splitters are
+ * overridden by any given in the pagination options.
+ *
+ * @param options - The pagination options.
+ * @returns {Record<string, NodeSplitter>} The node splitters keyed by node type name.
+ */
+export const getNodeSplitters = (options: PaginationOptions): Record<string, NodeSplitter> => {
+    const { nodeSplitters, repeatTableHeaderRows, widowOrphanOptions } = options;
+    const allNodeSplitters: NodeSplitters = {
+        paragraph: createParagraphSplitter(widowOrphanOptions),
+        table: createTableSplitter(repeatTableHeaderRows),
+        bulletList: splitListByItems,
+        orderedList: splitListByItems,
+        taskList: splitListByItems,
+        blockquote: splitByChildBlocks,
+        [ENDNOTES_NODE_NAME]: splitByChildBlocks,
+        ...nodeSplitters,
+    };
+
+    const enabledNodeSplitters: Record<string, NodeSplitter> = {};
+    Object.entries(allNodeSplitters).forEach(([nodeTypeName, splitter]) => {
+        if (splitter) {
+            enabledNodeSplitters[nodeTypeName] = splitter;
+        }
+    });
+
+    return enabledNodeSplitters;
+};
@@ -0,0 +1,84 @@
+/**
+ * @file /src/utils/split/table.ts
+ * @name Table
+ * @description Utility functions for splitting tables across pages by row.
+ */
+
+import { Node as PMNode } from "@tiptap/pm/model";
+import { NodeSplitter } from "../../types/split";
+import { createChildrenSplitter } from "./children";
+
+/**
+ * Check if a table row is a header row, i.e. all of its cells are header cells.
+ *
+ * @param rowNode - The table row node.
+ * @returns {boolean} True if the row is a header row, false otherwise.
+ */
+const isTableHeaderRow = (rowNode: PMNode): boolean => {
+    if (rowNode.childCount === 0) {
+        return false;
+    }
+
+    let isHeaderRow = true;
+    rowNode.forEach((cellNode) => {
+        if (cellNode.type.spec.tableRole !== "header_cell") {
+            isHeaderRow = false;
+        }
+    });
+
+    return isHeaderRow;
+};
+
+/**
+ * Get the number of header rows at the top of a table.
+ *
+ * @param tableNode - The table node.
+ * @returns {number} The number of leading header rows.
+ */
+export const getTableHeaderRowCount = (tableNode: PMNode): number => {
+    let headerRowCount = 0;
+    while (headerRowCount < tableNode.childCount && isTableHeaderRow(tableNode.child(headerRowCount))) {
+        headerRowCount++;
+    }
+
+    return headerRowCount;
+};
+
+/**
+ * Check if a table can be split before the given row, i.e. no cell above it spans
+ * into or below it.
+ *
+ * @param tableNode - The table node.
+ * @param rowIndex - The index of the row.
+ * @returns {boolean} True if the table can be split before the row, false otherwise.
+ */
+export const canSplitTableBeforeRow = (tableNode: PMNode, rowIndex: number): boolean => {
+    for (let i = 0; i < rowIndex; i++) {
+        let spansBoundary = false;
+        tableNode.child(i).forEach((cellNode) => {
+            const rowspan = cellNode.attrs.rowspan ?? 1;
+            if (i + rowspan > rowIndex) {
+                spansBoundary = true;
+            }
+        });
+
+        if (spansBoundary) {
+            return false;
+        }
+    }
+
+    return true;
+};
+
+/**
+ * Create a node splitter for tables which splits between rows.
+ *
+ * @param repeatHeaderRows - Whether to repeat the table's header rows at the top of each continuation.
+ * @returns {NodeSplitter} The table node splitter.
+ */
+export const createTableSplitter = (repeatHeaderRows: boolean): NodeSplitter => {
+    return createChildrenSplitter({
+        getRepeatedChildCount: (tableNode) => (repeatHeaderRows ? getTableHeaderRowCount(tableNode) : 0),
+        canSplitBefore: canSplitTableBeforeRow,
+    });
+};
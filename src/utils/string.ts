@@ -13,3 +13,22 @@
 export const titleCase = (str: string) => {
     return str.replace(/\b\w/g, (char) => char.toUpperCase());
 };
+
+/**
+ * Creates a short random id, e.g. to link a note reference to its note.
+ *
+ * @returns {string} The id.
+ */
+export const createRandomId = (): string => {
+    return Math.random().toString(36).slice(2, 10);
+};
+
+/**
+ * Escapes the characters of a string which have a special meaning in HTML.
+ *
+ * @param str - The input string to escape.
+ * @returns {string} The escaped string.
+ */
+export const escapeHTML = (str: string): string => {
+    return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+};
@@ -11,5 +11,9 @@ import { AppTheme, DARK_THEME, LIGHT_THEME } from "../constants/theme";
  * @returns The preferred device theme (either DARK_THEME or LIGHT_THEME).
  */
 export const getDeviceTheme = (): AppTheme => {
+    if (typeof window === "undefined") {
+        return LIGHT_THEME;
+    }
+
     return window.matchMedia(`(prefers-color-scheme: ${DARK_THEME.toLowerCase()})`).matches ? DARK_THEME : LIGHT_THEME;
 };
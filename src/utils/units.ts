@@ -4,6 +4,12 @@
  * @description Utility functions for handling units of measurement.
  */
 
+import { lengthUnits, UNITS_PER_INCH } from "../constants/units";
+import { pageSides } from "../constants/pageSides";
+import { PageSide } from "../types/page";
+import { Nullable } from "../types/record";
+import { Length, LengthConfig, LengthUnit, LengthValue } from "../types/units";
+
 /**
  * Format a value as a millimetre string.
  *
@@ -25,3 +31,136 @@ export const mm = (value: number): string => {
 export const px = (value: number): string => {
     return `${value}px`;
 };
+
+/**
+ * Check if a string is a supported length unit.
+ *
+ * @param unit - The string to check.
+ * @returns {boolean} True if the string is a supported length unit, false otherwise.
+ */
+export const isLengthUnit = (unit: string): unit is LengthUnit => {
+    return (lengthUnits as string[]).includes(unit);
+};
+
+/**
+ * Parse a length into its value and unit.
+ *
+ * @param length - The length to parse.
+ * @param defaultUnit - The unit of plain numbers.
+ * @returns {Nullable<LengthValue>} The value and unit of the length or null if it is invalid.
+ * @example parseLength("1.5in", "mm") // { value: 1.5, unit: "in" }
+ */
+export const parseLength = (length: Length, defaultUnit: LengthUnit): Nullable<LengthValue> => {
+    if (typeof length === "number") {
+        return Number.isFinite(length) ? { value: length, unit: defaultUnit } : null;
+    }
+
+    if (typeof length === "string") {
+        const match = length.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z]+)$/i);
+        if (!match) {
+            return null;
+        }
+
+        const [, value, unit] = match;
+        const lowerCaseUnit = unit.toLowerCase();
+        return isLengthUnit(lowerCaseUnit) ? { value: parseFloat(value), unit: lowerCaseUnit } : null;
+    }
+
+    if (length && typeof length === "object" && Number.isFinite(length.value) && isLengthUnit(length.unit)) {
+        return { value: length.value, unit: length.unit };
+    }
+
+    return null;
+};
+
+/**
+ * Convert a value from one unit to another.
+ *
+ * @param value - The value to convert.
+ * @param fromUnit - The unit of the value.
+ * @param toUnit - The unit to convert the value to.
+ * @returns {number} The value in the new unit.
+ * @example convertLength(1, "in", "mm") // 25.4
+ */
+export const convertLength = (value: number, fromUnit: LengthUnit, toUnit: LengthUnit): number => {
+    if (fromUnit === toUnit) {
+        return value;
+    }
+
+    return (value / UNITS_PER_INCH[fromUnit]) * UNITS_PER_INCH[toUnit];
+};
+
+/**
+ * Resolve a length to a value in the given unit. Plain numbers are taken to already be in that unit.
+ *
+ * @param length - The length to resolve.
+ * @param unit - The unit to resolve the length to.
+ * @returns {Nullable<number>} The value in the given unit or null if the length is invalid.
+ * @example resolveLength("72pt", "mm") // 25.4
+ */
+export const resolveLength = (length: Length, unit: LengthUnit): Nullable<number> => {
+    const lengthValue = parseLength(length, unit);
+    if (!lengthValue) {
+        return null;
+    }
+
+    return convertLength(lengthValue.value, lengthValue.unit, unit);
+};
+
+/**
+ * Resolve the length on each side of the page to a value in the given unit.
+ *
+ * @param lengthConfig - The lengths to resolve.
+ * @param unit - The unit to resolve the lengths to.
+ * @returns {Nullable<Record<PageSide, number>>} The values in the given unit or null if any length is invalid.
+ */
+export const resolveLengthConfig = (lengthConfig: LengthConfig, unit: LengthUnit): Nullable<Record<PageSide, number>> => {
+    const resolvedConfig = {} as Record<PageSide, number>;
+    for (const side of pageSides) {
+        const value = resolveLength(lengthConfig[side], unit);
+        if (value === null) {
+            return null;
+        }
+
+        resolvedConfig[side] = value;
+    }
+
+    return resolvedConfig;
+};
+
+/**
+ * Convert a stored value to the display unit. Values are returned unchanged when there is no display unit.
+ *
+ * @param value - The stored value.
+ * @param storageUnit - The unit the value is stored in.
+ * @param displayUnit - The unit to display the value in, if any.
+ * @returns {number} The value in the display unit.
+ */
+export const toDisplayLength = (value: number, storageUnit: LengthUnit, displayUnit: Nullable<LengthUnit>): number => {
+    return displayUnit ? convertLength(value, storageUnit, displayUnit) : value;
+};
+
+/**
+ * Convert the stored value on each side of the page to the display unit.
+ *
+ * @param config - The stored values.
+ * @param storageUnit - The unit the values are stored in.
+ * @param displayUnit - The unit to display the values in, if any.
+ * @returns {T} The values in the display unit.
+ */
+export const toDisplayLengthConfig = <T extends Record<PageSide, number>>(
+    config: T,
+    storageUnit: LengthUnit,
+    displayUnit: Nullable<LengthUnit>
+): T => {
+    if (!displayUnit) {
+        return config;
+    }
+
+    const displayConfig = { ...config };
+    for (const side of pageSides) {
+        displayConfig[side] = convertLength(config[side], storageUnit, displayUnit) as T[PageSide];
+    }
+
+    return displayConfig;
+};
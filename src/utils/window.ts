@@ -4,30 +4,136 @@
  * @description Utility functions for interacting with the window object.
  */
 
-import { MM_PER_INCH, STANDARD_PIXELS_PER_INCH } from "../constants/sizing";
-import { pythagoreanTheorem } from "./math";
+import { EditorView } from "@tiptap/pm/view";
+import { STANDARD_PIXELS_PER_MM } from "../constants/sizing";
+import { BODY_NODE_NAME } from "../constants/body";
+import { Nullable } from "../types/record";
+import { Length } from "../types/units";
+import { resolveLength } from "./units";
 
 /**
- * Calculates the DPI of the window.
- * @returns The DPI of the window.
+ * The relative change in the rendered pixels per millimetre below which it is treated
+ * as unchanged, to ignore sub-pixel rounding between measurements.
  */
-const calculateWindowDPI = (): number => {
-    const ratio =
-        pythagoreanTheorem(window.screen.width, window.screen.height) /
-        pythagoreanTheorem(window.screen.availWidth, window.screen.availHeight);
-    const dpi = ratio * STANDARD_PIXELS_PER_INCH;
+const PIXELS_PER_MM_TOLERANCE = 1e-3;
 
-    return dpi;
+/**
+ * The number of rendered CSS pixels per millimetre of each editor view, as last measured.
+ * Views which have not been measured use the CSS reference of 96 pixels per inch.
+ */
+const renderedPixelsPerMM = new WeakMap<EditorView, number>();
+
+/**
+ * Get the factor the editor scales an element by when rendering it, e.g. with a CSS
+ * transform or zoom on one of its ancestors.
+ *
+ * @param element - The element.
+ * @param layoutHeight - The height of the element's border box before scaling, in CSS pixels.
+ * @returns {Nullable<number>} The scale factor or null if the element is not rendered.
+ */
+const getRenderedScale = (element: HTMLElement, layoutHeight: number): Nullable<number> => {
+    const { height } = element.getBoundingClientRect();
+    if (!height || !layoutHeight) {
+        return null;
+    }
+
+    return height / layoutHeight;
+};
+
+/**
+ * Measure the rendered CSS pixels per millimetre from a body node view. The body is
+ * sized in millimetres, so comparing its size with its rendered size takes the editor's
+ * zoom into account.
+ *
+ * @param bodyDOM - The DOM element of the body node view.
+ * @returns {Nullable<number>} The pixels per millimetre or null if the body cannot be measured.
+ */
+const measureBodyPixelsPerMM = (bodyDOM: HTMLElement): Nullable<number> => {
+    const heightMM = resolveLength(bodyDOM.style.getPropertyValue("height") as Length, "mm");
+    if (!heightMM) {
+        return null;
+    }
+
+    const style = window.getComputedStyle(bodyDOM);
+    const height = parseFloat(style.height);
+    const verticalBoxEdges =
+        style.boxSizing === "border-box"
+            ? 0
+            : [style.paddingTop, style.paddingBottom, style.borderTopWidth, style.borderBottomWidth].reduce(
+                  (total, edge) => total + (parseFloat(edge) || 0),
+                  0
+              );
+
+    const scale = getRenderedScale(bodyDOM, height + verticalBoxEdges);
+    if (!scale) {
+        return null;
+    }
+
+    return (scale * height) / heightMM;
+};
+
+/**
+ * Measure the rendered CSS pixels per millimetre in the editor. Falls back to the scale
+ * of the editor element when no page has been rendered yet.
+ *
+ * @param view - The editor view.
+ * @returns {Nullable<number>} The pixels per millimetre or null if the editor is not rendered.
+ */
+const measureRenderedPixelsPerMM = (view: EditorView): Nullable<number> => {
+    const bodyDOM = view.dom.querySelector(`.${BODY_NODE_NAME}`);
+    if (bodyDOM instanceof HTMLElement) {
+        const pixelsPerMM = measureBodyPixelsPerMM(bodyDOM);
+        if (pixelsPerMM) {
+            return pixelsPerMM;
+        }
+    }
+
+    const scale = getRenderedScale(view.dom, view.dom.offsetHeight);
+    return scale ? scale * STANDARD_PIXELS_PER_MM : null;
+};
+
+/**
+ * Get the pixels per millimetre used to convert the page dimensions of an editor view to pixels.
+ *
+ * @param view - The editor view or null when pagination is not measured in the DOM.
+ * @returns {number} The pixels per millimetre of the view as last measured, or the CSS
+ * reference of 96 pixels per inch if it has not been measured.
+ */
+export const getPixelsPerMM = (view: Nullable<EditorView>): number => {
+    return (view && renderedPixelsPerMM.get(view)) ?? STANDARD_PIXELS_PER_MM;
+};
+
+/**
+ * Measure the pixels per millimetre of an editor view whose nodes are measured in its DOM,
+ * so page dimensions match what is on screen at any zoom level.
+ *
+ * @param view - The editor view to measure.
+ * @returns {boolean} True if the pixels per millimetre of the view changed, false otherwise.
+ */
+export const updatePixelsPerMM = (view: EditorView): boolean => {
+    const pixelsPerMM = typeof window !== "undefined" ? measureRenderedPixelsPerMM(view) : null;
+    const previousPixelsPerMM = getPixelsPerMM(view);
+    const currentPixelsPerMM = pixelsPerMM ?? STANDARD_PIXELS_PER_MM;
+    if (Math.abs(currentPixelsPerMM - previousPixelsPerMM) <= previousPixelsPerMM * PIXELS_PER_MM_TOLERANCE) {
+        return false;
+    }
+
+    if (pixelsPerMM) {
+        renderedPixelsPerMM.set(view, pixelsPerMM);
+    } else {
+        renderedPixelsPerMM.delete(view);
+    }
+
+    return true;
 };
 
 /**
  * Converts millimeters to pixels.
  *
  * @param mm - The length in millimeters.
+ * @param pixelsPerMM - The pixels per millimetre, e.g. of an editor view as rendered.
  * @returns The length in pixels.
  */
-export const mmToPixels = (mm: number): number => {
-    const dpi = calculateWindowDPI();
-    const inches = mm / MM_PER_INCH;
-    return inches * dpi;
+export const mmToPixels = (mm: number, pixelsPerMM: number): number => {
+    return mm * pixelsPerMM;
 };
@@ -0,0 +1,72 @@
+/**
+ * @file /test/docx.test.ts
+ * @name Docx
+ * @description Tests for importing and exporting Word (DOCX) documents.
+ */
+
+import { describe, expect, it } from "vitest";
+import { exportDocx } from "../src/utils/docx/exportDocx";
+import { importDocx } from "../src/utils/docx/importDocx";
+import { formatSectionProperties, getPageSectionProperties, mmToTwips, twipsToMm } from "../src/utils/docx/sectionProperties";
+import { createDoc, createPaginationSchema, paginate, paragraph } from "./helpers";
+
+describe("DOCX", () => {
+    it("converts lengths between twips and millimetres without drifting", () => {
+        [4535, 4536, 11906, 16838, 1134, 1].forEach((twips) => expect(mmToTwips(twipsToMm(twips))).toBe(twips));
+        [80, 80.1, 210, 297, 25.4, 12.7].forEach((mm) => expect(twipsToMm(mmToTwips(mm))).toBe(mm));
+    });
+
+    it("exports page borders only when they have been set on the page", () => {
+        const { schema, options } = createPaginationSchema();
+        const doc = paginate(createDoc(schema, [paragraph("Text")]), options);
+        const properties = getPageSectionProperties(doc.child(0));
+
+        expect(properties.pageBorders).toBeNull();
+        expect(formatSectionProperties(properties)).not.toContain("w:pgBorders");
+        expect(formatSectionProperties({ ...properties, pageBorders: { top: 1, right: 1, bottom: 1, left: 1 } })).toContain("w:pgBorders");
+    });
+
+    it("keeps the page size and default page borders through a round trip", () => {
+        const paperSize = { width: 80.01, height: 200 };
+        const { schema, options } = createPaginationSchema({ defaultPaperSize: paperSize });
+        const doc = paginate(createDoc(schema, [paragraph("Text")]), options);
+
+        const page = importDocx(exportDocx(doc), schema).child(0);
+
+        expect(page.attrs.paperSize).toEqual(paperSize);
+        expect(page.attrs.pageBorders).toBeNull();
+    });
+
+    it("keeps page borders set to the width of the page outline through a round trip", () => {
+        const pageBorders = { top: 1, right: 1, bottom: 1, left: 1 };
+        const { schema, options } = createPaginationSchema();
+        const doc = paginate(createDoc(schema, [paragraph("Text")]), options);
+        const pages = doc.type.create(doc.attrs, [doc.child(0).type.create({ ...doc.child(0).attrs, pageBorders }, doc.child(0).content)]);
+
+        const page = importDocx(exportDocx(pages), schema).child(0);
+
+        expect(page.attrs.pageBorders).toEqual(pageBorders);
+    });
+
+    it("exports and imports whether the first page and even pages have their own header and footer", () => {
+        const { schema, options } = createPaginationSchema();
+        const attrs = { differentFirstPage: true, differentOddEven: true };
+        const doc = paginate(
+            createDoc(schema, [{ type: "page", attrs, content: [{ type: "body", content: [paragraph("Text")] }] }]),
+            options
+        );
+        const properties = getPageSectionProperties(doc.child(0));
+
+        expect(formatSectionProperties(properties)).toContain("w:titlePg");
+        expect(importDocx(exportDocx(doc), schema).child(0).attrs).toMatchObject(attrs);
+
+        // Pages without the settings follow the options
+        const defaultDoc = paginate(createDoc(schema, [paragraph("Text")]), options);
+        const pageAmendmentOptions = { differentFirstPage: true, differentOddEven: false };
+        expect(importDocx(exportDocx(defaultDoc, { pageAmendmentOptions }), schema).child(0).attrs).toMatchObject(pageAmendmentOptions);
+        expect(importDocx(exportDocx(defaultDoc), schema).child(0).attrs).toMatchObject({
+            differentFirstPage: false,
+            differentOddEven: false,
+        });
+    });
+});
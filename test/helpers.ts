@@ -0,0 +1,91 @@
+/**
+ * @file /test/helpers.ts
+ * @name Helpers
+ * @description Shared schema and document builders for the tests.
+ */
+
+import { getSchema, Node as TiptapNode } from "@tiptap/core";
+import { Node as PMNode, Schema } from "@tiptap/pm/model";
+import PaginationExtension, {
+    BodyNode,
+    ColumnBreakNode,
+    HeaderFooterNode,
+    PageBreakNode,
+    PageNode,
+    PaginationOptions,
+    SectionBreakNode,
+    createTextMetricsMeasurementBackend,
+    paginateDocument,
+} from "../src";
+
+const DocumentNode = TiptapNode.create({ name: "doc", topNode: true, content: "block+" });
+const TextNode = TiptapNode.create({ name: "text", group: "inline" });
+const ParagraphNode = TiptapNode.create({
+    name: "paragraph",
+    group: "block",
+    content: "inline*",
+    parseHTML: () => [{ tag: "p" }],
+    renderHTML: () => ["p", 0],
+});
+
+export const TEXT =
+    "Lorem ipsum dolor sit amet, consectetur adipiscing elit, sed do eiusmod tempor incididunt ut labore et dolore magna aliqua. ";
+
+export const baseExtensions = [DocumentNode, TextNode, ParagraphNode];
+
+export const paginationNodes = [PageNode, BodyNode, HeaderFooterNode, PageBreakNode, SectionBreakNode, ColumnBreakNode];
+
+/**
+ * Create the pagination extension and a schema with the pagination nodes.
+ *
+ * @param options - The pagination options.
+ * @returns The configured extension, its options and the schema.
+ */
+export const createPaginationSchema = (options: Partial<PaginationOptions> = {}) => {
+    const pagination = PaginationExtension.configure(options);
+    const schema = getSchema([...baseExtensions, pagination, ...paginationNodes]);
+
+    return { pagination, options: pagination.options as PaginationOptions, schema };
+};
+
+/**
+ * Create a paragraph as JSON.
+ *
+ * @param text - The text of the paragraph.
+ * @returns The paragraph JSON.
+ */
+export const paragraph = (text: string) => ({ type: "paragraph", content: [{ type: "text", text }] });
+
+/**
+ * Create a document from the JSON of its blocks.
+ *
+ * @param schema - The schema.
+ * @param blocks - The blocks of the document as JSON.
+ * @returns {PMNode} The document.
+ */
+export const createDoc = (schema: Schema, blocks: object[]): PMNode => {
+    return PMNode.fromJSON(schema, { type: "doc", content: blocks });
+};
+
+/**
+ * Paginate a document headlessly with the text metrics backend.
+ *
+ * @param doc - The document.
+ * @param options - The pagination options.
+ * @returns {PMNode} The paginated document.
+ */
+export const paginate = (doc: PMNode, options: PaginationOptions): PMNode => {
+    const paginated = paginateDocument(doc, options, createTextMetricsMeasurementBackend());
+    paginated.check();
+    return paginated;
+};
+
+/**
+ * Get the body nodes of the pages of a document.
+ *
+ * @param doc - The paginated document.
+ * @returns {PMNode[]} The body of each page.
+ */
+export const getBodies = (doc: PMNode): PMNode[] => {
+    return doc.children.map((page) => page.children.find((region) => region.type.name === "body")!);
+};
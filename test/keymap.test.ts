@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+
+/**
+ * @file /test/keymap.test.ts
+ * @name Keymap
+ * @description Tests for the keyboard handling of paginated documents.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { Editor } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { TextSelection } from "@tiptap/pm/state";
+import { createTextMetricsMeasurementBackend } from "../src";
+import { SPLIT_CONTINUATION_ATTR } from "../src/constants/split";
+import { forEachBodyChild } from "../src/utils/nodes/body/bodyPosition";
+import { baseExtensions, createDoc, createPaginationSchema, paginate, paragraph, paginationNodes, TEXT } from "./helpers";
+
+const text = TEXT.repeat(30);
+
+let editor: Editor;
+
+afterEach(() => {
+    editor?.destroy();
+});
+
+/**
+ * Create an editor holding a paragraph split between the two columns of a page.
+ *
+ * @returns {Editor} The editor.
+ */
+const createEditorWithSplitParagraph = (): Editor => {
+    const { pagination, schema, options } = createPaginationSchema({ measurementBackend: createTextMetricsMeasurementBackend() });
+    const columns = { count: 2, gap: 10, rule: false };
+    const doc = paginate(
+        createDoc(schema, [{ type: "page", content: [{ type: "body", attrs: { columns }, content: [paragraph(text)] }] }]),
+        options
+    );
+
+    return new Editor({ extensions: [...baseExtensions, pagination, ...paginationNodes], content: doc.toJSON() });
+};
+
+/**
+ * Get the fragments of the split paragraph and their positions, in order.
+ *
+ * @param doc - The document.
+ * @returns {{ node: PMNode; pos: number }[]} The fragments and their positions.
+ */
+const getFragments = (doc: PMNode): { node: PMNode; pos: number }[] => {
+    const fragments: { node: PMNode; pos: number }[] = [];
+    forEachBodyChild(doc, (node, pos) => fragments.push({ node, pos }));
+    return fragments;
+};
+
+/**
+ * Press a key in the editor.
+ *
+ * @param key - The name of the key.
+ */
+const pressKey = (key: string): void => {
+    const { view } = editor;
+    const event = new KeyboardEvent("keydown", { key });
+    view.someProp("handleKeyDown", (handleKeyDown) => handleKeyDown(view, event));
+};
+
+/**
+ * Get the text of the split paragraph, joining its fragments.
+ *
+ * @returns {string} The text of the paragraph.
+ */
+const getParagraphText = (): string => {
+    return getFragments(editor.state.doc)
+        .map(({ node }) => node.textContent)
+        .join("");
+};
+
+describe("Keymap", () => {
+    it("deletes the last character before the split when Backspace is pressed at the start of a continuation", () => {
+        editor = createEditorWithSplitParagraph();
+        const [head, continuation] = getFragments(editor.state.doc);
+        expect(continuation.node.attrs[SPLIT_CONTINUATION_ATTR]).toBe(true);
+
+        const { tr } = editor.state;
+        editor.view.dispatch(tr.setSelection(TextSelection.create(tr.doc, continuation.pos + 1)));
+        pressKey("Backspace");
+
+        const splitOffset = head.node.content.size;
+        expect(getParagraphText()).toBe(text.slice(0, splitOffset - 1) + text.slice(splitOffset));
+    });
+
+    it("deletes the first character after the split when Delete is pressed at the end of the first fragment", () => {
+        editor = createEditorWithSplitParagraph();
+        const [head] = getFragments(editor.state.doc);
+
+        const { tr } = editor.state;
+        editor.view.dispatch(tr.setSelection(TextSelection.create(tr.doc, head.pos + 1 + head.node.content.size)));
+        pressKey("Delete");
+
+        const splitOffset = head.node.content.size;
+        expect(getParagraphText()).toBe(text.slice(0, splitOffset) + text.slice(splitOffset + 1));
+    });
+});
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+
+/**
+ * @file /test/pageNumberField.test.ts
+ * @name PageNumberField
+ * @description Tests for the values of page number fields.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { Editor, getSchema } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import PaginationExtension, { createTextMetricsMeasurementBackend, PageNumberNode, SectionPageNumberNode } from "../src";
+import { PAGE_NUMBER_FIELD_VALUE_KEY } from "../src/constants/pageNumberField";
+import PageNumberFieldsPlugin from "../src/Plugins/PageNumberFields";
+import { forEachBodyChild } from "../src/utils/nodes/body/bodyPosition";
+import { getPageNumberFieldValue } from "../src/utils/nodes/pageNumberField";
+import { baseExtensions, createDoc, createPaginationSchema, paginate, paginationNodes } from "./helpers";
+
+const schema = getSchema([...baseExtensions, PaginationExtension, ...paginationNodes, PageNumberNode, SectionPageNumberNode]);
+
+/**
+ * Create the JSON of a page holding page number fields.
+ *
+ * @param section - The section the page is in.
+ * @param pageNumberFormat - The page number format of the page.
+ * @returns The page JSON.
+ */
+const page = (section: number, pageNumberFormat: string) => ({
+    type: "page",
+    attrs: { section, pageNumberFormat },
+    content: [{ type: "body", content: [{ type: "paragraph", content: [{ type: "pageNumber" }, { type: "sectionPageNumber" }] }] }],
+});
+
+/**
+ * Get the values of the fields of a type, in document order.
+ *
+ * @param doc - The document.
+ * @param fieldType - The type of the fields.
+ * @returns {string[]} The values of the fields.
+ */
+const getFieldValues = (doc: PMNode, fieldType: "pageNumber" | "sectionPageNumber"): string[] => {
+    const values: string[] = [];
+    doc.descendants((node, pos) => {
+        if (node.type.name === fieldType) {
+            values.push(getPageNumberFieldValue(doc, pos, fieldType));
+        }
+    });
+
+    return values;
+};
+
+describe("getPageNumberFieldValue", () => {
+    it("displays section page numbers in the page number format of their page", () => {
+        const doc = createDoc(schema, [page(0, "arabic"), page(1, "lowerRoman"), page(1, "lowerRoman")]);
+
+        expect(getFieldValues(doc, "pageNumber")).toEqual(["1", "ii", "iii"]);
+        expect(getFieldValues(doc, "sectionPageNumber")).toEqual(["1", "i", "ii"]);
+    });
+});
+
+describe("PageNumberFieldsPlugin", () => {
+    let editor: Editor;
+
+    afterEach(() => {
+        editor?.destroy();
+    });
+
+    /**
+     * Get the values the page number fields of the editor are decorated with, in document order.
+     *
+     * @returns {string[]} The decorated values.
+     */
+    const getDecoratedValues = (): string[] => {
+        const decorations = PageNumberFieldsPlugin.getState(editor.state)?.decorations.find() ?? [];
+        return decorations.sort((a, b) => a.from - b.from).map((decoration) => decoration.spec[PAGE_NUMBER_FIELD_VALUE_KEY]);
+    };
+
+    /**
+     * Get the positions of the paragraphs in the page bodies of the editor, in document order.
+     *
+     * @returns {number[]} The positions of the paragraphs.
+     */
+    const getParagraphPositions = (): number[] => {
+        const positions: number[] = [];
+        forEachBodyChild(editor.state.doc, (node, pos) => {
+            if (node.type.name === "paragraph") {
+                positions.push(pos);
+            }
+        });
+
+        return positions;
+    };
+
+    it("keeps field values up to date as fields are edited and pages are renumbered", () => {
+        const { pagination, options } = createPaginationSchema({ measurementBackend: createTextMetricsMeasurementBackend() });
+        const field = { type: "paragraph", content: [{ type: "text", text: "Page " }, { type: "pageNumber" }] };
+        const doc = paginate(createDoc(schema, [field, { type: "pageBreak" }, field]), options);
+
+        editor = new Editor({ extensions: [...baseExtensions, pagination, ...paginationNodes, PageNumberNode], content: doc.toJSON() });
+        expect(getDecoratedValues()).toEqual(["1", "2"]);
+
+        // Typing leaves the pages numbered as they were
+        editor.commands.insertContentAt(getParagraphPositions()[0] + 1, "The ");
+        expect(getDecoratedValues()).toEqual(["1", "2"]);
+
+        editor.commands.insertContentAt(getParagraphPositions()[1] + 1, { type: "pageNumber" });
+        expect(getDecoratedValues()).toEqual(["1", "2", "2"]);
+
+        editor.commands.setDocumentPageNumberFormat("lowerRoman");
+        expect(getDecoratedValues()).toEqual(["i", "ii", "ii"]);
+    });
+});
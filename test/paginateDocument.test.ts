@@ -0,0 +1,125 @@
+/**
+ * @file /test/paginateDocument.test.ts
+ * @name PaginateDocument
+ * @description Tests for paginating documents without an editor.
+ */
+
+import { describe, expect, it } from "vitest";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { paperSizes } from "../src/constants/paperSize";
+import { SPLIT_CONTINUATION_ATTR } from "../src/constants/split";
+import { isValidPaperSize } from "../src/utils/nodes/page/attributes/paperSize";
+import { calculateBodyDimensions } from "../src/utils/pageRegion/dimensions";
+import { createDoc, createPaginationSchema, getBodies, paginate, paragraph, TEXT } from "./helpers";
+
+/**
+ * Get the body children of a paginated document in order.
+ *
+ * @param doc - The paginated document.
+ * @returns {PMNode[]} The children of every page body.
+ */
+const getBodyChildren = (doc: PMNode): PMNode[] => getBodies(doc).flatMap((body) => body.children);
+
+describe("paginateDocument", () => {
+    it("keeps a paragraph split between columns as one logical paragraph across repaginations", () => {
+        const { schema, options } = createPaginationSchema();
+        const text = TEXT.repeat(30);
+        const columns = { count: 2, gap: 10, rule: false };
+        let doc = createDoc(schema, [{ type: "page", content: [{ type: "body", attrs: { columns }, content: [paragraph(text)] }] }]);
+
+        const passes: PMNode[] = [];
+        for (let pass = 0; pass < 3; pass++) {
+            doc = paginate(doc, options);
+            passes.push(doc);
+
+            const children = getBodyChildren(doc);
+            expect(children.length).toBeGreaterThan(2);
+            expect(children[0].attrs[SPLIT_CONTINUATION_ATTR]).toBe(false);
+            children.slice(1).forEach((child) => expect(child.attrs[SPLIT_CONTINUATION_ATTR]).toBe(true));
+            expect(children.map((child) => child.textContent).join("")).toBe(text);
+        }
+
+        // The first page's columns both hold a fragment of the paragraph
+        expect(getBodies(passes[0])[0].childCount).toBe(2);
+        expect(passes[2].eq(passes[1])).toBe(true);
+        expect(passes[1].eq(passes[0])).toBe(true);
+    });
+
+    it("carries settings a section break leaves unset over from the section before, on every pass", () => {
+        const { schema, options } = createPaginationSchema();
+        let doc = createDoc(schema, [
+            ...Array.from({ length: 8 }, () => paragraph(TEXT.repeat(4))),
+            { type: "sectionBreak", attrs: { paperOrientation: "landscape", columns: { count: 2, gap: 10, rule: false } } },
+            ...Array.from({ length: 8 }, () => paragraph(TEXT.repeat(4))),
+            { type: "sectionBreak", attrs: { paperSize: "Letter" } },
+            ...Array.from({ length: 8 }, () => paragraph(TEXT.repeat(4))),
+        ]);
+
+        const passes: PMNode[] = [];
+        for (let pass = 0; pass < 3; pass++) {
+            doc = paginate(doc, options);
+            passes.push(doc);
+
+            const bodies = getBodies(doc);
+            const lastSectionPages = doc.children.filter((page) => page.attrs.section === 2);
+            expect(lastSectionPages.length).toBeGreaterThan(0);
+            lastSectionPages.forEach((page) => {
+                expect(page.attrs.paperSize).toBe("Letter");
+                expect(page.attrs.paperOrientation).toBe("landscape");
+                expect(bodies[doc.children.indexOf(page)].attrs.columns.count).toBe(2);
+            });
+        }
+
+        expect(passes[1].eq(passes[0])).toBe(true);
+        expect(passes[2].eq(passes[1])).toBe(true);
+    });
+
+    it("lays out content in one pass as it is laid out once it is on pages", () => {
+        const { schema, options } = createPaginationSchema();
+        const doc = createDoc(schema, [
+            ...Array.from({ length: 6 }, () => paragraph(TEXT.repeat(4))),
+            { type: "sectionBreak", attrs: { paperOrientation: "landscape", columns: { count: 3, gap: 10, rule: false } } },
+            ...Array.from({ length: 12 }, () => paragraph(TEXT.repeat(4))),
+        ]);
+
+        const firstPass = paginate(doc, options);
+        const secondPass = paginate(firstPass, options);
+
+        expect(secondPass.eq(firstPass)).toBe(true);
+    });
+
+    it("gives pages the header variants of the settings stored on them rather than the options", () => {
+        const { schema, options } = createPaginationSchema();
+        const blocks = Array.from({ length: 16 }, () => paragraph(TEXT.repeat(4)));
+        const attrs = { differentFirstPage: true, differentOddEven: true };
+        const doc = paginate(createDoc(schema, [{ type: "page", attrs, content: [{ type: "body", content: blocks }] }]), options);
+
+        // The settings survive saving and loading the document as JSON
+        const reloaded = paginate(PMNode.fromJSON(schema, doc.toJSON()), options);
+        [doc, reloaded].forEach((paginated) => {
+            expect(paginated.childCount).toBeGreaterThan(2);
+            const variants = paginated.children.map((page) => page.firstChild?.attrs.variant);
+            expect(variants.slice(0, 3)).toEqual(["first", "even", "default"]);
+            paginated.forEach((page) => expect(page.attrs).toMatchObject(attrs));
+        });
+    });
+
+    it("lays out pages at a custom paper size without adding it to the built-in paper sizes", () => {
+        const customPaperSizes = { Receipt: { width: 80, height: 200 } };
+        const { schema, options } = createPaginationSchema({ defaultPaperSize: "Receipt", customPaperSizes });
+        const blocks = Array.from({ length: 8 }, () => paragraph(TEXT.repeat(4)));
+
+        const doc = paginate(createDoc(schema, blocks), options);
+        const a4Doc = paginate(createDoc(schema, blocks), createPaginationSchema().options);
+
+        expect(doc.childCount).toBeGreaterThan(a4Doc.childCount);
+        doc.forEach((page, _, index) => {
+            expect(page.attrs.paperSize).toBe("Receipt");
+            expect(calculateBodyDimensions(page, getBodies(doc)[index], customPaperSizes).width).toBeLessThan(80);
+        });
+
+        expect(isValidPaperSize("Receipt", customPaperSizes)).toBe(true);
+        expect(isValidPaperSize("Receipt")).toBe(false);
+        expect(paperSizes).not.toContain("Receipt");
+    });
+});
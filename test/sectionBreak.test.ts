@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+
+/**
+ * @file /test/sectionBreak.test.ts
+ * @name SectionBreak
+ * @description Tests for setting the page setup of sections.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Editor } from "@tiptap/core";
+import { EditorState } from "@tiptap/pm/state";
+import { createTextMetricsMeasurementBackend } from "../src";
+import {
+    collectSectionBreakNodes,
+    getSectionBreakAttributes,
+    resolveSectionAttributes,
+    setSectionAttributes,
+} from "../src/utils/nodes/sectionBreak";
+import { baseExtensions, createDoc, createPaginationSchema, paginate, paragraph, paginationNodes } from "./helpers";
+
+let editor: Editor;
+
+afterEach(() => {
+    editor?.destroy();
+    vi.restoreAllMocks();
+});
+
+describe("Section breaks", () => {
+    it("resolves the lengths of section settings to the units they are stored in", () => {
+        const sectionAttributes = resolveSectionAttributes(
+            {
+                paperSize: { width: "8.5in", height: "11in" },
+                pageMargins: { top: "1in", right: 20, bottom: "72pt", left: "20mm" },
+                pageBorders: { top: "0.75pt", right: 2, bottom: 2, left: 2 },
+                columns: { count: 2, gap: "0.5in", rule: false },
+            },
+            {}
+        );
+
+        expect(sectionAttributes).toMatchObject({
+            paperSize: { width: expect.closeTo(215.9), height: expect.closeTo(279.4) },
+            pageMargins: { top: 25.4, right: 20, bottom: 25.4, left: 20 },
+            pageBorders: { top: 1, right: 2, bottom: 2, left: 2 },
+            columns: { count: 2, gap: 12.7, rule: false },
+        });
+    });
+
+    it("rejects negative and non-numeric section settings without changing the section", () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const { schema, options } = createPaginationSchema();
+        const doc = paginate(createDoc(schema, [paragraph("First"), { type: "sectionBreak" }, paragraph("Second")]), options);
+        const state = EditorState.create({ doc });
+        const dispatch = vi.fn();
+
+        const invalidSettings = [
+            { pageMargins: { top: -1, right: 10, bottom: 10, left: 10 } },
+            { pageMargins: { top: NaN, right: 10, bottom: 10, left: 10 } },
+            { pageBorders: { top: "-1px", right: 1, bottom: 1, left: 1 } },
+            { columns: { count: 2, gap: -5, rule: false } },
+            { paperSize: { width: "abc", height: 200 } },
+            { paperSize: { width: -80, height: 200 } },
+            { pageNumberStart: -1 },
+            { pageNumberStart: 1.5 },
+        ] as const;
+        invalidSettings.forEach((sectionAttributes) => {
+            expect(setSectionAttributes(state.tr, dispatch, 1, sectionAttributes, {})).toBe(false);
+            expect(setSectionAttributes(state.tr, dispatch, 0, sectionAttributes, {})).toBe(false);
+        });
+        expect(dispatch).not.toHaveBeenCalled();
+
+        const tr = state.tr;
+        expect(setSectionAttributes(tr, dispatch, 1, { pageMargins: { top: "1in", right: 10, bottom: 10, left: 10 } }, {})).toBe(true);
+        const [{ node: sectionBreak }] = collectSectionBreakNodes(tr.doc);
+        expect(getSectionBreakAttributes(sectionBreak).pageMargins).toEqual({ top: 25.4, right: 10, bottom: 10, left: 10 });
+    });
+
+    it("only sets the settings of pages which do not take them from their section", () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const { pagination, schema, options } = createPaginationSchema({ measurementBackend: createTextMetricsMeasurementBackend() });
+        const doc = paginate(createDoc(schema, [paragraph("First"), { type: "sectionBreak" }, paragraph("Second")]), options);
+        editor = new Editor({ extensions: [...baseExtensions, pagination, ...paginationNodes], content: doc.toJSON() });
+
+        const margins = { top: 10, right: 10, bottom: 10, left: 10 };
+        const pageSetters = [
+            (pageNum: number) => editor.commands.setPagePaperSize(pageNum, "A3"),
+            (pageNum: number) => editor.commands.setPagePaperOrientation(pageNum, "landscape"),
+            (pageNum: number) => editor.commands.setPagePageMargins(pageNum, margins),
+            (pageNum: number) => editor.commands.setPagePageMargin(pageNum, "top", 10),
+            (pageNum: number) => editor.commands.setPageBorders(pageNum, { top: 2, right: 2, bottom: 2, left: 2 }),
+            (pageNum: number) => editor.commands.setPagePageBorder(pageNum, "top", 3),
+            (pageNum: number) => editor.commands.setPageNumberFormat(pageNum, "lowerRoman"),
+            (pageNum: number) => editor.commands.setPageNumberStart(pageNum, 5),
+            (pageNum: number) => editor.commands.setPageColumns(pageNum, { count: 2, gap: 10, rule: false }),
+        ];
+
+        const secondSectionPage = editor.state.doc.child(1).toJSON();
+        pageSetters.forEach((setPageSetting) => expect(setPageSetting(1)).toBe(false));
+        expect(editor.state.doc.child(1).toJSON()).toEqual(secondSectionPage);
+
+        pageSetters.forEach((setPageSetting) => expect(setPageSetting(0)).toBe(true));
+        expect(editor.state.doc.child(0).attrs.paperSize).toBe("A3");
+
+        expect(editor.commands.setSectionAttributes(1, { paperSize: "A3" })).toBe(true);
+        expect(getSectionBreakAttributes(collectSectionBreakNodes(editor.state.doc)[0].node).paperSize).toBe("A3");
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file /test/textMetrics.test.ts
+ * @name TextMetrics
+ * @description Tests for the text metrics measurement backend.
+ */
+
+import { describe, expect, it } from "vitest";
+import { resolveTextMetricsOptions, wrapTextblock } from "../src/utils/measurement/textMetrics";
+import { createDoc, createPaginationSchema, getBodies, paginate, paragraph, TEXT } from "./helpers";
+
+/**
+ * Check if a string starts with the second half of a surrogate pair.
+ *
+ * @param text - The string.
+ * @returns {boolean} True if the string starts inside a surrogate pair, false otherwise.
+ */
+const startsWithLowSurrogate = (text: string): boolean => /^[\uDC00-\uDFFF]/.test(text);
+
+describe("wrapTextblock", () => {
+    it("counts line break offsets in UTF-16 code units after a surrogate pair", () => {
+        const { schema } = createPaginationSchema();
+        const options = resolveTextMetricsOptions({ charWidths: {} });
+        const wrap = (text: string): number[] => wrapTextblock(options, schema.nodeFromJSON(paragraph(text)), 200);
+
+        const offsets = wrap("x" + TEXT.repeat(3));
+        const emojiOffsets = wrap("😀" + TEXT.repeat(3));
+
+        expect(offsets.length).toBeGreaterThan(2);
+        expect(emojiOffsets).toEqual(offsets.map((offset) => (offset === 0 ? 0 : offset + 1)));
+    });
+
+    it("splits a paragraph with surrogate pairs between code points", () => {
+        const { schema, options } = createPaginationSchema();
+        const text = "😀😀😀😀 ".repeat(400);
+        const columns = { count: 2, gap: 10, rule: false };
+        const doc = paginate(
+            createDoc(schema, [{ type: "page", content: [{ type: "body", attrs: { columns }, content: [paragraph(text)] }] }]),
+            options
+        );
+
+        const fragments = getBodies(doc).flatMap((body) => body.children.map((child) => child.textContent));
+        expect(fragments.length).toBeGreaterThan(1);
+        expect(fragments.join("")).toBe(text);
+        fragments.forEach((fragment) => expect(startsWithLowSurrogate(fragment)).toBe(false));
+    });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+
+/**
+ * @file /test/window.test.ts
+ * @name Window
+ * @description Tests for measuring the rendered scale of editor views.
+ */
+
+import { describe, expect, it } from "vitest";
+import { EditorState } from "@tiptap/pm/state";
+import { EditorView } from "@tiptap/pm/view";
+import { STANDARD_PIXELS_PER_MM } from "../src/constants/sizing";
+import { getPixelsPerMM, updatePixelsPerMM } from "../src/utils/window";
+import { createDoc, createPaginationSchema, paragraph } from "./helpers";
+
+/**
+ * Create an editor view whose element is rendered at the given scale.
+ *
+ * @param scale - The factor the element is scaled by, e.g. with a CSS zoom.
+ * @returns {EditorView} The editor view.
+ */
+const createScaledView = (scale: number): EditorView => {
+    const { schema } = createPaginationSchema();
+    const view = new EditorView(document.createElement("div"), {
+        state: EditorState.create({ doc: createDoc(schema, [paragraph("Text")]) }),
+    });
+
+    const layoutHeight = 100;
+    Object.defineProperty(view.dom, "offsetHeight", { value: layoutHeight });
+    view.dom.getBoundingClientRect = () => ({ height: layoutHeight * scale } as DOMRect);
+    return view;
+};
+
+describe("updatePixelsPerMM", () => {
+    it("keeps the scale of each editor view separately", () => {
+        const zoomedView = createScaledView(2);
+        const view = createScaledView(1);
+
+        expect(updatePixelsPerMM(zoomedView)).toBe(true);
+        expect(updatePixelsPerMM(view)).toBe(false);
+        expect(updatePixelsPerMM(zoomedView)).toBe(false);
+
+        expect(getPixelsPerMM(zoomedView)).toBeCloseTo(2 * STANDARD_PIXELS_PER_MM);
+        expect(getPixelsPerMM(view)).toBeCloseTo(STANDARD_PIXELS_PER_MM);
+        expect(getPixelsPerMM(null)).toBe(STANDARD_PIXELS_PER_MM);
+
+        zoomedView.destroy();
+        view.destroy();
+    });
+});